@@ -1,16 +1,28 @@
 // Notification Service for Midlands Christian College Discipline App
 // Handles push, email, and SMS notifications (push prioritized)
-// To be expanded with integration logic for each channel
+// Delivery goes through the providers registered with the service-layer
+// NotificationService (src/services/notificationService.ts), which retries
+// transient failures and records a delivery status for every send.
+// sendUserNotification applies the recipient's notification preferences
+
+import { notificationService, NotificationDelivery, DeliveryStatus } from './src/services/notificationService';
+import { NotificationChannel } from './src/services/notificationProviders';
 
 /**
  * Sends a push notification to a user.
  * @param {string} userId - Firebase UID
  * @param {string} title - Notification title
  * @param {string} message - Notification message
- * @returns {Promise<any>} Result of push notification
+ * @param {string} sentBy - Firebase UID of the sender ('system' for automated notifications)
+ * @returns {Promise<NotificationDelivery[]>} Delivery record for each of the user's devices
  */
-export async function sendPushNotification(userId: string, title: string, message: string): Promise<any> {
-  // TODO: Integrate with push notification provider (e.g., Expo, FCM)
+export async function sendPushNotification(
+  userId: string,
+  title: string,
+  message: string,
+  sentBy: string = 'system'
+): Promise<NotificationDelivery[]> {
+  return notificationService.sendPushToUser(userId, title, message, { createdBy: sentBy });
 }
 
 /**
@@ -18,20 +30,64 @@ export async function sendPushNotification(userId: string, title: string, messag
  * @param {string} email - User's email
  * @param {string} subject - Email subject
  * @param {string} body - Email body
- * @returns {Promise<any>} Result of email notification
+ * @param {string} sentBy - Firebase UID of the sender ('system' for automated notifications)
+ * @returns {Promise<NotificationDelivery>} Delivery record for the email
  */
-export async function sendEmailNotification(email: string, subject: string, body: string): Promise<any> {
-  // TODO: Integrate with email provider (e.g., SendGrid, SMTP)
+export async function sendEmailNotification(
+  email: string,
+  subject: string,
+  body: string,
+  sentBy: string = 'system'
+): Promise<NotificationDelivery> {
+  return notificationService.sendNotification(
+    { channel: NotificationChannel.EMAIL, recipient: email, subject, body },
+    { createdBy: sentBy }
+  );
 }
 
 /**
  * Sends an SMS notification to a user.
  * @param {string} phoneNumber - User's phone number
  * @param {string} message - SMS message
- * @returns {Promise<any>} Result of SMS notification
+ * @param {string} sentBy - Firebase UID of the sender ('system' for automated notifications)
+ * @returns {Promise<NotificationDelivery>} Delivery record for the SMS
+ */
+export async function sendSMSNotification(
+  phoneNumber: string,
+  message: string,
+  sentBy: string = 'system'
+): Promise<NotificationDelivery> {
+  return notificationService.sendNotification(
+    { channel: NotificationChannel.SMS, recipient: phoneNumber, body: message },
+    { createdBy: sentBy }
+  );
+}
+
+/**
+ * Checks whether a delivery reached the provider.
+ * @param {NotificationDelivery} delivery - Delivery record returned by a send function
+ * @returns {boolean} True if the provider accepted the message
  */
-export async function sendSMSNotification(phoneNumber: string, message: string): Promise<any> {
-  // TODO: Integrate with SMS provider (e.g., Twilio)
+export function isDelivered(delivery: NotificationDelivery): boolean {
+  return delivery.status === DeliveryStatus.SENT;
 }
 
-// Notification preference logic and extensibility to be implemented
\ No newline at end of file
+/**
+ * Sends a notification to a user on the channels their notification preferences allow.
+ * Messages may be held until the user's quiet hours end or for their digest.
+ * @param {string} userId - Firebase UID
+ * @param {string} subject - Notification title / email subject
+ * @param {string} body - Notification message
+ * @param {string} severity - Incident severity, checked against the user's threshold (optional)
+ * @param {string} sentBy - Firebase UID of the sender ('system' for automated notifications)
+ * @returns {Promise<NotificationDelivery[]>} Delivery records for the channels used
+ */
+export async function sendUserNotification(
+  userId: string,
+  subject: string,
+  body: string,
+  severity?: string,
+  sentBy: string = 'system'
+): Promise<NotificationDelivery[]> {
+  return notificationService.notifyUser(userId, { subject, body, severity }, { createdBy: sentBy });
+}
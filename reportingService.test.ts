@@ -7,36 +7,269 @@ import {
   generateAnalyticsGraph,
   generateCSVExport,
   generateExcelExport,
+  exportIncidentsCSV,
   scheduleReport,
+  pauseScheduledReport,
+  resumeScheduledReport,
+  deleteScheduledReport,
+  getReportRunHistory,
+  runDueReports,
   cacheReport
 } from './reportingService';
+import { ReportScheduleService, reportScheduleService, systemClock } from './src/services/reportScheduleService';
+import { disciplineService, DisciplineIncident, ParticipantRole } from './src/services/disciplineService';
+import { reportingService } from './src/services/reportingService';
+import { meritService } from './src/services/meritService';
+import { behaviorScoreService, DEFAULT_HEAT_SCORE_CONFIG } from './src/services/behaviorScoreService';
+import type { StudentBehaviorReport, SchoolReport } from './src/services/reportingService';
+import { withServiceTest } from './src/services/test-utils/serviceTestHarness';
+import { Collections } from './src/config/firebaseConfig';
+import type { DocumentSnapshot } from 'firebase/firestore';
+
+// Sample student behaviour report (see src/services/reportingService.ts)
+const sampleStudentReport = {
+  studentId: 'S12345',
+  studentName: 'John Smith',
+  totalIncidents: 3,
+  incidentsByRole: { instigator: 1, participant: 2, victim: 1, witness: 0 },
+  incidentsByType: { tardiness: 2, disruption: 1, absence: 0 },
+  incidentsBySeverity: { low: 2, medium: 1, high: 0, critical: 0 },
+  lastIncidentDate: new Date('2023-06-15'),
+  totalMerits: 1,
+  totalMeritPoints: 2,
+  meritsByCategory: { kindness: 1, effort: 0 },
+  lastMeritDate: new Date('2023-06-10'),
+  heatScore: 4.5,
+  improvementTrend: 'improving',
+  riskLevel: 'low',
+} as unknown as StudentBehaviorReport;
+
+// Sample school report with enough students to run onto a second page
+const sampleSchoolReport: SchoolReport = {
+  schoolId: 'MCC',
+  reportPeriod: { from: new Date('2023-06-01'), to: new Date('2023-06-30') },
+  overview: {
+    totalIncidents: 42,
+    openIncidents: 10,
+    resolvedIncidents: 32,
+    incidentsByType: { tardiness: 20, disruption: 12, fighting: 4, other: 6 } as SchoolReport['overview']['incidentsByType'],
+    incidentsBySeverity: { low: 25, medium: 11, high: 5, critical: 1 } as SchoolReport['overview']['incidentsBySeverity'],
+    followUpRequired: 7,
+    parentNotificationPending: 3,
+    participantsByRole: { instigator: 12, participant: 38, victim: 9, witness: 5 } as SchoolReport['overview']['participantsByRole'],
+  },
+  trends: {
+    daily: Array.from({ length: 20 }, (_, day) => ({ date: `2023-06-${String(day + 1).padStart(2, '0')}`, count: (day * 7) % 5 })),
+    weekly: [
+      { date: '2023-05-28', count: 8 },
+      { date: '2023-06-04', count: 12 },
+      { date: '2023-06-11', count: 9 },
+      { date: '2023-06-18', count: 13 },
+    ],
+    monthly: [{ date: '2023-06', count: 42 }],
+  },
+  topStudents: Array.from({ length: 30 }, (_, index) => ({
+    ...sampleStudentReport,
+    studentId: `S${10000 + index}`,
+    studentName: `Student ${index + 1}`,
+    totalIncidents: 30 - index,
+  })),
+  teacherPerformance: [
+    {
+      teacherId: 'T1',
+      teacherName: 'Ms. Johnson',
+      totalIncidents: 18,
+      incidentsReported: 18,
+      averageResolutionTime: 2.4,
+      followUpCompliance: 88.9,
+      parentNotificationRate: 94.4,
+    },
+  ],
+  recommendations: ['Address tardiness incidents specifically - they represent the majority of cases.'],
+};
+
+/**
+ * Read a generated PDF back: check its structure and extract the text on each page
+ * @param pdfBuffer - PDF file contents
+ * @returns PDF version and the text drawn on each page
+ */
+function parsePdf(pdfBuffer: Buffer): { version: string; pages: string[][] } {
+  const content = pdfBuffer.toString('latin1');
+  const version = content.match(/^%PDF-(\d\.\d)/)?.[1];
+  if (!version || !content.trimEnd().endsWith('%%EOF')) {
+    throw new Error('Missing PDF header or trailer');
+  }
+
+  // Every cross-reference entry must point at the object it numbers
+  const xrefOffset = Number(content.match(/startxref\n(\d+)/)?.[1]);
+  const xref = content.slice(xrefOffset).match(/^xref\n0 (\d+)\n([\s\S]*?)trailer/);
+  if (!xref) {
+    throw new Error('Cross-reference table not found at startxref');
+  }
+  xref[2].trim().split('\n').slice(1).forEach((entry, index) => {
+    const offset = Number(entry.slice(0, 10));
+    if (!content.startsWith(`${index + 1} 0 obj`, offset)) {
+      throw new Error(`Object ${index + 1} is not at offset ${offset}`);
+    }
+  });
+
+  const unescape = (text: string) => text.replace(/\\([()\\])/g, '$1');
+  const pages = Array.from(content.matchAll(/stream\n([\s\S]*?)\nendstream/g), ([, stream]) =>
+    Array.from(stream.matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g), ([, text]) => unescape(text))
+  );
+
+  const pageCount = Number(content.match(/\/Type \/Pages \/Count (\d+)/)?.[1]);
+  if (pageCount !== pages.length) {
+    throw new Error(`Page tree lists ${pageCount} pages but ${pages.length} were found`);
+  }
+
+  return { version, pages };
+}
+
+type XlsxCell = string | number | boolean | Date | null;
+
+interface XlsxSheetContents {
+  name: string;
+  frozenHeader: boolean;
+  columnWidths: number[];
+  autoFilter?: string;
+  rows: XlsxCell[][];
+}
+
+/**
+ * Read a generated XLSX workbook back: unpack the ZIP package and parse each sheet
+ * @param xlsxBuffer - Workbook file contents
+ * @returns Sheets in workbook order, with header and data rows
+ */
+function readXlsx(xlsxBuffer: Buffer): XlsxSheetContents[] {
+  // Locate entries through the central directory; the writer stores them uncompressed
+  const endOffset = xlsxBuffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (endOffset < 0) {
+    throw new Error('ZIP end of central directory not found');
+  }
+  const files = new Map<string, string>();
+  let offset = xlsxBuffer.readUInt32LE(endOffset + 16);
+  for (let index = 0; index < xlsxBuffer.readUInt16LE(endOffset + 10); index++) {
+    if (xlsxBuffer.readUInt32LE(offset) !== 0x02014b50 || xlsxBuffer.readUInt16LE(offset + 10) !== 0) {
+      throw new Error(`Unexpected central directory entry at offset ${offset}`);
+    }
+    const size = xlsxBuffer.readUInt32LE(offset + 20);
+    const nameLength = xlsxBuffer.readUInt16LE(offset + 28);
+    const name = xlsxBuffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    const localOffset = xlsxBuffer.readUInt32LE(offset + 42);
+    const dataStart = localOffset + 30 + xlsxBuffer.readUInt16LE(localOffset + 26) + xlsxBuffer.readUInt16LE(localOffset + 28);
+    files.set(name, xlsxBuffer.toString('utf8', dataStart, dataStart + size));
+    offset += 46 + nameLength + xlsxBuffer.readUInt16LE(offset + 30) + xlsxBuffer.readUInt16LE(offset + 32);
+  }
+
+  const part = (name: string): string => {
+    const content = files.get(name);
+    if (content === undefined) {
+      throw new Error(`Workbook is missing ${name}`);
+    }
+    return content;
+  };
+  const unescape = (text: string) =>
+    text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+
+  part('[Content_Types].xml');
+  const sharedStrings = Array.from(part('xl/sharedStrings.xml').matchAll(/<si><t[^>]*>([\s\S]*?)<\/t><\/si>/g), ([, text]) =>
+    unescape(text)
+  );
+  // Style indexes 5 and 6 carry the date and date-time number formats
+  const toDate = (serial: number) => {
+    const utc = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000));
+    return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(), utc.getUTCHours(), utc.getUTCMinutes(), utc.getUTCSeconds());
+  };
+  const columnIndex = (reference: string) =>
+    Array.from(reference.replace(/\d+$/, '')).reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+  const sheetNames = Array.from(part('xl/workbook.xml').matchAll(/<sheet name="([^"]*)"/g), ([, name]) => unescape(name));
+  return sheetNames.map((name, sheetIndex) => {
+    const xml = part(`xl/worksheets/sheet${sheetIndex + 1}.xml`);
+    const rows = Array.from(xml.matchAll(/<row r="\d+">([\s\S]*?)<\/row>/g), ([, rowXml]) => {
+      const row: XlsxCell[] = [];
+      for (const [, reference, attributes, value] of rowXml.matchAll(/<c r="([A-Z]+\d+)"([^>]*)><v>([^<]*)<\/v><\/c>/g)) {
+        const type = attributes.match(/t="(\w+)"/)?.[1];
+        const style = Number(attributes.match(/s="(\d+)"/)?.[1] ?? 0);
+        row[columnIndex(reference)] =
+          type === 's' ? sharedStrings[Number(value)]
+          : type === 'b' ? value === '1'
+          : style === 5 || style === 6 ? toDate(Number(value))
+          : Number(value);
+      }
+      return Array.from(row, cell => cell ?? null);
+    });
+
+    return {
+      name,
+      frozenHeader: /<pane ySplit="1" topLeftCell="A2"[^>]*state="frozen"/.test(xml),
+      columnWidths: Array.from(xml.matchAll(/<col [^>]*width="([\d.]+)"/g), ([, width]) => Number(width)),
+      autoFilter: xml.match(/<autoFilter ref="([^"]+)"/)?.[1],
+      rows,
+    };
+  });
+}
+
+/**
+ * Parse RFC 4180 CSV text into rows of fields
+ * @param csv - CSV text with CRLF line breaks
+ * @returns Rows of field values
+ */
+function parseCsv(csv: string): string[][] {
+  if (!csv.endsWith('\r\n')) {
+    throw new Error('CSV should end with a CRLF line break');
+  }
+  const rows: string[][] = [[]];
+  const fieldPattern = /"((?:[^"]|"")*)"|([^,"\r\n]*)/y;
+  let position = 0;
+  while (position < csv.length) {
+    fieldPattern.lastIndex = position;
+    const match = fieldPattern.exec(csv)!;
+    rows[rows.length - 1].push(match[1] !== undefined ? match[1].replace(/""/g, '"') : match[2]);
+    position = fieldPattern.lastIndex;
+    if (csv.startsWith('\r\n', position)) {
+      position += 2;
+      if (position < csv.length) {
+        rows.push([]);
+      }
+    } else if (csv[position] === ',') {
+      position += 1;
+    } else {
+      throw new Error(`Unexpected character at offset ${position}`);
+    }
+  }
+  return rows;
+}
 
 /**
  * Test function to demonstrate PDF report generation
  */
 async function testPDFGeneration() {
   try {
-    // Sample student report data
-    const studentReportData = {
-      studentId: 'S12345',
-      name: 'John Smith',
-      grade: '10A',
-      incidents: [
-        { date: '2023-06-01', type: 'Tardiness', points: 1, teacher: 'Ms. Johnson' },
-        { date: '2023-06-15', type: 'Disruptive Behavior', points: 3, teacher: 'Mr. Davis' }
-      ],
-      merits: [
-        { date: '2023-06-10', description: 'Helping classmate', points: 2, teacher: 'Ms. Johnson' }
-      ],
-      totalDemeritPoints: 4,
-      totalMeritPoints: 2,
-      netPoints: -2
-    };
-
     // Generate student PDF report
-    const pdfBuffer = await generatePDFReport('teacher123', studentReportData, 'student');
+    const pdfBuffer = await generatePDFReport('teacher123', sampleStudentReport, 'student', {
+      schoolName: 'Midlands Christian College',
+      period: { from: new Date('2023-06-01'), to: new Date('2023-06-30') },
+    });
     console.log('PDF report generated successfully:', pdfBuffer.length, 'bytes');
-    
+
+    const studentPdf = parsePdf(pdfBuffer);
+    const studentText = studentPdf.pages.flat();
+    ['Midlands Christian College', 'Student Behaviour Report: John Smith', 'Tardiness', 'As participant:', 'Page 1 of 1'].forEach(expected => {
+      if (!studentText.includes(expected)) {
+        throw new Error(`Student report is missing "${expected}"`);
+      }
+    });
+
+    // Generate school PDF report; its long student table continues on a second page
+    const schoolPdf = parsePdf(await generatePDFReport('principal123', sampleSchoolReport, 'school'));
+    const lastPage = schoolPdf.pages[schoolPdf.pages.length - 1];
+    if (schoolPdf.pages.length < 2 || !lastPage.includes(`Page ${schoolPdf.pages.length} of ${schoolPdf.pages.length}`)) {
+      throw new Error('School report was not paginated with page footers');
+    }
+    console.log('School PDF report parsed successfully:', schoolPdf.pages.length, 'pages');
+
     // In a real application, we would save this to a file or send it to the user
     // For example: fs.writeFileSync('student_report.pdf', pdfBuffer);
     
@@ -118,6 +351,35 @@ async function testCSVExport() {
     const csvContent = await generateCSVExport(incidentData, customHeaders);
     console.log('CSV export generated successfully');
     console.log(csvContent.substring(0, 200) + '...');
+
+    const rows = parseCsv(csvContent);
+    if (rows.length !== incidentData.length + 1 || rows[0].join() !== customHeaders.join() || rows[4][3] !== 'Disruptive Behavior') {
+      throw new Error('CSV export should have the custom headers and a row per incident');
+    }
+
+    // Awkward values: quotes, commas, line breaks, formulas and nested fields
+    const awkwardData = [
+      { id: 5, student: { name: 'Smith, "Johnny"', grade: 10 }, description: 'Left class\r\nwithout permission', note: '=HYPERLINK("http://example.com")', points: -2 },
+      { id: 6, student: { name: 'Emma Davis', grade: 11 }, description: '@everyone in the group chat', note: '+27 82 555 0100', points: 1, reviewed: true },
+    ];
+    const awkwardRows = parseCsv(await generateCSVExport(awkwardData));
+    const expectedColumns = ['id', 'student.name', 'student.grade', 'description', 'note', 'points', 'reviewed'];
+    if (awkwardRows[0].join() !== expectedColumns.join()) {
+      throw new Error(`Columns should cover nested fields and every row: ${awkwardRows[0].join()}`);
+    }
+    const [, first, second] = awkwardRows;
+    if (first[1] !== 'Smith, "Johnny"' || first[3] !== 'Left class\r\nwithout permission' || first[5] !== '-2') {
+      throw new Error('Quotes, commas, line breaks and numbers should survive a round trip');
+    }
+    if (first[4] !== "'=HYPERLINK(\"http://example.com\")" || second[3] !== "'@everyone in the group chat" || second[4] !== "'+27 82 555 0100") {
+      throw new Error('Formula-like text should be neutralised');
+    }
+
+    // Selected, reordered and renamed columns
+    const renamed = parseCsv(await generateCSVExport(awkwardData, [{ field: 'student.name', header: 'Student' }, 'id']));
+    if (renamed.map(row => row.join('|')).join('\n') !== 'Student|id\nSmith, "Johnny"|5\nEmma Davis|6') {
+      throw new Error('Selected columns should be written in order under their new headers');
+    }
     
     return csvContent;
   } catch (error) {
@@ -126,6 +388,130 @@ async function testCSVExport() {
   }
 }
 
+/**
+ * Test function to demonstrate streaming an incident export page by page
+ */
+async function testIncidentCSVStreaming() {
+  // Serve 5 incidents in pages, recording what the exporter asks for
+  const incidents = Array.from({ length: 5 }, (_, index) => ({
+    id: `INC${index + 1}`,
+    studentId: 'S12345',
+    studentName: 'John Smith',
+    incidentType: 'tardiness',
+    dateTime: new Date(Date.UTC(2023, 5, index + 1)),
+    followUp: { assignee: 'T789' },
+  }));
+  const requests: { pageSize: number; cursor?: string }[] = [];
+  const originalSearch = disciplineService.searchIncidents;
+  disciplineService.searchIncidents = async (_filters, pageSize = 20, lastDoc) => {
+    const cursor = lastDoc ? (lastDoc as unknown as { id: string }).id : undefined;
+    requests.push({ pageSize, cursor });
+    const start = cursor ? incidents.findIndex(incident => incident.id === cursor) + 1 : 0;
+    const page = incidents.slice(start, start + pageSize);
+    const hasMore = start + pageSize < incidents.length;
+    return {
+      incidents: page as unknown as DisciplineIncident[],
+      hasMore,
+      lastDoc: hasMore ? ({ id: page[page.length - 1].id } as unknown as DocumentSnapshot) : undefined,
+    };
+  };
+
+  try {
+    const chunks: string[] = [];
+    const exported = await exportIncidentsCSV(
+      { schoolId: 'MCC' },
+      chunk => {
+        chunks.push(chunk);
+      },
+      {
+        columns: [{ field: 'id', header: 'Incident' }, { field: 'dateTime', header: 'Date' }, { field: 'followUp.assignee', header: 'Assignee' }],
+        pageSize: 2,
+      }
+    );
+
+    // A header chunk, then one chunk per page of incidents
+    if (exported !== 5 || chunks.length !== 4 || requests.map(request => request.cursor ?? '-').join() !== '-,INC2,INC4') {
+      throw new Error(`Export should page with cursors: ${JSON.stringify(requests)}`);
+    }
+    const rows = parseCsv(chunks.join(''));
+    if (rows[0].join() !== 'Incident,Date,Assignee' || rows[5].join() !== 'INC5,2023-06-05T00:00:00.000Z,T789') {
+      throw new Error('Streamed rows should use the selected columns');
+    }
+    console.log('Incident CSV export streamed', exported, 'incidents in', chunks.length - 1, 'pages');
+
+    return exported;
+  } catch (error) {
+    console.error('Incident CSV streaming test failed:', error);
+    throw error;
+  } finally {
+    disciplineService.searchIncidents = originalSearch;
+  }
+}
+
+/**
+ * Test that student reports only score incidents the student instigated or took part in
+ */
+async function testStudentReportRoles() {
+  // S12345 started one fight, joined another, and was the victim of a third
+  const incident = (id: string, day: number, roles: [string, ParticipantRole][]) => ({
+    id,
+    schoolId: 'MCC',
+    studentId: roles[0][0],
+    studentName: roles[0][0],
+    participants: roles.map(([studentId, role]) => ({ studentId, studentName: 'John Smith', role, parentNotified: false })),
+    participantIds: roles.map(([studentId]) => studentId),
+    incidentType: 'fighting',
+    severity: 'high',
+    status: 'open',
+    dateTime: new Date(Date.UTC(2023, 5, day)),
+  });
+  const incidents = [
+    incident('INC1', 1, [['S12345', ParticipantRole.INSTIGATOR], ['S2', ParticipantRole.VICTIM]]),
+    incident('INC2', 8, [['S3', ParticipantRole.INSTIGATOR], ['S12345', ParticipantRole.PARTICIPANT]]),
+    incident('INC3', 15, [['S4', ParticipantRole.INSTIGATOR], ['S12345', ParticipantRole.VICTIM], ['S5', ParticipantRole.WITNESS]]),
+  ] as unknown as DisciplineIncident[];
+
+  const originalSearch = disciplineService.searchIncidents;
+  const originalMerits = meritService.getAllMerits;
+  const originalConfig = behaviorScoreService.getScoringConfig;
+  disciplineService.searchIncidents = async filters => ({
+    incidents: incidents.filter(item => item.participantIds.includes(filters.studentId!)),
+    hasMore: false,
+  });
+  meritService.getAllMerits = async () => [];
+  behaviorScoreService.getScoringConfig = async schoolId => ({ ...DEFAULT_HEAT_SCORE_CONFIG, schoolId });
+
+  try {
+    const report = await reportingService.generateStudentReport(
+      'S12345',
+      'MCC',
+      new Date(Date.UTC(2023, 5, 1)),
+      new Date(Date.UTC(2023, 5, 30))
+    );
+
+    const roles = report.incidentsByRole;
+    if (roles.instigator !== 1 || roles.participant !== 1 || roles.victim !== 1 || roles.witness !== 0) {
+      throw new Error(`Every incident should be counted by role: ${JSON.stringify(roles)}`);
+    }
+    if (report.totalIncidents !== 2 || report.incidentsBySeverity.high !== 2) {
+      throw new Error('Incidents where the student was the victim should not be scored');
+    }
+    if (report.lastIncidentDate?.getTime() !== Date.UTC(2023, 5, 8)) {
+      throw new Error('The last incident should be the last one the student took part in');
+    }
+    console.log('Student report counts', report.totalIncidents, 'of 3 incidents, heat score', report.heatScore);
+
+    return report;
+  } catch (error) {
+    console.error('Student report roles test failed:', error);
+    throw error;
+  } finally {
+    disciplineService.searchIncidents = originalSearch;
+    meritService.getAllMerits = originalMerits;
+    behaviorScoreService.getScoringConfig = originalConfig;
+  }
+}
+
 /**
  * Test function to demonstrate Excel export
  */
@@ -141,7 +527,50 @@ async function testExcelExport() {
     // Generate Excel file
     const excelBuffer = await generateExcelExport(meritData, 'Merit Records');
     console.log('Excel export generated successfully:', excelBuffer.length, 'bytes');
-    
+
+    const [meritSheet] = readXlsx(excelBuffer);
+    if (meritSheet.name !== 'Merit Records' || meritSheet.rows.length !== meritData.length + 1) {
+      throw new Error('Merit export should have one sheet with a header row and a row per merit');
+    }
+    if (meritSheet.rows[1][0] !== 1 || meritSheet.rows[2][5] !== 5 || meritSheet.rows[3][3] !== 'Michael Brown') {
+      throw new Error('Merit export cells were not read back with their values');
+    }
+
+    // Export a school report as a workbook with one sheet per section
+    const reportBuffer = await generateExcelExport(sampleSchoolReport);
+    const sheets = readXlsx(reportBuffer);
+    const expectedSheets = ['Overview', 'Trends', 'Top Students', 'Teacher Performance'];
+    if (sheets.map(sheet => sheet.name).join() !== expectedSheets.join()) {
+      throw new Error(`Unexpected sheets: ${sheets.map(sheet => sheet.name).join(', ')}`);
+    }
+    sheets.forEach(sheet => {
+      if (!sheet.frozenHeader || !sheet.autoFilter || sheet.columnWidths.length !== sheet.rows[0].length) {
+        throw new Error(`Sheet "${sheet.name}" is missing its frozen header, autofilter or column widths`);
+      }
+    });
+
+    const [overview, trends, topStudents, teachers] = sheets;
+    const totalRow = overview.rows.find(row => row[1] === 'Total');
+    if (totalRow?.[2] !== sampleSchoolReport.overview.totalIncidents) {
+      throw new Error('Overview total incidents should be a number cell');
+    }
+    const firstDay = trends.rows[1][1];
+    if (!(firstDay instanceof Date) || firstDay.getTime() !== new Date(2023, 5, 1).getTime()) {
+      throw new Error('Trend periods should be date cells');
+    }
+    if (topStudents.rows.length !== sampleSchoolReport.topStudents.length + 1 || topStudents.autoFilter !== 'A1:I31') {
+      throw new Error('Top Students sheet should list every student under a filtered header');
+    }
+    const lastIncident = topStudents.rows[1][3];
+    if (!(lastIncident instanceof Date) || topStudents.rows[1][6] !== 4.5) {
+      throw new Error('Top Students sheet should keep date and decimal cell types');
+    }
+    const [, , , , , followUp, notified] = teachers.rows[1];
+    if (Math.abs(Number(followUp) - 0.889) > 1e-9 || Math.abs(Number(notified) - 0.944) > 1e-9) {
+      throw new Error('Teacher rates should be stored as fractions for percent formatting');
+    }
+    console.log('School report workbook read back with', sheets.length, 'sheets');
+
     return excelBuffer;
   } catch (error) {
     console.error('Excel export test failed:', error);
@@ -179,20 +608,135 @@ async function testReportScheduling() {
   }
 }
 
+/**
+ * Test function to demonstrate run times in a schedule's time zone
+ */
+async function testScheduleCadence() {
+  const cases = [
+    // Johannesburg has no daylight saving: 06:00 SAST is 04:00 UTC
+    { cadence: { frequency: 'daily', timeZone: 'Africa/Johannesburg', timeOfDay: '06:00' }, after: '2026-10-19T08:00:00Z', expected: '2026-10-20T04:00:00.000Z' },
+    { cadence: { frequency: 'weekly', timeZone: 'Africa/Johannesburg', timeOfDay: '06:00', dayOfWeek: 1 }, after: '2026-10-19T08:00:00Z', expected: '2026-10-26T04:00:00.000Z' },
+    // Day 31 falls back to the last day of shorter months
+    { cadence: { frequency: 'monthly', timeZone: 'Africa/Johannesburg', timeOfDay: '06:00', dayOfMonth: 31 }, after: '2026-10-31T04:00:00Z', expected: '2026-11-30T04:00:00.000Z' },
+    // London leaves summer time on 25 October 2026: 06:00 moves from 05:00 to 06:00 UTC
+    { cadence: { frequency: 'daily', timeZone: 'Europe/London', timeOfDay: '06:00' }, after: '2026-10-23T06:00:00Z', expected: '2026-10-24T05:00:00.000Z' },
+    { cadence: { frequency: 'daily', timeZone: 'Europe/London', timeOfDay: '06:00' }, after: '2026-10-24T06:00:00Z', expected: '2026-10-25T06:00:00.000Z' },
+    // 02:30 does not exist in New York on 8 March 2026 and runs at 03:30 EDT
+    { cadence: { frequency: 'daily', timeZone: 'America/New_York', timeOfDay: '02:30' }, after: '2026-03-07T12:00:00Z', expected: '2026-03-08T07:30:00.000Z' },
+  ] as const;
+
+  for (const { cadence, after, expected } of cases) {
+    const nextRun = ReportScheduleService.computeNextRun(cadence, new Date(after)).toISOString();
+    if (nextRun !== expected) {
+      throw new Error(`${cadence.frequency} ${cadence.timeZone} after ${after}: expected ${expected}, got ${nextRun}`);
+    }
+  }
+
+  console.log('Schedule cadence calculated correctly for', cases.length, 'cases');
+}
+
+/**
+ * Test that due schedules run once from a fixed clock and record their runs,
+ * against an in-memory Firestore
+ */
+async function testScheduledReportRuns() {
+  const reportType = 'scheduled-runs-test';
+  let now = new Date('2026-10-19T08:00:00Z');
+  const handled: Date[] = [];
+  let failNextRun = false;
+
+  try {
+    return await withServiceTest(
+      { services: [reportScheduleService, reportScheduleService['runs']] },
+      async ({ firestore, onCleanup }) => {
+        reportScheduleService.setClock({ now: () => now });
+        onCleanup(() => reportScheduleService.setClock(systemClock));
+        reportScheduleService.registerHandler(reportType, async (_schedule, runAt) => {
+          handled.push(runAt);
+          if (failNextRun) {
+            failNextRun = false;
+            throw new Error('Report generation failed');
+          }
+        });
+        onCleanup(() => reportScheduleService['handlers'].delete(reportType));
+
+        const scheduleId = await scheduleReport(reportType, 'daily', ['teacher123'], {}, 'system', {
+          timeZone: 'Africa/Johannesburg',
+        });
+        const nextRunOf = async () => (await reportScheduleService.getSchedule(scheduleId))?.nextRunAt.toISOString();
+        if ((await nextRunOf()) !== '2026-10-20T04:00:00.000Z') {
+          throw new Error(`A daily 06:00 SAST schedule should first run at 04:00 UTC the next day, not ${await nextRunOf()}`);
+        }
+
+        // Nothing is due until 06:00 the next morning
+        if ((await runDueReports()).length !== 0 || handled.length !== 0) {
+          throw new Error('No report should run before its due time');
+        }
+
+        now = new Date('2026-10-20T04:00:00Z');
+        const [due] = await runDueReports();
+        if (!due?.success || due.nextRunAt.toISOString() !== '2026-10-21T04:00:00.000Z' || (await nextRunOf()) !== '2026-10-21T04:00:00.000Z') {
+          throw new Error('A due report should run and move on to the next day');
+        }
+        if ((await runDueReports()).length !== 0 || handled.map(runAt => runAt.toISOString()).join() !== '2026-10-20T04:00:00.000Z') {
+          throw new Error('A report should run once per due time');
+        }
+
+        // A failing run is recorded and the schedule still moves on
+        now = new Date('2026-10-21T04:05:00Z');
+        failNextRun = true;
+        const [failed] = await runDueReports();
+        if (failed?.success !== false || failed.error !== 'Report generation failed' || failed.nextRunAt.toISOString() !== '2026-10-22T04:00:00.000Z') {
+          throw new Error('A failed run should report its error and move on to the next day');
+        }
+        if (firestore.get(Collections.REPORT_SCHEDULES, scheduleId)?.lastError !== 'Report generation failed') {
+          throw new Error('The schedule should keep the error of its last run');
+        }
+
+        // Pausing skips runs, and resuming continues from the next run time after now
+        await pauseScheduledReport(scheduleId, 'system');
+        now = new Date('2026-10-22T04:00:00Z');
+        if ((await runDueReports()).length !== 0) {
+          throw new Error('A paused schedule should not run');
+        }
+        await resumeScheduledReport(scheduleId, 'system');
+        if ((await nextRunOf()) !== '2026-10-23T04:00:00.000Z' || (await runDueReports()).length !== 0) {
+          throw new Error('A resumed schedule should skip the runs missed while paused');
+        }
+
+        const history = await getReportRunHistory(scheduleId);
+        const summary = history.map(run => `${run.scheduledFor.toISOString()} ${run.startedAt.toISOString()} ${run.success ? 'ok' : run.error}`);
+        const expected = [
+          '2026-10-21T04:00:00.000Z 2026-10-21T04:05:00.000Z Report generation failed',
+          '2026-10-20T04:00:00.000Z 2026-10-20T04:00:00.000Z ok',
+        ];
+        if (summary.join() !== expected.join() || !history.every(run => run.reportType === reportType && run.scheduleCreatedBy === 'system')) {
+          throw new Error(`Run history should list both runs, most recent first: ${summary}`);
+        }
+
+        // Deleting the schedule keeps its history
+        await deleteScheduledReport(scheduleId, 'system');
+        if (firestore.get(Collections.REPORT_SCHEDULES, scheduleId) || (await getReportRunHistory(scheduleId)).length !== 2) {
+          throw new Error('Deleting a schedule should keep its run history');
+        }
+        console.log('Run history:', summary);
+
+        return history;
+      }
+    );
+  } catch (error) {
+    console.error('Scheduled report run test failed:', error);
+    throw error;
+  }
+}
+
 /**
  * Test function to demonstrate report caching
  */
 async function testReportCaching() {
   try {
     // Generate a report first
-    const studentReportData = {
-      studentId: 'S12345',
-      name: 'John Smith',
-      grade: '10A',
-      // ... other data
-    };
-    
-    const pdfBuffer = await generatePDFReport('teacher123', studentReportData, 'student');
+    const pdfBuffer = await generatePDFReport('teacher123', sampleStudentReport, 'student');
     
     // Cache the report for 30 minutes
     const reportId = 'student-S12345-' + Date.now();
@@ -221,6 +765,12 @@ async function runAllTests() {
   
   console.log('\n----- CSV Export Test -----');
   await testCSVExport();
+
+  console.log('\n----- Incident CSV Streaming Test -----');
+  await testIncidentCSVStreaming();
+
+  console.log('\n----- Student Report Roles Test -----');
+  await testStudentReportRoles();
   
   console.log('\n----- Excel Export Test -----');
   await testExcelExport();
@@ -228,6 +778,12 @@ async function runAllTests() {
   console.log('\n----- Report Scheduling Test -----');
   await testReportScheduling();
   
+  console.log('\n----- Schedule Cadence Test -----');
+  await testScheduleCadence();
+  
+  console.log('\n----- Scheduled Report Runs Test -----');
+  await testScheduledReportRuns();
+  
   console.log('\n----- Report Caching Test -----');
   await testReportCaching();
   
@@ -242,8 +798,12 @@ export {
   testPDFGeneration,
   testGraphGeneration,
   testCSVExport,
+  testIncidentCSVStreaming,
+  testStudentReportRoles,
   testExcelExport,
   testReportScheduling,
+  testScheduleCadence,
+  testScheduledReportRuns,
   testReportCaching,
   runAllTests
 };
\ No newline at end of file
@@ -2,40 +2,62 @@
 // Handles analytics exports: PDF/graph for parents/general users, CSV for admins
 // Implements integration logic for PDF, graph, and CSV generation
 
+// PDFs, XLSX workbooks and CSV files are written by dependency-free writers in src/services/base
 // Note: The following imports would need to be installed:
-// npm install jspdf chart.js papaparse @types/papaparse
-// These libraries handle PDF generation, charting, and CSV processing respectively
+// npm install chart.js
+// This library handles charting
+
+import {
+  reportScheduleService,
+  ReportSchedule,
+  ReportRun,
+  ScheduleCadence,
+  ScheduleRunResult,
+} from './src/services/reportScheduleService';
+import { renderStudentReportPdf, renderSchoolReportPdf, ReportPdfOptions } from './src/services/reportPdfRenderer';
+import { renderSchoolReportWorkbook } from './src/services/reportWorkbookRenderer';
+import { XlsxWorkbook, XlsxCellValue } from './src/services/base/xlsxWorkbook';
+import { CsvWriter, CsvColumnSpec, CsvSink, getFieldPaths } from './src/services/base/csvWriter';
+import { exportIncidentsCsv, IncidentCsvExportOptions } from './src/services/incidentCsvExporter';
+import type { IncidentSearchFilters } from './src/services/disciplineService';
+import type { StudentBehaviorReport, SchoolReport } from './src/services/reportingService';
+// Registers the handler for scheduled 'digest' reports
+import './src/services/digestService';
 
 /**
  * Generates a PDF report for a user.
+ * Student reports take a StudentBehaviorReport and school reports a
+ * SchoolReport (see src/services/reportingService.ts).
  * @param {string} userId - Firebase UID
  * @param {object} reportData - Data to include in the report
- * @param {string} reportType - Type of report (e.g., 'student', 'class', 'incident')
+ * @param {string} reportType - Type of report ('student' or 'school')
+ * @param {ReportPdfOptions} options - School name, period and footer details
  * @returns {Promise<Buffer>} PDF file buffer
  */
-export async function generatePDFReport(userId: string, reportData: object, reportType: string = 'student'): Promise<Buffer> {
+export async function generatePDFReport(
+  userId: string,
+  reportData: object,
+  reportType: string = 'student',
+  options: ReportPdfOptions = {}
+): Promise<Buffer> {
   try {
-    // This would use jsPDF in a real implementation
     console.log(`Generating ${reportType} PDF report for user ${userId}`);
-    
-    // Mock implementation - in production, this would use jsPDF to create the actual PDF
-    const mockPdfContent = Buffer.from(
-      JSON.stringify({
-        reportType,
-        userId,
-        data: reportData,
-        generatedAt: new Date().toISOString(),
-      })
-    );
-    
-    // In production code, we would:
-    // 1. Create a new jsPDF instance
-    // 2. Add headers, school logo, etc.
-    // 3. Format and add the report data based on reportType
-    // 4. Add pagination, timestamps, etc.
-    // 5. Return the PDF as a Buffer
-    
-    return mockPdfContent;
+
+    const pdfOptions = { generatedBy: userId, ...options };
+    let pdfBytes: Uint8Array;
+
+    switch (reportType) {
+      case 'student':
+        pdfBytes = renderStudentReportPdf(reportData as StudentBehaviorReport, pdfOptions);
+        break;
+      case 'school':
+        pdfBytes = renderSchoolReportPdf(reportData as SchoolReport, pdfOptions);
+        break;
+      default:
+        throw new Error(`Unsupported report type: ${reportType}`);
+    }
+
+    return Buffer.from(pdfBytes);
   } catch (error) {
     console.error('Error generating PDF report:', error);
     throw new Error(`Failed to generate PDF report: ${error.message}`);
@@ -82,12 +104,16 @@ export async function generateAnalyticsGraph(userId: string, analyticsData: obje
 }
 
 /**
- * Generates a CSV export for admin analytics.
+ * Generates an RFC 4180 CSV export for admin analytics.
+ * Without headers, every field path found in any row becomes a column
+ * (nested objects are flattened to paths such as `followUp.dueDate`).
+ * Text starting with =, +, - or @ is prefixed with ' so spreadsheets do not
+ * evaluate it as a formula.
  * @param {object[]} dataRows - Array of data objects to export
- * @param {string[]} [headers] - Optional custom headers for the CSV
+ * @param {CsvColumnSpec[]} [headers] - Optional columns to export, in order: field paths, or { field, header } to rename a column
  * @returns {Promise<string>} CSV string
  */
-export async function generateCSVExport(dataRows: object[], headers?: string[]): Promise<string> {
+export async function generateCSVExport(dataRows: object[], headers?: CsvColumnSpec[]): Promise<string> {
   try {
     if (!dataRows || !Array.isArray(dataRows) || dataRows.length === 0) {
       throw new Error('No data provided for CSV export');
@@ -95,32 +121,10 @@ export async function generateCSVExport(dataRows: object[], headers?: string[]):
     
     console.log(`Generating CSV export with ${dataRows.length} rows`);
     
-    // Extract headers from the first data object if not provided
-    const csvHeaders = headers || Object.keys(dataRows[0]);
-    
-    // Create CSV header row
-    let csvContent = csvHeaders.join(',') + '\n';
-    
-    // Add data rows
-    dataRows.forEach(row => {
-      const values = csvHeaders.map(header => {
-        const value = row[header];
-        // Handle different data types and escape commas in strings
-        if (value === null || value === undefined) return '';
-        if (typeof value === 'string') return `"${value.replace(/"/g, '""')}"`;
-        if (value instanceof Date) return value.toISOString();
-        return value;
-      });
-      csvContent += values.join(',') + '\n';
-    });
+    const columns = headers || Array.from(new Set(dataRows.flatMap(row => getFieldPaths(row))));
+    const writer = new CsvWriter(columns);
     
-    // In production code with papaparse, we would use:
-    // const csvContent = Papa.unparse(dataRows, {
-    //   header: true,
-    //   columns: headers
-    // });
-    
-    return csvContent;
+    return writer.headerRow() + writer.rows(dataRows);
   } catch (error) {
     console.error('Error generating CSV export:', error);
     throw new Error(`Failed to generate CSV export: ${error.message}`);
@@ -128,28 +132,68 @@ export async function generateCSVExport(dataRows: object[], headers?: string[]):
 }
 
 /**
- * Generates an Excel export for advanced analytics.
- * @param {object[]} dataRows - Array of data objects to export
- * @param {string} sheetName - Name of the Excel sheet
+ * Streams discipline incidents matching the filters to CSV.
+ * Incidents are fetched a page at a time and each page is passed to `write`
+ * before the next is fetched, so large exports are never held in memory.
+ * @param {IncidentSearchFilters} filters - Incident search filters (e.g. schoolId and a date range)
+ * @param {CsvSink} write - Receives CSV text, e.g. a file or response stream writer
+ * @param {IncidentCsvExportOptions} [options] - Columns, renamed headers and page size
+ * @returns {Promise<number>} Number of incidents exported
+ */
+export async function exportIncidentsCSV(
+  filters: IncidentSearchFilters,
+  write: CsvSink,
+  options: IncidentCsvExportOptions = {}
+): Promise<number> {
+  try {
+    console.log(`Exporting incidents to CSV for filters ${JSON.stringify(filters)}`);
+    const rowCount = await exportIncidentsCsv(filters, write, options);
+    console.log(`Exported ${rowCount} incidents to CSV`);
+    return rowCount;
+  } catch (error) {
+    console.error('Error exporting incidents to CSV:', error);
+    throw new Error(`Failed to export incidents to CSV: ${error.message}`);
+  }
+}
+
+/**
+ * Generates an Excel (XLSX) export for advanced analytics.
+ * An array of data objects becomes a single sheet with a column for every
+ * key found in any row. A SchoolReport becomes a workbook with one sheet per
+ * report section (overview, trends, top students, teacher performance).
+ * Numbers, booleans and dates keep their cell types; every sheet has a
+ * frozen header row, fitted column widths and an autofilter.
+ * @param {object[]|SchoolReport} data - Array of data objects, or a school report
+ * @param {string} sheetName - Name of the Excel sheet for an array of data objects
  * @returns {Promise<Buffer>} Excel file buffer
  */
-export async function generateExcelExport(dataRows: object[], sheetName: string = 'Report'): Promise<Buffer> {
+export async function generateExcelExport(data: object[] | SchoolReport, sheetName: string = 'Report'): Promise<Buffer> {
   try {
-    // This would use a library like exceljs in a real implementation
-    console.log(`Generating Excel export with ${dataRows.length} rows`);
-    
-    // First convert to CSV as an intermediate step
-    const csvContent = await generateCSVExport(dataRows);
-    
-    // Mock implementation - in production, this would create an actual Excel file
-    const mockExcelContent = Buffer.from(csvContent);
-    
-    // In production code, we would:
-    // 1. Create a new Excel workbook and worksheet
-    // 2. Add the data with proper formatting
-    // 3. Return the Excel file as a Buffer
-    
-    return mockExcelContent;
+    if (!Array.isArray(data)) {
+      console.log(`Generating Excel workbook for school report ${data.schoolId}`);
+      return Buffer.from(renderSchoolReportWorkbook(data));
+    }
+
+    if (data.length === 0) {
+      throw new Error('No data provided for Excel export');
+    }
+
+    console.log(`Generating Excel export with ${data.length} rows`);
+
+    const headers = Array.from(new Set(data.flatMap(row => Object.keys(row))));
+    const toCell = (value: unknown): XlsxCellValue =>
+      value === null || value === undefined || value instanceof Date || ['string', 'number', 'boolean'].includes(typeof value)
+        ? (value as XlsxCellValue)
+        : JSON.stringify(value);
+
+    const workbook = new XlsxWorkbook();
+    workbook.addSheet(
+      sheetName,
+      headers.map(header => ({ header })),
+      data.map(row => headers.map(header => toCell((row as Record<string, unknown>)[header])))
+    );
+
+    return Buffer.from(workbook.toBytes());
   } catch (error) {
     console.error('Error generating Excel export:', error);
     throw new Error(`Failed to generate Excel export: ${error.message}`);
@@ -158,36 +202,90 @@ export async function generateExcelExport(dataRows: object[], sheetName: string
 
 /**
  * Schedules a report for automatic generation and distribution.
+ * The schedule is stored in Firestore and run by the report scheduler
+ * (src/services/reportScheduleService.ts) with the handler registered for
+ * the report type. Staff digests use the 'digest' report type with user IDs
+ * as recipients.
  * @param {string} reportType - Type of report to generate
  * @param {string} frequency - Frequency of report generation ('daily', 'weekly', 'monthly')
- * @param {string[]} recipients - Array of recipient email addresses
+ * @param {string[]} recipients - Recipients of the report (user IDs or email addresses, depending on the report type)
  * @param {object} filters - Filters to apply to the report data
+ * @param {string} createdBy - Firebase UID of the user scheduling the report ('system' for automated schedules)
+ * @param {object} timing - Optional time zone, time of day ('HH:mm'), day of week (0 = Sunday) and day of month
  * @returns {Promise<string>} Scheduled report ID
  */
 export async function scheduleReport(
   reportType: string,
   frequency: 'daily' | 'weekly' | 'monthly',
   recipients: string[],
-  filters: object
+  filters: object,
+  createdBy: string = 'system',
+  timing: Partial<Omit<ScheduleCadence, 'frequency'>> = {}
 ): Promise<string> {
   try {
-    // This would integrate with a task scheduler in a real implementation
-    const scheduleId = `${reportType}-${Date.now()}`;
-    
     console.log(`Scheduling ${frequency} ${reportType} report for ${recipients.join(', ')}`);
-    
-    // In production code, we would:
-    // 1. Store the schedule in the database
-    // 2. Set up a cron job or similar to trigger the report generation
-    // 3. Return the schedule ID for future reference
-    
-    return scheduleId;
+
+    const schedule = await reportScheduleService.createSchedule(
+      { reportType, frequency, recipients, filters: filters as Record<string, any>, ...timing },
+      createdBy
+    );
+
+    return schedule.id!;
   } catch (error) {
     console.error('Error scheduling report:', error);
     throw new Error(`Failed to schedule report: ${error.message}`);
   }
 }
 
+/**
+ * Pauses a scheduled report until it is resumed.
+ * @param {string} scheduleId - Scheduled report ID
+ * @param {string} userId - Firebase UID of the schedule's creator or an admin
+ * @returns {Promise<ReportSchedule>} Paused schedule
+ */
+export async function pauseScheduledReport(scheduleId: string, userId: string): Promise<ReportSchedule> {
+  return reportScheduleService.pauseSchedule(scheduleId, userId);
+}
+
+/**
+ * Resumes a paused scheduled report from its next run time.
+ * @param {string} scheduleId - Scheduled report ID
+ * @param {string} userId - Firebase UID of the schedule's creator or an admin
+ * @returns {Promise<ReportSchedule>} Resumed schedule
+ */
+export async function resumeScheduledReport(scheduleId: string, userId: string): Promise<ReportSchedule> {
+  return reportScheduleService.resumeSchedule(scheduleId, userId);
+}
+
+/**
+ * Deletes a scheduled report. Its run history is kept.
+ * @param {string} scheduleId - Scheduled report ID
+ * @param {string} userId - Firebase UID of the schedule's creator or an admin
+ * @returns {Promise<void>}
+ */
+export async function deleteScheduledReport(scheduleId: string, userId: string): Promise<void> {
+  return reportScheduleService.deleteSchedule(scheduleId, userId);
+}
+
+/**
+ * Gets the run history of a scheduled report.
+ * @param {string} scheduleId - Scheduled report ID
+ * @param {number} maxRuns - Maximum number of runs to return
+ * @returns {Promise<ReportRun[]>} Runs, most recent first, with success or failure
+ */
+export async function getReportRunHistory(scheduleId: string, maxRuns: number = 20): Promise<ReportRun[]> {
+  return reportScheduleService.getRunHistory(scheduleId, maxRuns);
+}
+
+/**
+ * Runs every scheduled report that is due. Call this from a periodic job,
+ * or use reportScheduleService.start() to poll in-process.
+ * @returns {Promise<ScheduleRunResult[]>} Outcome of each report run
+ */
+export async function runDueReports(): Promise<ScheduleRunResult[]> {
+  return reportScheduleService.runDueSchedules();
+}
+
 /**
  * Caches a generated report for faster access.
  * @param {string} reportId - Unique identifier for the report
@@ -13,6 +13,7 @@ import { initializeApp, getApps, getApp } from 'firebase/app';
 import { getAuth, initializeAuth, getReactNativePersistence } from 'firebase/auth';
 import { getFirestore, connectFirestoreEmulator, enableMultiTabIndexedDbPersistence } from 'firebase/firestore';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { UserRole } from './permissions';
 
 /**
  * Firebase configuration object
@@ -87,6 +88,11 @@ export { app, auth, db };
  */
 export { firebaseConfig };
 
+/**
+ * Roles a user account can have (declared in ./permissions)
+ */
+export type { UserRole };
+
 /**
  * Type definitions for Firebase user data
  */
@@ -94,8 +100,16 @@ export interface UserData {
   uid: string;
   email: string | null;
   displayName: string | null;
-  role?: 'teacher' | 'admin' | 'principal';
+  role?: UserRole;
   schoolId?: string;
+  /** Student record of a student account */
+  studentId?: string;
+  /** School-defined roles held in addition to the base role */
+  customRoleIds?: string[];
+  /** Mobile number in international format, used for SMS notifications */
+  phoneNumber?: string;
+  /** Expo push tokens for the user's registered devices */
+  pushTokens?: string[];
   createdAt?: Date;
   lastLoginAt?: Date;
 }
@@ -143,6 +157,31 @@ export enum Collections {
   INCIDENTS = 'incidents',
   SCHOOLS = 'schools',
   STUDENTS = 'students',
+  MERITS = 'merits',
+  SCORING_CONFIGS = 'scoringConfigs',
+  CONSEQUENCE_RULES = 'consequenceRules',
+  CONSEQUENCES = 'consequences',
+  DETENTION_SESSIONS = 'detentionSessions',
+  DETENTION_ASSIGNMENTS = 'detentionAssignments',
+  NOTIFICATION_DELIVERIES = 'notificationDeliveries',
+  NOTIFICATION_PREFERENCES = 'notificationPreferences',
+  LETTER_TEMPLATES = 'letterTemplates',
+  REPORT_SCHEDULES = 'reportSchedules',
+  REPORT_RUNS = 'reportRuns',
+  INCIDENT_IMPORTS = 'incidentImports',
+  GUARDIAN_INVITATIONS = 'guardianInvitations',
+  GUARDIAN_LINKS = 'guardianLinks',
+  STUDENT_VIEW_POLICIES = 'studentViewPolicies',
+  STUDENT_INCIDENT_VIEWS = 'studentIncidentViews',
+  INCIDENT_INTERNAL_NOTES = 'incidentInternalNotes',
+  CUSTOM_ROLES = 'customRoles',
+  PERMISSION_POLICIES = 'permissionPolicies',
+  INCIDENT_AUDIT_LOG = 'incidentAuditLog',
+  INCIDENT_ARCHIVE_POLICIES = 'incidentArchivePolicies',
+  INCIDENT_ATTACHMENTS = 'incidentAttachments',
+  INCIDENT_COMMENTS = 'incidentComments',
+  FOLLOW_UP_TASKS = 'followUpTasks',
+  FOLLOW_UP_POLICIES = 'followUpPolicies',
 }
 
 /**
@@ -0,0 +1,475 @@
+/**
+ * Roles and Permissions for MCC Discipline Tracker
+ *
+ * This module is the single declaration of who may do what. It drives
+ * UserService.hasPermission, chooses each role's navigator in AppNavigator and
+ * generates the role functions at the top of firestore.rules. A permission
+ * that Firestore enforces lists the rules that grant it; each of those
+ * `allow` statements must call the permission's rules function (for example
+ * `canCreateIncident()`), so the app and the rules cannot grant different
+ * roles. verifyFirestoreRules reports any drift between this file and
+ * firestore.rules, and applyFirestoreRuleFunctions regenerates the role
+ * functions after the model changes.
+ *
+ * @fileoverview Role and permission model
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+/**
+ * Roles a user account can have
+ */
+export const USER_ROLES = ['admin', 'principal', 'teacher', 'parent', 'student'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+/**
+ * Firestore rule operations; `read` covers get and list, `write` covers create, update and delete
+ */
+export type RuleOperation = 'read' | 'create' | 'update' | 'delete';
+
+/**
+ * Firestore rule that grants a permission
+ */
+export interface PermissionRule {
+  /** Collection whose `match` block holds the rule */
+  collection: string;
+  operations: RuleOperation[];
+}
+
+/**
+ * Declaration of a permission
+ */
+export interface PermissionDefinition {
+  description: string;
+  roles: readonly UserRole[];
+  /** Rules that grant the permission; each must call its rules function */
+  rules?: readonly PermissionRule[];
+}
+
+/**
+ * Every permission checked by the app
+ */
+export const PERMISSIONS = {
+  'create-incident': {
+    description: 'Record incidents',
+    roles: ['teacher', 'admin', 'principal'],
+    rules: [{ collection: 'incidents', operations: ['create'] }],
+  },
+  'update-incident': {
+    description: 'Update incidents you reported',
+    roles: ['teacher', 'admin', 'principal'],
+    rules: [
+      { collection: 'incidents', operations: ['update'] },
+      { collection: 'incidentAttachments', operations: ['create', 'update'] },
+    ],
+  },
+  'edit-incident': {
+    description: "Update any incident, including other staff members' incidents",
+    roles: ['admin', 'principal'],
+    rules: [
+      { collection: 'incidents', operations: ['update'] },
+      { collection: 'incidentAttachments', operations: ['create', 'update'] },
+    ],
+  },
+  'sign-off-incident': {
+    description: 'Sign off resolved incidents as closed',
+    roles: ['admin', 'principal'],
+    rules: [{ collection: 'incidents', operations: ['update'] }],
+  },
+  'reopen-incident': {
+    description: 'Reopen closed incidents',
+    roles: ['admin', 'principal'],
+    rules: [{ collection: 'incidents', operations: ['update'] }],
+  },
+  'delete-incident': {
+    description: 'Move incidents to the recycle bin',
+    roles: ['admin', 'principal'],
+    rules: [{ collection: 'incidents', operations: ['update'] }],
+  },
+  'create-merit': {
+    description: 'Award merits',
+    roles: ['teacher', 'admin', 'principal'],
+    rules: [{ collection: 'merits', operations: ['create'] }],
+  },
+  'manage-users': {
+    description: "Manage other users' accounts and notification preferences",
+    roles: ['admin', 'principal'],
+  },
+  'view-reports': {
+    description: 'View reports',
+    roles: ['teacher', 'admin', 'principal'],
+  },
+  'manage-school': {
+    description: "Change the school's scoring, student visibility, archive and follow-up escalation settings",
+    roles: ['admin', 'principal'],
+    rules: [
+      { collection: 'scoringConfigs', operations: ['create', 'update', 'delete'] },
+      { collection: 'studentViewPolicies', operations: ['create', 'update', 'delete'] },
+      { collection: 'incidentArchivePolicies', operations: ['create', 'update', 'delete'] },
+      { collection: 'followUpPolicies', operations: ['create', 'update', 'delete'] },
+    ],
+  },
+  'manage-consequence-rules': {
+    description: "Define the school's consequence ladder",
+    roles: ['admin', 'principal'],
+    rules: [{ collection: 'consequenceRules', operations: ['create', 'update', 'delete'] }],
+  },
+  'override-consequence': {
+    description: 'Override consequences triggered by the rules',
+    roles: ['admin', 'principal'],
+    rules: [{ collection: 'consequences', operations: ['update'] }],
+  },
+  'manage-detention-sessions': {
+    description: 'Schedule and cancel detention sessions',
+    roles: ['admin', 'principal'],
+    rules: [{ collection: 'detentionSessions', operations: ['create', 'update'] }],
+  },
+  'assign-detention': {
+    description: 'Assign students to detention sessions',
+    roles: ['teacher', 'admin', 'principal'],
+    rules: [
+      { collection: 'detentionAssignments', operations: ['create'] },
+      { collection: 'incidents', operations: ['update'] },
+    ],
+  },
+  'mark-detention-attendance': {
+    description: 'Mark detention attendance',
+    roles: ['teacher', 'admin', 'principal'],
+    rules: [
+      { collection: 'detentionAssignments', operations: ['update'] },
+      { collection: 'incidents', operations: ['update'] },
+    ],
+  },
+  'notify-parent': {
+    description: 'Notify parents of incidents',
+    roles: ['teacher', 'admin', 'principal'],
+    rules: [
+      { collection: 'notificationDeliveries', operations: ['create'] },
+      { collection: 'incidents', operations: ['update'] },
+    ],
+  },
+  'manage-letter-templates': {
+    description: 'Define parent letter templates',
+    roles: ['admin', 'principal'],
+    rules: [{ collection: 'letterTemplates', operations: ['create', 'update', 'delete'] }],
+  },
+  'schedule-reports': {
+    description: 'Schedule recurring reports',
+    roles: ['teacher', 'admin', 'principal'],
+    rules: [{ collection: 'reportSchedules', operations: ['create'] }],
+  },
+  'manage-report-schedules': {
+    description: "Manage other users' report schedules",
+    roles: ['admin'],
+    rules: [{ collection: 'reportSchedules', operations: ['read', 'update', 'delete'] }],
+  },
+  'import-incidents': {
+    description: 'Import historic incidents from CSV files',
+    roles: ['admin', 'principal'],
+    rules: [
+      { collection: 'incidentImports', operations: ['create', 'read', 'update'] },
+      { collection: 'incidents', operations: ['create'] },
+    ],
+  },
+  'manage-students': {
+    description: 'Maintain the student roster and link student accounts',
+    roles: ['admin', 'principal'],
+    rules: [{ collection: 'students', operations: ['create', 'update', 'delete'] }],
+  },
+  'manage-guardians': {
+    description: 'Invite guardians and revoke their access',
+    roles: ['admin', 'principal'],
+    rules: [
+      { collection: 'guardianInvitations', operations: ['create', 'update'] },
+      { collection: 'guardianLinks', operations: ['create', 'update'] },
+    ],
+  },
+  'view-incidents': {
+    description: 'View incidents at their school',
+    roles: ['teacher', 'admin', 'principal'],
+  },
+  'comment-on-incident': {
+    description: 'Comment on incidents and reply to comments',
+    roles: ['teacher', 'admin', 'principal'],
+    rules: [
+      { collection: 'incidentComments', operations: ['create', 'update'] },
+      { collection: 'incidents', operations: ['update'] },
+    ],
+  },
+  'manage-follow-up-tasks': {
+    description: 'Assign, update and complete follow-up tasks on incidents',
+    roles: ['teacher', 'admin', 'principal'],
+    rules: [
+      { collection: 'followUpTasks', operations: ['create', 'update'] },
+      { collection: 'incidents', operations: ['update'] },
+    ],
+  },
+  'manage-deleted-incidents': {
+    description: 'See the recycle bin of deleted incidents and restore them',
+    roles: ['admin'],
+  },
+  'archive-incidents': {
+    description: 'Archive old closed incidents and bring them back',
+    roles: ['admin', 'principal'],
+  },
+  'view-audit-log': {
+    description: 'View the incident changes made by any user at their school',
+    roles: ['admin', 'principal'],
+  },
+  'manage-roles': {
+    description: 'Define custom roles and school permission overrides',
+    roles: ['admin', 'principal'],
+    rules: [
+      { collection: 'customRoles', operations: ['create', 'update', 'delete'] },
+      { collection: 'permissionPolicies', operations: ['create', 'update', 'delete'] },
+      { collection: 'users', operations: ['update'] },
+    ],
+  },
+} as const satisfies Record<string, PermissionDefinition>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+/**
+ * Part of the app each role uses
+ */
+export type AppArea = 'admin' | 'teacher' | 'parent' | 'student';
+
+/**
+ * Navigator shown to each role
+ */
+export const ROLE_APP_AREAS: Record<UserRole, AppArea> = {
+  admin: 'admin',
+  principal: 'admin',
+  teacher: 'teacher',
+  parent: 'parent',
+  student: 'student',
+};
+
+/**
+ * Check whether a value is a known role
+ * @param role - Value to check
+ * @returns True if the value is a role
+ */
+export const isUserRole = (role: unknown): role is UserRole => USER_ROLES.includes(role as UserRole);
+
+/**
+ * Check whether a role has a permission
+ * @param role - User's role
+ * @param permission - Permission to check
+ * @returns True if the role is granted the permission; unknown permissions are never granted
+ */
+export const roleHasPermission = (role: string | undefined, permission: string): boolean => {
+  const definition: PermissionDefinition | undefined = PERMISSIONS[permission as Permission];
+  return Boolean(definition && isUserRole(role) && definition.roles.includes(role));
+};
+
+/**
+ * Get the permissions a role has
+ * @param role - User's role
+ * @returns Permissions granted to the role
+ */
+export const getRolePermissions = (role: UserRole): Permission[] =>
+  (Object.keys(PERMISSIONS) as Permission[]).filter(permission => roleHasPermission(role, permission));
+
+/**
+ * Get the part of the app a user sees
+ * @param role - User's role
+ * @returns App area; unknown or missing roles get the teacher area
+ */
+export const getAppArea = (role: string | undefined): AppArea => (isUserRole(role) ? ROLE_APP_AREAS[role] : 'teacher');
+
+/**
+ * Get the name of the Firestore rules function for a permission or role
+ * @param name - Permission (e.g. 'create-incident') or role (e.g. 'admin')
+ * @param prefix - Function name prefix
+ * @returns Function name (e.g. canCreateIncident, isAdmin)
+ */
+export const getRuleFunctionName = (name: string, prefix: 'can' | 'is' = 'can'): string =>
+  prefix + name.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+
+const GENERATED_START = '// BEGIN GENERATED ROLE FUNCTIONS';
+const GENERATED_END = '// END GENERATED ROLE FUNCTIONS';
+const RULE_INDENT = '    ';
+
+/**
+ * Find the generated functions in firestore.rules
+ * @param rules - Contents of firestore.rules
+ * @returns Start (at the beginning of the marker's line) and end of the section, or null if it is missing
+ */
+const findGeneratedSection = (rules: string): { start: number; end: number } | null => {
+  const startMarker = rules.indexOf(GENERATED_START);
+  const endMarker = rules.indexOf(GENERATED_END, startMarker);
+  if (startMarker === -1 || endMarker === -1) {
+    return null;
+  }
+  return { start: rules.lastIndexOf('\n', startMarker) + 1, end: endMarker + GENERATED_END.length };
+};
+
+/**
+ * Generate the role and permission functions for firestore.rules
+ * @returns Rules functions, including the start and end markers
+ */
+export const generateFirestoreRuleFunctions = (): string => {
+  const lines = [
+    `${GENERATED_START} (from src/config/permissions.ts; regenerate with applyFirestoreRuleFunctions)`,
+    'function userRole() {',
+    '  return get(/databases/$(database)/documents/users/$(request.auth.uid)).data.role;',
+    '}',
+    '',
+  ];
+
+  USER_ROLES.forEach(role => {
+    lines.push(
+      `function ${getRuleFunctionName(role, 'is')}() {`,
+      `  return isAuthenticated() && userRole() == '${role}';`,
+      '}',
+      ''
+    );
+  });
+
+  (Object.keys(PERMISSIONS) as Permission[]).forEach(permission => {
+    const definition: PermissionDefinition = PERMISSIONS[permission];
+    if (!definition.rules) {
+      return;
+    }
+    const roles = definition.roles.map(role => `'${role}'`).join(', ');
+    lines.push(
+      `// ${definition.description}`,
+      `function ${getRuleFunctionName(permission)}() {`,
+      `  return isAuthenticated() && userRole() in [${roles}];`,
+      '}',
+      ''
+    );
+  });
+
+  lines.push(GENERATED_END);
+
+  return lines.map(line => (line ? RULE_INDENT + line : line)).join('\n');
+};
+
+/**
+ * Replace the generated functions in firestore.rules with the current model
+ * @param rules - Contents of firestore.rules
+ * @returns Updated contents
+ * @throws Error if the file has no generated section
+ */
+export const applyFirestoreRuleFunctions = (rules: string): string => {
+  const section = findGeneratedSection(rules);
+  if (!section) {
+    throw new Error('firestore.rules has no generated role functions section');
+  }
+  return rules.slice(0, section.start) + generateFirestoreRuleFunctions() + rules.slice(section.end);
+};
+
+/**
+ * Get the `allow` statements of a collection's match block
+ * @param rules - Contents of firestore.rules
+ * @param collection - Collection name
+ * @returns Operations and condition of each statement, or null if the collection has no match block
+ */
+const getAllowStatements = (
+  rules: string,
+  collection: string
+): { operations: RuleOperation[]; condition: string }[] | null => {
+  const match = new RegExp(`match\\s+/${collection}/\\{\\w+\\}\\s*\\{`).exec(rules);
+  if (!match) {
+    return null;
+  }
+
+  // Find the end of the block, ignoring braces in comments
+  let depth = 1;
+  let position = match.index + match[0].length;
+  const bodyStart = position;
+  while (position < rules.length && depth > 0) {
+    if (rules.startsWith('//', position)) {
+      position = rules.indexOf('\n', position);
+      if (position === -1) break;
+    } else if (rules[position] === '{') {
+      depth++;
+    } else if (rules[position] === '}') {
+      depth--;
+    }
+    position++;
+  }
+  const body = rules.slice(bodyStart, position - 1).replace(/\/\/[^\n]*/g, '');
+
+  const statements: { operations: RuleOperation[]; condition: string }[] = [];
+  const allowPattern = /allow\s+([a-z,\s]+?)\s*:\s*if\s+([^;]+);/g;
+  let allow: RegExpExecArray | null;
+  while ((allow = allowPattern.exec(body))) {
+    const operations = allow[1].split(',').flatMap((operation): RuleOperation[] => {
+      switch (operation.trim()) {
+        case 'write':
+          return ['create', 'update', 'delete'];
+        case 'get':
+        case 'list':
+          return ['read'];
+        default:
+          return [operation.trim() as RuleOperation];
+      }
+    });
+    statements.push({ operations, condition: allow[2] });
+  }
+
+  return statements;
+};
+
+/**
+ * Check firestore.rules against the permission model
+ * @param rules - Contents of firestore.rules
+ * @returns Description of each difference; empty when the rules match the model
+ */
+export const verifyFirestoreRules = (rules: string): string[] => {
+  const problems: string[] = [];
+
+  const section = findGeneratedSection(rules);
+  if (!section) {
+    problems.push('firestore.rules has no generated role functions section');
+  } else if (rules.slice(section.start, section.end) !== generateFirestoreRuleFunctions()) {
+    problems.push('Generated role functions in firestore.rules are out of date; run applyFirestoreRuleFunctions');
+  }
+
+  const bound = new Set<string>();
+  (Object.keys(PERMISSIONS) as Permission[]).forEach(permission => {
+    const definition: PermissionDefinition = PERMISSIONS[permission];
+    const functionCall = `${getRuleFunctionName(permission)}()`;
+
+    definition.rules?.forEach(({ collection, operations }) => {
+      const statements = getAllowStatements(rules, collection);
+      if (!statements) {
+        problems.push(`${permission}: firestore.rules has no match block for ${collection}`);
+        return;
+      }
+
+      operations.forEach(operation => {
+        bound.add(`${collection}:${operation}:${functionCall}`);
+        const granting = statements.filter(statement => statement.operations.includes(operation));
+        if (granting.length === 0) {
+          problems.push(`${permission}: ${collection} has no rule for ${operation}`);
+        } else if (!granting.some(statement => statement.condition.includes(functionCall))) {
+          problems.push(`${permission}: the ${operation} rule for ${collection} does not check ${functionCall}`);
+        }
+      });
+    });
+  });
+
+  // Permission functions used where the model does not declare them
+  const collectionPattern = /match\s+\/(\w+)\/\{\w+\}/g;
+  let collectionMatch: RegExpExecArray | null;
+  while ((collectionMatch = collectionPattern.exec(rules))) {
+    const collection = collectionMatch[1];
+    getAllowStatements(rules, collection)?.forEach(({ operations, condition }) => {
+      const calls = condition.match(/\bcan[A-Z]\w*\(\)/g) || [];
+      calls.forEach(call => {
+        operations.forEach(operation => {
+          if (!bound.has(`${collection}:${operation}:${call}`)) {
+            problems.push(`${collection}: the ${operation} rule checks ${call}, which the model does not declare for it`);
+          }
+        });
+      });
+    });
+  }
+
+  return problems;
+};
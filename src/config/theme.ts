@@ -130,7 +130,7 @@ export const Typography = {
     fontWeight: '400',
     color: Colors.darkGray,
   },
-};
+} as const; // Literal font weights, as React Native text styles require
 
 export const Spacing = {
   xs: 4,
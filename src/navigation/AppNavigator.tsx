@@ -16,12 +16,19 @@ import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { View, Text, ActivityIndicator, StyleSheet } from 'react-native';
 import { useAuth } from '../contexts/AuthContext';
 import theme from '../config/theme';
+import { getAppArea } from '../config/permissions';
 
 // Import authentication screens
 import LoginScreen from '../screens/auth/Login';
 import RegisterScreen from '../screens/auth/Register';
 import ForgotPasswordScreen from '../screens/auth/ForgotPassword';
 
+// Import settings screen (shared by every role's Settings tab)
+import SettingsScreen from '../screens/settings/Settings';
+
+// Import incidents screen (admin area, where incidents are moved to the recycle bin)
+import IncidentsScreen from '../screens/incidents/Incidents';
+
 // Import main app screens (using placeholders for now)
 const HomeScreen = () => (
   <View style={styles.screenContainer}>
@@ -35,12 +42,6 @@ const ProfileScreen = () => (
   </View>
 );
 
-const SettingsScreen = () => (
-  <View style={styles.screenContainer}>
-    <Text style={styles.screenText}>Settings Screen</Text>
-  </View>
-);
-
 // Placeholder screens for role-specific home screens
 const AdminHomeScreen = () => (
   <View style={styles.screenContainer}>
@@ -82,6 +83,7 @@ export enum ScreenNames {
   
   // Admin screens
   AdminHome = 'AdminHome',
+  AdminIncidents = 'AdminIncidents',
   AdminProfile = 'AdminProfile',
   AdminSettings = 'AdminSettings',
   
@@ -120,6 +122,7 @@ export type RootStackParamList = {
   
   // Admin screens
   [ScreenNames.AdminHome]: undefined;
+  [ScreenNames.AdminIncidents]: undefined;
   [ScreenNames.AdminProfile]: undefined;
   [ScreenNames.AdminSettings]: undefined;
   
@@ -214,6 +217,16 @@ const AdminNavigator = () => {
           headerTitleStyle: defaultScreenOptions.headerTitleStyle,
         }}
       />
+      <Tab.Screen 
+        name={ScreenNames.AdminIncidents} 
+        component={IncidentsScreen} 
+        options={{ 
+          title: 'Incidents',
+          headerStyle: defaultScreenOptions.headerStyle,
+          headerTintColor: defaultScreenOptions.headerTintColor,
+          headerTitleStyle: defaultScreenOptions.headerTitleStyle,
+        }}
+      />
       <Tab.Screen 
         name={ScreenNames.AdminProfile} 
         component={ProfileScreen} 
@@ -396,18 +409,17 @@ const ParentNavigator = () => {
  */
 const RoleBasedNavigator = ({ userRole }: { userRole?: string }) => {
   // Determine which navigator to render based on user role
-  switch (userRole) {
+  // Unknown roles, or a role not yet loaded, get the teacher view (see config/permissions)
+  switch (getAppArea(userRole)) {
     case 'admin':
       return <AdminNavigator />;
-    case 'teacher':
-      return <TeacherNavigator />;
     case 'student':
       return <StudentNavigator />;
     case 'parent':
       return <ParentNavigator />;
+    case 'teacher':
     default:
-      // Fallback for unknown roles or if user.role is not yet available
-      return <TeacherNavigator />; // Default to teacher view as fallback
+      return <TeacherNavigator />;
   }
 };
 
@@ -0,0 +1,349 @@
+/**
+ * Incidents Screen Component
+ *
+ * This component provides the incidents tab shown to admins and principals.
+ * It lists the school's incidents and lets users with 'delete-incident' move
+ * one to the recycle bin with a reason. Users with 'manage-deleted-incidents'
+ * also see the recycle bin and can restore incidents from it. Incidents are
+ * never removed outright.
+ *
+ * @fileoverview Incidents screen with the recycle bin
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useAuth } from '../../../contexts/AuthContext';
+import { disciplineService, DisciplineIncident } from '../../../services/disciplineService';
+import { userService } from '../../../services/userService';
+import theme from '../../../config/theme';
+
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * One incident in a list, with its action
+ */
+const IncidentRow = ({
+  incident,
+  actionLabel,
+  onAction,
+  disabled,
+}: {
+  incident: DisciplineIncident;
+  actionLabel: string;
+  onAction: () => void;
+  disabled: boolean;
+}) => (
+  <View style={styles.incidentRow}>
+    <View style={styles.incidentDetails}>
+      <Text style={styles.label}>{incident.studentName}</Text>
+      <Text style={styles.hintText}>
+        {incident.incidentType} · {incident.severity} · {incident.dateTime.toLocaleDateString()}
+      </Text>
+      {incident.deletionReason ? <Text style={styles.hintText}>Deleted: {incident.deletionReason}</Text> : null}
+    </View>
+    <TouchableOpacity style={styles.actionButton} onPress={onAction} disabled={disabled}>
+      <Text style={styles.actionButtonText}>{actionLabel}</Text>
+    </TouchableOpacity>
+  </View>
+);
+
+/**
+ * Incidents Screen Component
+ * Moves incidents to the recycle bin and restores them
+ */
+const IncidentsScreen: React.FC = () => {
+  const { user } = useAuth();
+  const [incidents, setIncidents] = useState<DisciplineIncident[] | null>(null);
+  const [deletedIncidents, setDeletedIncidents] = useState<DisciplineIncident[]>([]);
+  const [canManageDeleted, setCanManageDeleted] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  /**
+   * Load the school's incidents and, for users who manage it, the recycle bin
+   */
+  const loadIncidents = useCallback(async () => {
+    if (!user?.schoolId) {
+      return;
+    }
+
+    try {
+      const { incidents: active } = await disciplineService.searchIncidents({ schoolId: user.schoolId, viewerId: user.uid });
+      const manageDeleted = await userService.hasPermission(user.uid, 'manage-deleted-incidents', { schoolId: user.schoolId });
+      const deleted = manageDeleted
+        ? (await disciplineService.getDeletedIncidents(user.schoolId, user.uid)).incidents
+        : [];
+
+      setIncidents(active);
+      setCanManageDeleted(manageDeleted);
+      setDeletedIncidents(deleted);
+    } catch (err) {
+      console.error('Error loading incidents:', err);
+      setError('Could not load incidents');
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadIncidents();
+  }, [loadIncidents]);
+
+  /**
+   * Move the incident being deleted to the recycle bin
+   */
+  const handleDelete = async () => {
+    if (!user || !deletingId) {
+      return;
+    }
+
+    if (!reason.trim()) {
+      setError('Enter a reason for deleting the incident');
+      return;
+    }
+
+    setError('');
+    setIsWorking(true);
+
+    try {
+      await disciplineService.deleteIncident(deletingId, user.uid, reason);
+      setDeletingId(null);
+      setReason('');
+      await loadIncidents();
+      Alert.alert('Incident Deleted', 'The incident has been moved to the recycle bin.', [{ text: 'OK' }]);
+    } catch (err) {
+      console.error('Error deleting incident:', err);
+      setError('Could not delete the incident');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  /**
+   * Restore an incident from the recycle bin
+   * @param incidentId - Incident to restore
+   */
+  const handleRestore = async (incidentId: string) => {
+    if (!user) {
+      return;
+    }
+
+    setError('');
+    setIsWorking(true);
+
+    try {
+      await disciplineService.restoreIncident(incidentId, user.uid);
+      await loadIncidents();
+    } catch (err) {
+      console.error('Error restoring incident:', err);
+      setError('Could not restore the incident');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!incidents) {
+    return (
+      <View style={styles.loadingContainer}>
+        {error ? <Text style={styles.errorText}>{error}</Text> : <ActivityIndicator size="large" color={theme.Colors.primary} />}
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContainer}>
+      <Text style={styles.headerText}>Incidents</Text>
+
+      {/* Reason for the incident being deleted */}
+      {deletingId ? (
+        <View style={styles.card}>
+          <Text style={styles.cardHeading}>Why is this incident being deleted?</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Reason"
+            placeholderTextColor={theme.Colors.mediumGray}
+            value={reason}
+            onChangeText={setReason}
+            maxLength={MAX_REASON_LENGTH}
+            multiline
+          />
+          <Text style={styles.hintText}>Deleted incidents go to the recycle bin and can be restored by an admin.</Text>
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => {
+                setDeletingId(null);
+                setReason('');
+              }}
+              disabled={isWorking}
+            >
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.primaryButton} onPress={handleDelete} disabled={isWorking}>
+              <Text style={styles.primaryButtonText}>{isWorking ? 'Deleting...' : 'Delete'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : null}
+
+      {/* Error Message */}
+      {error ? (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : null}
+
+      {/* Active and archived incidents */}
+      <View style={styles.card}>
+        <Text style={styles.cardHeading}>School incidents</Text>
+        {incidents.length === 0 ? <Text style={styles.hintText}>No incidents.</Text> : null}
+        {incidents.map(incident => (
+          <IncidentRow
+            key={incident.id}
+            incident={incident}
+            actionLabel="Delete"
+            onAction={() => setDeletingId(incident.id!)}
+            disabled={isWorking}
+          />
+        ))}
+      </View>
+
+      {/* Recycle bin */}
+      {canManageDeleted ? (
+        <View style={styles.card}>
+          <Text style={styles.cardHeading}>Recycle bin</Text>
+          {deletedIncidents.length === 0 ? <Text style={styles.hintText}>The recycle bin is empty.</Text> : null}
+          {deletedIncidents.map(incident => (
+            <IncidentRow
+              key={incident.id}
+              incident={incident}
+              actionLabel="Restore"
+              onAction={() => handleRestore(incident.id!)}
+              disabled={isWorking}
+            />
+          ))}
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.Colors.lightGray,
+  },
+  scrollContainer: {
+    padding: theme.Spacing.m,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: theme.Colors.white,
+  },
+  headerText: {
+    ...theme.Typography.sectionHeading,
+    marginBottom: theme.Spacing.m,
+  },
+  card: {
+    backgroundColor: theme.Colors.white,
+    borderRadius: theme.Borders.radiusMedium,
+    padding: theme.Spacing.cardInternalPadding,
+    marginBottom: theme.Spacing.m,
+    ...theme.Shadows.card,
+  },
+  cardHeading: {
+    ...theme.Typography.cardHeading,
+    marginBottom: theme.Spacing.s,
+  },
+  incidentRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: theme.Spacing.s,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.Colors.dividerGray,
+  },
+  incidentDetails: {
+    flex: 1,
+    marginRight: theme.Spacing.s,
+  },
+  label: {
+    ...theme.Typography.body1,
+  },
+  hintText: {
+    ...theme.Typography.caption,
+    marginTop: theme.Spacing.xs,
+  },
+  actionButton: {
+    borderWidth: 1,
+    borderColor: theme.Colors.primary,
+    borderRadius: theme.Borders.radiusSmall,
+    paddingVertical: theme.Spacing.s,
+    paddingHorizontal: theme.Spacing.m,
+  },
+  actionButtonText: {
+    ...theme.Typography.body2,
+    color: theme.Colors.primary,
+  },
+  input: {
+    minHeight: 80,
+    borderWidth: 1,
+    borderColor: theme.Colors.dividerGray,
+    borderRadius: theme.Borders.radiusSmall,
+    padding: theme.Spacing.m,
+    ...theme.Typography.inputText,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: theme.Spacing.m,
+  },
+  primaryButton: {
+    backgroundColor: theme.Colors.primary,
+    borderRadius: theme.Borders.radiusSmall,
+    paddingVertical: theme.Spacing.s,
+    paddingHorizontal: theme.Spacing.m,
+    marginLeft: theme.Spacing.s,
+  },
+  primaryButtonText: {
+    ...theme.Typography.buttonTextPrimary,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: theme.Colors.dividerGray,
+    borderRadius: theme.Borders.radiusSmall,
+    paddingVertical: theme.Spacing.s,
+    paddingHorizontal: theme.Spacing.m,
+  },
+  secondaryButtonText: {
+    ...theme.Typography.body2,
+    color: theme.Colors.textSecondary,
+  },
+  errorContainer: {
+    backgroundColor: theme.Colors.primaryUltraLight,
+    borderWidth: 1,
+    borderColor: theme.Colors.error,
+    borderRadius: theme.Borders.radiusSmall,
+    padding: theme.Spacing.m,
+    marginBottom: theme.Spacing.m,
+  },
+  errorText: {
+    ...theme.Typography.body2,
+    color: theme.Colors.error,
+  },
+});
+
+export default IncidentsScreen;
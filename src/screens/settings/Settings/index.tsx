@@ -0,0 +1,376 @@
+/**
+ * Settings Screen Component
+ *
+ * This component provides the settings screen shown in every role's tab
+ * navigator. It lets users edit their notification preferences: enabled
+ * channels, minimum severity, immediate vs digest delivery, quiet hours
+ * and language.
+ *
+ * @fileoverview Settings screen with notification preferences
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Switch,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useAuth } from '../../../contexts/AuthContext';
+import {
+  notificationPreferencesService,
+  NotificationPreferences,
+  DeliveryMode,
+} from '../../../services/notificationPreferencesService';
+import { NotificationChannel } from '../../../services/notificationProviders';
+import theme from '../../../config/theme';
+
+const CHANNEL_OPTIONS = [
+  { value: NotificationChannel.PUSH, label: 'Push notifications' },
+  { value: NotificationChannel.EMAIL, label: 'Email' },
+  { value: NotificationChannel.SMS, label: 'SMS' },
+];
+
+const SEVERITY_OPTIONS: { value: NotificationPreferences['minimumSeverity']; label: string }[] = [
+  { value: 'low', label: 'All' },
+  { value: 'medium', label: 'Medium+' },
+  { value: 'high', label: 'High+' },
+  { value: 'critical', label: 'Critical' },
+];
+
+const DELIVERY_MODE_OPTIONS = [
+  { value: DeliveryMode.IMMEDIATE, label: 'Immediately' },
+  { value: DeliveryMode.DAILY_DIGEST, label: 'Daily digest' },
+  { value: DeliveryMode.WEEKLY_DIGEST, label: 'Weekly digest' },
+];
+
+const LANGUAGE_OPTIONS = [
+  { value: 'en', label: 'English' },
+  { value: 'af', label: 'Afrikaans' },
+];
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Row of selectable options
+ */
+const OptionGroup = <T extends string>({
+  options,
+  selected,
+  onSelect,
+}: {
+  options: { value: T; label: string }[];
+  selected: T;
+  onSelect: (value: T) => void;
+}) => (
+  <View style={styles.optionRow}>
+    {options.map(option => (
+      <TouchableOpacity
+        key={option.value}
+        style={[styles.option, option.value === selected ? styles.optionSelected : null]}
+        onPress={() => onSelect(option.value)}
+      >
+        <Text style={[styles.optionText, option.value === selected ? styles.optionTextSelected : null]}>
+          {option.label}
+        </Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+/**
+ * Settings Screen Component
+ * Loads and saves the signed-in user's notification preferences
+ */
+const SettingsScreen: React.FC = () => {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Load the user's preferences
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+
+    notificationPreferencesService
+      .getPreferences(user.uid)
+      .then(setPreferences)
+      .catch(err => {
+        console.error('Error loading notification preferences:', err);
+        setError('Could not load your notification preferences');
+      });
+  }, [user]);
+
+  /**
+   * Apply a change to the preferences being edited
+   * @param updates - Fields to change
+   */
+  const updateField = (updates: Partial<NotificationPreferences>) => {
+    setPreferences(current => (current ? { ...current, ...updates } : current));
+  };
+
+  /**
+   * Validate and save the preferences
+   */
+  const handleSave = async () => {
+    if (!user || !preferences) {
+      return;
+    }
+
+    if (
+      preferences.quietHours.enabled &&
+      (!TIME_REGEX.test(preferences.quietHours.start) || !TIME_REGEX.test(preferences.quietHours.end))
+    ) {
+      setError('Quiet hours must be 24-hour times, e.g. 21:00');
+      return;
+    }
+
+    setError('');
+    setIsSaving(true);
+
+    try {
+      const { channels, minimumSeverity, deliveryMode, quietHours, language } = preferences;
+      const saved = await notificationPreferencesService.updatePreferences(
+        user.uid,
+        { channels, minimumSeverity, deliveryMode, quietHours, language },
+        user.uid
+      );
+      setPreferences(saved);
+      Alert.alert('Settings Saved', 'Your notification preferences have been updated.', [{ text: 'OK' }]);
+    } catch (err) {
+      console.error('Error saving notification preferences:', err);
+      setError('Could not save your notification preferences');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!preferences) {
+    return (
+      <View style={styles.loadingContainer}>
+        {error ? <Text style={styles.errorText}>{error}</Text> : <ActivityIndicator size="large" color={theme.Colors.primary} />}
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContainer}>
+      <Text style={styles.headerText}>Notifications</Text>
+
+      {/* Channels */}
+      <View style={styles.card}>
+        <Text style={styles.cardHeading}>Channels</Text>
+        {CHANNEL_OPTIONS.map(channel => (
+          <View key={channel.value} style={styles.switchRow}>
+            <Text style={styles.label}>{channel.label}</Text>
+            <Switch
+              value={preferences.channels[channel.value]}
+              onValueChange={enabled =>
+                updateField({ channels: { ...preferences.channels, [channel.value]: enabled } })
+              }
+              trackColor={{ true: theme.Colors.primary, false: theme.Colors.dividerGray }}
+            />
+          </View>
+        ))}
+      </View>
+
+      {/* Severity threshold */}
+      <View style={styles.card}>
+        <Text style={styles.cardHeading}>Incidents to notify me about</Text>
+        <OptionGroup
+          options={SEVERITY_OPTIONS}
+          selected={preferences.minimumSeverity}
+          onSelect={minimumSeverity => updateField({ minimumSeverity })}
+        />
+      </View>
+
+      {/* Delivery mode */}
+      <View style={styles.card}>
+        <Text style={styles.cardHeading}>Delivery</Text>
+        <OptionGroup
+          options={DELIVERY_MODE_OPTIONS}
+          selected={preferences.deliveryMode}
+          onSelect={deliveryMode => updateField({ deliveryMode })}
+        />
+        <Text style={styles.hintText}>Critical incidents are always sent immediately.</Text>
+      </View>
+
+      {/* Quiet hours */}
+      <View style={styles.card}>
+        <View style={styles.switchRow}>
+          <Text style={styles.cardHeading}>Quiet hours</Text>
+          <Switch
+            value={preferences.quietHours.enabled}
+            onValueChange={enabled => updateField({ quietHours: { ...preferences.quietHours, enabled } })}
+            trackColor={{ true: theme.Colors.primary, false: theme.Colors.dividerGray }}
+          />
+        </View>
+        {preferences.quietHours.enabled ? (
+          <View style={styles.timeRow}>
+            <View style={styles.timeInputContainer}>
+              <Text style={styles.label}>From</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="21:00"
+                placeholderTextColor={theme.Colors.mediumGray}
+                value={preferences.quietHours.start}
+                onChangeText={start => updateField({ quietHours: { ...preferences.quietHours, start } })}
+              />
+            </View>
+            <View style={styles.timeInputContainer}>
+              <Text style={styles.label}>Until</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="07:00"
+                placeholderTextColor={theme.Colors.mediumGray}
+                value={preferences.quietHours.end}
+                onChangeText={end => updateField({ quietHours: { ...preferences.quietHours, end } })}
+              />
+            </View>
+          </View>
+        ) : null}
+        <Text style={styles.hintText}>Times are in {preferences.quietHours.timeZone}.</Text>
+      </View>
+
+      {/* Language */}
+      <View style={styles.card}>
+        <Text style={styles.cardHeading}>Language</Text>
+        <OptionGroup
+          options={LANGUAGE_OPTIONS}
+          selected={preferences.language}
+          onSelect={language => updateField({ language })}
+        />
+      </View>
+
+      {/* Error Message */}
+      {error ? (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : null}
+
+      {/* Save Button */}
+      <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={isSaving}>
+        <Text style={styles.saveButtonText}>{isSaving ? 'Saving...' : 'Save'}</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.Colors.lightGray,
+  },
+  scrollContainer: {
+    padding: theme.Spacing.m,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: theme.Colors.white,
+  },
+  headerText: {
+    ...theme.Typography.sectionHeading,
+    marginBottom: theme.Spacing.m,
+  },
+  card: {
+    backgroundColor: theme.Colors.white,
+    borderRadius: theme.Borders.radiusMedium,
+    padding: theme.Spacing.cardInternalPadding,
+    marginBottom: theme.Spacing.m,
+    ...theme.Shadows.card,
+  },
+  cardHeading: {
+    ...theme.Typography.cardHeading,
+    marginBottom: theme.Spacing.s,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.Spacing.s,
+  },
+  label: {
+    ...theme.Typography.body1,
+  },
+  hintText: {
+    ...theme.Typography.caption,
+    marginTop: theme.Spacing.s,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  option: {
+    borderWidth: 1,
+    borderColor: theme.Colors.dividerGray,
+    borderRadius: theme.Borders.radiusSmall,
+    paddingVertical: theme.Spacing.s,
+    paddingHorizontal: theme.Spacing.m,
+    marginRight: theme.Spacing.s,
+    marginBottom: theme.Spacing.s,
+  },
+  optionSelected: {
+    backgroundColor: theme.Colors.primary,
+    borderColor: theme.Colors.primary,
+  },
+  optionText: {
+    ...theme.Typography.body2,
+    color: theme.Colors.textSecondary,
+  },
+  optionTextSelected: {
+    color: theme.Colors.white,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  timeInputContainer: {
+    flex: 1,
+    marginRight: theme.Spacing.s,
+  },
+  input: {
+    height: 50,
+    borderWidth: 1,
+    borderColor: theme.Colors.dividerGray,
+    borderRadius: theme.Borders.radiusSmall,
+    paddingHorizontal: theme.Spacing.m,
+    marginTop: theme.Spacing.xs,
+    ...theme.Typography.inputText,
+  },
+  saveButton: {
+    backgroundColor: theme.Colors.primary,
+    borderRadius: theme.Borders.radiusSmall,
+    padding: theme.Spacing.m,
+    alignItems: 'center',
+    marginBottom: theme.Spacing.l,
+  },
+  saveButtonText: {
+    ...theme.Typography.buttonTextPrimary,
+  },
+  errorContainer: {
+    backgroundColor: theme.Colors.primaryUltraLight,
+    borderWidth: 1,
+    borderColor: theme.Colors.error,
+    borderRadius: theme.Borders.radiusSmall,
+    padding: theme.Spacing.m,
+    marginBottom: theme.Spacing.m,
+  },
+  errorText: {
+    ...theme.Typography.body2,
+    color: theme.Colors.error,
+  },
+});
+
+export default SettingsScreen;
@@ -0,0 +1,216 @@
+/**
+ * Attachment Storage Adapters for MCC Discipline Tracker
+ *
+ * This module defines the storage interface used by IncidentAttachmentService
+ * to keep the files behind incident attachments, together with the built-in
+ * adapters: Firebase Cloud Storage and an in-memory local adapter for tests
+ * and local development.
+ *
+ * Storage errors use the retryable codes understood by withRetry
+ * ('unavailable', 'resource-exhausted', 'timeout') for transient failures;
+ * all other failures are permanent.
+ *
+ * @fileoverview Attachment file storage adapters
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import {
+  FirebaseStorage,
+  getStorage,
+  ref,
+  uploadBytes,
+  getBytes,
+  deleteObject,
+  getDownloadURL,
+} from 'firebase/storage';
+import { app } from '../config/firebaseConfig';
+
+/**
+ * Interface implemented by every attachment storage adapter
+ */
+export interface AttachmentStorage {
+  /** Short adapter name for logs */
+  readonly name: string;
+  /**
+   * Store a file, replacing any file already at the path
+   * @param path - Storage path
+   * @param data - File contents
+   * @param contentType - MIME type of the file
+   * @returns Promise resolving once the file is stored
+   */
+  put(path: string, data: Uint8Array, contentType: string): Promise<void>;
+  /**
+   * Read a file
+   * @param path - Storage path
+   * @returns Promise resolving to the file contents, or null if there is no file at the path
+   */
+  get(path: string): Promise<Uint8Array | null>;
+  /**
+   * Delete a file; deleting a missing file is not an error
+   * @param path - Storage path
+   * @returns Promise resolving once the file is gone
+   */
+  remove(path: string): Promise<void>;
+  /**
+   * Get a URL the app can load the file from
+   * @param path - Storage path
+   * @returns Promise resolving to the URL
+   */
+  getUrl(path: string): Promise<string>;
+}
+
+/**
+ * Map a Firebase Storage error code to a storage error code
+ * @param code - Firebase Storage error code (e.g. 'storage/retry-limit-exceeded')
+ * @returns Error code (retryable for transient failures)
+ */
+const errorCodeForFirebase = (code: string | undefined): string => {
+  switch (code) {
+    case 'storage/retry-limit-exceeded':
+    case 'storage/server-file-wrong-size':
+    case 'storage/unknown':
+      return 'unavailable';
+    case 'storage/quota-exceeded':
+      return 'resource-exhausted';
+    case 'storage/unauthorized':
+    case 'storage/unauthenticated':
+      return 'permission-denied';
+    default:
+      return 'rejected';
+  }
+};
+
+/**
+ * Storage adapter backed by Firebase Cloud Storage
+ * Access is enforced by storage.rules, which mirror the attachment rules in
+ * firestore.rules.
+ */
+export class FirebaseAttachmentStorage implements AttachmentStorage {
+  public readonly name = 'firebase';
+
+  constructor(private readonly storage: FirebaseStorage = getStorage(app)) {}
+
+  public async put(path: string, data: Uint8Array, contentType: string): Promise<void> {
+    try {
+      await uploadBytes(ref(this.storage, path), data, { contentType });
+    } catch (error) {
+      throw this.toStorageError(error, `Failed to upload ${path}`);
+    }
+  }
+
+  public async get(path: string): Promise<Uint8Array | null> {
+    try {
+      return new Uint8Array(await getBytes(ref(this.storage, path)));
+    } catch (error) {
+      if ((error as any)?.code === 'storage/object-not-found') {
+        return null;
+      }
+      throw this.toStorageError(error, `Failed to download ${path}`);
+    }
+  }
+
+  public async remove(path: string): Promise<void> {
+    try {
+      await deleteObject(ref(this.storage, path));
+    } catch (error) {
+      if ((error as any)?.code === 'storage/object-not-found') {
+        return;
+      }
+      throw this.toStorageError(error, `Failed to delete ${path}`);
+    }
+  }
+
+  public async getUrl(path: string): Promise<string> {
+    try {
+      return await getDownloadURL(ref(this.storage, path));
+    } catch (error) {
+      throw this.toStorageError(error, `Failed to get a download URL for ${path}`);
+    }
+  }
+
+  private toStorageError(error: unknown, message: string): AttachmentStorageError {
+    const firebaseCode: string | undefined = (error as any)?.code;
+    return new AttachmentStorageError(`${message}: ${(error as Error)?.message}`, errorCodeForFirebase(firebaseCode), {
+      firebaseCode,
+    });
+  }
+}
+
+/**
+ * In-memory storage adapter
+ * Used in tests and local development. Failures can be simulated with failNext.
+ */
+export class LocalAttachmentStorage implements AttachmentStorage {
+  public readonly name = 'local';
+  public readonly files = new Map<string, { data: Uint8Array; contentType: string }>();
+  private pendingFailures: string[] = [];
+
+  public async put(path: string, data: Uint8Array, contentType: string): Promise<void> {
+    this.takeFailure();
+    this.files.set(path, { data: data.slice(), contentType });
+  }
+
+  public async get(path: string): Promise<Uint8Array | null> {
+    this.takeFailure();
+    const file = this.files.get(path);
+    return file ? file.data.slice() : null;
+  }
+
+  public async remove(path: string): Promise<void> {
+    this.takeFailure();
+    this.files.delete(path);
+  }
+
+  public async getUrl(path: string): Promise<string> {
+    this.takeFailure();
+    return `local://${path}`;
+  }
+
+  /**
+   * Make the next operations fail
+   * @param count - Number of operations to fail
+   * @param code - Error code to fail with ('unavailable' is retried, 'rejected' is not)
+   */
+  public failNext(count: number = 1, code: string = 'unavailable'): void {
+    for (let i = 0; i < count; i++) {
+      this.pendingFailures.push(code);
+    }
+  }
+
+  /**
+   * Remove stored files and pending failures
+   */
+  public reset(): void {
+    this.files.clear();
+    this.pendingFailures = [];
+  }
+
+  private takeFailure(): void {
+    const failureCode = this.pendingFailures.shift();
+    if (failureCode) {
+      throw new AttachmentStorageError('Simulated local storage failure', failureCode);
+    }
+  }
+}
+
+/**
+ * Custom error class for attachment storage errors
+ */
+export class AttachmentStorageError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new AttachmentStorageError
+   * @param message - Error message
+   * @param code - Error code; retryable codes are retried by IncidentAttachmentService
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'rejected', context?: Record<string, any>) {
+    super(message);
+    this.name = 'AttachmentStorageError';
+    this.code = code;
+    this.context = context;
+  }
+}
@@ -21,7 +21,7 @@ import {
   AuthError,
 } from 'firebase/auth';
 import { doc, getDoc, setDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
-import { auth, db, Collections, FirebaseErrorCodes, UserData, mapUserData } from '../config/firebaseConfig';
+import { auth, db, Collections, FirebaseErrorCodes, UserData, UserRole, mapUserData } from '../config/firebaseConfig';
 import { withRetry, DEFAULT_RETRY_OPTIONS } from './base/retryUtils';
 import { ValidationService } from './base/validationService';
 import { ServiceRegistry } from './base/serviceRegistry';
@@ -217,7 +217,7 @@ export class AuthService {
    * @param email - User email address
    * @param password - User password
    * @param displayName - User display name
-   * @param role - User role (teacher, admin, principal)
+   * @param role - User role (teacher, admin, principal, parent, student)
    * @param schoolId - School identifier
    * @returns Promise resolving to UserData
    * @throws AuthenticationError for registration failures
@@ -226,7 +226,7 @@ export class AuthService {
     email: string,
     password: string,
     displayName: string,
-    role: 'teacher' | 'admin' | 'principal',
+    role: UserRole,
     schoolId: string
   ): Promise<UserData> {
     try {
@@ -465,6 +465,8 @@ export class AuthService {
           displayName: firebaseUser.displayName,
           role: firestoreData.role,
           schoolId: firestoreData.schoolId,
+          studentId: firestoreData.studentId,
+          customRoleIds: firestoreData.customRoleIds || [],
           createdAt: firestoreData.createdAt?.toDate(),
           lastLoginAt: firestoreData.lastLoginAt?.toDate(),
         };
@@ -653,7 +655,7 @@ export class AuthenticationError extends Error {
   ): Promise<UserData> {
     // Default schoolId for now - this would be determined by the app context in a real scenario
     const schoolId = 'default-school';
-    return this.signUp(email, password, displayName, role as 'teacher' | 'admin' | 'principal', schoolId);
+    return this.signUp(email, password, displayName, role as UserRole, schoolId);
   }
 
   /**
@@ -0,0 +1,95 @@
+/**
+ * CSV Reader for MCC Discipline Tracker
+ *
+ * This module parses RFC 4180 CSV text, as exported by spreadsheet
+ * applications, into rows of fields or into records keyed by the header row.
+ * Quoted fields may contain commas, quotes and line breaks; both CRLF and LF
+ * line endings are accepted, and a leading byte order mark is ignored.
+ *
+ * @fileoverview RFC 4180 CSV parsing
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+/**
+ * Record read from a CSV data row, keyed by header
+ */
+export type CsvRecord = Record<string, string>;
+
+/**
+ * Parse CSV text into rows of fields
+ * @param text - CSV text
+ * @returns Rows of field values; blank lines are skipped
+ * @throws Error if a quoted field is not closed
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let position = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (; position < text.length; position++) {
+    const char = text[position];
+
+    if (inQuotes) {
+      if (char === '"' && text[position + 1] === '"') {
+        field += '"';
+        position++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[position + 1] === '\n') {
+        position++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV ends inside a quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Parse CSV text with a header row into records
+ * @param text - CSV text whose first row holds the column headers
+ * @returns Headers (trimmed) and one record per data row
+ */
+export const parseCsvRecords = (text: string): { headers: string[]; records: CsvRecord[] } => {
+  const [headerRow = [], ...dataRows] = parseCsv(text);
+  const headers = headerRow.map(header => header.trim());
+
+  const records = dataRows.map(row =>
+    headers.reduce<CsvRecord>((record, header, index) => {
+      record[header] = row[index] ?? '';
+      return record;
+    }, {})
+  );
+
+  return { headers, records };
+};
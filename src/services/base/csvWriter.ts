@@ -0,0 +1,163 @@
+/**
+ * CSV Writer for MCC Discipline Tracker
+ *
+ * This module formats records as RFC 4180 CSV one row at a time, so exports
+ * can be written out page by page instead of being built as a single string.
+ * Columns are picked from records by field path (including nested fields such
+ * as `followUp.dueDate`) and can be renamed in the header row. Text that
+ * spreadsheet applications would evaluate as a formula is neutralised.
+ *
+ * @fileoverview RFC 4180 CSV formatting
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+/**
+ * Column to include in a CSV file
+ */
+export interface CsvColumn {
+  /** Field path in the record, with nested fields separated by dots */
+  field: string;
+  /** Header text; defaults to the field path */
+  header?: string;
+}
+
+/**
+ * Columns given either as field paths or as column definitions
+ */
+export type CsvColumnSpec = string | CsvColumn;
+
+/**
+ * Receives CSV text as it is produced
+ */
+export type CsvSink = (chunk: string) => void | Promise<void>;
+
+// RFC 4180 line break
+export const CSV_LINE_BREAK = '\r\n';
+
+// Leading characters that spreadsheet applications treat as the start of a formula
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+/**
+ * Normalise column specifications to column definitions
+ * @param columns - Field paths or column definitions
+ * @returns Column definitions
+ */
+export const toCsvColumns = (columns: CsvColumnSpec[]): CsvColumn[] =>
+  columns.map(column => (typeof column === 'string' ? { field: column } : column));
+
+/**
+ * Read a field from a record by path (e.g. `followUp.dueDate`)
+ * @param record - Record to read from
+ * @param path - Field path, with nested fields separated by dots
+ * @returns Field value, or undefined if any part of the path is missing
+ */
+export const getFieldValue = (record: unknown, path: string): unknown => {
+  if (record !== null && typeof record === 'object' && path in record) {
+    return (record as Record<string, unknown>)[path];
+  }
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    record
+  );
+};
+
+/**
+ * List the field paths of a record, descending into nested plain objects
+ * @param record - Record to inspect
+ * @param prefix - Path of the record within its parent
+ * @returns Field paths of the record's values
+ */
+export const getFieldPaths = (record: object, prefix: string = ''): string[] =>
+  Object.entries(record).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const isPlainObject =
+      value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+    return isPlainObject && Object.keys(value).length > 0 ? getFieldPaths(value, path) : [path];
+  });
+
+/**
+ * Convert a value to the text written for it in a CSV file
+ * @param value - Field value
+ * @returns Text before quoting
+ */
+const toCsvText = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? '' : value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toCsvText).join('; ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+/**
+ * Format a value as a CSV field: neutralise formulas in text and quote the
+ * field when it contains a delimiter, quote or line break
+ * @param value - Field value
+ * @returns CSV field
+ */
+export const formatCsvField = (value: unknown): string => {
+  let text = toCsvText(value);
+
+  // Numbers are written as-is so negative values stay numeric
+  if (typeof value !== 'number' && FORMULA_PREFIXES.some(prefix => text.startsWith(prefix))) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Formats records as CSV rows for a fixed set of columns
+ */
+export class CsvWriter {
+  private columns: CsvColumn[];
+
+  /**
+   * Create a writer
+   * @param columns - Columns to write, in order
+   */
+  constructor(columns: CsvColumnSpec[]) {
+    if (columns.length === 0) {
+      throw new Error('At least one CSV column is required');
+    }
+    this.columns = toCsvColumns(columns);
+  }
+
+  /**
+   * Format the header row
+   * @returns Header line, including its line break
+   */
+  public headerRow(): string {
+    return this.formatLine(this.columns.map(column => column.header ?? column.field));
+  }
+
+  /**
+   * Format a record as a data row
+   * @param record - Record to write
+   * @returns Data line, including its line break
+   */
+  public row(record: unknown): string {
+    return this.formatLine(this.columns.map(column => getFieldValue(record, column.field)));
+  }
+
+  /**
+   * Format a list of records as data rows
+   * @param records - Records to write
+   * @returns Data lines
+   */
+  public rows(records: unknown[]): string {
+    return records.map(record => this.row(record)).join('');
+  }
+
+  private formatLine(values: unknown[]): string {
+    return values.map(formatCsvField).join(',') + CSV_LINE_BREAK;
+  }
+}
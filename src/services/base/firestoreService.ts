@@ -30,6 +30,8 @@ import {
   DocumentReference,
   CollectionReference,
   Timestamp,
+  WriteBatch,
+  writeBatch,
 } from 'firebase/firestore';
 import { db } from '../../config/firebaseConfig';
 
@@ -218,7 +220,15 @@ export abstract class FirestoreService<T> {
       throw this.handleFirestoreError(error);
     }
   }
-  
+
+  /**
+   * Start a batch of writes that are committed together
+   * @returns Write batch
+   */
+  protected createBatch(): WriteBatch {
+    return writeBatch(db);
+  }
+
   /**
    * Query documents with pagination
    * @param queryConstraints - Firestore query constraints
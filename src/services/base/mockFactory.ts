@@ -12,12 +12,14 @@
 import { Collections } from '../../config/firebaseConfig';
 
 /**
- * User role enum
+ * User role enum, matching the roles in config/permissions
  */
 export enum UserRole {
   ADMIN = 'admin',
+  PRINCIPAL = 'principal',
   TEACHER = 'teacher',
-  STAFF = 'staff',
+  PARENT = 'parent',
+  STUDENT = 'student',
 }
 
 /**
@@ -0,0 +1,369 @@
+/**
+ * PDF Document Builder for MCC Discipline Tracker
+ *
+ * This module provides a small, dependency-free PDF 1.4 writer used for
+ * parent letters and reports. It supports multiple pages, text in the
+ * standard Helvetica fonts, lines, rectangles and polylines, and produces
+ * uncompressed output so documents can be inspected in tests.
+ *
+ * Coordinates are in points with the origin at the top-left of the page.
+ *
+ * @fileoverview Minimal PDF writer
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+/**
+ * Font styles available in documents
+ */
+export type PdfFont = 'regular' | 'bold';
+
+/**
+ * RGB colour with components between 0 and 1
+ */
+export type PdfColor = [number, number, number];
+
+/**
+ * Options for drawing text
+ */
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+  align?: 'left' | 'center' | 'right';
+}
+
+/**
+ * Options for drawing shapes
+ */
+export interface PdfShapeOptions {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+}
+
+/**
+ * Options for creating a document
+ */
+export interface PdfDocumentOptions {
+  /** Page size in points (defaults to A4 portrait) */
+  pageSize?: { width: number; height: number };
+  title?: string;
+  author?: string;
+  /** Creation time written to the document info (defaults to now) */
+  createdAt?: Date;
+}
+
+/**
+ * Standard page sizes in points
+ */
+export const PDF_PAGE_SIZES = {
+  A4: { width: 595.28, height: 841.89 },
+  LETTER: { width: 612, height: 792 },
+};
+
+// Glyph widths (per 1000 em) for printable ASCII, from the standard Helvetica AFM metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const FONT_RESOURCE_NAMES: Record<PdfFont, string> = {
+  regular: 'F1',
+  bold: 'F2',
+};
+
+/**
+ * Format a number for a content stream
+ * @param value - Number to format
+ * @returns Number with at most two decimal places
+ */
+const num = (value: number): string => String(Math.round(value * 100) / 100);
+
+/**
+ * Escape a string for use as a PDF string literal
+ * Characters outside Latin-1 are replaced with '?'.
+ * @param text - Text to escape
+ * @returns Escaped text
+ */
+const escapePdfString = (text: string): string =>
+  text
+    .replace(/[^\x00-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)')
+    .replace(/\r/g, '')
+    .replace(/\n/g, ' ');
+
+/**
+ * Format a date as a PDF date string
+ * @param date - Date to format
+ * @returns Date in D:YYYYMMDDHHmmSSZ format (UTC)
+ */
+const pdfDate = (date: Date): string => `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+/**
+ * Multi-page PDF document builder
+ */
+export class PdfDocument {
+  public readonly width: number;
+  public readonly height: number;
+  private pages: string[][] = [];
+  private currentPage = -1;
+
+  constructor(private readonly options: PdfDocumentOptions = {}) {
+    const pageSize = options.pageSize || PDF_PAGE_SIZES.A4;
+    this.width = pageSize.width;
+    this.height = pageSize.height;
+    this.addPage();
+  }
+
+  /**
+   * Number of pages in the document
+   */
+  public get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Index of the page being drawn on (0-based)
+   */
+  public get pageIndex(): number {
+    return this.currentPage;
+  }
+
+  /**
+   * Start a new page and make it the current page
+   * @returns Index of the new page
+   */
+  public addPage(): number {
+    this.pages.push([]);
+    this.currentPage = this.pages.length - 1;
+    return this.currentPage;
+  }
+
+  /**
+   * Make an existing page the current page (e.g. to add footers afterwards)
+   * @param index - Page index (0-based)
+   */
+  public setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new Error(`Page ${index} does not exist`);
+    }
+    this.currentPage = index;
+  }
+
+  /**
+   * Draw a single line of text
+   * @param x - Horizontal position (left edge, centre or right edge depending on alignment)
+   * @param y - Baseline position from the top of the page
+   * @param text - Text to draw
+   * @param options - Font, size, colour and alignment
+   */
+  public text(x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+    const size = options.size || 11;
+    const font = options.font || 'regular';
+    const width = this.textWidth(text, size, font);
+    const left = options.align === 'center' ? x - width / 2 : options.align === 'right' ? x - width : x;
+    const color = options.color || [0, 0, 0];
+
+    this.write(
+      `BT ${color.map(num).join(' ')} rg /${FONT_RESOURCE_NAMES[font]} ${num(size)} Tf ` +
+        `${num(left)} ${num(this.height - y)} Td (${escapePdfString(text)}) Tj ET`
+    );
+  }
+
+  /**
+   * Draw a line
+   * @param x1 - Start x
+   * @param y1 - Start y (from the top)
+   * @param x2 - End x
+   * @param y2 - End y (from the top)
+   * @param options - Stroke colour and width
+   */
+  public line(x1: number, y1: number, x2: number, y2: number, options: PdfShapeOptions = {}): void {
+    this.polyline([[x1, y1], [x2, y2]], options);
+  }
+
+  /**
+   * Draw connected line segments
+   * @param points - Points as [x, y] pairs (y from the top)
+   * @param options - Stroke colour and width
+   */
+  public polyline(points: Array<[number, number]>, options: PdfShapeOptions = {}): void {
+    if (points.length < 2) {
+      return;
+    }
+
+    const stroke = options.stroke || [0, 0, 0];
+    const path = points
+      .map(([x, y], index) => `${num(x)} ${num(this.height - y)} ${index === 0 ? 'm' : 'l'}`)
+      .join(' ');
+
+    this.write(`q ${stroke.map(num).join(' ')} RG ${num(options.lineWidth ?? 1)} w ${path} S Q`);
+  }
+
+  /**
+   * Draw a rectangle
+   * @param x - Left edge
+   * @param y - Top edge (from the top of the page)
+   * @param width - Rectangle width
+   * @param height - Rectangle height
+   * @param options - Fill and/or stroke (stroked in black if neither is given)
+   */
+  public rect(x: number, y: number, width: number, height: number, options: PdfShapeOptions = {}): void {
+    const operations: string[] = ['q'];
+    if (options.fill) {
+      operations.push(`${options.fill.map(num).join(' ')} rg`);
+    }
+    if (options.stroke) {
+      operations.push(`${options.stroke.map(num).join(' ')} RG`);
+    }
+    operations.push(`${num(options.lineWidth ?? 1)} w`);
+    operations.push(`${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re`);
+    operations.push(options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S');
+    operations.push('Q');
+
+    this.write(operations.join(' '));
+  }
+
+  /**
+   * Measure the width of a line of text
+   * @param text - Text to measure
+   * @param size - Font size
+   * @param font - Font style
+   * @returns Width in points
+   */
+  public textWidth(text: string, size: number = 11, font: PdfFont = 'regular'): number {
+    const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const char of text) {
+      const code = char.charCodeAt(0);
+      total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+    }
+    return (total * size) / 1000;
+  }
+
+  /**
+   * Break text into lines that fit a width
+   * Existing line breaks are kept; words longer than the width are split.
+   * @param text - Text to wrap
+   * @param maxWidth - Maximum line width in points
+   * @param size - Font size
+   * @param font - Font style
+   * @returns Wrapped lines
+   */
+  public wrapText(text: string, maxWidth: number, size: number = 11, font: PdfFont = 'regular'): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of text.replace(/\r/g, '').split('\n')) {
+      let current = '';
+
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (this.textWidth(candidate, size, font) <= maxWidth) {
+          current = candidate;
+          continue;
+        }
+
+        if (current) {
+          lines.push(current);
+        }
+
+        // Split words that are wider than a whole line
+        let remainder = word;
+        while (this.textWidth(remainder, size, font) > maxWidth && remainder.length > 1) {
+          let cut = remainder.length - 1;
+          while (cut > 1 && this.textWidth(remainder.slice(0, cut), size, font) > maxWidth) {
+            cut--;
+          }
+          lines.push(remainder.slice(0, cut));
+          remainder = remainder.slice(cut);
+        }
+        current = remainder;
+      }
+
+      lines.push(current);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Serialise the document
+   * @returns PDF file contents
+   */
+  public toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+    // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and content stream per page
+    const pageObjectNumber = (index: number) => 6 + index * 2;
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] =
+      `<< /Type /Pages /Count ${pageCount} /Kids [` +
+      this.pages.map((_, index) => `${pageObjectNumber(index)} 0 R`).join(' ') +
+      '] >>';
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    const info = [`/Producer (MCC Discipline Tracker)`, `/CreationDate (${pdfDate(this.options.createdAt || new Date())})`];
+    if (this.options.title) {
+      info.push(`/Title (${escapePdfString(this.options.title)})`);
+    }
+    if (this.options.author) {
+      info.push(`/Author (${escapePdfString(this.options.author)})`);
+    }
+    objects[5] = `<< ${info.join(' ')} >>`;
+
+    this.pages.forEach((operations, index) => {
+      const content = operations.join('\n');
+      objects[pageObjectNumber(index)] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectNumber(index) + 1} 0 R >>`;
+      objects[pageObjectNumber(index) + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let number = 1; number < objects.length; number++) {
+      offsets[number] = output.length;
+      output += `${number} 0 obj\n${objects[number]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let number = 1; number < objects.length; number++) {
+      output += `${String(offsets[number]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    // All content is Latin-1, so each character is one byte
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+  }
+
+  /**
+   * Append an operation to the current page's content stream
+   * @param operation - Content stream operation
+   */
+  private write(operation: string): void {
+    this.pages[this.currentPage].push(operation);
+  }
+}
@@ -0,0 +1,504 @@
+/**
+ * PNG Image Codec for MCC Discipline Tracker
+ *
+ * This module reads and writes PNG images without external libraries, so
+ * thumbnails of uploaded evidence can be made on any platform. Decoding
+ * covers non-interlaced images of every PNG colour type; images are returned
+ * as 8-bit RGBA. Encoded images use stored (uncompressed) deflate blocks,
+ * which every PNG reader supports; thumbnails are small enough that the size
+ * does not matter.
+ *
+ * @fileoverview Minimal PNG reader and writer
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import { crc32, encodeUtf8 } from './zipArchive';
+
+/**
+ * Image as 8-bit RGBA pixels
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  /** Four bytes per pixel, row by row from the top left */
+  pixels: Uint8Array;
+}
+
+/**
+ * Largest image decoded, in pixels, so a small file cannot expand to fill memory
+ */
+export const MAX_PNG_PIXELS = 25_000_000;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Channels per pixel for each colour type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Deflate tables (RFC 1951)
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/**
+ * Canonical Huffman code: number of codes of each length, and symbols in code order
+ */
+interface HuffmanTable {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+const buildHuffmanTable = (lengths: ArrayLike<number>): HuffmanTable => {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++;
+  }
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let length = 1; length < 16; length++) {
+    offsets[length] = offsets[length - 1] + counts[length - 1];
+  }
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) {
+      symbols[offsets[lengths[symbol]]++] = symbol;
+    }
+  }
+  return { counts, symbols };
+};
+
+const FIXED_LITERAL_TABLE = buildHuffmanTable(
+  Array.from({ length: 288 }, (_, symbol) => (symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8))
+);
+const FIXED_DISTANCE_TABLE = buildHuffmanTable(new Array(30).fill(5));
+
+/**
+ * Reads a deflate stream bit by bit, least significant bit first
+ */
+class BitReader {
+  private position: number;
+  private buffer = 0;
+  private bufferedBits = 0;
+
+  constructor(private readonly data: Uint8Array, start: number) {
+    this.position = start;
+  }
+
+  public bits(count: number): number {
+    while (this.bufferedBits < count) {
+      if (this.position >= this.data.length) {
+        throw new Error('PNG image data ends unexpectedly');
+      }
+      this.buffer |= this.data[this.position++] << this.bufferedBits;
+      this.bufferedBits += 8;
+    }
+    const value = this.buffer & ((1 << count) - 1);
+    this.buffer >>>= count;
+    this.bufferedBits -= count;
+    return value;
+  }
+
+  /** Skip to the next byte boundary and return the byte position */
+  public alignToByte(): number {
+    this.buffer = 0;
+    this.bufferedBits = 0;
+    return this.position;
+  }
+
+  public skipTo(position: number): void {
+    this.position = position;
+  }
+
+  public decode(table: HuffmanTable): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length < 16; length++) {
+      code |= this.bits(1);
+      const count = table.counts[length];
+      if (code - first < count) {
+        return table.symbols[index + code - first];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('PNG image data has an invalid Huffman code');
+  }
+}
+
+/**
+ * Decompress a zlib stream whose decompressed size is known
+ * @param data - zlib stream
+ * @param size - Expected decompressed size
+ * @returns Decompressed bytes
+ */
+const inflateZlib = (data: Uint8Array, size: number): Uint8Array => {
+  if (data.length < 2 || (data[0] & 0x0f) !== 8 || ((data[0] << 8) | data[1]) % 31 !== 0) {
+    throw new Error('PNG image data is not a zlib stream');
+  }
+
+  const output = new Uint8Array(size);
+  let written = 0;
+  const reader = new BitReader(data, 2);
+
+  let finalBlock = 0;
+  while (!finalBlock) {
+    finalBlock = reader.bits(1);
+    const type = reader.bits(2);
+
+    if (type === 0) {
+      const start = reader.alignToByte();
+      const length = data[start] | (data[start + 1] << 8);
+      if (start + 4 + length > data.length || written + length > size) {
+        throw new Error('PNG image data has an invalid stored block');
+      }
+      output.set(data.subarray(start + 4, start + 4 + length), written);
+      written += length;
+      reader.skipTo(start + 4 + length);
+      continue;
+    }
+
+    let literalTable = FIXED_LITERAL_TABLE;
+    let distanceTable = FIXED_DISTANCE_TABLE;
+    if (type === 2) {
+      const literalCount = reader.bits(5) + 257;
+      const distanceCount = reader.bits(5) + 1;
+      const codeLengthCount = reader.bits(4) + 4;
+      const codeLengths = new Uint8Array(19);
+      for (let i = 0; i < codeLengthCount; i++) {
+        codeLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+      }
+      const codeLengthTable = buildHuffmanTable(codeLengths);
+
+      const lengths = new Uint8Array(literalCount + distanceCount);
+      for (let i = 0; i < lengths.length; ) {
+        const symbol = reader.decode(codeLengthTable);
+        if (symbol < 16) {
+          lengths[i++] = symbol;
+          continue;
+        }
+        const repeat = symbol === 16 ? 3 + reader.bits(2) : symbol === 17 ? 3 + reader.bits(3) : 11 + reader.bits(7);
+        if (symbol === 16 && i === 0) {
+          throw new Error('PNG image data repeats a missing code length');
+        }
+        const value = symbol === 16 ? lengths[i - 1] : 0;
+        for (let r = 0; r < repeat && i < lengths.length; r++) {
+          lengths[i++] = value;
+        }
+      }
+      literalTable = buildHuffmanTable(lengths.subarray(0, literalCount));
+      distanceTable = buildHuffmanTable(lengths.subarray(literalCount));
+    } else if (type !== 1) {
+      throw new Error('PNG image data has an invalid block type');
+    }
+
+    for (;;) {
+      const symbol = reader.decode(literalTable);
+      if (symbol < 256) {
+        if (written >= size) {
+          throw new Error('PNG image data is longer than expected');
+        }
+        output[written++] = symbol;
+      } else if (symbol === 256) {
+        break;
+      } else {
+        const lengthIndex = symbol - 257;
+        if (lengthIndex >= LENGTH_BASE.length) {
+          throw new Error('PNG image data has an invalid length');
+        }
+        const length = LENGTH_BASE[lengthIndex] + reader.bits(LENGTH_EXTRA[lengthIndex]);
+        const distanceIndex = reader.decode(distanceTable);
+        if (distanceIndex >= DISTANCE_BASE.length) {
+          throw new Error('PNG image data has an invalid distance');
+        }
+        const distance = DISTANCE_BASE[distanceIndex] + reader.bits(DISTANCE_EXTRA[distanceIndex]);
+        if (distance > written || written + length > size) {
+          throw new Error('PNG image data has an invalid back reference');
+        }
+        for (let i = 0; i < length; i++) {
+          output[written] = output[written - distance];
+          written++;
+        }
+      }
+    }
+  }
+
+  if (written !== size) {
+    throw new Error('PNG image data is shorter than expected');
+  }
+  return output;
+};
+
+/**
+ * Check whether data starts with the PNG signature
+ * @param data - File contents
+ * @returns True for PNG files
+ */
+export const isPng = (data: Uint8Array): boolean =>
+  data.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((byte, index) => data[index] === byte);
+
+/**
+ * Decode a PNG image
+ * @param data - PNG file contents
+ * @returns Image as RGBA pixels
+ * @throws Error for invalid, interlaced or oversized images
+ */
+export const decodePng = (data: Uint8Array): RgbaImage => {
+  if (!isPng(data)) {
+    throw new Error('Not a PNG image');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Uint8Array | undefined;
+  let transparency: Uint8Array | undefined;
+  const imageData: Uint8Array[] = [];
+
+  for (let offset = PNG_SIGNATURE.length; offset + 8 <= data.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    const body = data.subarray(offset + 8, offset + 8 + length);
+    if (body.length !== length) {
+      throw new Error(`PNG ${type} chunk is truncated`);
+    }
+
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      bitDepth = body[8];
+      colorType = body[9];
+      if (body[12] !== 0) {
+        throw new Error('Interlaced PNG images are not supported');
+      }
+    } else if (type === 'PLTE') {
+      palette = body;
+    } else if (type === 'tRNS') {
+      transparency = body;
+    } else if (type === 'IDAT') {
+      imageData.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!channels || ![1, 2, 4, 8, 16].includes(bitDepth) || width === 0 || height === 0) {
+    throw new Error('PNG image header is missing or invalid');
+  }
+  if (width * height > MAX_PNG_PIXELS) {
+    throw new Error(`PNG image is larger than ${MAX_PNG_PIXELS} pixels`);
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error('PNG image has no palette');
+  }
+
+  const compressed = new Uint8Array(imageData.reduce((total, chunk) => total + chunk.length, 0));
+  imageData.reduce((position, chunk) => {
+    compressed.set(chunk, position);
+    return position + chunk.length;
+  }, 0);
+
+  const bitsPerPixel = channels * bitDepth;
+  const rowBytes = Math.ceil((width * bitsPerPixel) / 8);
+  const filterStep = Math.max(1, bitsPerPixel >> 3);
+  const raw = inflateZlib(compressed, height * (rowBytes + 1));
+
+  // Undo the per-row filters in place
+  const rows = new Uint8Array(height * rowBytes);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (rowBytes + 1)];
+    const source = y * (rowBytes + 1) + 1;
+    const row = y * rowBytes;
+    for (let x = 0; x < rowBytes; x++) {
+      const left = x >= filterStep ? rows[row + x - filterStep] : 0;
+      const up = y > 0 ? rows[row - rowBytes + x] : 0;
+      const upLeft = y > 0 && x >= filterStep ? rows[row - rowBytes + x - filterStep] : 0;
+      let predictor = 0;
+      if (filter === 1) {
+        predictor = left;
+      } else if (filter === 2) {
+        predictor = up;
+      } else if (filter === 3) {
+        predictor = (left + up) >> 1;
+      } else if (filter === 4) {
+        const estimate = left + up - upLeft;
+        const toLeft = Math.abs(estimate - left);
+        const toUp = Math.abs(estimate - up);
+        const toUpLeft = Math.abs(estimate - upLeft);
+        predictor = toLeft <= toUp && toLeft <= toUpLeft ? left : toUp <= toUpLeft ? up : upLeft;
+      } else if (filter !== 0) {
+        throw new Error('PNG image has an invalid row filter');
+      }
+      rows[row + x] = (raw[source + x] + predictor) & 0xff;
+    }
+  }
+
+  // Read one sample as an 8-bit value (the raw index for palette images)
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+  const sample = (y: number, index: number): number => {
+    const row = y * rowBytes;
+    if (bitDepth === 8) {
+      return rows[row + index];
+    }
+    if (bitDepth === 16) {
+      return rows[row + index * 2];
+    }
+    const bit = index * bitDepth;
+    const value = (rows[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+    return colorType === 3 ? value : Math.round((value * 255) / maxSample);
+  };
+
+  const pixels = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const first = x * channels;
+      if (colorType === 3) {
+        const index = sample(y, first);
+        pixels[out] = palette![index * 3] ?? 0;
+        pixels[out + 1] = palette![index * 3 + 1] ?? 0;
+        pixels[out + 2] = palette![index * 3 + 2] ?? 0;
+        pixels[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+      } else if (colorType === 0 || colorType === 4) {
+        const gray = sample(y, first);
+        pixels[out] = gray;
+        pixels[out + 1] = gray;
+        pixels[out + 2] = gray;
+        pixels[out + 3] = colorType === 4 ? sample(y, first + 1) : 255;
+      } else {
+        pixels[out] = sample(y, first);
+        pixels[out + 1] = sample(y, first + 1);
+        pixels[out + 2] = sample(y, first + 2);
+        pixels[out + 3] = colorType === 6 ? sample(y, first + 3) : 255;
+      }
+    }
+  }
+
+  return { width, height, pixels };
+};
+
+/**
+ * Scale an image down to fit within a square, averaging the pixels each output pixel covers
+ * Images that already fit are returned unchanged.
+ * @param image - Image to scale
+ * @param maxSize - Largest width or height of the result
+ * @returns Scaled image
+ */
+export const resizeToFit = (image: RgbaImage, maxSize: number): RgbaImage => {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  if (scale === 1) {
+    return image;
+  }
+
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const pixels = new Uint8Array(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor((y * image.height) / height);
+    const bottom = Math.max(top + 1, Math.floor(((y + 1) * image.height) / height));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor((x * image.width) / width);
+      const right = Math.max(left + 1, Math.floor(((x + 1) * image.width) / width));
+      const totals = [0, 0, 0, 0];
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          const source = (sy * image.width + sx) * 4;
+          for (let channel = 0; channel < 4; channel++) {
+            totals[channel] += image.pixels[source + channel];
+          }
+        }
+      }
+      const count = (bottom - top) * (right - left);
+      const out = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        pixels[out + channel] = Math.round(totals[channel] / count);
+      }
+    }
+  }
+
+  return { width, height, pixels };
+};
+
+/**
+ * Encode an image as an 8-bit RGBA PNG
+ * @param image - Image to encode
+ * @returns PNG file contents
+ */
+export const encodePng = (image: RgbaImage): Uint8Array => {
+  const { width, height, pixels } = image;
+
+  // Rows with filter type 0, wrapped in stored deflate blocks
+  const rowBytes = width * 4 + 1;
+  const raw = new Uint8Array(height * rowBytes);
+  for (let y = 0; y < height; y++) {
+    raw.set(pixels.subarray(y * width * 4, (y + 1) * width * 4), y * rowBytes + 1);
+  }
+
+  const blockCount = Math.max(1, Math.ceil(raw.length / 65535));
+  const zlib = new Uint8Array(2 + blockCount * 5 + raw.length + 4);
+  zlib[0] = 0x78;
+  zlib[1] = 0x01;
+  let position = 2;
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * 65535;
+    const length = Math.min(65535, raw.length - start);
+    zlib[position] = block === blockCount - 1 ? 1 : 0;
+    zlib[position + 1] = length & 0xff;
+    zlib[position + 2] = length >> 8;
+    zlib[position + 3] = ~length & 0xff;
+    zlib[position + 4] = (~length >> 8) & 0xff;
+    zlib.set(raw.subarray(start, start + length), position + 5);
+    position += 5 + length;
+  }
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < raw.length; i++) {
+    a = (a + raw[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  new DataView(zlib.buffer).setUint32(position, ((b << 16) | a) >>> 0);
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8;
+  header[9] = 6;
+
+  const chunks = [chunk('IHDR', header), chunk('IDAT', zlib), chunk('IEND', new Uint8Array(0))];
+  const output = new Uint8Array(PNG_SIGNATURE.length + chunks.reduce((total, part) => total + part.length, 0));
+  output.set(PNG_SIGNATURE);
+  chunks.reduce((offset, part) => {
+    output.set(part, offset);
+    return offset + part.length;
+  }, PNG_SIGNATURE.length);
+  return output;
+};
+
+/**
+ * Build a PNG chunk: length, type, data and CRC of the type and data
+ * @param type - Four-letter chunk type
+ * @param data - Chunk data
+ * @returns Chunk bytes
+ */
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  bytes.set(encodeUtf8(type), 4);
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+  return bytes;
+};
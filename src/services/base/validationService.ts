@@ -9,6 +9,8 @@
  * @version 1.0.0
  */
 
+import { USER_ROLES, PERMISSIONS } from '../../config/permissions';
+
 /**
  * Validation error interface
  */
@@ -311,7 +313,7 @@ export class ValidationService {
     const userSchema = new SchemaValidator();
     userSchema.field('email').required().email();
     userSchema.field('displayName').required().minLength(2).maxLength(50);
-    userSchema.field('role').required().enum(['admin', 'teacher', 'staff']);
+    userSchema.field('role').required().enum([...USER_ROLES]);
     this.schemas.set('user', userSchema);
     
     // Incident schema
@@ -320,8 +322,252 @@ export class ValidationService {
     incidentSchema.field('type').required().enum(['behavioral', 'academic', 'attendance']);
     incidentSchema.field('severity').required().enum(['low', 'medium', 'high']);
     incidentSchema.field('description').required().minLength(10).maxLength(500);
+    incidentSchema.field('internalNotes').maxLength(2000);
+    incidentSchema.field('resolutionNotes').maxLength(2000);
     this.schemas.set('incident', incidentSchema);
     
+    // Merit schema
+    const meritSchema = new SchemaValidator();
+    meritSchema.field('studentId').required();
+    meritSchema.field('category').required().enum([
+      'academic_excellence',
+      'effort',
+      'leadership',
+      'kindness',
+      'participation',
+      'improvement',
+      'community_service',
+      'attendance',
+      'other',
+    ]);
+    meritSchema.field('points').custom(
+      (value) => Number.isInteger(value) && value > 0,
+      '{field} must be a positive whole number'
+    );
+    meritSchema.field('description').required().minLength(3).maxLength(500);
+    this.schemas.set('merit', meritSchema);
+    
+    // Consequence rule schema
+    const consequenceRuleSchema = new SchemaValidator();
+    consequenceRuleSchema.field('schoolId').required();
+    consequenceRuleSchema.field('name').required().minLength(3).maxLength(100);
+    consequenceRuleSchema.field('consequenceType').required().enum([
+      'detention',
+      'parent_meeting',
+      'suspension_referral',
+    ]);
+    consequenceRuleSchema.field('threshold').required().custom(
+      (value) => Number.isInteger(value) && value > 0,
+      '{field} must be a positive whole number'
+    );
+    consequenceRuleSchema.field('windowDays').required().custom(
+      (value) => Number.isInteger(value) && value > 0,
+      '{field} must be a positive whole number'
+    );
+    this.schemas.set('consequenceRule', consequenceRuleSchema);
+    
+    // Detention session schema
+    const detentionSessionSchema = new SchemaValidator();
+    detentionSessionSchema.field('schoolId').required();
+    detentionSessionSchema.field('room').required().maxLength(50);
+    detentionSessionSchema.field('supervisingTeacherId').required();
+    detentionSessionSchema.field('startTime').required().custom(
+      (value) => value instanceof Date && !isNaN(value.getTime()),
+      '{field} must be a valid date'
+    );
+    detentionSessionSchema.field('durationMinutes').required().custom(
+      (value) => Number.isInteger(value) && value > 0,
+      '{field} must be a positive whole number'
+    );
+    detentionSessionSchema.field('capacity').required().custom(
+      (value) => Number.isInteger(value) && value > 0,
+      '{field} must be a positive whole number'
+    );
+    this.schemas.set('detentionSession', detentionSessionSchema);
+    
+    // Parent contact schema
+    const parentContactSchema = new SchemaValidator();
+    parentContactSchema.field('email').email();
+    parentContactSchema.field('phoneNumber').pattern(
+      /^\+[1-9]\d{6,14}$/,
+      '{field} must be an international phone number (e.g. +27821234567)'
+    );
+    this.schemas.set('parentContact', parentContactSchema);
+    
+    // Notification preferences schema
+    const notificationPreferencesSchema = new SchemaValidator();
+    notificationPreferencesSchema.field('userId').required();
+    notificationPreferencesSchema.field('minimumSeverity').required().enum(['low', 'medium', 'high', 'critical']);
+    notificationPreferencesSchema.field('deliveryMode').required().enum(['immediate', 'daily_digest', 'weekly_digest']);
+    notificationPreferencesSchema.field('quietHoursStart').required().pattern(
+      /^([01]\d|2[0-3]):[0-5]\d$/,
+      '{field} must be a 24-hour time (HH:mm)'
+    );
+    notificationPreferencesSchema.field('quietHoursEnd').required().pattern(
+      /^([01]\d|2[0-3]):[0-5]\d$/,
+      '{field} must be a 24-hour time (HH:mm)'
+    );
+    notificationPreferencesSchema.field('language').required().pattern(
+      /^[a-z]{2}(-[A-Z]{2})?$/,
+      '{field} must be a language code (e.g. en or af)'
+    );
+    this.schemas.set('notificationPreferences', notificationPreferencesSchema);
+    
+    // Letter template schema
+    const letterTemplateSchema = new SchemaValidator();
+    letterTemplateSchema.field('schoolId').required();
+    letterTemplateSchema.field('name').required().minLength(3).maxLength(100);
+    letterTemplateSchema.field('language').required().pattern(
+      /^[a-z]{2}(-[A-Z]{2})?$/,
+      '{field} must be a language code (e.g. en or af)'
+    );
+    letterTemplateSchema.field('subject').required().maxLength(150);
+    letterTemplateSchema.field('body').required().minLength(20).maxLength(5000);
+    letterTemplateSchema.field('smsText').required().minLength(10);
+    this.schemas.set('letterTemplate', letterTemplateSchema);
+    
+    // Report schedule schema
+    const reportScheduleSchema = new SchemaValidator();
+    reportScheduleSchema.field('reportType').required().pattern(
+      /^[a-z][a-z0-9_-]*$/,
+      '{field} must be a lowercase identifier (e.g. digest)'
+    );
+    reportScheduleSchema.field('frequency').required().enum(['daily', 'weekly', 'monthly']);
+    reportScheduleSchema.field('recipients').required().custom(
+      (value) => Array.isArray(value) && value.length > 0 && value.every(recipient => typeof recipient === 'string' && recipient.length > 0),
+      '{field} must list at least one recipient'
+    );
+    reportScheduleSchema.field('timeZone').required().custom(
+      (value) => {
+        try {
+          new Intl.DateTimeFormat('en-US', { timeZone: value });
+          return true;
+        } catch (error) {
+          return false;
+        }
+      },
+      '{field} must be an IANA time zone (e.g. Africa/Johannesburg)'
+    );
+    reportScheduleSchema.field('timeOfDay').required().pattern(
+      /^([01]\d|2[0-3]):[0-5]\d$/,
+      '{field} must be a 24-hour time (HH:mm)'
+    );
+    reportScheduleSchema.field('dayOfWeek').custom(
+      (value) => Number.isInteger(value) && value >= 0 && value <= 6,
+      '{field} must be a whole number from 0 (Sunday) to 6 (Saturday)'
+    );
+    reportScheduleSchema.field('dayOfMonth').custom(
+      (value) => Number.isInteger(value) && value >= 1 && value <= 31,
+      '{field} must be a whole number from 1 to 31'
+    );
+    this.schemas.set('reportSchedule', reportScheduleSchema);
+    
+    // Student schema
+    const studentSchema = new SchemaValidator();
+    studentSchema.field('schoolId').required();
+    studentSchema.field('firstName').required().maxLength(50);
+    studentSchema.field('lastName').required().maxLength(50);
+    studentSchema.field('preferredName').maxLength(50);
+    studentSchema.field('grade').required().pattern(
+      /^(R|[1-9]|1[0-2])$/,
+      '{field} must be R or a grade from 1 to 12'
+    );
+    studentSchema.field('homeroom').required().maxLength(20);
+    studentSchema.field('enrolmentStatus').required().enum([
+      'enrolled',
+      'suspended',
+      'withdrawn',
+      'transferred',
+      'graduated',
+    ]);
+    studentSchema.field('guardians').custom(
+      (value) => Array.isArray(value) && value.every(guardian =>
+        typeof guardian?.name === 'string' && guardian.name.trim().length > 0 &&
+        typeof guardian.relationship === 'string' && guardian.relationship.trim().length > 0 &&
+        Boolean(guardian.email || guardian.phoneNumber) &&
+        (!guardian.phoneNumber || /^\+[1-9]\d{6,14}$/.test(guardian.phoneNumber))
+      ),
+      '{field} must each have a name, a relationship and an email or international phone number'
+    );
+    studentSchema.field('photoUrl').pattern(
+      /^https:\/\/\S+$/,
+      '{field} must be an https URL'
+    );
+    this.schemas.set('student', studentSchema);
+    
+    // Guardian invitation schema
+    const guardianInvitationSchema = new SchemaValidator();
+    guardianInvitationSchema.field('schoolId').required();
+    guardianInvitationSchema.field('studentId').required();
+    guardianInvitationSchema.field('email').required().email();
+    guardianInvitationSchema.field('guardianName').required().maxLength(100);
+    guardianInvitationSchema.field('relationship').required().maxLength(50);
+    this.schemas.set('guardianInvitation', guardianInvitationSchema);
+    
+    // Custom role schema
+    const customRoleSchema = new SchemaValidator();
+    customRoleSchema.field('schoolId').required();
+    customRoleSchema.field('name').required().maxLength(50);
+    customRoleSchema.field('description').maxLength(200);
+    customRoleSchema.field('permissions').required().custom(
+      (value) => Array.isArray(value) && value.length > 0 && value.every(permission => permission in PERMISSIONS),
+      '{field} must list at least one known permission'
+    );
+    customRoleSchema.field('scope').required().custom(
+      (value) => {
+        switch (value?.type) {
+          case 'school':
+            return true;
+          case 'grade':
+            return Array.isArray(value.grades) && value.grades.length > 0;
+          case 'class':
+            return Array.isArray(value.homerooms) && value.homerooms.length > 0;
+          case 'students':
+            return Array.isArray(value.studentIds) && value.studentIds.length > 0;
+          default:
+            return false;
+        }
+      },
+      '{field} must be the school, or at least one grade, class or student'
+    );
+    customRoleSchema.field('conditions').custom(
+      (value) => typeof value === 'object' && value !== null &&
+        ['incidentTypes', 'severities'].every(key => value[key] === undefined || Array.isArray(value[key])),
+      '{field} must list incident types and severities'
+    );
+    this.schemas.set('customRole', customRoleSchema);
+    
+    // Incident attachment schema
+    const incidentAttachmentSchema = new SchemaValidator();
+    incidentAttachmentSchema.field('fileName').required().maxLength(255);
+    incidentAttachmentSchema.field('mimeType').required().enum([
+      'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/heic', 'application/pdf', 'text/plain'
+    ]);
+    incidentAttachmentSchema.field('visibility').required().enum(['staff', 'parent']);
+    this.schemas.set('incidentAttachment', incidentAttachmentSchema);
+    
+    // Incident comment schema
+    const incidentCommentSchema = new SchemaValidator();
+    incidentCommentSchema.field('body').required().maxLength(5000);
+    incidentCommentSchema.field('visibility').required().enum(['staff', 'parent']);
+    this.schemas.set('incidentComment', incidentCommentSchema);
+    
+    // Follow-up task schema
+    const followUpTaskSchema = new SchemaValidator();
+    followUpTaskSchema.field('title').required().maxLength(200);
+    followUpTaskSchema.field('description').maxLength(2000);
+    followUpTaskSchema.field('assigneeId').required();
+    followUpTaskSchema.field('dueDate').required().custom(
+      (value) => value instanceof Date && !isNaN(value.getTime()),
+      '{field} must be a valid date'
+    );
+    followUpTaskSchema.field('checklist').custom(
+      (value) => Array.isArray(value) && value.length <= 20 &&
+        value.every(item => typeof item === 'string' && item.length > 0 && item.length <= 200),
+      '{field} must have at most 20 items of up to 200 characters'
+    );
+    this.schemas.set('followUpTask', followUpTaskSchema);
+    
     // Add more schemas as needed
   }
   
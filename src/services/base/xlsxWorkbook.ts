@@ -0,0 +1,411 @@
+/**
+ * XLSX Workbook Builder for MCC Discipline Tracker
+ *
+ * This module writes Office Open XML spreadsheets (.xlsx) without external
+ * libraries. Each sheet has a bold header row that stays frozen while
+ * scrolling, an autofilter over its data and set column widths. Cells keep
+ * their types: numbers and booleans are written as values and dates as
+ * date-formatted serial numbers, so they sort and calculate in Excel.
+ *
+ * @fileoverview Minimal XLSX writer
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import { createZip, encodeUtf8 } from './zipArchive';
+
+/**
+ * Value of a cell (null and undefined leave the cell empty)
+ */
+export type XlsxCellValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Number format applied to a column's numbers and dates
+ */
+export type XlsxNumberFormat = 'integer' | 'decimal' | 'percent' | 'date' | 'datetime';
+
+/**
+ * Column of a sheet
+ */
+export interface XlsxColumn {
+  header: string;
+  /** Width in characters (fitted to the content if omitted) */
+  width?: number;
+  /** Format for numbers and dates (dates default to 'date') */
+  format?: XlsxNumberFormat;
+}
+
+/**
+ * Sheet added to a workbook
+ */
+interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxCellValue[][];
+}
+
+// Cell style indexes in styles.xml (cellXfs)
+const STYLE_INDEX: Record<XlsxNumberFormat | 'general' | 'header', number> = {
+  general: 0,
+  header: 1,
+  integer: 2,
+  decimal: 3,
+  percent: 4,
+  date: 5,
+  datetime: 6,
+};
+
+const MAX_COLUMN_WIDTH = 60;
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * Escape text for inclusion in XML
+ * @param value - Text to escape
+ * @returns Escaped text
+ */
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and line breaks are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+/**
+ * Get the column letters for a zero-based column index (0 -> A, 26 -> AA)
+ * @param index - Column index
+ * @returns Column letters
+ */
+export const columnLetter = (index: number): string => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+/**
+ * Convert a date to an Excel serial date in local time
+ * @param date - Date to convert
+ * @returns Days since 30 December 1899, with the time as a fraction
+ */
+export const toExcelSerialDate = (date: Date): number => {
+  const localAsUtc = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds()
+  );
+  return (localAsUtc - Date.UTC(1899, 11, 30)) / 86400000;
+};
+
+/**
+ * Workbook builder
+ */
+export class XlsxWorkbook {
+  private sheets: XlsxSheet[] = [];
+  private sharedStrings: string[] = [];
+  private sharedStringIndex: Map<string, number> = new Map();
+
+  /**
+   * Number of sheets in the workbook
+   */
+  public get sheetCount(): number {
+    return this.sheets.length;
+  }
+
+  /**
+   * Add a sheet with a header row followed by data rows
+   * Names are shortened to Excel's 31-character limit, characters Excel does
+   * not allow are replaced and duplicates are numbered.
+   * @param name - Sheet name
+   * @param columns - Column headers, widths and formats
+   * @param rows - Cell values by row, in column order
+   * @returns Name the sheet was given
+   */
+  public addSheet(name: string, columns: XlsxColumn[], rows: XlsxCellValue[][]): string {
+    const base = (name.replace(/[\[\]:*?\/\\]/g, '-').trim() || 'Sheet').slice(0, MAX_SHEET_NAME_LENGTH);
+    const taken = new Set(this.sheets.map(sheet => sheet.name.toLowerCase()));
+
+    let unique = base;
+    for (let n = 2; taken.has(unique.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      unique = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+
+    this.sheets.push({ name: unique, columns, rows });
+    return unique;
+  }
+
+  /**
+   * Serialise the workbook
+   * @returns XLSX file contents
+   */
+  public toBytes(): Uint8Array {
+    if (this.sheets.length === 0) {
+      throw new Error('A workbook needs at least one sheet');
+    }
+
+    this.sharedStrings = [];
+    this.sharedStringIndex = new Map();
+    const worksheets = this.sheets.map(sheet => this.worksheetXml(sheet));
+
+    const xml = (body: string) => encodeUtf8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`);
+
+    return createZip([
+      { name: '[Content_Types].xml', data: xml(this.contentTypesXml()) },
+      { name: '_rels/.rels', data: xml(this.rootRelationshipsXml()) },
+      { name: 'xl/workbook.xml', data: xml(this.workbookXml()) },
+      { name: 'xl/_rels/workbook.xml.rels', data: xml(this.workbookRelationshipsXml()) },
+      { name: 'xl/styles.xml', data: xml(this.stylesXml()) },
+      { name: 'xl/sharedStrings.xml', data: xml(this.sharedStringsXml()) },
+      ...worksheets.map((worksheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, data: xml(worksheet) })),
+    ]);
+  }
+
+  /**
+   * Build a worksheet part
+   * @param sheet - Sheet to build
+   * @returns Worksheet XML
+   */
+  private worksheetXml(sheet: XlsxSheet): string {
+    const lastColumn = columnLetter(Math.max(sheet.columns.length - 1, 0));
+    const lastRow = sheet.rows.length + 1;
+
+    const headerCells = sheet.columns
+      .map((column, index) => this.cellXml(`${columnLetter(index)}1`, column.header, STYLE_INDEX.header))
+      .join('');
+    const dataRows = sheet.rows.map((row, rowIndex) => {
+      const rowNumber = rowIndex + 2;
+      const cells = sheet.columns
+        .map((column, index) => {
+          const value = row[index];
+          return this.cellXml(`${columnLetter(index)}${rowNumber}`, value, this.styleFor(value, column));
+        })
+        .join('');
+      return `<row r="${rowNumber}">${cells}</row>`;
+    });
+
+    const cols = sheet.columns
+      .map((column, index) => {
+        const width = column.width ?? this.fittedWidth(sheet, index);
+        return `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`;
+      })
+      .join('');
+
+    return (
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<dimension ref="A1:${lastColumn}${lastRow}"/>` +
+      '<sheetViews><sheetView workbookViewId="0">' +
+      '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+      '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/>' +
+      '</sheetView></sheetViews>' +
+      '<sheetFormatPr defaultRowHeight="15"/>' +
+      `<cols>${cols}</cols>` +
+      `<sheetData><row r="1">${headerCells}</row>${dataRows.join('')}</sheetData>` +
+      `<autoFilter ref="A1:${lastColumn}${lastRow}"/>` +
+      '</worksheet>'
+    );
+  }
+
+  /**
+   * Build a cell
+   * @param reference - Cell reference (e.g. B2)
+   * @param value - Cell value
+   * @param style - Style index
+   * @returns Cell XML, or an empty string for empty cells
+   */
+  private cellXml(reference: string, value: XlsxCellValue, style: number): string {
+    const styleAttribute = style ? ` s="${style}"` : '';
+
+    if (value === null || value === undefined || value === '') {
+      return '';
+    }
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? '' : `<c r="${reference}"${styleAttribute}><v>${toExcelSerialDate(value)}</v></c>`;
+    }
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? `<c r="${reference}"${styleAttribute}><v>${value}</v></c>` : '';
+    }
+    if (typeof value === 'boolean') {
+      return `<c r="${reference}" t="b"${styleAttribute}><v>${value ? 1 : 0}</v></c>`;
+    }
+    return `<c r="${reference}" t="s"${styleAttribute}><v>${this.sharedString(value)}</v></c>`;
+  }
+
+  /**
+   * Choose the style for a data cell
+   * @param value - Cell value
+   * @param column - Column the cell is in
+   * @returns Style index
+   */
+  private styleFor(value: XlsxCellValue, column: XlsxColumn): number {
+    if (value instanceof Date) {
+      return STYLE_INDEX[column.format === 'datetime' ? 'datetime' : 'date'];
+    }
+    if (typeof value === 'number' && column.format && column.format !== 'date' && column.format !== 'datetime') {
+      return STYLE_INDEX[column.format];
+    }
+    return STYLE_INDEX.general;
+  }
+
+  /**
+   * Fit a column's width to its longest header or value
+   * @param sheet - Sheet
+   * @param index - Column index
+   * @returns Width in characters
+   */
+  private fittedWidth(sheet: XlsxSheet, index: number): number {
+    const column = sheet.columns[index];
+    const lengths = sheet.rows.map(row => {
+      const value = row[index];
+      if (value instanceof Date) {
+        return column.format === 'datetime' ? 16 : 10;
+      }
+      return value === null || value === undefined ? 0 : String(value).length;
+    });
+    // Leave room for the autofilter button beside the header
+    return Math.min(Math.max(column.header.length + 3, ...lengths) + 2, MAX_COLUMN_WIDTH);
+  }
+
+  /**
+   * Get the shared string index for text, adding it if new
+   * @param text - Text
+   * @returns Index into the shared string table
+   */
+  private sharedString(text: string): number {
+    let index = this.sharedStringIndex.get(text);
+    if (index === undefined) {
+      index = this.sharedStrings.length;
+      this.sharedStrings.push(text);
+      this.sharedStringIndex.set(text, index);
+    }
+    return index;
+  }
+
+  private contentTypesXml(): string {
+    const sheetOverrides = this.sheets
+      .map(
+        (_, index) =>
+          `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ` +
+          'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      )
+      .join('');
+
+    return (
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ' +
+      'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ' +
+      'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '<Override PartName="/xl/sharedStrings.xml" ' +
+      'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sharedStrings+xml"/>' +
+      sheetOverrides +
+      '</Types>'
+    );
+  }
+
+  private rootRelationshipsXml(): string {
+    return (
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" ' +
+      'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" ' +
+      'Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    );
+  }
+
+  private workbookXml(): string {
+    const sheets = this.sheets
+      .map((sheet, index) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`)
+      .join('');
+    // Excel records each sheet's autofilter range as a hidden defined name
+    const filterNames = this.sheets
+      .map((sheet, index) => {
+        const lastColumn = columnLetter(Math.max(sheet.columns.length - 1, 0));
+        const quotedName = `'${escapeXml(sheet.name).replace(/'/g, "''")}'`;
+        return (
+          `<definedName name="_xlnm._FilterDatabase" localSheetId="${index}" hidden="1">` +
+          `${quotedName}!$A$1:$${lastColumn}$${sheet.rows.length + 1}</definedName>`
+        );
+      })
+      .join('');
+
+    return (
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets>${sheets}</sheets>` +
+      `<definedNames>${filterNames}</definedNames>` +
+      '</workbook>'
+    );
+  }
+
+  private workbookRelationshipsXml(): string {
+    const sheets = this.sheets
+      .map(
+        (_, index) =>
+          `<Relationship Id="rId${index + 1}" ` +
+          'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" ' +
+          `Target="worksheets/sheet${index + 1}.xml"/>`
+      )
+      .join('');
+    const next = this.sheets.length + 1;
+
+    return (
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      sheets +
+      `<Relationship Id="rId${next}" ` +
+      'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      `<Relationship Id="rId${next + 1}" ` +
+      'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/sharedStrings" ' +
+      'Target="sharedStrings.xml"/>' +
+      '</Relationships>'
+    );
+  }
+
+  private stylesXml(): string {
+    // Order of cellXfs matches STYLE_INDEX; number formats 1, 2, 10, 14 and 22 are built in
+    return (
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+      '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="3"><fill><patternFill patternType="none"/></fill>' +
+      '<fill><patternFill patternType="gray125"/></fill>' +
+      '<fill><patternFill patternType="solid"><fgColor rgb="FFE8EDF7"/><bgColor indexed="64"/></patternFill></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="7">' +
+      '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>' +
+      '<xf numFmtId="1" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+      '<xf numFmtId="2" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+      '<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+      '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+      '<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+      '</cellXfs>' +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      '</styleSheet>'
+    );
+  }
+
+  private sharedStringsXml(): string {
+    const items = this.sharedStrings
+      .map(text => {
+        // Keep leading and trailing spaces, which XML would otherwise drop
+        const space = /^\s|\s$/.test(text) ? ' xml:space="preserve"' : '';
+        return `<si><t${space}>${escapeXml(text)}</t></si>`;
+      })
+      .join('');
+
+    return (
+      '<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      `count="${this.sharedStrings.length}" uniqueCount="${this.sharedStrings.length}">${items}</sst>`
+    );
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * ZIP Archive Writer for MCC Discipline Tracker
+ *
+ * This module writes ZIP archives without external libraries, for file
+ * formats that are ZIP packages (such as XLSX workbooks). Entries are stored
+ * uncompressed, which every ZIP reader supports and keeps the output easy to
+ * inspect in tests.
+ *
+ * @fileoverview Minimal ZIP writer
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+/**
+ * File to add to an archive
+ */
+export interface ZipEntry {
+  /** Path within the archive, using forward slashes */
+  name: string;
+  data: Uint8Array;
+}
+
+// CRC-32 lookup table (polynomial 0xEDB88320)
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// DOS date and time written for every entry (1 January 1980, 00:00)
+const DOS_TIME = 0;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+/**
+ * Calculate the CRC-32 checksum of data
+ * @param data - Data to checksum
+ * @returns Unsigned CRC-32
+ */
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Encode text as UTF-8
+ * @param text - Text to encode
+ * @returns UTF-8 bytes
+ */
+export const encodeUtf8 = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return Uint8Array.from(bytes);
+};
+
+/**
+ * Write a ZIP archive
+ * @param entries - Files to include, in order
+ * @returns Archive contents
+ */
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encodeUtf8(entry.name);
+    const checksum = crc32(entry.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // Local file header signature
+    local.setUint16(4, 20, true); // Version needed to extract
+    local.setUint16(6, 0x0800, true); // Flags: names are UTF-8
+    local.setUint16(8, 0, true); // Compression: stored
+    local.setUint16(10, DOS_TIME, true);
+    local.setUint16(12, DOS_DATE, true);
+    local.setUint32(14, checksum, true);
+    local.setUint32(18, entry.data.length, true); // Compressed size
+    local.setUint32(22, entry.data.length, true); // Uncompressed size
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true); // Extra field length
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // Central directory header signature
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true); // Version needed to extract
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, DOS_TIME, true);
+    central.setUint16(14, DOS_DATE, true);
+    central.setUint32(16, checksum, true);
+    central.setUint32(20, entry.data.length, true);
+    central.setUint32(24, entry.data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true); // Offset of the local header
+
+    chunks.push(new Uint8Array(local.buffer), name, entry.data);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + entry.data.length;
+  }
+
+  const centralSize = centralDirectory.reduce((total, chunk) => total + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // End of central directory signature
+  end.setUint16(8, entries.length, true); // Entries on this disk
+  end.setUint16(10, entries.length, true); // Total entries
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true); // Offset of the central directory
+
+  const parts = [...chunks, ...centralDirectory, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+
+  return output;
+};
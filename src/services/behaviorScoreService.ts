@@ -0,0 +1,496 @@
+/**
+ * Behavior Score Service for MCC Discipline Tracker
+ *
+ * This service calculates a per-student "heat score" from discipline incident
+ * history. Each incident adds points weighted by its severity (and optionally
+ * its type), and every contribution decays exponentially with a configurable
+ * half-life, so recent behaviour counts more than old behaviour.
+ *
+ * @fileoverview Student heat score calculation service
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import { DocumentSnapshot, FirestoreError } from 'firebase/firestore';
+import { Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+import {
+  disciplineService,
+  DisciplineIncident,
+  IncidentSeverity,
+  IncidentType,
+  OFFENDER_ROLES,
+} from './disciplineService';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { serviceRegistry } from './base/serviceRegistry';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+
+/**
+ * Number of milliseconds in a day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Incidents older than this many half-lives contribute less than 0.4% of
+ * their weight and are not fetched when calculating a score
+ */
+const LOOKBACK_HALF_LIVES = 8;
+
+/**
+ * School-configurable heat score settings
+ */
+export interface HeatScoreConfig {
+  schoolId: string;
+  /** Points added per incident, by severity */
+  severityWeights: Record<IncidentSeverity, number>;
+  /** Optional multipliers applied on top of the severity weight, by incident type */
+  typeMultipliers: Partial<Record<IncidentType, number>>;
+  /** Number of days after which an incident's contribution has halved */
+  halfLifeDays: number;
+  /** Score thresholds at which a student is considered medium or high risk */
+  riskThresholds: {
+    medium: number;
+    high: number;
+  };
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+/**
+ * Updatable heat score settings
+ */
+export type HeatScoreConfigUpdate = Partial<
+  Omit<HeatScoreConfig, 'schoolId' | 'updatedAt' | 'updatedBy'>
+>;
+
+/**
+ * Default heat score settings used until a school configures its own
+ */
+export const DEFAULT_HEAT_SCORE_CONFIG: Omit<HeatScoreConfig, 'schoolId'> = {
+  severityWeights: {
+    [IncidentSeverity.LOW]: 1,
+    [IncidentSeverity.MEDIUM]: 2,
+    [IncidentSeverity.HIGH]: 4,
+    [IncidentSeverity.CRITICAL]: 8,
+  },
+  typeMultipliers: {},
+  halfLifeDays: 30,
+  riskThresholds: {
+    medium: 5,
+    high: 12,
+  },
+};
+
+/**
+ * Risk level derived from a heat score
+ */
+export type HeatScoreRiskLevel = 'low' | 'medium' | 'high';
+
+/**
+ * Interface for a student's current heat score
+ */
+export interface StudentHeatScore {
+  studentId: string;
+  schoolId: string;
+  score: number;
+  riskLevel: HeatScoreRiskLevel;
+  incidentCount: number;
+  calculatedAt: Date;
+}
+
+/**
+ * Interface for a single point in a heat score series
+ */
+export interface HeatScorePoint {
+  date: string;
+  score: number;
+}
+
+/**
+ * Behavior score service class providing heat score calculation and configuration
+ */
+export class BehaviorScoreService extends FirestoreService<HeatScoreConfig> {
+  private static instance: BehaviorScoreService;
+  protected collectionName = Collections.SCORING_CONFIGS;
+
+  /**
+   * Singleton pattern implementation
+   * @returns BehaviorScoreService instance
+   */
+  public static getInstance(): BehaviorScoreService {
+    if (!BehaviorScoreService.instance) {
+      BehaviorScoreService.instance = new BehaviorScoreService();
+      // Register with service registry
+      serviceRegistry.registerInstance('behaviorScoreService', BehaviorScoreService.instance);
+    }
+    return BehaviorScoreService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'BehaviorScoreService');
+  }
+
+  /**
+   * Get the heat score configuration for a school
+   * Falls back to the default configuration when the school has none
+   * @param schoolId - School identifier
+   * @returns Promise resolving to the school's heat score configuration
+   * @throws BehaviorScoreServiceError for fetch failures
+   */
+  public async getScoringConfig(schoolId: string): Promise<HeatScoreConfig> {
+    try {
+      const config = await withRetry(() => this.getDocument(schoolId));
+      return config || { ...DEFAULT_HEAT_SCORE_CONFIG, schoolId };
+    } catch (error) {
+      throw BehaviorScoreServiceError.wrap(error, 'fetch-config-failed', 'Failed to fetch scoring configuration', {
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Update the heat score configuration for a school
+   * @param schoolId - School identifier
+   * @param updates - Settings to change
+   * @param updatedBy - User ID of the updater
+   * @returns Promise resolving to the updated configuration
+   * @throws BehaviorScoreServiceError for invalid settings or update failures
+   */
+  public async updateScoringConfig(
+    schoolId: string,
+    updates: HeatScoreConfigUpdate,
+    updatedBy: string
+  ): Promise<HeatScoreConfig> {
+    try {
+      const hasPermission = await userService.hasPermission(updatedBy, 'manage-school');
+      if (!hasPermission) {
+        throw new BehaviorScoreServiceError(
+          'Insufficient permissions to update scoring configuration',
+          'insufficient-permissions'
+        );
+      }
+
+      const current = await this.getScoringConfig(schoolId);
+      const config: HeatScoreConfig = {
+        ...current,
+        ...updates,
+        severityWeights: { ...current.severityWeights, ...updates.severityWeights },
+        typeMultipliers: { ...current.typeMultipliers, ...updates.typeMultipliers },
+        riskThresholds: { ...current.riskThresholds, ...updates.riskThresholds },
+        schoolId,
+        updatedAt: new Date(),
+        updatedBy,
+      };
+
+      this.validateConfig(config);
+
+      // Configuration documents are keyed by school ID
+      const saved = await withRetry(() => this.createDocument(config, schoolId));
+      this.clearCacheForKey(`doc:${schoolId}`);
+
+      telemetryService.trackUsage('scoring_config_updated', 'BehaviorScoreService', {
+        schoolId,
+        updatedFields: Object.keys(updates).join(','),
+      });
+
+      return saved;
+    } catch (error) {
+      throw BehaviorScoreServiceError.wrap(error, 'update-config-failed', 'Failed to update scoring configuration', {
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Calculate a student's current heat score
+   * @param studentId - Student identifier
+   * @param schoolId - School identifier
+   * @param asOf - Point in time to calculate the score for (defaults to now)
+   * @returns Promise resolving to the student's heat score
+   * @throws BehaviorScoreServiceError for calculation failures
+   */
+  public async getStudentHeatScore(
+    studentId: string,
+    schoolId: string,
+    asOf: Date = new Date()
+  ): Promise<StudentHeatScore> {
+    try {
+      const config = await this.getScoringConfig(schoolId);
+      const lookbackStart = new Date(asOf.getTime() - config.halfLifeDays * LOOKBACK_HALF_LIVES * DAY_MS);
+      const incidents = await this.getStudentIncidents(studentId, schoolId, lookbackStart, asOf);
+      const score = this.calculateScore(incidents, config, asOf);
+
+      return {
+        studentId,
+        schoolId,
+        score,
+        riskLevel: this.getRiskLevel(score, config),
+        incidentCount: incidents.length,
+        calculatedAt: asOf,
+      };
+    } catch (error) {
+      throw BehaviorScoreServiceError.wrap(error, 'calculate-score-failed', 'Failed to calculate heat score', {
+        studentId,
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Calculate a student's heat score over time
+   * @param studentId - Student identifier
+   * @param schoolId - School identifier
+   * @param dateFrom - First date in the series
+   * @param dateTo - Last date in the series
+   * @param intervalDays - Number of days between points (defaults to 1)
+   * @returns Promise resolving to the heat score series
+   * @throws BehaviorScoreServiceError for calculation failures
+   */
+  public async getStudentHeatScoreSeries(
+    studentId: string,
+    schoolId: string,
+    dateFrom: Date,
+    dateTo: Date,
+    intervalDays: number = 1
+  ): Promise<HeatScorePoint[]> {
+    try {
+      const config = await this.getScoringConfig(schoolId);
+      const lookbackStart = new Date(dateFrom.getTime() - config.halfLifeDays * LOOKBACK_HALF_LIVES * DAY_MS);
+      const incidents = await this.getStudentIncidents(studentId, schoolId, lookbackStart, dateTo);
+
+      return this.calculateScoreSeries(incidents, config, dateFrom, dateTo, intervalDays);
+    } catch (error) {
+      throw BehaviorScoreServiceError.wrap(error, 'calculate-series-failed', 'Failed to calculate heat score series', {
+        studentId,
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Calculate a heat score from a list of incidents
+   * Incidents after the calculation date are ignored.
+   * @param incidents - Incident history
+   * @param config - Heat score configuration
+   * @param asOf - Point in time to calculate the score for
+   * @returns Heat score rounded to two decimals
+   */
+  public calculateScore(
+    incidents: DisciplineIncident[],
+    config: Omit<HeatScoreConfig, 'schoolId'>,
+    asOf: Date = new Date()
+  ): number {
+    const score = incidents.reduce((sum, incident) => {
+      const ageDays = (asOf.getTime() - incident.dateTime.getTime()) / DAY_MS;
+      if (ageDays < 0) {
+        return sum;
+      }
+
+      const weight =
+        (config.severityWeights[incident.severity] ?? 0) *
+        (config.typeMultipliers[incident.incidentType] ?? 1);
+
+      return sum + weight * Math.pow(0.5, ageDays / config.halfLifeDays);
+    }, 0);
+
+    return Math.round(score * 100) / 100;
+  }
+
+  /**
+   * Calculate a heat score series from a list of incidents
+   * @param incidents - Incident history
+   * @param config - Heat score configuration
+   * @param dateFrom - First date in the series
+   * @param dateTo - Last date in the series
+   * @param intervalDays - Number of days between points
+   * @returns Heat score series ordered by date
+   */
+  public calculateScoreSeries(
+    incidents: DisciplineIncident[],
+    config: Omit<HeatScoreConfig, 'schoolId'>,
+    dateFrom: Date,
+    dateTo: Date,
+    intervalDays: number = 1
+  ): HeatScorePoint[] {
+    if (intervalDays <= 0) {
+      throw new BehaviorScoreServiceError('Interval must be at least one day', 'invalid-interval', { intervalDays });
+    }
+
+    const series: HeatScorePoint[] = [];
+
+    for (let time = dateFrom.getTime(); time <= dateTo.getTime(); time += intervalDays * DAY_MS) {
+      const date = new Date(time);
+      series.push({
+        date: date.toISOString().split('T')[0],
+        score: this.calculateScore(incidents, config, date),
+      });
+    }
+
+    return series;
+  }
+
+  /**
+   * Map a heat score to a risk level using the configured thresholds
+   * @param score - Heat score
+   * @param config - Heat score configuration
+   * @returns Risk level
+   */
+  public getRiskLevel(score: number, config: Pick<HeatScoreConfig, 'riskThresholds'>): HeatScoreRiskLevel {
+    if (score >= config.riskThresholds.high) return 'high';
+    if (score >= config.riskThresholds.medium) return 'medium';
+    return 'low';
+  }
+
+  /**
+   * Get the incidents a student instigated or took part in within a date range,
+   * following pagination to the end; incidents where they were a victim or witness do not count
+   * @param studentId - Student identifier
+   * @param schoolId - School identifier
+   * @param dateFrom - Start date
+   * @param dateTo - End date
+   * @returns Promise resolving to array of incidents
+   */
+  private async getStudentIncidents(
+    studentId: string,
+    schoolId: string,
+    dateFrom: Date,
+    dateTo: Date
+  ): Promise<DisciplineIncident[]> {
+    const incidents: DisciplineIncident[] = [];
+    let hasMore = true;
+    let lastDoc: DocumentSnapshot | undefined;
+
+    while (hasMore) {
+      const result = await disciplineService.searchIncidents(
+        { studentId, participantRoles: [...OFFENDER_ROLES], schoolId, dateFrom, dateTo },
+        100,
+        lastDoc
+      );
+      incidents.push(...result.incidents);
+      hasMore = result.hasMore;
+      lastDoc = result.lastDoc;
+    }
+
+    return incidents;
+  }
+
+  /**
+   * Validate heat score configuration
+   * @param config - Configuration to validate
+   * @throws BehaviorScoreServiceError if the configuration is invalid
+   */
+  private validateConfig(config: HeatScoreConfig): void {
+    if (!(config.halfLifeDays > 0)) {
+      throw new BehaviorScoreServiceError('Half-life must be greater than zero days', 'invalid-config', {
+        halfLifeDays: config.halfLifeDays,
+      });
+    }
+
+    const weights = [...Object.values(config.severityWeights), ...Object.values(config.typeMultipliers)];
+    if (weights.some(weight => typeof weight !== 'number' || weight < 0)) {
+      throw new BehaviorScoreServiceError('Weights and multipliers must be non-negative numbers', 'invalid-config');
+    }
+
+    if (config.riskThresholds.medium >= config.riskThresholds.high) {
+      throw new BehaviorScoreServiceError('Medium risk threshold must be below the high risk threshold', 'invalid-config', {
+        riskThresholds: config.riskThresholds,
+      });
+    }
+  }
+
+  /**
+   * Map Firestore data to HeatScoreConfig object
+   * Missing settings fall back to the defaults
+   * @param id - Document ID (school ID)
+   * @param data - Firestore document data
+   * @returns HeatScoreConfig object
+   */
+  protected mapFirestoreToModel(id: string, data: any): HeatScoreConfig {
+    return {
+      schoolId: data.schoolId || id,
+      severityWeights: { ...DEFAULT_HEAT_SCORE_CONFIG.severityWeights, ...data.severityWeights },
+      typeMultipliers: { ...data.typeMultipliers },
+      halfLifeDays: typeof data.halfLifeDays === 'number' ? data.halfLifeDays : DEFAULT_HEAT_SCORE_CONFIG.halfLifeDays,
+      riskThresholds: { ...DEFAULT_HEAT_SCORE_CONFIG.riskThresholds, ...data.riskThresholds },
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt,
+      updatedBy: data.updatedBy,
+    };
+  }
+
+  /**
+   * Map HeatScoreConfig object to Firestore data
+   * @param model - HeatScoreConfig object
+   * @returns Firestore document data
+   */
+  protected mapModelToFirestore(model: HeatScoreConfig): any {
+    return {
+      schoolId: model.schoolId,
+      severityWeights: model.severityWeights,
+      typeMultipliers: model.typeMultipliers,
+      halfLifeDays: model.halfLifeDays,
+      riskThresholds: model.riskThresholds,
+      updatedBy: model.updatedBy || null,
+    };
+  }
+}
+
+/**
+ * Custom error class for behavior score service-related errors
+ */
+export class BehaviorScoreServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new BehaviorScoreServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'BehaviorScoreServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in a BehaviorScoreServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns BehaviorScoreServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): BehaviorScoreServiceError {
+    if (error instanceof BehaviorScoreServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new BehaviorScoreServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    return new BehaviorScoreServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const behaviorScoreService = BehaviorScoreService.getInstance();
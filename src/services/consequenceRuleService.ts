@@ -0,0 +1,373 @@
+/**
+ * Consequence Rule Service for MCC Discipline Tracker
+ *
+ * This service manages the school-defined consequence ladder. Each rule maps
+ * a threshold (incident type, minimum severity, incident count and time
+ * window) to a consequence such as a detention or a parent meeting.
+ * Rules are evaluated by ConsequenceService whenever an incident is saved.
+ *
+ * @fileoverview Consequence ladder rule management service
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import { where, FirestoreError } from 'firebase/firestore';
+import { Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+import { DisciplineIncident, IncidentSeverity, IncidentType } from './disciplineService';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { validationService } from './base/validationService';
+import { serviceRegistry } from './base/serviceRegistry';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+
+/**
+ * Enum for consequence types
+ */
+export enum ConsequenceType {
+  DETENTION = 'detention',
+  PARENT_MEETING = 'parent_meeting',
+  SUSPENSION_REFERRAL = 'suspension_referral',
+}
+
+/**
+ * Interface for a consequence ladder rule
+ */
+export interface ConsequenceRule {
+  id?: string;
+  schoolId: string;
+  name: string;
+  /** Only incidents of this type count towards the threshold (any type if omitted) */
+  incidentType?: IncidentType;
+  /** Only incidents at or above this severity count towards the threshold (any severity if omitted) */
+  minimumSeverity?: IncidentSeverity;
+  /** Number of matching incidents required to trigger the consequence */
+  threshold: number;
+  /** Number of days, counted back from the triggering incident, in which incidents are counted */
+  windowDays: number;
+  consequenceType: ConsequenceType;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+/**
+ * Input data for creating a consequence rule
+ */
+export type ConsequenceRuleInput = Omit<
+  ConsequenceRule,
+  'id' | 'active' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'
+> & { active?: boolean };
+
+/**
+ * Updatable consequence rule fields
+ */
+export type ConsequenceRuleUpdate = Partial<
+  Omit<ConsequenceRule, 'id' | 'schoolId' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>
+>;
+
+/**
+ * Consequence rule service class providing rule management and matching
+ */
+export class ConsequenceRuleService extends FirestoreService<ConsequenceRule> {
+  private static instance: ConsequenceRuleService;
+  protected collectionName = Collections.CONSEQUENCE_RULES;
+
+  /**
+   * Singleton pattern implementation
+   * @returns ConsequenceRuleService instance
+   */
+  public static getInstance(): ConsequenceRuleService {
+    if (!ConsequenceRuleService.instance) {
+      ConsequenceRuleService.instance = new ConsequenceRuleService();
+      // Register with service registry
+      serviceRegistry.registerInstance('consequenceRuleService', ConsequenceRuleService.instance);
+    }
+    return ConsequenceRuleService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'ConsequenceRuleService');
+  }
+
+  /**
+   * Create a new consequence rule
+   * @param ruleData - Rule data to create
+   * @param createdBy - User ID of the creator
+   * @returns Promise resolving to created rule with ID
+   * @throws ConsequenceRuleServiceError for creation failures
+   */
+  public async createRule(ruleData: ConsequenceRuleInput, createdBy: string): Promise<ConsequenceRule> {
+    try {
+      await this.assertCanManageRules(createdBy);
+      validationService.validateOrThrow('consequenceRule', ruleData);
+
+      const rule: Omit<ConsequenceRule, 'id'> = {
+        ...ruleData,
+        active: ruleData.active ?? true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        createdBy,
+        updatedBy: createdBy,
+      };
+
+      const createdRule = await withRetry(() => this.createDocument(rule));
+      this.clearCache();
+
+      telemetryService.trackUsage('consequence_rule_created', 'ConsequenceRuleService', {
+        ruleId: createdRule.id,
+        schoolId: rule.schoolId,
+        consequenceType: rule.consequenceType,
+      });
+
+      return createdRule;
+    } catch (error) {
+      throw ConsequenceRuleServiceError.wrap(error, 'create-rule-failed', 'Failed to create consequence rule', {
+        schoolId: ruleData.schoolId,
+      });
+    }
+  }
+
+  /**
+   * Update an existing consequence rule
+   * @param ruleId - ID of the rule to update
+   * @param updates - Rule fields to change
+   * @param updatedBy - User ID of the updater
+   * @returns Promise resolving to updated rule
+   * @throws ConsequenceRuleServiceError for update failures
+   */
+  public async updateRule(
+    ruleId: string,
+    updates: ConsequenceRuleUpdate,
+    updatedBy: string
+  ): Promise<ConsequenceRule> {
+    try {
+      await this.assertCanManageRules(updatedBy);
+
+      const existing = await this.getDocument(ruleId);
+      if (!existing) {
+        throw new ConsequenceRuleServiceError('Consequence rule not found', 'rule-not-found', { ruleId });
+      }
+
+      validationService.validateOrThrow('consequenceRule', { ...existing, ...updates });
+
+      const updatedRule = await withRetry(() =>
+        this.updateDocument(ruleId, { ...updates, updatedBy })
+      );
+      this.clearCache();
+
+      telemetryService.trackUsage('consequence_rule_updated', 'ConsequenceRuleService', {
+        ruleId,
+        updatedFields: Object.keys(updates).join(','),
+      });
+
+      return updatedRule;
+    } catch (error) {
+      throw ConsequenceRuleServiceError.wrap(error, 'update-rule-failed', 'Failed to update consequence rule', {
+        ruleId,
+      });
+    }
+  }
+
+  /**
+   * Deactivate a consequence rule
+   * Rules are never deleted so existing consequences keep a valid rule reference.
+   * @param ruleId - ID of the rule to deactivate
+   * @param updatedBy - User ID of the updater
+   * @returns Promise resolving to deactivated rule
+   */
+  public async deactivateRule(ruleId: string, updatedBy: string): Promise<ConsequenceRule> {
+    return this.updateRule(ruleId, { active: false }, updatedBy);
+  }
+
+  /**
+   * Get a consequence rule by ID
+   * @param ruleId - Rule ID to fetch
+   * @returns Promise resolving to rule or null if not found
+   */
+  public async getRule(ruleId: string): Promise<ConsequenceRule | null> {
+    try {
+      return await withRetry(() => this.getDocument(ruleId));
+    } catch (error) {
+      throw ConsequenceRuleServiceError.wrap(error, 'fetch-rule-failed', 'Failed to fetch consequence rule', {
+        ruleId,
+      });
+    }
+  }
+
+  /**
+   * Get the consequence rules for a school
+   * @param schoolId - School identifier
+   * @param activeOnly - Only return active rules (defaults to true)
+   * @returns Promise resolving to array of rules
+   */
+  public async getRulesForSchool(schoolId: string, activeOnly: boolean = true): Promise<ConsequenceRule[]> {
+    try {
+      const constraints = [where('schoolId', '==', schoolId)];
+      if (activeOnly) {
+        constraints.push(where('active', '==', true));
+      }
+
+      const result = await withRetry(() => this.queryDocuments(constraints, 100));
+      return result.items;
+    } catch (error) {
+      throw ConsequenceRuleServiceError.wrap(error, 'fetch-rules-failed', 'Failed to fetch consequence rules', {
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Check whether an incident counts towards a rule's threshold
+   * @param rule - Consequence rule
+   * @param incident - Discipline incident
+   * @returns True if the incident matches the rule's type and severity criteria
+   */
+  public matchesIncident(rule: ConsequenceRule, incident: DisciplineIncident): boolean {
+    if (rule.incidentType && rule.incidentType !== incident.incidentType) {
+      return false;
+    }
+
+    // Severity levels in ascending order. Built here rather than at module level
+    // because DisciplineService imports this module indirectly.
+    const severityOrder: IncidentSeverity[] = [
+      IncidentSeverity.LOW,
+      IncidentSeverity.MEDIUM,
+      IncidentSeverity.HIGH,
+      IncidentSeverity.CRITICAL,
+    ];
+
+    if (
+      rule.minimumSeverity &&
+      severityOrder.indexOf(incident.severity) < severityOrder.indexOf(rule.minimumSeverity)
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Ensure a user may manage consequence rules
+   * @param userId - User ID to check
+   * @throws ConsequenceRuleServiceError if the user lacks permission
+   */
+  private async assertCanManageRules(userId: string): Promise<void> {
+    const hasPermission = await userService.hasPermission(userId, 'manage-consequence-rules');
+    if (!hasPermission) {
+      throw new ConsequenceRuleServiceError(
+        'Insufficient permissions to manage consequence rules',
+        'insufficient-permissions'
+      );
+    }
+  }
+
+  /**
+   * Map Firestore data to ConsequenceRule object
+   * @param id - Document ID
+   * @param data - Firestore document data
+   * @returns ConsequenceRule object
+   */
+  protected mapFirestoreToModel(id: string, data: any): ConsequenceRule {
+    return {
+      id,
+      schoolId: data.schoolId || '',
+      name: data.name || '',
+      incidentType: data.incidentType || undefined,
+      minimumSeverity: data.minimumSeverity || undefined,
+      threshold: typeof data.threshold === 'number' ? data.threshold : 1,
+      windowDays: typeof data.windowDays === 'number' ? data.windowDays : 1,
+      consequenceType: data.consequenceType || ConsequenceType.DETENTION,
+      active: data.active !== false,
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      createdBy: data.createdBy || '',
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  /**
+   * Map ConsequenceRule object to Firestore data
+   * Only defined fields are written so partial updates are supported
+   * @param model - ConsequenceRule object (or partial)
+   * @returns Firestore document data
+   */
+  protected mapModelToFirestore(model: ConsequenceRule): any {
+    const { id, createdAt, updatedAt, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    return data;
+  }
+}
+
+/**
+ * Custom error class for consequence rule service-related errors
+ */
+export class ConsequenceRuleServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new ConsequenceRuleServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'ConsequenceRuleServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in a ConsequenceRuleServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns ConsequenceRuleServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): ConsequenceRuleServiceError {
+    if (error instanceof ConsequenceRuleServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new ConsequenceRuleServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    if ((error as Error)?.message?.startsWith('Validation failed')) {
+      return new ConsequenceRuleServiceError((error as Error).message, 'validation-error', context);
+    }
+
+    return new ConsequenceRuleServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const consequenceRuleService = ConsequenceRuleService.getInstance();
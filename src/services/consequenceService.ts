@@ -0,0 +1,634 @@
+/**
+ * Consequence Service for MCC Discipline Tracker
+ *
+ * This service evaluates the school's consequence ladder whenever an incident
+ * is created or updated, and stores the triggered consequences as records
+ * linked to the incidents that caused them. Principals can override a
+ * triggered consequence by waiving it or replacing it with a different one.
+ *
+ * @fileoverview Automatic consequence (sanction) evaluation and records service
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import { where, DocumentSnapshot, FirestoreError, QueryConstraint } from 'firebase/firestore';
+import { Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+import {
+  disciplineService,
+  DisciplineIncident,
+  IncidentParticipant,
+  OFFENDER_ROLES,
+  isOffenderRole,
+} from './disciplineService';
+import {
+  consequenceRuleService,
+  ConsequenceRule,
+  ConsequenceType,
+} from './consequenceRuleService';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { serviceRegistry } from './base/serviceRegistry';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+
+/**
+ * Number of milliseconds in a day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Enum for consequence status
+ */
+export enum ConsequenceStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+  WAIVED = 'waived',
+}
+
+/**
+ * Interface for a triggered consequence record
+ */
+export interface Consequence {
+  id?: string;
+  schoolId: string;
+  studentId: string;
+  studentName: string;
+  ruleId: string;
+  ruleName: string;
+  consequenceType: ConsequenceType;
+  status: ConsequenceStatus;
+  /** Incidents that counted towards the rule's threshold */
+  incidentIds: string[];
+  /** Incident whose save caused the rule to trigger */
+  triggeringIncidentId: string;
+  triggeredAt: Date;
+  overridden: boolean;
+  overrideReason?: string;
+  overriddenBy?: string;
+  overriddenAt?: Date;
+  /** Consequence type assigned by the rule before a principal replaced it */
+  originalConsequenceType?: ConsequenceType;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+/**
+ * Interface for a principal's override of a consequence
+ * Omitting the replacement type waives the consequence.
+ */
+export interface ConsequenceOverride {
+  reason: string;
+  replacementType?: ConsequenceType;
+}
+
+/**
+ * Input data for recording a consequence that was not triggered by a rule
+ */
+export interface ManualConsequenceInput {
+  schoolId: string;
+  studentId: string;
+  studentName: string;
+  consequenceType: ConsequenceType;
+  /** Short description shown in place of a rule name */
+  reason: string;
+  incidentIds: string[];
+  triggeringIncidentId: string;
+}
+
+/**
+ * Consequence service class providing rule evaluation and consequence records
+ */
+export class ConsequenceService extends FirestoreService<Consequence> {
+  private static instance: ConsequenceService;
+  protected collectionName = Collections.CONSEQUENCES;
+
+  /**
+   * Singleton pattern implementation
+   * @returns ConsequenceService instance
+   */
+  public static getInstance(): ConsequenceService {
+    if (!ConsequenceService.instance) {
+      ConsequenceService.instance = new ConsequenceService();
+      // Register with service registry
+      serviceRegistry.registerInstance('consequenceService', ConsequenceService.instance);
+    }
+    return ConsequenceService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'ConsequenceService');
+  }
+
+  /**
+   * Evaluate the school's consequence rules against a saved incident
+   * Incidents already linked to a consequence for a rule are not counted
+   * again for that rule, so each consequence is triggered once per threshold.
+   * Each instigator and participant is evaluated; victims and witnesses are not.
+   * @param incident - Incident that was created or updated
+   * @param triggeredBy - User ID of the user who saved the incident
+   * @returns Promise resolving to the consequences triggered by this evaluation
+   * @throws ConsequenceServiceError for evaluation failures
+   */
+  public async evaluateIncident(incident: DisciplineIncident, triggeredBy: string): Promise<Consequence[]> {
+    telemetryService.startMeasurement('evaluateIncident');
+
+    try {
+      if (!incident.id) {
+        throw new ConsequenceServiceError('Incident must be saved before evaluation', 'invalid-incident');
+      }
+
+      const rules = await consequenceRuleService.getRulesForSchool(incident.schoolId);
+      const offenders = incident.participants.filter(participant => isOffenderRole(participant.role));
+      const triggered: Consequence[] = [];
+
+      for (const rule of rules) {
+        if (!consequenceRuleService.matchesIncident(rule, incident)) {
+          continue;
+        }
+
+        for (const offender of offenders) {
+          const consequence = await this.evaluateRule(rule, incident, offender, triggeredBy);
+          if (consequence) {
+            triggered.push(consequence);
+          }
+        }
+      }
+
+      telemetryService.trackUsage('consequence_rules_evaluated', 'ConsequenceService', {
+        incidentId: incident.id,
+        rulesEvaluated: rules.length,
+        consequencesTriggered: triggered.length,
+      });
+
+      telemetryService.stopMeasurement('evaluateIncident', 'evaluate_incident');
+      return triggered;
+    } catch (error) {
+      telemetryService.trackException(error as Error, {
+        method: 'evaluateIncident',
+        incidentId: incident.id,
+      });
+      telemetryService.stopMeasurement('evaluateIncident', 'evaluate_incident_failed');
+
+      throw ConsequenceServiceError.wrap(error, 'evaluate-incident-failed', 'Failed to evaluate consequence rules', {
+        incidentId: incident.id,
+      });
+    }
+  }
+
+  /**
+   * Get a consequence by ID
+   * @param consequenceId - Consequence ID to fetch
+   * @returns Promise resolving to consequence or null if not found
+   */
+  public async getConsequence(consequenceId: string): Promise<Consequence | null> {
+    try {
+      return await withRetry(() => this.getDocument(consequenceId));
+    } catch (error) {
+      throw ConsequenceServiceError.wrap(error, 'fetch-consequence-failed', 'Failed to fetch consequence', {
+        consequenceId,
+      });
+    }
+  }
+
+  /**
+   * Get the consequences recorded for a student
+   * @param studentId - Student identifier
+   * @param schoolId - School identifier
+   * @param status - Optional status filter
+   * @returns Promise resolving to array of consequences
+   */
+  public async getConsequencesForStudent(
+    studentId: string,
+    schoolId: string,
+    status?: ConsequenceStatus
+  ): Promise<Consequence[]> {
+    const constraints = [where('schoolId', '==', schoolId), where('studentId', '==', studentId)];
+    if (status) {
+      constraints.push(where('status', '==', status));
+    }
+
+    try {
+      return await this.getAllConsequences(constraints);
+    } catch (error) {
+      throw ConsequenceServiceError.wrap(error, 'fetch-consequences-failed', 'Failed to fetch consequences', {
+        studentId,
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Get the consequences linked to an incident
+   * @param incidentId - Incident identifier
+   * @returns Promise resolving to array of consequences
+   */
+  public async getConsequencesForIncident(incidentId: string): Promise<Consequence[]> {
+    try {
+      return await this.getAllConsequences([where('incidentIds', 'array-contains', incidentId)]);
+    } catch (error) {
+      throw ConsequenceServiceError.wrap(error, 'fetch-consequences-failed', 'Failed to fetch consequences', {
+        incidentId,
+      });
+    }
+  }
+
+  /**
+   * Override a triggered consequence
+   * Only principals may override. The consequence is waived unless a
+   * replacement type is given, in which case it stays pending with the new type.
+   * @param consequenceId - ID of the consequence to override
+   * @param override - Override reason and optional replacement type
+   * @param overriddenBy - User ID of the principal
+   * @returns Promise resolving to updated consequence
+   * @throws ConsequenceServiceError for override failures
+   */
+  public async overrideConsequence(
+    consequenceId: string,
+    override: ConsequenceOverride,
+    overriddenBy: string
+  ): Promise<Consequence> {
+    try {
+      const hasPermission = await userService.hasPermission(overriddenBy, 'override-consequence');
+      if (!hasPermission) {
+        throw new ConsequenceServiceError(
+          'Only a principal can override a consequence',
+          'insufficient-permissions'
+        );
+      }
+
+      if (!override.reason || override.reason.trim().length === 0) {
+        throw new ConsequenceServiceError('An override reason is required', 'override-reason-required');
+      }
+
+      const existing = await this.getDocument(consequenceId);
+      if (!existing) {
+        throw new ConsequenceServiceError('Consequence not found', 'consequence-not-found', { consequenceId });
+      }
+
+      if (existing.status === ConsequenceStatus.COMPLETED) {
+        throw new ConsequenceServiceError(
+          'A completed consequence cannot be overridden',
+          'consequence-already-completed',
+          { consequenceId }
+        );
+      }
+
+      const updates: Partial<Consequence> = {
+        overridden: true,
+        overrideReason: override.reason.trim(),
+        overriddenBy,
+        overriddenAt: new Date(),
+        updatedBy: overriddenBy,
+      };
+
+      if (override.replacementType) {
+        updates.consequenceType = override.replacementType;
+        updates.originalConsequenceType = existing.originalConsequenceType || existing.consequenceType;
+        updates.status = ConsequenceStatus.PENDING;
+      } else {
+        updates.status = ConsequenceStatus.WAIVED;
+      }
+
+      const updated = await withRetry(() => this.updateDocument(consequenceId, updates));
+      this.clearCache();
+
+      telemetryService.trackUsage('consequence_overridden', 'ConsequenceService', {
+        consequenceId,
+        status: updated.status,
+        replacementType: override.replacementType,
+      });
+
+      return updated;
+    } catch (error) {
+      throw ConsequenceServiceError.wrap(error, 'override-consequence-failed', 'Failed to override consequence', {
+        consequenceId,
+      });
+    }
+  }
+
+  /**
+   * Record a consequence that was not triggered by a rule (e.g. an escalation)
+   * @param input - Consequence details
+   * @param createdBy - User ID of the user whose action raised the consequence
+   * @returns Promise resolving to created consequence
+   * @throws ConsequenceServiceError for creation failures
+   */
+  public async recordConsequence(input: ManualConsequenceInput, createdBy: string): Promise<Consequence> {
+    try {
+      const consequence: Omit<Consequence, 'id'> = {
+        schoolId: input.schoolId,
+        studentId: input.studentId,
+        studentName: input.studentName,
+        ruleId: '',
+        ruleName: input.reason,
+        consequenceType: input.consequenceType,
+        status: ConsequenceStatus.PENDING,
+        incidentIds: input.incidentIds,
+        triggeringIncidentId: input.triggeringIncidentId,
+        triggeredAt: new Date(),
+        overridden: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        createdBy,
+        updatedBy: createdBy,
+      };
+
+      const created = await withRetry(() => this.createDocument(consequence));
+      this.clearCache();
+
+      telemetryService.trackUsage('consequence_recorded', 'ConsequenceService', {
+        consequenceId: created.id,
+        consequenceType: input.consequenceType,
+      });
+
+      return created;
+    } catch (error) {
+      throw ConsequenceServiceError.wrap(error, 'record-consequence-failed', 'Failed to record consequence', {
+        studentId: input.studentId,
+      });
+    }
+  }
+
+  /**
+   * Mark a pending consequence as completed (e.g. the detention was served)
+   * @param consequenceId - ID of the consequence to complete
+   * @param completedBy - User ID of the user completing it
+   * @returns Promise resolving to updated consequence
+   * @throws ConsequenceServiceError for update failures
+   */
+  public async completeConsequence(consequenceId: string, completedBy: string): Promise<Consequence> {
+    try {
+      const existing = await this.getDocument(consequenceId);
+      if (!existing) {
+        throw new ConsequenceServiceError('Consequence not found', 'consequence-not-found', { consequenceId });
+      }
+
+      if (existing.status !== ConsequenceStatus.PENDING) {
+        throw new ConsequenceServiceError(
+          `Only pending consequences can be completed (current status: ${existing.status})`,
+          'invalid-consequence-status',
+          { consequenceId, status: existing.status }
+        );
+      }
+
+      const updated = await withRetry(() =>
+        this.updateDocument(consequenceId, { status: ConsequenceStatus.COMPLETED, updatedBy: completedBy })
+      );
+      this.clearCache();
+
+      return updated;
+    } catch (error) {
+      throw ConsequenceServiceError.wrap(error, 'complete-consequence-failed', 'Failed to complete consequence', {
+        consequenceId,
+      });
+    }
+  }
+
+  /**
+   * Evaluate a single rule against a saved incident for one of its students
+   * @param rule - Matching consequence rule
+   * @param incident - Incident that was created or updated
+   * @param student - Instigator or participant to evaluate
+   * @param triggeredBy - User ID of the user who saved the incident
+   * @returns Promise resolving to the triggered consequence, or null if the threshold was not reached
+   */
+  private async evaluateRule(
+    rule: ConsequenceRule,
+    incident: DisciplineIncident,
+    student: IncidentParticipant,
+    triggeredBy: string
+  ): Promise<Consequence | null> {
+    // Incidents already consumed by an earlier consequence for this rule
+    const existing = await this.getAllConsequences([
+      where('schoolId', '==', incident.schoolId),
+      where('studentId', '==', student.studentId),
+      where('ruleId', '==', rule.id),
+    ]);
+    const consumedIds = new Set(existing.flatMap(consequence => consequence.incidentIds));
+
+    if (consumedIds.has(incident.id!)) {
+      return null;
+    }
+
+    const windowStart = new Date(incident.dateTime.getTime() - rule.windowDays * DAY_MS);
+    const candidates = (await this.getStudentIncidents(incident, student.studentId, windowStart))
+      .filter(candidate => candidate.id && !consumedIds.has(candidate.id))
+      .filter(candidate => consequenceRuleService.matchesIncident(rule, candidate))
+      .sort((a, b) => b.dateTime.getTime() - a.dateTime.getTime());
+
+    // The saved incident may not be visible to the query yet (or may have just moved into the window)
+    if (!candidates.some(candidate => candidate.id === incident.id)) {
+      candidates.unshift(incident);
+    }
+
+    if (candidates.length < rule.threshold) {
+      return null;
+    }
+
+    const linkedIncidents = candidates.slice(0, rule.threshold);
+    const consequence: Omit<Consequence, 'id'> = {
+      schoolId: incident.schoolId,
+      studentId: student.studentId,
+      studentName: student.studentName,
+      ruleId: rule.id!,
+      ruleName: rule.name,
+      consequenceType: rule.consequenceType,
+      status: ConsequenceStatus.PENDING,
+      incidentIds: linkedIncidents.map(linked => linked.id!),
+      triggeringIncidentId: incident.id!,
+      triggeredAt: new Date(),
+      overridden: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      createdBy: triggeredBy,
+      updatedBy: triggeredBy,
+    };
+
+    const created = await withRetry(() => this.createDocument(consequence));
+    this.clearCache();
+
+    telemetryService.trackUsage('consequence_triggered', 'ConsequenceService', {
+      consequenceId: created.id,
+      ruleId: rule.id,
+      consequenceType: rule.consequenceType,
+      incidentCount: linkedIncidents.length,
+    });
+
+    return created;
+  }
+
+  /**
+   * Get the incidents a student instigated or took part in, from the window start up to the given incident
+   * @param incident - Incident whose date bounds the search
+   * @param studentId - Student ID
+   * @param windowStart - Start of the counting window
+   * @returns Promise resolving to array of incidents
+   */
+  private async getStudentIncidents(
+    incident: DisciplineIncident,
+    studentId: string,
+    windowStart: Date
+  ): Promise<DisciplineIncident[]> {
+    const incidents: DisciplineIncident[] = [];
+    let hasMore = true;
+    let lastDoc: DocumentSnapshot | undefined;
+
+    while (hasMore) {
+      const result = await disciplineService.searchIncidents(
+        {
+          schoolId: incident.schoolId,
+          studentId,
+          participantRoles: [...OFFENDER_ROLES],
+          dateFrom: windowStart,
+          dateTo: incident.dateTime,
+        },
+        100,
+        lastDoc
+      );
+      incidents.push(...result.incidents);
+      hasMore = result.hasMore;
+      lastDoc = result.lastDoc;
+    }
+
+    return incidents;
+  }
+
+  /**
+   * Get all consequences matching the query constraints, following pagination to the end
+   * @param constraints - Firestore query constraints
+   * @returns Promise resolving to array of consequences
+   */
+  private async getAllConsequences(constraints: QueryConstraint[]): Promise<Consequence[]> {
+    const consequences: Consequence[] = [];
+    let hasMore = true;
+    let lastDoc: DocumentSnapshot | undefined;
+
+    while (hasMore) {
+      const result = await withRetry(() => this.queryDocuments(constraints, 100, lastDoc));
+      consequences.push(...result.items);
+      hasMore = result.hasMore;
+      lastDoc = result.lastDoc;
+    }
+
+    return consequences;
+  }
+
+  /**
+   * Map Firestore data to Consequence object
+   * @param id - Document ID
+   * @param data - Firestore document data
+   * @returns Consequence object
+   */
+  protected mapFirestoreToModel(id: string, data: any): Consequence {
+    return {
+      id,
+      schoolId: data.schoolId || '',
+      studentId: data.studentId || '',
+      studentName: data.studentName || '',
+      ruleId: data.ruleId || '',
+      ruleName: data.ruleName || '',
+      consequenceType: data.consequenceType || ConsequenceType.DETENTION,
+      status: data.status || ConsequenceStatus.PENDING,
+      incidentIds: Array.isArray(data.incidentIds) ? data.incidentIds : [],
+      triggeringIncidentId: data.triggeringIncidentId || '',
+      triggeredAt: this.timestampToDate(data.triggeredAt) || data.triggeredAt || new Date(),
+      overridden: Boolean(data.overridden),
+      overrideReason: data.overrideReason || undefined,
+      overriddenBy: data.overriddenBy || undefined,
+      overriddenAt: this.timestampToDate(data.overriddenAt),
+      originalConsequenceType: data.originalConsequenceType || undefined,
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      createdBy: data.createdBy || '',
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  /**
+   * Map Consequence object to Firestore data
+   * Only defined fields are written so partial updates are supported
+   * @param model - Consequence object (or partial)
+   * @returns Firestore document data
+   */
+  protected mapModelToFirestore(model: Consequence): any {
+    const { id, createdAt, updatedAt, triggeredAt, overriddenAt, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    if (triggeredAt) {
+      data.triggeredAt = this.dateToTimestamp(triggeredAt);
+    }
+    if (overriddenAt) {
+      data.overriddenAt = this.dateToTimestamp(overriddenAt);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Custom error class for consequence service-related errors
+ */
+export class ConsequenceServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new ConsequenceServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'ConsequenceServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in a ConsequenceServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns ConsequenceServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): ConsequenceServiceError {
+    if (error instanceof ConsequenceServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new ConsequenceServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    return new ConsequenceServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const consequenceService = ConsequenceService.getInstance();
@@ -0,0 +1,925 @@
+/**
+ * Detention Service for MCC Discipline Tracker
+ *
+ * This service schedules detention sessions (date, room, supervising teacher,
+ * capacity), assigns students to them from incidents, and records attendance.
+ * A missed detention is automatically escalated: the student is rescheduled
+ * into the next available session, and a repeat miss raises a parent meeting.
+ * Incident status follows the detention: an incident moves to IN_PROGRESS when
+ * a detention is assigned and to RESOLVED once it has been served.
+ *
+ * @fileoverview Detention scheduling and attendance service
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import {
+  where,
+  orderBy,
+  DocumentSnapshot,
+  FirestoreError,
+  QueryConstraint,
+  Timestamp,
+} from 'firebase/firestore';
+import { Collections } from '../config/firebaseConfig';
+import type { Permission } from '../config/permissions';
+import { userService } from './userService';
+import {
+  disciplineService,
+  DisciplineIncident,
+  IncidentParticipant,
+  IncidentStatus,
+  getIncidentParticipant,
+  isOffenderRole,
+} from './disciplineService';
+import { consequenceService, Consequence, ConsequenceStatus } from './consequenceService';
+import { ConsequenceType } from './consequenceRuleService';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { validationService } from './base/validationService';
+import { serviceRegistry } from './base/serviceRegistry';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+
+/**
+ * Number of times a missed detention is rescheduled before it is escalated
+ * to a parent meeting
+ */
+export const MAX_DETENTION_RESCHEDULES = 1;
+
+/**
+ * Enum for detention attendance status
+ */
+export enum DetentionAttendanceStatus {
+  ASSIGNED = 'assigned',
+  ATTENDED = 'attended',
+  MISSED = 'missed',
+  EXCUSED = 'excused',
+}
+
+/**
+ * Interface for a detention session
+ */
+export interface DetentionSession {
+  id?: string;
+  schoolId: string;
+  startTime: Date;
+  durationMinutes: number;
+  room: string;
+  supervisingTeacherId: string;
+  supervisingTeacherName: string;
+  capacity: number;
+  notes?: string;
+  cancelled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+/**
+ * Input data for creating a detention session
+ */
+export type DetentionSessionInput = Omit<
+  DetentionSession,
+  'id' | 'cancelled' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'
+>;
+
+/**
+ * Interface for a student's assignment to a detention session
+ */
+export interface DetentionAssignment {
+  id?: string;
+  schoolId: string;
+  sessionId: string;
+  /** Copied from the session so a student's upcoming detentions can be queried by date */
+  sessionStartTime: Date;
+  studentId: string;
+  studentName: string;
+  incidentId: string;
+  /** Consequence record this detention fulfils, if it was triggered by a rule */
+  consequenceId?: string;
+  status: DetentionAttendanceStatus;
+  /** Number of times this detention has been rescheduled after a miss */
+  escalationLevel: number;
+  rescheduledFromAssignmentId?: string;
+  rescheduledToAssignmentId?: string;
+  attendanceMarkedBy?: string;
+  attendanceMarkedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+/**
+ * Interface for the outcome of escalating a missed detention
+ */
+export interface DetentionEscalation {
+  /** New assignment in the next available session, if one was found */
+  rescheduledAssignment?: DetentionAssignment;
+  /** Parent meeting raised once the reschedule limit was reached */
+  consequence?: Consequence;
+}
+
+/**
+ * Interface for the result of marking attendance
+ */
+export interface DetentionAttendanceResult {
+  assignment: DetentionAssignment;
+  escalation?: DetentionEscalation;
+}
+
+/**
+ * Persistence for detention assignments
+ * Kept module-private; DetentionService is the public entry point.
+ */
+class DetentionAssignmentStore extends FirestoreService<DetentionAssignment> {
+  protected collectionName = Collections.DETENTION_ASSIGNMENTS;
+
+  public create(assignment: Omit<DetentionAssignment, 'id'>): Promise<DetentionAssignment> {
+    return this.createDocument(assignment).finally(() => this.clearCache());
+  }
+
+  public get(assignmentId: string): Promise<DetentionAssignment | null> {
+    return this.getDocument(assignmentId);
+  }
+
+  public update(assignmentId: string, updates: Partial<DetentionAssignment>): Promise<DetentionAssignment> {
+    return this.updateDocument(assignmentId, updates).finally(() => this.clearCache());
+  }
+
+  /**
+   * Get all assignments matching the query constraints, following pagination to the end
+   * @param constraints - Firestore query constraints
+   * @returns Promise resolving to array of assignments
+   */
+  public async findAll(constraints: QueryConstraint[]): Promise<DetentionAssignment[]> {
+    const assignments: DetentionAssignment[] = [];
+    let hasMore = true;
+    let lastDoc: DocumentSnapshot | undefined;
+
+    while (hasMore) {
+      const result = await this.queryDocuments(constraints, 100, lastDoc);
+      assignments.push(...result.items);
+      hasMore = result.hasMore;
+      lastDoc = result.lastDoc;
+    }
+
+    return assignments;
+  }
+
+  protected mapFirestoreToModel(id: string, data: any): DetentionAssignment {
+    return {
+      id,
+      schoolId: data.schoolId || '',
+      sessionId: data.sessionId || '',
+      sessionStartTime: this.timestampToDate(data.sessionStartTime) || data.sessionStartTime || new Date(),
+      studentId: data.studentId || '',
+      studentName: data.studentName || '',
+      incidentId: data.incidentId || '',
+      consequenceId: data.consequenceId || undefined,
+      status: data.status || DetentionAttendanceStatus.ASSIGNED,
+      escalationLevel: typeof data.escalationLevel === 'number' ? data.escalationLevel : 0,
+      rescheduledFromAssignmentId: data.rescheduledFromAssignmentId || undefined,
+      rescheduledToAssignmentId: data.rescheduledToAssignmentId || undefined,
+      attendanceMarkedBy: data.attendanceMarkedBy || undefined,
+      attendanceMarkedAt: this.timestampToDate(data.attendanceMarkedAt),
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      createdBy: data.createdBy || '',
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  protected mapModelToFirestore(model: DetentionAssignment): any {
+    const { id, createdAt, updatedAt, sessionStartTime, attendanceMarkedAt, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    if (sessionStartTime) {
+      data.sessionStartTime = this.dateToTimestamp(sessionStartTime);
+    }
+    if (attendanceMarkedAt) {
+      data.attendanceMarkedAt = this.dateToTimestamp(attendanceMarkedAt);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Detention service class providing session scheduling, assignment and attendance
+ */
+export class DetentionService extends FirestoreService<DetentionSession> {
+  private static instance: DetentionService;
+  protected collectionName = Collections.DETENTION_SESSIONS;
+  private readonly assignments = new DetentionAssignmentStore();
+
+  /**
+   * Singleton pattern implementation
+   * @returns DetentionService instance
+   */
+  public static getInstance(): DetentionService {
+    if (!DetentionService.instance) {
+      DetentionService.instance = new DetentionService();
+      // Register with service registry
+      serviceRegistry.registerInstance('detentionService', DetentionService.instance);
+    }
+    return DetentionService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'DetentionService');
+  }
+
+  /**
+   * Create a detention session
+   * @param sessionData - Session data to create
+   * @param createdBy - User ID of the creator
+   * @returns Promise resolving to created session with ID
+   * @throws DetentionServiceError for creation failures
+   */
+  public async createSession(sessionData: DetentionSessionInput, createdBy: string): Promise<DetentionSession> {
+    try {
+      await this.assertPermission(createdBy, 'manage-detention-sessions');
+      validationService.validateOrThrow('detentionSession', sessionData);
+
+      const session: Omit<DetentionSession, 'id'> = {
+        ...sessionData,
+        cancelled: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        createdBy,
+        updatedBy: createdBy,
+      };
+
+      const created = await withRetry(() => this.createDocument(session));
+      this.clearCache();
+
+      telemetryService.trackUsage('detention_session_created', 'DetentionService', {
+        sessionId: created.id,
+        schoolId: session.schoolId,
+        capacity: session.capacity,
+      });
+
+      return created;
+    } catch (error) {
+      throw DetentionServiceError.wrap(error, 'create-session-failed', 'Failed to create detention session', {
+        schoolId: sessionData.schoolId,
+      });
+    }
+  }
+
+  /**
+   * Cancel a detention session
+   * Students already assigned must be reassigned by staff.
+   * @param sessionId - ID of the session to cancel
+   * @param cancelledBy - User ID of the user cancelling it
+   * @returns Promise resolving to cancelled session
+   */
+  public async cancelSession(sessionId: string, cancelledBy: string): Promise<DetentionSession> {
+    try {
+      await this.assertPermission(cancelledBy, 'manage-detention-sessions');
+
+      const cancelled = await withRetry(() =>
+        this.updateDocument(sessionId, { cancelled: true, updatedBy: cancelledBy })
+      );
+      this.clearCache();
+
+      return cancelled;
+    } catch (error) {
+      throw DetentionServiceError.wrap(error, 'cancel-session-failed', 'Failed to cancel detention session', {
+        sessionId,
+      });
+    }
+  }
+
+  /**
+   * Get a detention session by ID
+   * @param sessionId - Session ID to fetch
+   * @returns Promise resolving to session or null if not found
+   */
+  public async getSession(sessionId: string): Promise<DetentionSession | null> {
+    try {
+      return await withRetry(() => this.getDocument(sessionId));
+    } catch (error) {
+      throw DetentionServiceError.wrap(error, 'fetch-session-failed', 'Failed to fetch detention session', {
+        sessionId,
+      });
+    }
+  }
+
+  /**
+   * Get the scheduled (not cancelled) sessions for a school within a date range
+   * @param schoolId - School identifier
+   * @param dateFrom - Start of the range
+   * @param dateTo - End of the range
+   * @returns Promise resolving to sessions ordered by start time
+   */
+  public async getSessionsInRange(schoolId: string, dateFrom: Date, dateTo: Date): Promise<DetentionSession[]> {
+    try {
+      const sessions: DetentionSession[] = [];
+      let hasMore = true;
+      let lastDoc: DocumentSnapshot | undefined;
+
+      while (hasMore) {
+        const result = await withRetry(() =>
+          this.queryDocuments(
+            [
+              where('schoolId', '==', schoolId),
+              where('cancelled', '==', false),
+              where('startTime', '>=', Timestamp.fromDate(dateFrom)),
+              where('startTime', '<=', Timestamp.fromDate(dateTo)),
+              orderBy('startTime', 'asc'),
+            ],
+            100,
+            lastDoc
+          )
+        );
+        sessions.push(...result.items);
+        hasMore = result.hasMore;
+        lastDoc = result.lastDoc;
+      }
+
+      return sessions;
+    } catch (error) {
+      throw DetentionServiceError.wrap(error, 'fetch-sessions-failed', 'Failed to fetch detention sessions', {
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Get the students assigned to a session
+   * @param sessionId - Session identifier
+   * @returns Promise resolving to the session's assignments
+   */
+  public async getSessionRoster(sessionId: string): Promise<DetentionAssignment[]> {
+    try {
+      return await withRetry(() => this.assignments.findAll([where('sessionId', '==', sessionId)]));
+    } catch (error) {
+      throw DetentionServiceError.wrap(error, 'fetch-roster-failed', 'Failed to fetch detention roster', {
+        sessionId,
+      });
+    }
+  }
+
+  /**
+   * Get a student's detention assignments
+   * @param studentId - Student identifier
+   * @param schoolId - School identifier
+   * @param status - Optional attendance status filter
+   * @returns Promise resolving to the student's assignments ordered by session time
+   */
+  public async getStudentAssignments(
+    studentId: string,
+    schoolId: string,
+    status?: DetentionAttendanceStatus
+  ): Promise<DetentionAssignment[]> {
+    const constraints: QueryConstraint[] = [
+      where('schoolId', '==', schoolId),
+      where('studentId', '==', studentId),
+    ];
+    if (status) {
+      constraints.push(where('status', '==', status));
+    }
+    constraints.push(orderBy('sessionStartTime', 'asc'));
+
+    try {
+      return await withRetry(() => this.assignments.findAll(constraints));
+    } catch (error) {
+      throw DetentionServiceError.wrap(error, 'fetch-assignments-failed', 'Failed to fetch detention assignments', {
+        studentId,
+      });
+    }
+  }
+
+  /**
+   * Assign a student from an incident to a detention session
+   * Moves an OPEN incident to IN_PROGRESS. If that fails, the assignment stays
+   * saved and the error has code 'incident-status-sync-failed'.
+   * @param sessionId - Session to assign the student to
+   * @param incidentId - Incident the detention is for
+   * @param assignedBy - User ID of the user making the assignment
+   * @param consequenceId - Consequence record the detention fulfils (optional)
+   * @param studentId - Instigator or participant to assign; defaults to the incident's main student
+   * @returns Promise resolving to the created assignment
+   * @throws DetentionServiceError for assignment failures
+   */
+  public async assignFromIncident(
+    sessionId: string,
+    incidentId: string,
+    assignedBy: string,
+    consequenceId?: string,
+    studentId?: string
+  ): Promise<DetentionAssignment> {
+    telemetryService.startMeasurement('assignFromIncident');
+
+    try {
+      await this.assertPermission(assignedBy, 'assign-detention');
+
+      const incident = await disciplineService.getIncident(incidentId);
+      if (!incident) {
+        throw new DetentionServiceError('Incident not found', 'incident-not-found', { incidentId });
+      }
+
+      if (incident.status === IncidentStatus.CLOSED) {
+        throw new DetentionServiceError('Cannot assign a detention for a closed incident', 'incident-closed', {
+          incidentId,
+        });
+      }
+
+      // Victims and witnesses are not given detentions
+      const student = getIncidentParticipant(incident, studentId ?? incident.studentId);
+      if (!student || !isOffenderRole(student.role)) {
+        throw new DetentionServiceError('Student did not instigate or take part in this incident', 'not-an-offender', {
+          incidentId,
+          studentId,
+        });
+      }
+
+      const assignment = await this.createAssignment(sessionId, incident, student, assignedBy, {
+        consequenceId,
+        escalationLevel: 0,
+      });
+
+      if (incident.status === IncidentStatus.OPEN) {
+        await this.syncIncidentStatus(incidentId, IncidentStatus.IN_PROGRESS, assignedBy, 'assign-detention');
+      }
+
+      telemetryService.stopMeasurement('assignFromIncident', 'assign_detention');
+      return assignment;
+    } catch (error) {
+      telemetryService.trackException(error as Error, {
+        method: 'assignFromIncident',
+        sessionId,
+        incidentId,
+      });
+      telemetryService.stopMeasurement('assignFromIncident', 'assign_detention_failed');
+
+      throw DetentionServiceError.wrap(error, 'assign-detention-failed', 'Failed to assign detention', {
+        sessionId,
+        incidentId,
+      });
+    }
+  }
+
+  /**
+   * Mark a student's attendance for an assigned detention
+   * ATTENDED completes the linked consequence and resolves the incident once all
+   * of its detentions are served. MISSED escalates the detention. If the
+   * incident cannot be resolved, the attendance stays marked and the error has
+   * code 'incident-status-sync-failed'; marking an attended or excused
+   * detention again with the same status retries what follows from it.
+   * @param assignmentId - Assignment to mark
+   * @param status - Attendance outcome
+   * @param markedBy - User ID of the user marking attendance
+   * @returns Promise resolving to the updated assignment and any escalation
+   * @throws DetentionServiceError for attendance failures
+   */
+  public async markAttendance(
+    assignmentId: string,
+    status: Exclude<DetentionAttendanceStatus, DetentionAttendanceStatus.ASSIGNED>,
+    markedBy: string
+  ): Promise<DetentionAttendanceResult> {
+    try {
+      await this.assertPermission(markedBy, 'mark-detention-attendance');
+
+      const existing = await this.assignments.get(assignmentId);
+      if (!existing) {
+        throw new DetentionServiceError('Detention assignment not found', 'assignment-not-found', { assignmentId });
+      }
+
+      const isRetry = existing.status === status && status !== DetentionAttendanceStatus.MISSED;
+      if (existing.status !== DetentionAttendanceStatus.ASSIGNED && !isRetry) {
+        throw new DetentionServiceError(
+          `Attendance has already been marked as ${existing.status}`,
+          'attendance-already-marked',
+          { assignmentId, status: existing.status }
+        );
+      }
+
+      let assignment = existing;
+      if (!isRetry) {
+        assignment = await withRetry(() =>
+          this.assignments.update(assignmentId, {
+            status,
+            attendanceMarkedBy: markedBy,
+            attendanceMarkedAt: new Date(),
+            updatedBy: markedBy,
+          })
+        );
+
+        telemetryService.trackUsage('detention_attendance_marked', 'DetentionService', {
+          assignmentId,
+          status,
+          escalationLevel: assignment.escalationLevel,
+        });
+      }
+
+      if (status === DetentionAttendanceStatus.MISSED) {
+        const escalation = await this.escalateMissedDetention(assignment, markedBy);
+        if (escalation.rescheduledAssignment) {
+          assignment = await withRetry(() =>
+            this.assignments.update(assignmentId, {
+              rescheduledToAssignmentId: escalation.rescheduledAssignment!.id,
+              updatedBy: markedBy,
+            })
+          );
+        }
+        return { assignment, escalation };
+      }
+
+      // Only a pending consequence is completed, so a retry does not complete it twice
+      if (status === DetentionAttendanceStatus.ATTENDED && assignment.consequenceId) {
+        const consequence = await consequenceService.getConsequence(assignment.consequenceId);
+        if (consequence?.status === ConsequenceStatus.PENDING) {
+          await consequenceService.completeConsequence(assignment.consequenceId, markedBy);
+        }
+      }
+
+      await this.resolveIncidentIfServed(assignment.incidentId, markedBy);
+
+      return { assignment };
+    } catch (error) {
+      throw DetentionServiceError.wrap(error, 'mark-attendance-failed', 'Failed to mark detention attendance', {
+        assignmentId,
+      });
+    }
+  }
+
+  /**
+   * Escalate a missed detention
+   * The student is rescheduled into the next available session until the
+   * reschedule limit is reached, after which a parent meeting is raised.
+   * @param missed - Assignment that was missed
+   * @param escalatedBy - User ID of the user who marked the miss
+   * @returns Promise resolving to the escalation outcome
+   */
+  private async escalateMissedDetention(
+    missed: DetentionAssignment,
+    escalatedBy: string
+  ): Promise<DetentionEscalation> {
+    const incident = await disciplineService.getIncident(missed.incidentId);
+    if (!incident) {
+      throw new DetentionServiceError('Incident not found', 'incident-not-found', { incidentId: missed.incidentId });
+    }
+
+    if (missed.escalationLevel < MAX_DETENTION_RESCHEDULES) {
+      const nextSession = await this.findNextAvailableSession(missed.schoolId, missed.sessionStartTime);
+      if (nextSession) {
+        const rescheduledAssignment = await this.createAssignment(nextSession.id!, incident, missed, escalatedBy, {
+          consequenceId: missed.consequenceId,
+          escalationLevel: missed.escalationLevel + 1,
+          rescheduledFromAssignmentId: missed.id,
+        });
+
+        telemetryService.trackUsage('detention_rescheduled', 'DetentionService', {
+          assignmentId: missed.id,
+          rescheduledAssignmentId: rescheduledAssignment.id,
+        });
+
+        return { rescheduledAssignment };
+      }
+    }
+
+    // Reschedule limit reached (or no session available): escalate to a parent meeting
+    const consequence = await consequenceService.recordConsequence(
+      {
+        schoolId: missed.schoolId,
+        studentId: missed.studentId,
+        studentName: missed.studentName,
+        consequenceType: ConsequenceType.PARENT_MEETING,
+        reason: 'Missed detention',
+        incidentIds: [missed.incidentId],
+        triggeringIncidentId: missed.incidentId,
+      },
+      escalatedBy
+    );
+
+    telemetryService.trackUsage('detention_escalated', 'DetentionService', {
+      assignmentId: missed.id,
+      consequenceId: consequence.id,
+    });
+
+    return { consequence };
+  }
+
+  /**
+   * Create an assignment after checking the session can take the student
+   * @param sessionId - Session to assign the student to
+   * @param incident - Incident the detention is for
+   * @param student - Student to assign
+   * @param assignedBy - User ID of the user making the assignment
+   * @param details - Consequence link and escalation details
+   * @returns Promise resolving to the created assignment
+   */
+  private async createAssignment(
+    sessionId: string,
+    incident: DisciplineIncident,
+    student: Pick<IncidentParticipant, 'studentId' | 'studentName'>,
+    assignedBy: string,
+    details: Pick<DetentionAssignment, 'consequenceId' | 'escalationLevel' | 'rescheduledFromAssignmentId'>
+  ): Promise<DetentionAssignment> {
+    const session = await this.getDocument(sessionId);
+    if (!session || session.cancelled) {
+      throw new DetentionServiceError('Detention session not found or cancelled', 'session-not-found', {
+        sessionId,
+      });
+    }
+
+    if (session.schoolId !== incident.schoolId) {
+      throw new DetentionServiceError('Session and incident belong to different schools', 'school-mismatch', {
+        sessionId,
+        incidentId: incident.id,
+      });
+    }
+
+    const roster = await this.assignments.findAll([where('sessionId', '==', sessionId)]);
+    if (roster.some(assigned => assigned.studentId === student.studentId)) {
+      throw new DetentionServiceError('Student is already assigned to this session', 'already-assigned', {
+        sessionId,
+        studentId: student.studentId,
+      });
+    }
+
+    if (roster.length >= session.capacity) {
+      throw new DetentionServiceError('Detention session is full', 'session-full', {
+        sessionId,
+        capacity: session.capacity,
+      });
+    }
+
+    const assignment: Omit<DetentionAssignment, 'id'> = {
+      schoolId: session.schoolId,
+      sessionId,
+      sessionStartTime: session.startTime,
+      studentId: student.studentId,
+      studentName: student.studentName,
+      incidentId: incident.id!,
+      consequenceId: details.consequenceId,
+      status: DetentionAttendanceStatus.ASSIGNED,
+      escalationLevel: details.escalationLevel,
+      rescheduledFromAssignmentId: details.rescheduledFromAssignmentId,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      createdBy: assignedBy,
+      updatedBy: assignedBy,
+    };
+
+    const created = await withRetry(() => this.assignments.create(assignment));
+
+    telemetryService.trackUsage('detention_assigned', 'DetentionService', {
+      assignmentId: created.id,
+      sessionId,
+      incidentId: incident.id,
+      escalationLevel: details.escalationLevel,
+    });
+
+    return created;
+  }
+
+  /**
+   * Find the first session after the given time that still has free places
+   * @param schoolId - School identifier
+   * @param after - Only sessions starting after this time are considered
+   * @returns Promise resolving to the session, or null if none is available
+   */
+  private async findNextAvailableSession(schoolId: string, after: Date): Promise<DetentionSession | null> {
+    const result = await withRetry(() =>
+      this.queryDocuments(
+        [
+          where('schoolId', '==', schoolId),
+          where('cancelled', '==', false),
+          where('startTime', '>', Timestamp.fromDate(after)),
+          orderBy('startTime', 'asc'),
+        ],
+        20
+      )
+    );
+
+    for (const session of result.items) {
+      const roster = await this.assignments.findAll([where('sessionId', '==', session.id)]);
+      if (roster.length < session.capacity) {
+        return session;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve an incident once every detention it needs has been dealt with
+   * An instigator or participant needs a detention when their consequence on
+   * the incident is a detention, or the incident triggered a detention
+   * consequence for them that has not been waived; the incident stays open
+   * while such a student has none. A detention is dealt with when it was
+   * attended or excused; a missed detention only counts if it was rescheduled
+   * into another session. Resolving an incident that is already resolved does
+   * nothing, so this can be run again after a failure.
+   * @param incidentId - Incident identifier
+   * @param userId - User ID of the user whose action completed the detention
+   * @throws DetentionServiceError if the incident cannot be resolved
+   */
+  private async resolveIncidentIfServed(incidentId: string, userId: string): Promise<void> {
+    const incident = await disciplineService.getIncident(incidentId);
+    if (!incident || incident.status === IncidentStatus.RESOLVED || incident.status === IncidentStatus.CLOSED) {
+      return;
+    }
+    const assignments = await this.assignments.findAll([where('incidentId', '==', incidentId)]);
+    const consequences = await consequenceService.getConsequencesForIncident(incidentId);
+
+    const needsDetention = (participant: IncidentParticipant) =>
+      isOffenderRole(participant.role) &&
+      (/detention/i.test(participant.consequence || '') ||
+        consequences.some(
+          consequence =>
+            consequence.studentId === participant.studentId &&
+            consequence.triggeringIncidentId === incidentId &&
+            consequence.consequenceType === ConsequenceType.DETENTION &&
+            consequence.status !== ConsequenceStatus.WAIVED
+        ));
+    const served =
+      assignments.some(assignment => assignment.status === DetentionAttendanceStatus.ATTENDED) &&
+      incident.participants
+        .filter(needsDetention)
+        .every(offender => assignments.some(assignment => assignment.studentId === offender.studentId)) &&
+      assignments.every(
+        assignment =>
+          assignment.status === DetentionAttendanceStatus.ATTENDED ||
+          assignment.status === DetentionAttendanceStatus.EXCUSED ||
+          (assignment.status === DetentionAttendanceStatus.MISSED && !!assignment.rescheduledToAssignmentId)
+      );
+
+    if (served) {
+      await this.syncIncidentStatus(incidentId, IncidentStatus.RESOLVED, userId, 'mark-detention-attendance', 'Detention served');
+    }
+  }
+
+  /**
+   * Move an incident to a new status
+   * The detention change that caused it is already saved, so a failure is
+   * reported with its own code for the caller to retry the status change
+   * (see markAttendance).
+   * The change is made under the detention permission, so staff can move
+   * incidents reported by someone else.
+   * @param incidentId - Incident identifier
+   * @param status - New incident status
+   * @param userId - User ID of the user whose action caused the change
+   * @param authorizedBy - Detention permission the change follows from
+   * @param note - Resolution notes when resolving
+   * @throws DetentionServiceError with code 'incident-status-sync-failed' if the status cannot be changed
+   */
+  private async syncIncidentStatus(
+    incidentId: string,
+    status: IncidentStatus,
+    userId: string,
+    authorizedBy: Permission,
+    note?: string
+  ): Promise<void> {
+    try {
+      await disciplineService.changeIncidentStatus(incidentId, status, userId, note, authorizedBy);
+    } catch (error) {
+      telemetryService.trackException(error as Error, {
+        method: 'syncIncidentStatus',
+        incidentId,
+        status,
+      });
+      throw new DetentionServiceError(
+        `Detention saved, but the incident could not be moved to ${status}: ${(error as Error).message}`,
+        'incident-status-sync-failed',
+        { incidentId, status, cause: (error as { code?: string }).code }
+      );
+    }
+  }
+
+  /**
+   * Ensure a user holds a permission
+   * @param userId - User ID to check
+   * @param action - Permission to check
+   * @throws DetentionServiceError if the user lacks permission
+   */
+  private async assertPermission(userId: string, action: string): Promise<void> {
+    const hasPermission = await userService.hasPermission(userId, action);
+    if (!hasPermission) {
+      throw new DetentionServiceError(`Insufficient permissions to ${action.replace(/-/g, ' ')}`, 'insufficient-permissions');
+    }
+  }
+
+  /**
+   * Map Firestore data to DetentionSession object
+   * @param id - Document ID
+   * @param data - Firestore document data
+   * @returns DetentionSession object
+   */
+  protected mapFirestoreToModel(id: string, data: any): DetentionSession {
+    return {
+      id,
+      schoolId: data.schoolId || '',
+      startTime: this.timestampToDate(data.startTime) || data.startTime || new Date(),
+      durationMinutes: typeof data.durationMinutes === 'number' ? data.durationMinutes : 0,
+      room: data.room || '',
+      supervisingTeacherId: data.supervisingTeacherId || '',
+      supervisingTeacherName: data.supervisingTeacherName || '',
+      capacity: typeof data.capacity === 'number' ? data.capacity : 0,
+      notes: data.notes || undefined,
+      cancelled: Boolean(data.cancelled),
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      createdBy: data.createdBy || '',
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  /**
+   * Map DetentionSession object to Firestore data
+   * Only defined fields are written so partial updates are supported
+   * @param model - DetentionSession object (or partial)
+   * @returns Firestore document data
+   */
+  protected mapModelToFirestore(model: DetentionSession): any {
+    const { id, createdAt, updatedAt, startTime, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    if (startTime) {
+      data.startTime = this.dateToTimestamp(startTime);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Custom error class for detention service-related errors
+ */
+export class DetentionServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new DetentionServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'DetentionServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in a DetentionServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns DetentionServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): DetentionServiceError {
+    if (error instanceof DetentionServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new DetentionServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    if ((error as Error)?.message?.startsWith('Validation failed')) {
+      return new DetentionServiceError((error as Error).message, 'validation-error', context);
+    }
+
+    return new DetentionServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const detentionService = DetentionService.getInstance();
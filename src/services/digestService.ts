@@ -0,0 +1,410 @@
+/**
+ * Digest Service for MCC Discipline Tracker
+ *
+ * This service builds the daily, weekly and monthly discipline digests sent
+ * to staff. Teachers get a digest of the incidents they reported; principals
+ * and admins get one for the whole school. Each digest covers incident
+ * statistics for the period, follow-ups that are overdue or coming due, and
+ * any notifications held for the recipient's digest. Digests are run by the
+ * report scheduler under the 'digest' report type.
+ *
+ * @fileoverview Staff discipline digest service
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import { userService } from './userService';
+import {
+  disciplineService,
+  DisciplineIncident,
+  IncidentStatistics,
+} from './disciplineService';
+import { notificationService, NotificationDelivery, DigestContent } from './notificationService';
+import {
+  reportScheduleService,
+  ReportSchedule,
+  ReportFrequency,
+} from './reportScheduleService';
+
+// Import base services and utilities
+import { telemetryService } from './base/telemetryService';
+
+/**
+ * Report type under which digests are scheduled
+ */
+export const DIGEST_REPORT_TYPE = 'digest';
+
+/**
+ * Maximum number of incidents or notifications listed per digest section
+ */
+export const MAX_DIGEST_ITEMS = 20;
+
+/**
+ * Period a digest covers
+ */
+export type DigestPeriod = ReportFrequency;
+
+/**
+ * Interface for a built digest
+ */
+export interface Digest {
+  userId: string;
+  schoolId: string;
+  period: DigestPeriod;
+  /** 'own' for teachers (incidents they reported), 'school' for principals and admins */
+  scope: 'own' | 'school';
+  periodStart: Date;
+  periodEnd: Date;
+  /** Statistics for incidents in the period */
+  statistics: IncidentStatistics;
+  /** Open follow-ups whose date has passed, oldest first */
+  overdueFollowUps: DisciplineIncident[];
+  /** Open follow-ups due within the next period, or with no date set */
+  upcomingFollowUps: DisciplineIncident[];
+  /** Notifications held for the recipient's digest */
+  queuedNotifications: NotificationDelivery[];
+  content: DigestContent;
+}
+
+/**
+ * Interface for the result of sending a digest
+ */
+export interface DigestResult {
+  digest: Digest;
+  deliveries: NotificationDelivery[];
+}
+
+/**
+ * Format an enum value for display (e.g. dress_code -> Dress code)
+ * @param value - Enum value
+ * @returns Human-readable label
+ */
+const formatLabel = (value: string): string => {
+  const words = value.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Escape text for inclusion in HTML
+ * @param value - Text to escape
+ * @returns Escaped text
+ */
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Get the start of the period a digest covers
+ * @param period - Digest period
+ * @param end - End of the period
+ * @returns Start of the period
+ */
+const getPeriodStart = (period: DigestPeriod, end: Date): Date => {
+  const start = new Date(end);
+  if (period === 'monthly') {
+    start.setMonth(start.getMonth() - 1);
+  } else {
+    start.setDate(start.getDate() - (period === 'weekly' ? 7 : 1));
+  }
+  return start;
+};
+
+/**
+ * Digest service class providing digest generation and delivery
+ */
+export class DigestService {
+  private static instance: DigestService;
+
+  /**
+   * Singleton pattern implementation
+   * @returns DigestService instance
+   */
+  public static getInstance(): DigestService {
+    if (!DigestService.instance) {
+      DigestService.instance = new DigestService();
+    }
+    return DigestService.instance;
+  }
+
+  private constructor() {
+    reportScheduleService.registerHandler(DIGEST_REPORT_TYPE, (schedule, runAt) =>
+      this.runScheduledDigest(schedule, runAt)
+    );
+  }
+
+  /**
+   * Build a digest for a staff member
+   * @param userId - Recipient user ID
+   * @param period - Period the digest covers
+   * @param now - End of the period (defaults to now)
+   * @returns Promise resolving to the digest
+   * @throws DigestServiceError if the recipient is not a staff member of a school
+   */
+  public async buildDigest(userId: string, period: DigestPeriod, now: Date = new Date()): Promise<Digest> {
+    try {
+      const profile = await userService.getUserProfile(userId);
+      if (!profile) {
+        throw new DigestServiceError('Recipient not found', 'recipient-not-found', { userId });
+      }
+      if (!profile.schoolId || !profile.role) {
+        throw new DigestServiceError('Digests are only available to school staff', 'recipient-not-staff', { userId });
+      }
+
+      const schoolId = profile.schoolId;
+      const scope: Digest['scope'] = profile.role === 'teacher' ? 'own' : 'school';
+      const teacherId = scope === 'own' ? userId : undefined;
+      const periodStart = getPeriodStart(period, now);
+
+      const [statistics, followUps, queuedNotifications] = await Promise.all([
+        disciplineService.getIncidentStatistics(schoolId, periodStart, now, teacherId),
+        disciplineService.getIncidentsRequiringFollowUp(schoolId),
+        notificationService.getDigestQueue(userId),
+      ]);
+
+      // The next period ends as far ahead as this one reaches back
+      const horizon = new Date(now.getTime() + (now.getTime() - periodStart.getTime()));
+      const inScope = followUps
+        .filter(incident => !teacherId || incident.teacherId === teacherId)
+        .sort(
+          (a, b) =>
+            (a.followUpDate?.getTime() ?? Number.MAX_SAFE_INTEGER) -
+            (b.followUpDate?.getTime() ?? Number.MAX_SAFE_INTEGER)
+        );
+
+      const overdueFollowUps = inScope.filter(incident => incident.followUpDate && incident.followUpDate < now);
+      const upcomingFollowUps = inScope.filter(
+        incident => !incident.followUpDate || (incident.followUpDate >= now && incident.followUpDate <= horizon)
+      );
+
+      const digest: Omit<Digest, 'content'> = {
+        userId,
+        schoolId,
+        period,
+        scope,
+        periodStart,
+        periodEnd: now,
+        statistics,
+        overdueFollowUps,
+        upcomingFollowUps,
+        queuedNotifications,
+      };
+
+      return { ...digest, content: DigestService.formatDigest(digest, profile.displayName || undefined) };
+    } catch (error) {
+      throw DigestServiceError.wrap(error, 'build-digest-failed', 'Failed to build digest', { userId, period });
+    }
+  }
+
+  /**
+   * Build a digest for a staff member and send it through the notification pipeline
+   * @param userId - Recipient user ID
+   * @param period - Period the digest covers
+   * @param now - End of the period (defaults to now)
+   * @returns Promise resolving to the digest and its deliveries
+   */
+  public async sendDigest(userId: string, period: DigestPeriod, now: Date = new Date()): Promise<DigestResult> {
+    try {
+      const digest = await this.buildDigest(userId, period, now);
+      const deliveries = await notificationService.sendDigest(userId, digest.content, digest.queuedNotifications, {
+        createdBy: 'system',
+        schoolId: digest.schoolId,
+      });
+
+      telemetryService.trackUsage('digest_sent', 'DigestService', {
+        userId,
+        period,
+        scope: digest.scope,
+        totalIncidents: digest.statistics.totalIncidents,
+        overdueFollowUps: digest.overdueFollowUps.length,
+      });
+
+      return { digest, deliveries };
+    } catch (error) {
+      throw DigestServiceError.wrap(error, 'send-digest-failed', 'Failed to send digest', { userId, period });
+    }
+  }
+
+  /**
+   * Schedule a recurring digest for a staff member
+   * @param userId - Recipient user ID
+   * @param period - How often the digest is sent, and the period it covers
+   * @param createdBy - User ID of the creator (the recipient, or a user who can manage users)
+   * @returns Promise resolving to the report schedule
+   */
+  public async scheduleDigest(userId: string, period: DigestPeriod, createdBy: string): Promise<ReportSchedule> {
+    try {
+      if (createdBy !== userId) {
+        const canManageUsers = await userService.hasPermission(createdBy, 'manage-users');
+        if (!canManageUsers) {
+          throw new DigestServiceError(
+            "Insufficient permissions to schedule another user's digest",
+            'insufficient-permissions'
+          );
+        }
+      }
+
+      return await reportScheduleService.createSchedule(
+        { reportType: DIGEST_REPORT_TYPE, frequency: period, recipients: [userId] },
+        createdBy
+      );
+    } catch (error) {
+      throw DigestServiceError.wrap(error, 'schedule-digest-failed', 'Failed to schedule digest', { userId, period });
+    }
+  }
+
+  /**
+   * Format a digest as email text, email HTML and a push summary
+   * @param digest - Digest data
+   * @param recipientName - Recipient's display name
+   * @returns Digest content
+   */
+  public static formatDigest(digest: Omit<Digest, 'content'>, recipientName?: string): DigestContent {
+    const { statistics, overdueFollowUps, upcomingFollowUps, queuedNotifications } = digest;
+    const periodLabel = `${digest.periodStart.toLocaleDateString()} - ${digest.periodEnd.toLocaleDateString()}`;
+    const scopeLabel = digest.scope === 'own' ? 'Your incidents' : 'Whole school';
+    const subject = `${formatLabel(digest.period)} discipline digest: ${periodLabel}`;
+
+    const severityLine = Object.entries(statistics.incidentsBySeverity)
+      .map(([severity, count]) => `${formatLabel(severity)} ${count}`)
+      .join(', ');
+    const summaryLines = [
+      `New incidents: ${statistics.totalIncidents} (${statistics.openIncidents} open, ${statistics.resolvedIncidents} resolved)`,
+      `By severity: ${severityLine}`,
+      `Parent notification pending: ${statistics.parentNotificationPending}`,
+    ];
+
+    const describeIncident = (incident: DisciplineIncident): string => {
+      const due = incident.followUpDate ? `due ${incident.followUpDate.toLocaleDateString()}` : 'no follow-up date';
+      const teacher = digest.scope === 'school' ? `, reported by ${incident.teacherName}` : '';
+      return `${incident.studentName}: ${formatLabel(incident.incidentType)} (${formatLabel(incident.severity)}), ${due}${teacher}`;
+    };
+
+    const sections: { heading: string; items: string[] }[] = [
+      { heading: `Overdue follow-ups (${overdueFollowUps.length})`, items: overdueFollowUps.map(describeIncident) },
+      { heading: `Follow-ups coming up (${upcomingFollowUps.length})`, items: upcomingFollowUps.map(describeIncident) },
+    ];
+    if (queuedNotifications.length > 0) {
+      sections.push({
+        heading: `Notifications (${queuedNotifications.length})`,
+        items: queuedNotifications.map(delivery => delivery.subject || delivery.body),
+      });
+    }
+
+    const listItems = (items: string[]): string[] =>
+      items.length > MAX_DIGEST_ITEMS
+        ? [...items.slice(0, MAX_DIGEST_ITEMS), `...and ${items.length - MAX_DIGEST_ITEMS} more`]
+        : items;
+
+    const greeting = recipientName ? `Hello ${recipientName},` : 'Hello,';
+
+    const text = [
+      greeting,
+      '',
+      `${scopeLabel}, ${periodLabel}`,
+      '',
+      ...summaryLines,
+      ...sections.flatMap(section => [
+        '',
+        section.heading,
+        ...(section.items.length > 0 ? listItems(section.items).map(item => `- ${item}`) : ['None']),
+      ]),
+    ].join('\n');
+
+    const html = [
+      `<p>${escapeHtml(greeting)}</p>`,
+      `<h2>${escapeHtml(scopeLabel)}, ${escapeHtml(periodLabel)}</h2>`,
+      `<ul>${summaryLines.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`,
+      ...sections.map(
+        section =>
+          `<h3>${escapeHtml(section.heading)}</h3>` +
+          (section.items.length > 0
+            ? `<ul>${listItems(section.items).map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+            : '<p>None</p>')
+      ),
+    ].join('\n');
+
+    const summary =
+      `${statistics.totalIncidents} new incident${statistics.totalIncidents === 1 ? '' : 's'}, ` +
+      `${overdueFollowUps.length} overdue follow-up${overdueFollowUps.length === 1 ? '' : 's'}, ` +
+      `${upcomingFollowUps.length} coming up`;
+
+    return { subject, body: text, html, summary };
+  }
+
+  /**
+   * Send a scheduled digest to each of its recipients
+   * A failure for one recipient does not stop the others.
+   * @param schedule - Digest schedule
+   * @param runAt - Time of the run
+   * @throws DigestServiceError listing the recipients whose digest failed
+   */
+  private async runScheduledDigest(schedule: ReportSchedule, runAt: Date): Promise<void> {
+    const failed: string[] = [];
+
+    for (const userId of schedule.recipients) {
+      try {
+        await this.sendDigest(userId, schedule.frequency, runAt);
+      } catch (error) {
+        failed.push(userId);
+        telemetryService.trackException(error as Error, {
+          method: 'runScheduledDigest',
+          scheduleId: schedule.id,
+          userId,
+        });
+      }
+    }
+
+    if (failed.length > 0) {
+      throw new DigestServiceError(
+        `Digest failed for ${failed.length} of ${schedule.recipients.length} recipients`,
+        'digest-run-failed',
+        { scheduleId: schedule.id, failed }
+      );
+    }
+  }
+}
+
+/**
+ * Custom error class for digest service-related errors
+ */
+export class DigestServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new DigestServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'DigestServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in a DigestServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns DigestServiceError
+   */
+  static wrap(error: unknown, code: string, message: string, context?: Record<string, any>): DigestServiceError {
+    if (error instanceof DigestServiceError) {
+      return error;
+    }
+
+    return new DigestServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      errorCode: (error as any)?.code,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const digestService = DigestService.getInstance();
@@ -27,8 +27,14 @@ import {
   DocumentSnapshot,
   Timestamp,
   FirestoreError,
+  WriteBatch,
+  writeBatch,
+  deleteField,
+  arrayUnion,
+  or,
 } from 'firebase/firestore';
 import { db, Collections } from '../config/firebaseConfig';
+import type { Permission } from '../config/permissions';
 import { userService } from './userService';
 
 // Import base services and utilities
@@ -39,14 +45,24 @@ import { cacheService, CacheStrategy } from './base/cacheService';
 import { rateLimitUtils, createFirebaseRateLimiter, rateLimited } from './base/rateLimitUtils';
 import { telemetryService, TelemetryEventType } from './base/telemetryService';
 import { FirestoreService } from './base/firestoreService';
+import { consequenceService } from './consequenceService';
+import { studentService, formatStudentName, StudentServiceError } from './studentService';
+import { studentViewService } from './studentViewService';
+import { permissionPolicyService, getIncidentPermissionContext } from './permissionPolicyService';
+import { incidentAuditService, IncidentAuditOperation, diffIncidentFields } from './incidentAuditService';
 
 /**
  * Interface for discipline incident data
  */
 export interface DisciplineIncident {
   id?: string;
+  /** Main student, the first of the participants and always an instigator or participant */
   studentId: string;
   studentName: string;
+  /** Every student involved, main student first */
+  participants: IncidentParticipant[];
+  /** Student IDs of the participants, for queries */
+  participantIds: string[];
   teacherId: string;
   teacherName: string;
   schoolId: string;
@@ -56,18 +72,137 @@ export interface DisciplineIncident {
   location: string;
   dateTime: Date;
   actionTaken: string;
+  /**
+   * Staff-only notes, never shown to students or parents
+   * Kept in their own incidentInternalNotes document, which only staff can read;
+   * incidents as returned by getIncident and searches leave them out (see getInternalNotes).
+   */
+  internalNotes?: string;
+  /** Kept in step with the incident's open follow-up tasks (see followUpTaskService) */
   followUpRequired: boolean;
+  /** Earliest due date of the incident's open follow-up tasks */
   followUpDate?: Date;
   parentNotified: boolean;
   parentNotificationDate?: Date;
   status: IncidentStatus;
+  /** How the incident was resolved, required to mark it resolved */
+  resolutionNotes?: string;
+  /** Status changes, oldest first */
+  statusHistory: IncidentStatusChange[];
+  /** Who signed off the closure */
+  signedOffBy?: string;
+  signedOffAt?: Date;
+  /** IDs of the incident's attachments, kept by incidentAttachmentService */
   attachments?: string[];
+  /** Comments and replies, kept by incidentCommentService */
+  commentCount: number;
+  /** Parent-visible comments and replies */
+  parentCommentCount: number;
+  /** When a comment was last posted or edited */
+  lastCommentAt?: Date;
+  /** When a parent-visible comment was last posted or edited */
+  lastParentCommentAt?: Date;
+  /** Whether the incident is in use, archived or in the recycle bin */
+  recordState: IncidentRecordState;
+  deletedAt?: Date;
+  deletedBy?: string;
+  deletionReason?: string;
+  archivedAt?: Date;
+  archivedBy?: string;
   createdAt: Date;
   updatedAt: Date;
   createdBy: string;
   updatedBy: string;
 }
 
+/**
+ * A student involved in an incident
+ * The main student's parent notification mirrors the incident's own fields.
+ */
+export interface IncidentParticipant {
+  studentId: string;
+  studentName: string;
+  role: ParticipantRole;
+  /** Consequence given to this student */
+  consequence?: string;
+  parentNotified: boolean;
+  parentNotificationDate?: Date;
+}
+
+/**
+ * A participant as given when creating or updating an incident
+ * Names are looked up from the school's roll.
+ */
+export type IncidentParticipantInput = Pick<IncidentParticipant, 'studentId' | 'role'> &
+  Partial<Pick<IncidentParticipant, 'consequence' | 'parentNotified' | 'parentNotificationDate'>>;
+
+/**
+ * Incident fields derived from the participants
+ */
+export type IncidentParticipantField = 'studentName' | 'participants' | 'participantIds';
+
+/**
+ * Incident data accepted by createIncident
+ * Only the main student is needed; other participants are optional.
+ * Attachments are added afterwards with incidentAttachmentService.
+ */
+export type IncidentCreateInput = Omit<
+  DisciplineIncident,
+  | 'id'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'createdBy'
+  | 'updatedBy'
+  | 'attachments'
+  | IncidentCommentField
+  | IncidentRecordStateField
+  | IncidentWorkflowField
+  | IncidentParticipantField
+> & {
+  studentName?: string;
+  participants?: IncidentParticipantInput[];
+};
+
+/**
+ * Incident changes accepted by updateIncident
+ */
+export type IncidentUpdateInput = Partial<Omit<IncidentCreateInput, 'participants'>> & {
+  participants?: IncidentParticipantInput[];
+};
+
+/**
+ * A recorded status change
+ */
+export interface IncidentStatusChange {
+  from: IncidentStatus;
+  to: IncidentStatus;
+  changedBy: string;
+  changedAt: Date;
+  /** Resolution notes or reason given with the change */
+  note?: string;
+}
+
+/**
+ * Incident fields set only by comments
+ */
+export type IncidentCommentField = 'commentCount' | 'parentCommentCount' | 'lastCommentAt' | 'lastParentCommentAt';
+
+/**
+ * Incident fields set only by status changes
+ */
+export type IncidentWorkflowField = 'statusHistory' | 'signedOffBy' | 'signedOffAt';
+
+/**
+ * Incident fields set only by delete, restore and archive
+ */
+export type IncidentRecordStateField =
+  | 'recordState'
+  | 'deletedAt'
+  | 'deletedBy'
+  | 'deletionReason'
+  | 'archivedAt'
+  | 'archivedBy';
+
 /**
  * Enum for incident types
  */
@@ -95,6 +230,64 @@ export enum IncidentSeverity {
   CRITICAL = 'critical',
 }
 
+/**
+ * Enum for a student's part in an incident
+ */
+export enum ParticipantRole {
+  INSTIGATOR = 'instigator',
+  PARTICIPANT = 'participant',
+  VICTIM = 'victim',
+  WITNESS = 'witness',
+}
+
+/**
+ * Roles counted against a student's record; victims and witnesses are not
+ */
+export const OFFENDER_ROLES: readonly ParticipantRole[] = [ParticipantRole.INSTIGATOR, ParticipantRole.PARTICIPANT];
+
+/**
+ * Check whether a role counts against a student's record
+ * @param role - Participant role
+ * @returns True for instigators and participants
+ */
+export const isOffenderRole = (role: ParticipantRole): boolean => OFFENDER_ROLES.includes(role);
+
+/**
+ * Find a student's part in an incident
+ * @param incident - Incident to look in
+ * @param studentId - Student ID
+ * @returns The student's participant entry, or undefined if they were not involved
+ */
+export const getIncidentParticipant = (
+  incident: Pick<DisciplineIncident, 'participants'>,
+  studentId: string
+): IncidentParticipant | undefined => incident.participants.find(participant => participant.studentId === studentId);
+
+/**
+ * Get an incident as it concerns one student, as their parents are shown it
+ * Only the student's own participant entry is kept, and the action taken is their
+ * own consequence; the incident's action taken applies to offenders not given one.
+ * @param incident - Incident
+ * @param studentId - Student ID
+ * @returns The incident about the student, or undefined if they were not involved
+ */
+export const getStudentIncident = (incident: DisciplineIncident, studentId: string): DisciplineIncident | undefined => {
+  const participant = getIncidentParticipant(incident, studentId);
+  if (!participant) {
+    return undefined;
+  }
+  return {
+    ...incident,
+    studentId,
+    studentName: participant.studentName,
+    participants: [participant],
+    participantIds: [studentId],
+    actionTaken: participant.consequence || (isOffenderRole(participant.role) ? incident.actionTaken : ''),
+    parentNotified: participant.parentNotified,
+    parentNotificationDate: participant.parentNotificationDate,
+  };
+};
+
 /**
  * Enum for incident status
  */
@@ -105,12 +298,127 @@ export enum IncidentStatus {
   CLOSED = 'closed',
 }
 
+/**
+ * Interface for an allowed status change
+ */
+export interface IncidentStatusTransition {
+  from: IncidentStatus;
+  to: IncidentStatus;
+  /**
+   * Permission needed to make the change; as with other updates,
+   * 'update-incident' only covers incidents the user reported
+   */
+  permission: Permission;
+  /** Note that must be given: resolution notes, or the reason for reopening */
+  requiresNote?: 'resolution' | 'reason';
+}
+
+/**
+ * The incident status workflow; any change not listed is rejected
+ */
+export const INCIDENT_STATUS_TRANSITIONS: readonly IncidentStatusTransition[] = [
+  { from: IncidentStatus.OPEN, to: IncidentStatus.IN_PROGRESS, permission: 'update-incident' },
+  { from: IncidentStatus.OPEN, to: IncidentStatus.RESOLVED, permission: 'update-incident', requiresNote: 'resolution' },
+  { from: IncidentStatus.IN_PROGRESS, to: IncidentStatus.RESOLVED, permission: 'update-incident', requiresNote: 'resolution' },
+  { from: IncidentStatus.RESOLVED, to: IncidentStatus.IN_PROGRESS, permission: 'update-incident', requiresNote: 'reason' },
+  // Closing is the principal's sign-off
+  { from: IncidentStatus.RESOLVED, to: IncidentStatus.CLOSED, permission: 'sign-off-incident' },
+  { from: IncidentStatus.CLOSED, to: IncidentStatus.IN_PROGRESS, permission: 'reopen-incident', requiresNote: 'reason' },
+];
+
+/**
+ * Find the workflow step between two statuses
+ * @param from - Current status
+ * @param to - New status
+ * @returns The transition, or undefined if the change is not allowed
+ */
+export const getStatusTransition = (from: IncidentStatus, to: IncidentStatus): IncidentStatusTransition | undefined =>
+  INCIDENT_STATUS_TRANSITIONS.find(transition => transition.from === from && transition.to === to);
+
+/**
+ * Statuses an incident can move to next
+ * @param from - Current status
+ * @returns Statuses reachable in one step
+ */
+export const getNextStatuses = (from: IncidentStatus): IncidentStatus[] =>
+  INCIDENT_STATUS_TRANSITIONS.filter(transition => transition.from === from).map(transition => transition.to);
+
+/**
+ * Interface for changes other services make to incidents on a user's behalf
+ */
+export interface DelegatedIncidentUpdate {
+  /** Incident fields the change may set */
+  fields: readonly (keyof IncidentUpdateInput)[];
+  /** Statuses the change may move the incident to, if it sets status */
+  statuses?: readonly IncidentStatus[];
+}
+
+/**
+ * Incident changes that follow from another permission, so staff can make them
+ * on incidents they did not report (matching the incident update rules in firestore.rules)
+ */
+export const DELEGATED_INCIDENT_UPDATES: Readonly<Partial<Record<Permission, DelegatedIncidentUpdate>>> = {
+  // Assigning a detention starts work on the incident
+  'assign-detention': { fields: ['status'], statuses: [IncidentStatus.IN_PROGRESS] },
+  // Serving the last detention resolves it
+  'mark-detention-attendance': { fields: ['status', 'resolutionNotes'], statuses: [IncidentStatus.RESOLVED] },
+  'notify-parent': { fields: ['participants', 'parentNotified', 'parentNotificationDate'] },
+};
+
+/**
+ * Enum for incident record states
+ * Incidents are never removed: deleted incidents go to the recycle bin and
+ * can be restored, and old closed incidents are archived.
+ */
+export enum IncidentRecordState {
+  ACTIVE = 'active',
+  ARCHIVED = 'archived',
+  DELETED = 'deleted',
+}
+
+/**
+ * Closed incidents are archived this many days after they happened, unless the school sets its own age
+ */
+export const DEFAULT_ARCHIVE_AFTER_DAYS = 365;
+
+/**
+ * Incidents archived per batch; each also writes an audit log entry
+ */
+const ARCHIVE_BATCH_SIZE = 200;
+
+/**
+ * Incidents read per batch when adding participants to older incidents
+ */
+const PARTICIPANT_BACKFILL_BATCH_SIZE = 200;
+
+/**
+ * Incidents read per batch when moving internal notes to their own documents; each moved note writes twice
+ */
+const INTERNAL_NOTES_MOVE_BATCH_SIZE = 200;
+
+/**
+ * Interface for a school's archive settings
+ * The document ID is the school ID.
+ */
+export interface IncidentArchivePolicy {
+  schoolId: string;
+  /** Age in days, from the incident date, at which closed incidents are archived */
+  archiveAfterDays: number;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
 /**
  * Interface for incident search filters
  */
 export interface IncidentSearchFilters {
   schoolId?: string;
+  /** Incidents the student took part in, in any role */
   studentId?: string;
+  /** With studentId, only incidents where the student had one of these roles */
+  participantRoles?: ParticipantRole[];
+  /** With studentId, only incidents where the student is the main student */
+  primaryStudentOnly?: boolean;
   teacherId?: string;
   incidentType?: IncidentType;
   severity?: IncidentSeverity;
@@ -119,6 +427,13 @@ export interface IncidentSearchFilters {
   dateTo?: Date;
   followUpRequired?: boolean;
   parentNotified?: boolean;
+  /** Only return incidents this user may view; pages can then hold fewer than pageSize results */
+  viewerId?: string;
+  /**
+   * Record states to return; defaults to active and archived incidents.
+   * Deleted incidents are only returned to a viewerId with 'manage-deleted-incidents'.
+   */
+  recordStates?: IncidentRecordState[];
 }
 
 /**
@@ -141,6 +456,39 @@ export interface IncidentStatistics {
   incidentsBySeverity: Record<IncidentSeverity, number>;
   followUpRequired: number;
   parentNotificationPending: number;
+  /** Students involved, counted once per incident they took part in */
+  participantsByRole: Record<ParticipantRole, number>;
+}
+
+/**
+ * Persistence for per-school archive settings
+ */
+class IncidentArchivePolicyStore extends FirestoreService<IncidentArchivePolicy> {
+  protected collectionName = Collections.INCIDENT_ARCHIVE_POLICIES;
+
+  public get(schoolId: string): Promise<IncidentArchivePolicy | null> {
+    return this.getDocument(schoolId);
+  }
+
+  public async put(policy: IncidentArchivePolicy): Promise<IncidentArchivePolicy> {
+    const saved = await this.createDocument(policy, policy.schoolId);
+    this.clearCacheForKey(`doc:${policy.schoolId}`);
+    return saved;
+  }
+
+  protected mapFirestoreToModel(id: string, data: any): IncidentArchivePolicy {
+    return {
+      schoolId: data.schoolId || id,
+      archiveAfterDays: typeof data.archiveAfterDays === 'number' ? data.archiveAfterDays : DEFAULT_ARCHIVE_AFTER_DAYS,
+      updatedAt: this.timestampToDate(data.updatedAt),
+      updatedBy: data.updatedBy || undefined,
+    };
+  }
+
+  protected mapModelToFirestore(model: IncidentArchivePolicy): any {
+    const { updatedAt, ...rest } = model;
+    return rest;
+  }
 }
 
 /**
@@ -153,6 +501,7 @@ export class DisciplineService extends FirestoreService {
   private readonly incidentValidator: any;
   private readonly readRateLimiter: any;
   private readonly writeRateLimiter: any;
+  private readonly archivePolicies = new IncidentArchivePolicyStore();
 
   /**
    * Singleton pattern implementation
@@ -187,6 +536,9 @@ export class DisciplineService extends FirestoreService {
 
   /**
    * Create a new discipline incident
+   * The main student takes part unless listed in participants with another role;
+   * the first instigator, or else the first participant, becomes the main student.
+   * New incidents are always open: any other status is reached through the workflow.
    * @param incidentData - Incident data to create
    * @param createdBy - User ID of the creator
    * @returns Promise resolving to created incident with ID
@@ -195,48 +547,91 @@ export class DisciplineService extends FirestoreService {
   @withRetryDecorator()
   @rateLimited('writeRateLimiter')
   public async createIncident(
-    incidentData: Omit<DisciplineIncident, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>,
+    incidentData: IncidentCreateInput,
     createdBy: string
   ): Promise<DisciplineIncident> {
     // Start performance measurement
     telemetryService.startMeasurement('createIncident');
     
     try {
-      // Validate user permissions
-      const hasPermission = await userService.hasPermission(createdBy, 'create-incident');
+      const { participants: participantList = [], ...fields } = incidentData;
+      const participantInput = participantList.some(participant => participant.studentId === fields.studentId)
+        ? participantList
+        : [{ studentId: fields.studentId, role: ParticipantRole.PARTICIPANT }, ...participantList];
+
+      // Validate user permissions for every student involved
+      const hasPermission = await this.hasIncidentPermission(
+        createdBy,
+        'create-incident',
+        participantInput.map(participant => ({ ...fields, studentId: participant.studentId }))
+      );
       if (!hasPermission) {
         throw new DisciplineServiceError('Insufficient permissions to create incident', 'insufficient-permissions');
       }
-      
+
       // Validate incident data
-      validationService.validateOrThrow('incident', incidentData);
+      validationService.validateOrThrow('incident', fields);
+
+      // Incidents can only be recorded for students on the school's roll
+      const participants = await this.resolveParticipants(participantInput, fields.schoolId, [], fields.studentId, {
+        parentNotified: fields.parentNotified,
+        parentNotificationDate: fields.parentNotificationDate,
+      });
       
       const incident: Omit<DisciplineIncident, 'id'> = {
-        ...incidentData,
+        ...fields,
+        ...this.getParticipantFields(participants),
+        status: IncidentStatus.OPEN,
+        statusHistory: [],
+        commentCount: 0,
+        parentCommentCount: 0,
+        recordState: IncidentRecordState.ACTIVE,
         createdAt: new Date(),
         updatedAt: new Date(),
         createdBy,
         updatedBy: createdBy,
       };
 
-      // Prepare data for Firestore
+      // Prepare data for Firestore; internal notes are stored apart from the incident
+      const { internalNotes, ...incidentFields } = incident;
       const firestoreData = {
-        ...incident,
+        ...incidentFields,
         dateTime: Timestamp.fromDate(incident.dateTime),
         followUpDate: incident.followUpDate ? Timestamp.fromDate(incident.followUpDate) : null,
         parentNotificationDate: incident.parentNotificationDate ? Timestamp.fromDate(incident.parentNotificationDate) : null,
+        participants: this.mapParticipantsToFirestore(incident.participants),
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp(),
       };
       
-      // Create document with retry logic
-      const docRef = await this.createDocument(firestoreData);
+      // Create the document together with its audit log entry
+      const docRef = doc(collection(db, Collections.INCIDENTS));
+      const batch = writeBatch(db);
+      batch.set(docRef, firestoreData);
+      if (internalNotes) {
+        this.setInternalNotesInBatch(batch, docRef.id, incident.schoolId, internalNotes, createdBy);
+      }
+      incidentAuditService.recordInBatch(batch, {
+        incidentId: docRef.id,
+        schoolId: incident.schoolId,
+        operation: IncidentAuditOperation.CREATE,
+        actorId: createdBy,
+        changes: [],
+        snapshot: { ...incident },
+      });
+      await batch.commit();
 
       const createdIncident: DisciplineIncident = {
         ...incident,
         id: docRef.id,
       };
 
+      // Apply the school's consequence ladder
+      await this.evaluateConsequenceRules(createdIncident, createdBy);
+
+      // Publish the student's redacted copy
+      await this.syncStudentView(createdIncident);
+
       // Track successful creation
       telemetryService.trackUsage('incident_created', 'DisciplineService', {
         incidentId: docRef.id,
@@ -259,6 +654,10 @@ export class DisciplineService extends FirestoreService {
       if (error instanceof DisciplineServiceError) {
         throw error;
       }
+
+      if (error instanceof StudentServiceError) {
+        throw new DisciplineServiceError(error.message, error.code, error.context);
+      }
       
       if (error instanceof FirestoreError) {
         const serviceError = DisciplineServiceError.fromFirestoreError(error, 'createIncident', {
@@ -350,9 +749,13 @@ export class DisciplineService extends FirestoreService {
 
   /**
    * Update an existing discipline incident
+   * A status change must be a step of INCIDENT_STATUS_TRANSITIONS. Participants
+   * replace the incident's list; a new studentId replaces the main student.
    * @param incidentId - ID of the incident to update
    * @param updateData - Partial incident data to update
    * @param updatedBy - User ID of the updater
+   * @param statusNote - Reason or notes recorded with a status change (optional)
+   * @param authorizedBy - Permission the change follows from, for changes in DELEGATED_INCIDENT_UPDATES (optional)
    * @returns Promise resolving to updated incident
    * @throws DisciplineServiceError for update failures
    */
@@ -360,31 +763,101 @@ export class DisciplineService extends FirestoreService {
   @rateLimited('writeRateLimiter')
   public async updateIncident(
     incidentId: string,
-    updateData: Partial<Omit<DisciplineIncident, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>>,
-    updatedBy: string
+    updateData: IncidentUpdateInput,
+    updatedBy: string,
+    statusNote?: string,
+    authorizedBy?: Permission
   ): Promise<DisciplineIncident> {
     // Start performance measurement
     telemetryService.startMeasurement('updateIncident');
     
     try {
-      // Validate user permissions
-      const hasPermission = await userService.hasPermission(updatedBy, 'update-incident');
-      if (!hasPermission) {
-        throw new DisciplineServiceError('Insufficient permissions to update incident', 'insufficient-permissions');
+      const existing = await this.getIncident(incidentId);
+      if (!existing) {
+        throw new DisciplineServiceError('Incident not found', 'incident-not-found', { incidentId });
+      }
+      if (existing.recordState === IncidentRecordState.DELETED) {
+        throw new DisciplineServiceError('Deleted incidents must be restored before they are changed', 'incident-deleted', {
+          incidentId,
+        });
       }
+
+      // Validate user permissions: staff update the incidents they reported, and
+      // only roles with 'edit-incident' can change anyone else's (as in firestore.rules),
+      // apart from the delegated changes other services make.
+      // Both the incident and the result of the update, for every student involved,
+      // must be within the user's scope, so a scoped role cannot move an incident out of it.
+      const { participants, ...fields } = updateData;
+      const participantInput = this.getUpdatedParticipantInput(existing, fields, participants);
+      const updated = { ...existing, ...fields };
+      const scope = [
+        existing,
+        ...(participantInput ?? existing.participants).map(participant => ({ ...updated, studentId: participant.studentId })),
+      ];
+      const canEditAnyIncident = await this.hasIncidentPermission(updatedBy, 'edit-incident', scope);
+      if (!canEditAnyIncident) {
+        const hasPermission = existing.teacherId === updatedBy
+          ? await this.hasIncidentPermission(updatedBy, 'update-incident', scope)
+          : await this.isDelegatedUpdate(updatedBy, authorizedBy, existing, updateData, scope);
+        if (!hasPermission) {
+          throw new DisciplineServiceError('Insufficient permissions to update incident', 'insufficient-permissions');
+        }
+      }
+
+      // Status changes must follow the workflow
+      const statusChange = updateData.status !== undefined && updateData.status !== existing.status
+        ? await this.checkStatusTransition(existing, updated, updatedBy, statusNote)
+        : undefined;
       
       // Validate update data
-      if (Object.keys(updateData).length > 0) {
-        validationService.validateOrThrow('incident', updateData, { partial: true });
+      if (Object.keys(fields).length > 0) {
+        validationService.validateOrThrow('incident', fields, { partial: true });
       }
 
-      // Prepare update data with timestamps
+      // Prepare update data with timestamps; internal notes are stored apart from the incident
+      const { internalNotes, ...incidentFields } = fields;
       const updateWithTimestamps: any = {
-        ...updateData,
+        ...incidentFields,
         updatedAt: serverTimestamp(),
         updatedBy,
       };
 
+      // New participants must be on the school's roll; the main student's parent
+      // notification follows the incident's
+      let participantFields: ReturnType<DisciplineService['getParticipantFields']> | undefined;
+      if (participantInput) {
+        const participants = await this.resolveParticipants(
+          participantInput,
+          updated.schoolId,
+          existing.participants,
+          fields.studentId ?? existing.studentId,
+          { parentNotified: fields.parentNotified, parentNotificationDate: fields.parentNotificationDate }
+        );
+        participantFields = this.getParticipantFields(participants);
+        Object.assign(updateWithTimestamps, participantFields, {
+          participants: this.mapParticipantsToFirestore(participants),
+          parentNotificationDate: participantFields.parentNotificationDate
+            ? Timestamp.fromDate(participantFields.parentNotificationDate)
+            : null,
+        });
+      }
+
+      if (statusChange) {
+        const { note, changedAt, ...change } = statusChange;
+        updateWithTimestamps.statusHistory = arrayUnion({
+          ...change,
+          changedAt: Timestamp.fromDate(changedAt),
+          ...(note ? { note } : {}),
+        });
+        if (statusChange.to === IncidentStatus.CLOSED) {
+          updateWithTimestamps.signedOffBy = updatedBy;
+          updateWithTimestamps.signedOffAt = serverTimestamp();
+        } else if (statusChange.from === IncidentStatus.CLOSED) {
+          updateWithTimestamps.signedOffBy = deleteField();
+          updateWithTimestamps.signedOffAt = deleteField();
+        }
+      }
+
       // Convert Date objects to Firestore Timestamps
       if (updateData.dateTime) {
         updateWithTimestamps.dateTime = Timestamp.fromDate(updateData.dateTime);
@@ -402,8 +875,22 @@ export class DisciplineService extends FirestoreService {
         updateWithTimestamps.parentNotificationDate = null;
       }
 
-      // Update the document with retry logic
-      await this.updateDocument(incidentId, updateWithTimestamps);
+      // Update the document and its internal notes together with its audit log entry
+      const previousNotes = internalNotes !== undefined ? await this.readInternalNotes(incidentId) : undefined;
+      const changes = diffIncidentFields({ ...existing, internalNotes: previousNotes }, { ...fields, ...participantFields });
+      const batch = writeBatch(db);
+      batch.update(doc(db, Collections.INCIDENTS, incidentId), updateWithTimestamps);
+      if (internalNotes !== undefined) {
+        this.setInternalNotesInBatch(batch, incidentId, existing.schoolId, internalNotes, updatedBy);
+      }
+      incidentAuditService.recordInBatch(batch, {
+        incidentId,
+        schoolId: existing.schoolId,
+        operation: IncidentAuditOperation.UPDATE,
+        actorId: updatedBy,
+        changes,
+      });
+      await batch.commit();
       
       // Clear cache for this incident
       cacheService.delete(`incident:${incidentId}`);
@@ -413,6 +900,12 @@ export class DisciplineService extends FirestoreService {
       if (!updatedIncident) {
         throw new DisciplineServiceError('Incident not found after update', 'incident-not-found');
       }
+
+      // Apply the school's consequence ladder
+      await this.evaluateConsequenceRules(updatedIncident, updatedBy);
+
+      // Publish the student's redacted copy
+      await this.syncStudentView(updatedIncident);
       
       // Track successful update
       telemetryService.trackUsage('incident_updated', 'DisciplineService', {
@@ -435,6 +928,10 @@ export class DisciplineService extends FirestoreService {
       if (error instanceof DisciplineServiceError) {
         throw error;
       }
+
+      if (error instanceof StudentServiceError) {
+        throw new DisciplineServiceError(error.message, error.code, error.context);
+      }
       
       if (error instanceof FirestoreError) {
         throw DisciplineServiceError.fromFirestoreError(error, 'updateIncident', {
@@ -460,37 +957,123 @@ export class DisciplineService extends FirestoreService {
     }
   }
 
+  /**
+   * Move an incident to a new status
+   * @param incidentId - ID of the incident
+   * @param status - New status
+   * @param changedBy - User ID of the person changing it
+   * @param note - Resolution notes when resolving, or the reason when reopening
+   * @param authorizedBy - Permission the change follows from, as for updateIncident (optional)
+   * @returns Promise resolving to the updated incident
+   * @throws DisciplineServiceError with code 'invalid-status-transition' if the workflow does not allow the change
+   */
+  public async changeIncidentStatus(
+    incidentId: string,
+    status: IncidentStatus,
+    changedBy: string,
+    note?: string,
+    authorizedBy?: Permission
+  ): Promise<DisciplineIncident> {
+    const resolutionNotes = status === IncidentStatus.RESOLVED && note?.trim() ? { resolutionNotes: note.trim() } : {};
+    return this.updateIncident(incidentId, { status, ...resolutionNotes }, changedBy, note, authorizedBy);
+  }
+
+  /**
+   * Update one participant's role, consequence or parent notification
+   * @param incidentId - ID of the incident
+   * @param studentId - Student ID of the participant
+   * @param changes - Details to change
+   * @param updatedBy - User ID of the updater
+   * @param authorizedBy - Permission the change follows from, as for updateIncident (optional)
+   * @returns Promise resolving to the updated incident
+   * @throws DisciplineServiceError with code 'participant-not-found' if the student is not on the incident
+   */
+  public async updateParticipant(
+    incidentId: string,
+    studentId: string,
+    changes: Partial<Pick<IncidentParticipant, 'role' | 'consequence' | 'parentNotified' | 'parentNotificationDate'>>,
+    updatedBy: string,
+    authorizedBy?: Permission
+  ): Promise<DisciplineIncident> {
+    const incident = await this.getIncident(incidentId);
+    if (!incident) {
+      throw new DisciplineServiceError('Incident not found', 'incident-not-found', { incidentId });
+    }
+    if (!getIncidentParticipant(incident, studentId)) {
+      throw new DisciplineServiceError('Student is not a participant in this incident', 'participant-not-found', {
+        incidentId,
+        studentId,
+      });
+    }
+
+    const participants = incident.participants.map(participant =>
+      participant.studentId === studentId ? { ...participant, ...changes } : participant
+    );
+    // The main student's parent notification is also the incident's
+    const notification = studentId === incident.studentId
+      ? {
+          ...(changes.parentNotified !== undefined ? { parentNotified: changes.parentNotified } : {}),
+          ...(changes.parentNotificationDate !== undefined ? { parentNotificationDate: changes.parentNotificationDate } : {}),
+        }
+      : {};
+    return this.updateIncident(incidentId, { participants, ...notification }, updatedBy, undefined, authorizedBy);
+  }
+
   /**
    * Delete a discipline incident
+   * The incident is moved to the recycle bin, from which it can be restored.
    * @param incidentId - ID of the incident to delete
    * @param deletedBy - User ID of the person deleting
+   * @param reason - Why the incident is deleted
    * @returns Promise resolving to true if successful
    * @throws DisciplineServiceError for deletion failures
    */
   @withRetryDecorator()
   @rateLimited('writeRateLimiter')
-  public async deleteIncident(incidentId: string, deletedBy: string): Promise<boolean> {
+  public async deleteIncident(incidentId: string, deletedBy: string, reason: string): Promise<boolean> {
     // Start performance measurement
     telemetryService.startMeasurement('deleteIncident');
     
     try {
-      // Validate user permissions
-      const hasPermission = await userService.hasPermission(deletedBy, 'delete-incident');
-      if (!hasPermission) {
-        throw new DisciplineServiceError('Insufficient permissions to delete incident', 'insufficient-permissions');
+      const deletionReason = reason?.trim();
+      if (!deletionReason || deletionReason.length > 500) {
+        throw new DisciplineServiceError(
+          'A reason of up to 500 characters is required to delete an incident',
+          'validation-error',
+          { incidentId }
+        );
       }
 
-      // Get incident data for telemetry before deletion
+      // Get incident data for the permission check and telemetry before deletion
       const incident = await this.getIncident(incidentId);
       if (!incident) {
         throw new DisciplineServiceError('Incident not found', 'incident-not-found');
       }
+      if (incident.recordState === IncidentRecordState.DELETED) {
+        throw new DisciplineServiceError('Incident is already deleted', 'incident-deleted', { incidentId });
+      }
+
+      // Validate user permissions
+      const hasPermission = await this.hasIncidentPermission(deletedBy, 'delete-incident', [incident]);
+      if (!hasPermission) {
+        throw new DisciplineServiceError('Insufficient permissions to delete incident', 'insufficient-permissions');
+      }
 
-      // Delete the document with retry logic
-      await this.deleteDocument(incidentId);
+      // Move the incident to the recycle bin, keeping a snapshot of it in the audit log
+      const batch = writeBatch(db);
+      this.addRecordStateChange(batch, incident, {
+        recordState: IncidentRecordState.DELETED,
+        deletedAt: new Date(),
+        deletedBy,
+        deletionReason,
+      }, deletedBy);
+      await batch.commit();
       
       // Clear cache for this incident
       cacheService.delete(`incident:${incidentId}`);
+
+      // Remove the student's copy
+      await this.syncStudentView(incident, true);
       
       // Track successful deletion
       telemetryService.trackUsage('incident_deleted', 'DisciplineService', {
@@ -529,99 +1112,644 @@ export class DisciplineService extends FirestoreService {
   }
 
   /**
-   * Search incidents with filters and pagination
-   * @param filters - Search filters
+   * Get a school's deleted incidents, most recently deleted first
+   * @param schoolId - School ID
+   * @param requestedBy - User ID of the requester
    * @param pageSize - Number of results per page
    * @param lastDoc - Last document for pagination
-   * @returns Promise resolving to paginated incident results
-   * @throws DisciplineServiceError for search failures
+   * @returns Promise resolving to the school's recycle bin
+   * @throws DisciplineServiceError for permission or fetch failures
    */
-  @withRetryDecorator()
-  @rateLimited('readRateLimiter')
-  public async searchIncidents(
-    filters: IncidentSearchFilters,
+  public async getDeletedIncidents(
+    schoolId: string,
+    requestedBy: string,
     pageSize: number = 20,
     lastDoc?: DocumentSnapshot
   ): Promise<PaginatedIncidents> {
-    // Start performance measurement
-    telemetryService.startMeasurement('searchIncidents');
-    
     try {
-      let q = query(collection(db, Collections.INCIDENTS));
-
-      // Apply filters
-      if (filters.schoolId) {
-        q = query(q, where('schoolId', '==', filters.schoolId));
-      }
-      if (filters.studentId) {
-        q = query(q, where('studentId', '==', filters.studentId));
-      }
-      if (filters.teacherId) {
-        q = query(q, where('teacherId', '==', filters.teacherId));
-      }
-      if (filters.incidentType) {
-        q = query(q, where('incidentType', '==', filters.incidentType));
-      }
-      if (filters.severity) {
-        q = query(q, where('severity', '==', filters.severity));
-      }
-      if (filters.status) {
-        q = query(q, where('status', '==', filters.status));
-      }
-      if (filters.followUpRequired !== undefined) {
-        q = query(q, where('followUpRequired', '==', filters.followUpRequired));
-      }
-      if (filters.parentNotified !== undefined) {
-        q = query(q, where('parentNotified', '==', filters.parentNotified));
-      }
-
-      // Add date range filters
-      if (filters.dateFrom) {
-        q = query(q, where('dateTime', '>=', Timestamp.fromDate(filters.dateFrom)));
-      }
-      if (filters.dateTo) {
-        q = query(q, where('dateTime', '<=', Timestamp.fromDate(filters.dateTo)));
+      const hasPermission = await userService.hasPermission(requestedBy, 'manage-deleted-incidents', { schoolId });
+      if (!hasPermission) {
+        throw new DisciplineServiceError('Insufficient permissions to view deleted incidents', 'insufficient-permissions');
       }
 
-      // Add ordering and pagination
-      q = query(q, orderBy('dateTime', 'desc'), limit(pageSize + 1));
-
+      let q = query(
+        collection(db, Collections.INCIDENTS),
+        where('schoolId', '==', schoolId),
+        where('recordState', '==', IncidentRecordState.DELETED),
+        orderBy('deletedAt', 'desc'),
+        limit(pageSize + 1)
+      );
       if (lastDoc) {
         q = query(q, startAfter(lastDoc));
       }
 
-      // Execute query with retry logic
-      const querySnapshot = await getDocs(q);
-      const incidents: DisciplineIncident[] = [];
-      const docs = querySnapshot.docs;
-
-      // Process results
-      const hasMore = docs.length > pageSize;
-      const resultDocs = hasMore ? docs.slice(0, pageSize) : docs;
+      const snapshot = await withRetry(() => getDocs(q));
+      const hasMore = snapshot.docs.length > pageSize;
+      const resultDocs = hasMore ? snapshot.docs.slice(0, pageSize) : snapshot.docs;
 
-      resultDocs.forEach((doc) => {
-        const incident = this.mapFirestoreToIncident(doc.id, doc.data());
-        incidents.push(incident);
-      });
-      
-      // Track successful search
-      telemetryService.trackUsage('incidents_searched', 'DisciplineService', {
-        filterCount: Object.keys(filters).length,
-        resultCount: incidents.length,
-        pageSize
-      });
-      
-      telemetryService.stopMeasurement('searchIncidents', 'search_incidents');
-      
       return {
-        incidents,
+        incidents: resultDocs.map(incidentDoc => this.mapFirestoreToIncident(incidentDoc.id, incidentDoc.data())),
         hasMore,
         lastDoc: hasMore ? resultDocs[resultDocs.length - 1] : undefined,
       };
     } catch (error) {
-      // Track error
       telemetryService.trackException(error as Error, {
-        method: 'searchIncidents',
+        method: 'getDeletedIncidents',
+        schoolId
+      });
+
+      if (error instanceof DisciplineServiceError) {
+        throw error;
+      }
+
+      if (error instanceof FirestoreError) {
+        throw DisciplineServiceError.fromFirestoreError(error, 'getDeletedIncidents', { schoolId });
+      }
+
+      throw new DisciplineServiceError(
+        `Failed to get deleted incidents: ${(error as Error).message}`,
+        'get-deleted-incidents-failed',
+        { schoolId, errorType: (error as Error).name }
+      );
+    }
+  }
+
+  /**
+   * Restore a deleted or archived incident
+   * @param incidentId - ID of the incident to restore
+   * @param restoredBy - User ID of the person restoring it
+   * @returns Promise resolving to the restored incident
+   * @throws DisciplineServiceError for permission or restore failures
+   */
+  public async restoreIncident(incidentId: string, restoredBy: string): Promise<DisciplineIncident> {
+    try {
+      const incident = await this.getIncident(incidentId);
+      if (!incident) {
+        throw new DisciplineServiceError('Incident not found', 'incident-not-found', { incidentId });
+      }
+      if (incident.recordState === IncidentRecordState.ACTIVE) {
+        throw new DisciplineServiceError('Incident is not deleted or archived', 'incident-not-restorable', { incidentId });
+      }
+
+      const permission = incident.recordState === IncidentRecordState.DELETED ? 'manage-deleted-incidents' : 'archive-incidents';
+      const hasPermission = await this.hasIncidentPermission(restoredBy, permission, [incident]);
+      if (!hasPermission) {
+        throw new DisciplineServiceError('Insufficient permissions to restore incident', 'insufficient-permissions');
+      }
+
+      const batch = writeBatch(db);
+      this.addRecordStateChange(batch, incident, {
+        recordState: IncidentRecordState.ACTIVE,
+        deletedAt: undefined,
+        deletedBy: undefined,
+        deletionReason: undefined,
+        archivedAt: undefined,
+        archivedBy: undefined,
+      }, restoredBy);
+      await withRetry(() => batch.commit());
+      cacheService.delete(`incident:${incidentId}`);
+
+      const restored = await this.getIncident(incidentId);
+      if (!restored) {
+        throw new DisciplineServiceError('Incident not found after restore', 'incident-not-found', { incidentId });
+      }
+
+      // Republish the student's copy removed when the incident was deleted
+      await this.syncStudentView(restored);
+
+      telemetryService.trackUsage('incident_restored', 'DisciplineService', {
+        incidentId,
+        from: incident.recordState
+      });
+
+      return restored;
+    } catch (error) {
+      telemetryService.trackException(error as Error, {
+        method: 'restoreIncident',
+        incidentId
+      });
+
+      if (error instanceof DisciplineServiceError) {
+        throw error;
+      }
+
+      if (error instanceof FirestoreError) {
+        throw DisciplineServiceError.fromFirestoreError(error, 'restoreIncident', { incidentId });
+      }
+
+      throw new DisciplineServiceError(
+        `Failed to restore incident: ${(error as Error).message}`,
+        'restore-incident-failed',
+        { incidentId, errorType: (error as Error).name }
+      );
+    }
+  }
+
+  /**
+   * Get a school's archive settings
+   * @param schoolId - School ID
+   * @returns Promise resolving to the school's policy (the default age when it has none)
+   * @throws DisciplineServiceError for fetch failures
+   */
+  public async getArchivePolicy(schoolId: string): Promise<IncidentArchivePolicy> {
+    try {
+      const policy = await withRetry(() => this.archivePolicies.get(schoolId));
+      return policy || { schoolId, archiveAfterDays: DEFAULT_ARCHIVE_AFTER_DAYS };
+    } catch (error) {
+      if (error instanceof FirestoreError) {
+        throw DisciplineServiceError.fromFirestoreError(error, 'getArchivePolicy', { schoolId });
+      }
+      throw new DisciplineServiceError(
+        `Failed to fetch archive policy: ${(error as Error).message}`,
+        'fetch-archive-policy-failed',
+        { schoolId }
+      );
+    }
+  }
+
+  /**
+   * Set the age at which a school's closed incidents are archived
+   * @param schoolId - School ID
+   * @param archiveAfterDays - Age in days, from the incident date
+   * @param updatedBy - User ID of the updater
+   * @returns Promise resolving to the updated policy
+   * @throws DisciplineServiceError for permission, validation or update failures
+   */
+  public async updateArchivePolicy(
+    schoolId: string,
+    archiveAfterDays: number,
+    updatedBy: string
+  ): Promise<IncidentArchivePolicy> {
+    try {
+      const hasPermission = await userService.hasPermission(updatedBy, 'manage-school', { schoolId });
+      if (!hasPermission) {
+        throw new DisciplineServiceError('Insufficient permissions to update archive policy', 'insufficient-permissions');
+      }
+      if (!Number.isInteger(archiveAfterDays) || archiveAfterDays < 30) {
+        throw new DisciplineServiceError(
+          'Incidents can be archived no sooner than 30 days after they happen',
+          'validation-error',
+          { schoolId, archiveAfterDays }
+        );
+      }
+
+      // Policies are keyed by school ID
+      return await withRetry(() =>
+        this.archivePolicies.put({ schoolId, archiveAfterDays, updatedAt: new Date(), updatedBy })
+      );
+    } catch (error) {
+      if (error instanceof DisciplineServiceError) {
+        throw error;
+      }
+      if (error instanceof FirestoreError) {
+        throw DisciplineServiceError.fromFirestoreError(error, 'updateArchivePolicy', { schoolId });
+      }
+      throw new DisciplineServiceError(
+        `Failed to update archive policy: ${(error as Error).message}`,
+        'update-archive-policy-failed',
+        { schoolId }
+      );
+    }
+  }
+
+  /**
+   * Archive a school's closed incidents older than its archive age
+   * Archived incidents leave working lists (search with recordStates [ACTIVE])
+   * but still count in reports and statistics.
+   * @param schoolId - School ID
+   * @param archivedBy - User ID of the person or job archiving
+   * @param now - Current time (for scheduled runs and testing)
+   * @returns Promise resolving to the number of incidents archived
+   * @throws DisciplineServiceError for permission or update failures
+   */
+  public async archiveClosedIncidents(schoolId: string, archivedBy: string, now: Date = new Date()): Promise<number> {
+    try {
+      const hasPermission = await userService.hasPermission(archivedBy, 'archive-incidents', { schoolId });
+      if (!hasPermission) {
+        throw new DisciplineServiceError('Insufficient permissions to archive incidents', 'insufficient-permissions');
+      }
+
+      const { archiveAfterDays } = await this.getArchivePolicy(schoolId);
+      const cutoff = new Date(now.getTime() - archiveAfterDays * 24 * 60 * 60 * 1000);
+
+      let archived = 0;
+      let lastDoc: DocumentSnapshot | undefined;
+      do {
+        let q = query(
+          collection(db, Collections.INCIDENTS),
+          where('schoolId', '==', schoolId),
+          where('status', '==', IncidentStatus.CLOSED),
+          where('dateTime', '<=', Timestamp.fromDate(cutoff)),
+          orderBy('dateTime', 'asc'),
+          limit(ARCHIVE_BATCH_SIZE)
+        );
+        if (lastDoc) {
+          q = query(q, startAfter(lastDoc));
+        }
+        const snapshot = await withRetry(() => getDocs(q));
+
+        // Incidents written before record states existed have no recordState and are active
+        const incidents = snapshot.docs
+          .map(incidentDoc => this.mapFirestoreToIncident(incidentDoc.id, incidentDoc.data()))
+          .filter(incident => incident.recordState === IncidentRecordState.ACTIVE);
+
+        if (incidents.length > 0) {
+          const batch = writeBatch(db);
+          incidents.forEach(incident => {
+            this.addRecordStateChange(batch, incident, {
+              recordState: IncidentRecordState.ARCHIVED,
+              archivedAt: now,
+              archivedBy,
+            }, archivedBy);
+          });
+          await withRetry(() => batch.commit());
+          incidents.forEach(incident => cacheService.delete(`incident:${incident.id}`));
+          archived += incidents.length;
+        }
+
+        lastDoc = snapshot.docs.length === ARCHIVE_BATCH_SIZE ? snapshot.docs[snapshot.docs.length - 1] : undefined;
+      } while (lastDoc);
+
+      telemetryService.trackUsage('incidents_archived', 'DisciplineService', {
+        schoolId,
+        archived,
+        archiveAfterDays
+      });
+
+      return archived;
+    } catch (error) {
+      telemetryService.trackException(error as Error, {
+        method: 'archiveClosedIncidents',
+        schoolId
+      });
+
+      if (error instanceof DisciplineServiceError) {
+        throw error;
+      }
+
+      if (error instanceof FirestoreError) {
+        throw DisciplineServiceError.fromFirestoreError(error, 'archiveClosedIncidents', { schoolId });
+      }
+
+      throw new DisciplineServiceError(
+        `Failed to archive incidents: ${(error as Error).message}`,
+        'archive-incidents-failed',
+        { schoolId, errorType: (error as Error).name }
+      );
+    }
+  }
+
+  /**
+   * Record the main student as the participant of a school's older incidents
+   * Incidents written before participants were recorded are otherwise missed by
+   * searches on studentId. Their content is unchanged, so no audit entries are written.
+   * @param schoolId - School ID
+   * @param updatedBy - User ID of the person or job running the backfill
+   * @returns Promise resolving to the number of incidents updated
+   * @throws DisciplineServiceError for permission or update failures
+   */
+  public async backfillParticipants(schoolId: string, updatedBy: string): Promise<number> {
+    try {
+      const hasPermission = await userService.hasPermission(updatedBy, 'manage-school', { schoolId });
+      if (!hasPermission) {
+        throw new DisciplineServiceError('Insufficient permissions to update incidents', 'insufficient-permissions');
+      }
+
+      let updated = 0;
+      let lastDoc: DocumentSnapshot | undefined;
+      do {
+        let q = query(
+          collection(db, Collections.INCIDENTS),
+          where('schoolId', '==', schoolId),
+          orderBy('dateTime', 'asc'),
+          limit(PARTICIPANT_BACKFILL_BATCH_SIZE)
+        );
+        if (lastDoc) {
+          q = query(q, startAfter(lastDoc));
+        }
+        const snapshot = await withRetry(() => getDocs(q));
+
+        const legacyDocs = snapshot.docs.filter(incidentDoc => !Array.isArray(incidentDoc.data().participantIds));
+        if (legacyDocs.length > 0) {
+          const batch = writeBatch(db);
+          legacyDocs.forEach(incidentDoc => {
+            const { participants, participantIds } = this.mapFirestoreToIncident(incidentDoc.id, incidentDoc.data());
+            batch.update(incidentDoc.ref, { participants: this.mapParticipantsToFirestore(participants), participantIds });
+          });
+          await withRetry(() => batch.commit());
+          legacyDocs.forEach(incidentDoc => cacheService.delete(`incident:${incidentDoc.id}`));
+          updated += legacyDocs.length;
+        }
+
+        lastDoc = snapshot.docs.length === PARTICIPANT_BACKFILL_BATCH_SIZE ? snapshot.docs[snapshot.docs.length - 1] : undefined;
+      } while (lastDoc);
+
+      telemetryService.trackUsage('incident_participants_backfilled', 'DisciplineService', {
+        schoolId,
+        updated
+      });
+
+      return updated;
+    } catch (error) {
+      telemetryService.trackException(error as Error, {
+        method: 'backfillParticipants',
+        schoolId
+      });
+
+      if (error instanceof DisciplineServiceError) {
+        throw error;
+      }
+
+      if (error instanceof FirestoreError) {
+        throw DisciplineServiceError.fromFirestoreError(error, 'backfillParticipants', { schoolId });
+      }
+
+      throw new DisciplineServiceError(
+        `Failed to backfill incident participants: ${(error as Error).message}`,
+        'backfill-participants-failed',
+        { schoolId, errorType: (error as Error).name }
+      );
+    }
+  }
+
+  /**
+   * Get an incident's internal notes
+   * @param incidentId - Incident ID
+   * @param requestedBy - User ID of the staff member asking
+   * @returns Promise resolving to the notes, or undefined if the incident has none
+   * @throws DisciplineServiceError for permission or fetch failures
+   */
+  public async getInternalNotes(incidentId: string, requestedBy: string): Promise<string | undefined> {
+    try {
+      const incident = await this.getIncident(incidentId);
+      if (!incident) {
+        throw new DisciplineServiceError('Incident not found', 'incident-not-found', { incidentId });
+      }
+      const hasPermission = await this.hasIncidentPermission(requestedBy, 'view-incidents', [incident]);
+      if (!hasPermission) {
+        throw new DisciplineServiceError('Insufficient permissions to view internal notes', 'insufficient-permissions');
+      }
+
+      return await this.readInternalNotes(incidentId);
+    } catch (error) {
+      telemetryService.trackException(error as Error, {
+        method: 'getInternalNotes',
+        incidentId
+      });
+
+      if (error instanceof DisciplineServiceError) {
+        throw error;
+      }
+
+      if (error instanceof FirestoreError) {
+        throw DisciplineServiceError.fromFirestoreError(error, 'getInternalNotes', { incidentId });
+      }
+
+      throw new DisciplineServiceError(
+        `Failed to get internal notes: ${(error as Error).message}`,
+        'get-internal-notes-failed',
+        { incidentId, errorType: (error as Error).name }
+      );
+    }
+  }
+
+  /**
+   * Add an incident's internal notes to a batch that writes the incident
+   * Parents can read incidents involving their children, so the notes are kept in
+   * their own document that only staff can read. firestore.rules only accepts it when
+   * the same user writes the incident in the same batch.
+   * @param batch - Batch that writes the incident
+   * @param incidentId - Incident ID
+   * @param schoolId - School of the incident
+   * @param notes - Internal notes
+   * @param updatedBy - User ID of the person writing the incident
+   */
+  public setInternalNotesInBatch(
+    batch: WriteBatch,
+    incidentId: string,
+    schoolId: string,
+    notes: string,
+    updatedBy: string
+  ): void {
+    batch.set(doc(db, Collections.INCIDENT_INTERNAL_NOTES, incidentId), {
+      incidentId,
+      schoolId,
+      notes,
+      updatedAt: serverTimestamp(),
+      updatedBy,
+    });
+  }
+
+  /**
+   * Move internal notes stored on a school's older incidents to their own documents
+   * Until they are moved, parents who can read an incident can read its notes.
+   * The notes are unchanged, so no audit entries are written.
+   * @param schoolId - School ID
+   * @param updatedBy - User ID of the person or job moving the notes
+   * @returns Promise resolving to the number of incidents whose notes were moved
+   * @throws DisciplineServiceError for permission or update failures
+   */
+  public async moveInternalNotes(schoolId: string, updatedBy: string): Promise<number> {
+    try {
+      const hasPermission = await userService.hasPermission(updatedBy, 'manage-school', { schoolId });
+      if (!hasPermission) {
+        throw new DisciplineServiceError('Insufficient permissions to update incidents', 'insufficient-permissions');
+      }
+
+      let moved = 0;
+      let lastDoc: DocumentSnapshot | undefined;
+      do {
+        let q = query(
+          collection(db, Collections.INCIDENTS),
+          where('schoolId', '==', schoolId),
+          orderBy('dateTime', 'asc'),
+          limit(INTERNAL_NOTES_MOVE_BATCH_SIZE)
+        );
+        if (lastDoc) {
+          q = query(q, startAfter(lastDoc));
+        }
+        const snapshot = await withRetry(() => getDocs(q));
+
+        const legacyDocs = snapshot.docs.filter(incidentDoc => 'internalNotes' in incidentDoc.data());
+        if (legacyDocs.length > 0) {
+          const batch = writeBatch(db);
+          legacyDocs.forEach(incidentDoc => {
+            const { internalNotes } = incidentDoc.data();
+            batch.update(incidentDoc.ref, { internalNotes: deleteField(), updatedAt: serverTimestamp(), updatedBy });
+            if (internalNotes) {
+              this.setInternalNotesInBatch(batch, incidentDoc.id, schoolId, internalNotes, updatedBy);
+            }
+          });
+          await withRetry(() => batch.commit());
+          legacyDocs.forEach(incidentDoc => cacheService.delete(`incident:${incidentDoc.id}`));
+          moved += legacyDocs.length;
+        }
+
+        lastDoc = snapshot.docs.length === INTERNAL_NOTES_MOVE_BATCH_SIZE ? snapshot.docs[snapshot.docs.length - 1] : undefined;
+      } while (lastDoc);
+
+      telemetryService.trackUsage('incident_internal_notes_moved', 'DisciplineService', {
+        schoolId,
+        moved
+      });
+
+      return moved;
+    } catch (error) {
+      telemetryService.trackException(error as Error, {
+        method: 'moveInternalNotes',
+        schoolId
+      });
+
+      if (error instanceof DisciplineServiceError) {
+        throw error;
+      }
+
+      if (error instanceof FirestoreError) {
+        throw DisciplineServiceError.fromFirestoreError(error, 'moveInternalNotes', { schoolId });
+      }
+
+      throw new DisciplineServiceError(
+        `Failed to move internal notes: ${(error as Error).message}`,
+        'move-internal-notes-failed',
+        { schoolId, errorType: (error as Error).name }
+      );
+    }
+  }
+
+  /**
+   * Search incidents with filters and pagination
+   * @param filters - Search filters
+   * @param pageSize - Number of results per page
+   * @param lastDoc - Last document for pagination
+   * @returns Promise resolving to paginated incident results
+   * @throws DisciplineServiceError for search failures
+   */
+  @withRetryDecorator()
+  @rateLimited('readRateLimiter')
+  public async searchIncidents(
+    filters: IncidentSearchFilters,
+    pageSize: number = 20,
+    lastDoc?: DocumentSnapshot
+  ): Promise<PaginatedIncidents> {
+    // Start performance measurement
+    telemetryService.startMeasurement('searchIncidents');
+    
+    try {
+      const recordStates = filters.recordStates ?? [IncidentRecordState.ACTIVE, IncidentRecordState.ARCHIVED];
+      if (recordStates.includes(IncidentRecordState.DELETED)) {
+        const canSeeDeleted = filters.viewerId
+          ? await userService.hasPermission(filters.viewerId, 'manage-deleted-incidents', { schoolId: filters.schoolId })
+          : false;
+        if (!canSeeDeleted) {
+          throw new DisciplineServiceError('Insufficient permissions to search deleted incidents', 'insufficient-permissions');
+        }
+      }
+
+      let q = query(collection(db, Collections.INCIDENTS));
+
+      // Apply filters
+      if (filters.schoolId) {
+        q = query(q, where('schoolId', '==', filters.schoolId));
+      }
+      if (filters.studentId) {
+        // Incidents saved before participants were added have no participantIds
+        // until backfillParticipants runs, so they are also found by their main student
+        q = filters.primaryStudentOnly
+          ? query(q, where('studentId', '==', filters.studentId))
+          : query(q, or(
+            where('participantIds', 'array-contains', filters.studentId),
+            where('studentId', '==', filters.studentId)
+          ));
+      }
+      if (filters.teacherId) {
+        q = query(q, where('teacherId', '==', filters.teacherId));
+      }
+      if (filters.incidentType) {
+        q = query(q, where('incidentType', '==', filters.incidentType));
+      }
+      if (filters.severity) {
+        q = query(q, where('severity', '==', filters.severity));
+      }
+      if (filters.status) {
+        q = query(q, where('status', '==', filters.status));
+      }
+      if (filters.followUpRequired !== undefined) {
+        q = query(q, where('followUpRequired', '==', filters.followUpRequired));
+      }
+      if (filters.parentNotified !== undefined) {
+        q = query(q, where('parentNotified', '==', filters.parentNotified));
+      }
+
+      // Add date range filters
+      if (filters.dateFrom) {
+        q = query(q, where('dateTime', '>=', Timestamp.fromDate(filters.dateFrom)));
+      }
+      if (filters.dateTo) {
+        q = query(q, where('dateTime', '<=', Timestamp.fromDate(filters.dateTo)));
+      }
+
+      // Add ordering and pagination
+      q = query(q, orderBy('dateTime', 'desc'), limit(pageSize + 1));
+
+      if (lastDoc) {
+        q = query(q, startAfter(lastDoc));
+      }
+
+      // Execute query with retry logic
+      const querySnapshot = await getDocs(q);
+      const incidents: DisciplineIncident[] = [];
+      const docs = querySnapshot.docs;
+
+      // Process results
+      const hasMore = docs.length > pageSize;
+      const resultDocs = hasMore ? docs.slice(0, pageSize) : docs;
+
+      resultDocs.forEach((doc) => {
+        const incident = this.mapFirestoreToIncident(doc.id, doc.data());
+        incidents.push(incident);
+      });
+
+      // Incidents written before record states existed have no recordState and are
+      // active, so Firestore cannot filter on it; pages can then hold fewer than pageSize results
+      let visibleIncidents = incidents.filter(incident => recordStates.includes(incident.recordState));
+
+      // Keep incidents where the student had one of the requested roles
+      const { studentId, participantRoles } = filters;
+      if (studentId && participantRoles) {
+        visibleIncidents = visibleIncidents.filter(incident => {
+          const participant = getIncidentParticipant(incident, studentId);
+          return participant !== undefined && participantRoles.includes(participant.role);
+        });
+      }
+
+      // Drop incidents outside the viewer's custom role scope
+      if (filters.viewerId) {
+        const viewer = await userService.getUserProfile(filters.viewerId);
+        const policy = viewer ? await permissionPolicyService.getUserPolicy(viewer) : null;
+        const allowed = await Promise.all(visibleIncidents.map(incident =>
+          policy ? policy.allows('view-incidents', getIncidentPermissionContext(incident)) : false
+        ));
+        visibleIncidents = visibleIncidents.filter((_, index) => allowed[index]);
+      }
+      
+      // Track successful search
+      telemetryService.trackUsage('incidents_searched', 'DisciplineService', {
+        filterCount: Object.keys(filters).length,
+        resultCount: visibleIncidents.length,
+        pageSize
+      });
+      
+      telemetryService.stopMeasurement('searchIncidents', 'search_incidents');
+      
+      return {
+        incidents: visibleIncidents,
+        hasMore,
+        lastDoc: hasMore ? resultDocs[resultDocs.length - 1] : undefined,
+      };
+    } catch (error) {
+      // Track error
+      telemetryService.trackException(error as Error, {
+        method: 'searchIncidents',
         filters: JSON.stringify(filters)
       });
       
@@ -653,6 +1781,8 @@ export class DisciplineService extends FirestoreService {
    * @param schoolId - School ID to get statistics for
    * @param dateFrom - Start date for statistics period (optional)
    * @param dateTo - End date for statistics period (optional)
+   * @param teacherId - Only count incidents reported by this teacher (optional)
+   * @param includeDeletedFor - Also count deleted incidents, for this user with 'manage-deleted-incidents' (optional)
    * @returns Promise resolving to incident statistics
    * @throws DisciplineServiceError for statistics failures
    */
@@ -661,13 +1791,16 @@ export class DisciplineService extends FirestoreService {
   public async getIncidentStatistics(
     schoolId: string,
     dateFrom?: Date,
-    dateTo?: Date
+    dateTo?: Date,
+    teacherId?: string,
+    includeDeletedFor?: string
   ): Promise<IncidentStatistics> {
     // Start performance measurement
     telemetryService.startMeasurement('getIncidentStatistics');
     
-    // Generate cache key based on parameters
-    const cacheKey = `incidents:stats:${schoolId}:${dateFrom?.toISOString() || 'all'}:${dateTo?.toISOString() || 'all'}`;
+    // Generate cache key based on parameters; statistics counting deleted incidents
+    // are limited to the viewer's permissions and scope, so they are cached per viewer
+    const cacheKey = `incidents:stats:${schoolId}:${dateFrom?.toISOString() || 'all'}:${dateTo?.toISOString() || 'all'}:${teacherId || 'all'}:${includeDeletedFor ? `withDeleted:${includeDeletedFor}` : 'live'}`;
     
     try {
       // Try to get from cache first
@@ -677,6 +1810,11 @@ export class DisciplineService extends FirestoreService {
           const filters: IncidentSearchFilters = { schoolId };
           if (dateFrom) filters.dateFrom = dateFrom;
           if (dateTo) filters.dateTo = dateTo;
+          if (teacherId) filters.teacherId = teacherId;
+          if (includeDeletedFor) {
+            filters.viewerId = includeDeletedFor;
+            filters.recordStates = Object.values(IncidentRecordState);
+          }
 
           // Fetch all incidents for the school within date range
           const allIncidents: DisciplineIncident[] = [];
@@ -699,6 +1837,7 @@ export class DisciplineService extends FirestoreService {
             incidentsBySeverity: {} as Record<IncidentSeverity, number>,
             followUpRequired: allIncidents.filter(i => i.followUpRequired && i.status !== IncidentStatus.CLOSED).length,
             parentNotificationPending: allIncidents.filter(i => !i.parentNotified).length,
+            participantsByRole: {} as Record<ParticipantRole, number>,
           };
 
           // Initialize type and severity counters
@@ -708,11 +1847,17 @@ export class DisciplineService extends FirestoreService {
           Object.values(IncidentSeverity).forEach(severity => {
             statistics.incidentsBySeverity[severity] = 0;
           });
+          Object.values(ParticipantRole).forEach(role => {
+            statistics.participantsByRole[role] = 0;
+          });
 
-          // Count incidents by type and severity
+          // Count incidents by type and severity, and students by their part
           allIncidents.forEach(incident => {
             statistics.incidentsByType[incident.incidentType]++;
             statistics.incidentsBySeverity[incident.severity]++;
+            incident.participants.forEach(participant => {
+              statistics.participantsByRole[participant.role]++;
+            });
           });
           
           // Track successful statistics retrieval
@@ -810,7 +1955,10 @@ export class DisciplineService extends FirestoreService {
 
           snapshot.forEach((doc) => {
             const data = doc.data();
-            incidents.push(this.mapFirestoreToIncident(doc.id, data));
+            const incident = this.mapFirestoreToIncident(doc.id, data);
+            if (incident.recordState !== IncidentRecordState.DELETED) {
+              incidents.push(incident);
+            }
           });
           
           // Track successful retrieval
@@ -862,6 +2010,331 @@ export class DisciplineService extends FirestoreService {
     }
   }
 
+  /**
+   * Work out the participant list an update leaves an incident with
+   * @param existing - Incident as it is now
+   * @param fields - Other changes being made
+   * @param participants - New participant list (optional)
+   * @returns Participants to resolve, or undefined if the update does not touch them
+   */
+  private getUpdatedParticipantInput(
+    existing: DisciplineIncident,
+    fields: Omit<IncidentUpdateInput, 'participants'>,
+    participants?: IncidentParticipantInput[]
+  ): IncidentParticipantInput[] | undefined {
+    const { studentId, parentNotified, parentNotificationDate } = fields;
+    if (!participants && !studentId && parentNotified === undefined && parentNotificationDate === undefined) {
+      return undefined;
+    }
+
+    const input: IncidentParticipantInput[] = participants ?? existing.participants;
+    if (!studentId || input.some(participant => participant.studentId === studentId)) {
+      return input;
+    }
+    // A new main student joins a given list, or otherwise takes the old main student's place
+    return participants
+      ? [{ studentId, role: ParticipantRole.PARTICIPANT }, ...input]
+      : input.map(participant =>
+          participant.studentId === existing.studentId ? { studentId, role: participant.role } : participant
+        );
+  }
+
+  /**
+   * Check participants and fill in their names
+   * @param input - Participants as given
+   * @param schoolId - School the incident belongs to
+   * @param known - Participants already on the incident; their names and unchanged details are kept
+   * @param preferredMainId - Student to keep as the main student if they are an instigator or participant
+   * @param notification - Parent notification set on the incident itself, which applies to the main student
+   * @returns Participants with the main student first
+   * @throws DisciplineServiceError with code 'validation-error' for invalid participants, or
+   * StudentServiceError if a new participant is not on the school's roll
+   */
+  private async resolveParticipants(
+    input: IncidentParticipantInput[],
+    schoolId: string,
+    known: IncidentParticipant[],
+    preferredMainId: string,
+    notification: Partial<Pick<DisciplineIncident, 'parentNotified' | 'parentNotificationDate'>>
+  ): Promise<IncidentParticipant[]> {
+    const roles = Object.values(ParticipantRole);
+    const seen = new Set<string>();
+    input.forEach(participant => {
+      if (!participant.studentId || !roles.includes(participant.role)) {
+        throw new DisciplineServiceError('Each participant needs a student and a valid role', 'validation-error', {
+          studentId: participant.studentId,
+          role: participant.role,
+        });
+      }
+      if (seen.has(participant.studentId)) {
+        throw new DisciplineServiceError('A student can only be listed once on an incident', 'validation-error', {
+          studentId: participant.studentId,
+        });
+      }
+      seen.add(participant.studentId);
+    });
+
+    const offenders = input.filter(participant => isOffenderRole(participant.role));
+    if (offenders.length === 0) {
+      throw new DisciplineServiceError('An incident needs at least one instigator or participant', 'validation-error');
+    }
+    const main = offenders.find(participant => participant.studentId === preferredMainId)
+      ?? offenders.find(participant => participant.role === ParticipantRole.INSTIGATOR)
+      ?? offenders[0];
+
+    const participants = await Promise.all([main, ...input.filter(participant => participant !== main)].map(
+      async (participant): Promise<IncidentParticipant> => {
+        const previous = known.find(entry => entry.studentId === participant.studentId);
+        const studentName = previous
+          ? previous.studentName
+          : formatStudentName(await studentService.requireEnrolledStudent(participant.studentId, schoolId));
+        return {
+          studentId: participant.studentId,
+          studentName,
+          role: participant.role,
+          consequence: (participant.consequence ?? previous?.consequence)?.trim() || undefined,
+          parentNotified: participant.parentNotified ?? previous?.parentNotified ?? false,
+          parentNotificationDate: participant.parentNotificationDate ?? previous?.parentNotificationDate ?? undefined,
+        };
+      }
+    ));
+
+    if (notification.parentNotified !== undefined) {
+      participants[0].parentNotified = notification.parentNotified;
+    }
+    if (notification.parentNotificationDate !== undefined) {
+      participants[0].parentNotificationDate = notification.parentNotificationDate ?? undefined;
+    }
+    return participants;
+  }
+
+  /**
+   * Incident fields that follow from its participants
+   * @param participants - Participants, main student first
+   * @returns Main student, participant list and IDs, and the main student's parent notification
+   */
+  private getParticipantFields(
+    participants: IncidentParticipant[]
+  ): Pick<DisciplineIncident, 'studentId' | IncidentParticipantField | 'parentNotified' | 'parentNotificationDate'> {
+    const [main] = participants;
+    return {
+      studentId: main.studentId,
+      studentName: main.studentName,
+      participants,
+      participantIds: participants.map(participant => participant.studentId),
+      parentNotified: main.parentNotified,
+      parentNotificationDate: main.parentNotificationDate,
+    };
+  }
+
+  /**
+   * Prepare participants for Firestore
+   * @param participants - Participants to store
+   * @returns Participants with timestamps and without unset fields
+   */
+  private mapParticipantsToFirestore(participants: IncidentParticipant[]): Record<string, unknown>[] {
+    return participants.map(({ consequence, parentNotificationDate, ...participant }) => ({
+      ...participant,
+      ...(consequence ? { consequence } : {}),
+      ...(parentNotificationDate ? { parentNotificationDate: Timestamp.fromDate(parentNotificationDate) } : {}),
+    }));
+  }
+
+  /**
+   * Check a status change against the workflow
+   * @param existing - Incident as it is now
+   * @param updated - Incident after the update
+   * @param userId - User ID of the person changing the status
+   * @param note - Reason or notes given with the change
+   * @returns The status change to record
+   * @throws DisciplineServiceError if the change is not allowed, not permitted or missing its note
+   */
+  private async checkStatusTransition(
+    existing: DisciplineIncident,
+    updated: DisciplineIncident,
+    userId: string,
+    note?: string
+  ): Promise<IncidentStatusChange> {
+    const transition = getStatusTransition(existing.status, updated.status);
+    if (!transition) {
+      throw new DisciplineServiceError(
+        `Incidents cannot move from ${existing.status} to ${updated.status}`,
+        'invalid-status-transition',
+        { incidentId: existing.id, from: existing.status, to: updated.status, allowed: getNextStatuses(existing.status) }
+      );
+    }
+
+    // 'update-incident' (or the delegated permission) was checked with the rest of the update
+    if (transition.permission !== 'update-incident') {
+      const hasPermission = await this.hasIncidentPermission(userId, transition.permission, [existing, updated]);
+      if (!hasPermission) {
+        throw new DisciplineServiceError(
+          `Insufficient permissions to move incident to ${updated.status}`,
+          'insufficient-permissions',
+          { incidentId: existing.id, permission: transition.permission }
+        );
+      }
+    }
+
+    const resolutionNotes = updated.resolutionNotes?.trim();
+    const reason = note?.trim();
+    if (transition.requiresNote === 'resolution' && !resolutionNotes) {
+      throw new DisciplineServiceError('Resolution notes are required to resolve an incident', 'status-note-required', {
+        incidentId: existing.id,
+        to: updated.status,
+      });
+    }
+    if (transition.requiresNote === 'reason' && !reason) {
+      throw new DisciplineServiceError('A reason is required to reopen an incident', 'status-note-required', {
+        incidentId: existing.id,
+        to: updated.status,
+      });
+    }
+
+    return {
+      from: existing.status,
+      to: updated.status,
+      changedBy: userId,
+      changedAt: new Date(),
+      note: reason || (transition.requiresNote === 'resolution' ? resolutionNotes : undefined),
+    };
+  }
+
+  /**
+   * Add a delete, restore or archive of an incident to a batch, with its audit log entry
+   * Fields set to undefined are removed from the incident.
+   * @param batch - Batch to add the writes to
+   * @param incident - Incident as it is now
+   * @param fields - Record state fields to write
+   * @param actorId - User ID of the person making the change
+   */
+  private addRecordStateChange(
+    batch: WriteBatch,
+    incident: DisciplineIncident,
+    fields: Partial<Pick<DisciplineIncident, IncidentRecordStateField>>,
+    actorId: string
+  ): void {
+    const update: Record<string, any> = { updatedAt: serverTimestamp(), updatedBy: actorId };
+    const audited: Record<string, unknown> = {};
+    Object.entries(fields).forEach(([field, value]) => {
+      update[field] = value === undefined ? deleteField() : value instanceof Date ? Timestamp.fromDate(value) : value;
+      audited[field] = value ?? null;
+    });
+    batch.update(doc(db, Collections.INCIDENTS, incident.id!), update);
+
+    const deleted = fields.recordState === IncidentRecordState.DELETED;
+    incidentAuditService.recordInBatch(batch, {
+      incidentId: incident.id!,
+      schoolId: incident.schoolId,
+      operation: deleted ? IncidentAuditOperation.DELETE : IncidentAuditOperation.UPDATE,
+      actorId,
+      changes: diffIncidentFields(incident, audited),
+      ...(deleted ? { snapshot: { ...incident } } : {}),
+    });
+  }
+
+  /**
+   * Check whether an update is a delegated change the user is allowed to make
+   * @param userId - User ID of the updater
+   * @param authorizedBy - Permission the change follows from
+   * @param existing - Incident as it is now
+   * @param updateData - Fields being updated
+   * @param scope - Incidents the permission must cover
+   * @returns Promise resolving to true if the change is listed in DELEGATED_INCIDENT_UPDATES and permitted
+   */
+  private async isDelegatedUpdate(
+    userId: string,
+    authorizedBy: Permission | undefined,
+    existing: DisciplineIncident,
+    updateData: IncidentUpdateInput,
+    scope: Pick<DisciplineIncident, 'schoolId' | 'studentId' | 'incidentType' | 'severity'>[]
+  ): Promise<boolean> {
+    const delegated = authorizedBy ? DELEGATED_INCIDENT_UPDATES[authorizedBy] : undefined;
+    if (!delegated) {
+      return false;
+    }
+
+    const fields = Object.keys(updateData) as (keyof IncidentUpdateInput)[];
+    if (!fields.every(field => delegated.fields.includes(field))) {
+      return false;
+    }
+    if (
+      updateData.status !== undefined &&
+      updateData.status !== existing.status &&
+      !delegated.statuses?.includes(updateData.status)
+    ) {
+      return false;
+    }
+
+    return this.hasIncidentPermission(userId, authorizedBy!, scope);
+  }
+
+  /**
+   * Read an incident's internal notes document
+   * @param incidentId - Incident ID
+   * @returns Promise resolving to the notes, or undefined if the incident has none
+   */
+  private async readInternalNotes(incidentId: string): Promise<string | undefined> {
+    const notesDoc = await withRetry(() => getDoc(doc(db, Collections.INCIDENT_INTERNAL_NOTES, incidentId)));
+    return notesDoc.exists() ? notesDoc.data().notes || undefined : undefined;
+  }
+
+  /**
+   * Check a permission against one or more incidents
+   * @param userId - User ID to check
+   * @param action - Permission to check
+   * @param incidents - Incidents the action applies to
+   * @returns Promise resolving to true if the action is allowed on every incident
+   */
+  private async hasIncidentPermission(
+    userId: string,
+    action: string,
+    incidents: Pick<DisciplineIncident, 'schoolId' | 'studentId' | 'incidentType' | 'severity'>[]
+  ): Promise<boolean> {
+    const allowed = await Promise.all(incidents.map(incident =>
+      userService.hasPermission(userId, action, getIncidentPermissionContext(incident))
+    ));
+    return allowed.every(Boolean);
+  }
+
+  /**
+   * Evaluate consequence rules for a saved incident
+   * Failures are tracked but never fail the incident save itself.
+   * @param incident - Incident that was created or updated
+   * @param userId - User ID of the user who saved the incident
+   */
+  private async evaluateConsequenceRules(incident: DisciplineIncident, userId: string): Promise<void> {
+    try {
+      await consequenceService.evaluateIncident(incident, userId);
+    } catch (error) {
+      telemetryService.trackException(error as Error, {
+        method: 'evaluateConsequenceRules',
+        incidentId: incident.id,
+      });
+    }
+  }
+
+  /**
+   * Write or remove the students' redacted copies of an incident
+   * Failures are tracked but never fail the incident save itself.
+   * @param incident - Incident that was saved or deleted
+   * @param deleted - Whether the incident was deleted
+   */
+  private async syncStudentView(incident: DisciplineIncident, deleted: boolean = false): Promise<void> {
+    try {
+      if (deleted) {
+        await studentViewService.removeIncident(incident.id!);
+      } else {
+        await studentViewService.syncIncident(incident);
+      }
+    } catch (error) {
+      telemetryService.trackException(error as Error, {
+        method: 'syncStudentView',
+        incidentId: incident.id,
+      });
+    }
+  }
+
   /**
    * Map Firestore data to DisciplineIncident object
    * @param id - Document ID
@@ -902,10 +2375,31 @@ export class DisciplineService extends FirestoreService {
         }
       };
       
+      // Incidents written before participants were recorded have only their main student
+      const parentNotificationDate = getDateFromTimestamp(data.parentNotificationDate);
+      const participants: IncidentParticipant[] = Array.isArray(data.participants)
+        ? data.participants.map((participant: any) => ({
+            studentId: participant.studentId || '',
+            studentName: participant.studentName || '',
+            role: participant.role || ParticipantRole.PARTICIPANT,
+            consequence: participant.consequence || undefined,
+            parentNotified: Boolean(participant.parentNotified),
+            parentNotificationDate: getDateFromTimestamp(participant.parentNotificationDate) || undefined,
+          }))
+        : [{
+            studentId: data.studentId || '',
+            studentName: data.studentName || '',
+            role: ParticipantRole.PARTICIPANT,
+            parentNotified: Boolean(data.parentNotified),
+            parentNotificationDate: parentNotificationDate || undefined,
+          }];
+
       return {
         id,
         studentId: data.studentId || '',
         studentName: data.studentName || '',
+        participants,
+        participantIds: participants.map(participant => participant.studentId),
         teacherId: data.teacherId || '',
         teacherName: data.teacherName || '',
         schoolId: data.schoolId || '',
@@ -918,9 +2412,31 @@ export class DisciplineService extends FirestoreService {
         followUpRequired: Boolean(data.followUpRequired),
         followUpDate: getDateFromTimestamp(data.followUpDate),
         parentNotified: Boolean(data.parentNotified),
-        parentNotificationDate: getDateFromTimestamp(data.parentNotificationDate),
+        parentNotificationDate,
         status: data.status || IncidentStatus.OPEN,
+        resolutionNotes: data.resolutionNotes || undefined,
+        statusHistory: Array.isArray(data.statusHistory)
+          ? data.statusHistory.map((change: any) => ({
+              from: change.from,
+              to: change.to,
+              changedBy: change.changedBy || '',
+              changedAt: getDateFromTimestamp(change.changedAt) || new Date(),
+              note: change.note || undefined,
+            }))
+          : [],
+        signedOffBy: data.signedOffBy || undefined,
+        signedOffAt: getDateFromTimestamp(data.signedOffAt) || undefined,
         attachments: Array.isArray(data.attachments) ? data.attachments : [],
+        commentCount: typeof data.commentCount === 'number' ? data.commentCount : 0,
+        parentCommentCount: typeof data.parentCommentCount === 'number' ? data.parentCommentCount : 0,
+        lastCommentAt: getDateFromTimestamp(data.lastCommentAt) || undefined,
+        lastParentCommentAt: getDateFromTimestamp(data.lastParentCommentAt) || undefined,
+        recordState: data.recordState || IncidentRecordState.ACTIVE,
+        deletedAt: getDateFromTimestamp(data.deletedAt) || undefined,
+        deletedBy: data.deletedBy || undefined,
+        deletionReason: data.deletionReason || undefined,
+        archivedAt: getDateFromTimestamp(data.archivedAt) || undefined,
+        archivedBy: data.archivedBy || undefined,
         createdAt: getDateFromTimestamp(data.createdAt) || new Date(),
         updatedAt: getDateFromTimestamp(data.updatedAt) || new Date(),
         createdBy: data.createdBy || '',
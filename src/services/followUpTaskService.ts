@@ -0,0 +1,1107 @@
+/**
+ * Follow-Up Task Service for MCC Discipline Tracker
+ *
+ * This service keeps the follow-up work an incident needs as tasks: each has
+ * an assignee, a due date, an optional checklist and, once done, completion
+ * notes. Tasks past their due date are overdue; tasks still open once the
+ * school's grace period has passed are escalated to its principals.
+ *
+ * The incident's followUpRequired and followUpDate fields are kept in step
+ * with its open tasks (the earliest due date), in the same batch as each task
+ * change, so getIncidentsRequiringFollowUp and the digests keep working.
+ *
+ * @fileoverview Follow-up tasks for discipline incidents
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import {
+  doc,
+  collection,
+  where,
+  orderBy,
+  serverTimestamp,
+  deleteField,
+  Timestamp,
+  WriteBatch,
+  DocumentSnapshot,
+  FirestoreError,
+} from 'firebase/firestore';
+import { db, Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+import { disciplineService, DisciplineIncident, IncidentRecordState } from './disciplineService';
+import { notificationService } from './notificationService';
+import { getIncidentPermissionContext } from './permissionPolicyService';
+import { incidentAuditService, IncidentAuditOperation, diffIncidentFields } from './incidentAuditService';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { validationService } from './base/validationService';
+import { serviceRegistry } from './base/serviceRegistry';
+import { cacheService } from './base/cacheService';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+
+/**
+ * Hours an open task may be past its due date before it is escalated, for schools without a policy
+ */
+export const DEFAULT_ESCALATION_GRACE_HOURS = 48;
+
+/**
+ * Most checklist items on one task
+ */
+export const MAX_CHECKLIST_ITEMS = 20;
+
+const ESCALATION_BATCH_SIZE = 100;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Follow-up task status
+ */
+export enum FollowUpTaskStatus {
+  OPEN = 'open',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * A step of a follow-up task
+ */
+export interface FollowUpChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+  completedAt?: Date;
+  completedBy?: string;
+}
+
+/**
+ * Interface for a follow-up task on an incident
+ */
+export interface FollowUpTask {
+  id?: string;
+  incidentId: string;
+  schoolId: string;
+  studentId: string;
+  studentName: string;
+  title: string;
+  description?: string;
+  assigneeId: string;
+  assigneeName: string;
+  dueDate: Date;
+  checklist: FollowUpChecklistItem[];
+  status: FollowUpTaskStatus;
+  completionNotes?: string;
+  completedAt?: Date;
+  completedBy?: string;
+  cancellationReason?: string;
+  cancelledAt?: Date;
+  cancelledBy?: string;
+  /** When the overdue task was escalated; cleared when the due date changes */
+  escalatedAt?: Date;
+  /** Principals the task was escalated to */
+  escalatedTo?: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+/**
+ * A follow-up task to create
+ */
+export interface FollowUpTaskInput {
+  title: string;
+  description?: string;
+  assigneeId: string;
+  dueDate: Date;
+  /** Checklist item texts, in order */
+  checklist?: string[];
+}
+
+/**
+ * Changes to a follow-up task
+ */
+export interface FollowUpTaskUpdate {
+  title?: string;
+  description?: string;
+  assigneeId?: string;
+  dueDate?: Date;
+}
+
+/**
+ * A school's follow-up escalation settings (keyed by school ID)
+ */
+export interface FollowUpPolicy {
+  schoolId: string;
+  /** Hours an open task may be past its due date before it is escalated */
+  escalationGraceHours: number;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+/**
+ * Interface for paginated follow-up tasks
+ */
+export interface PaginatedFollowUpTasks {
+  tasks: FollowUpTask[];
+  hasMore: boolean;
+  lastDoc?: DocumentSnapshot;
+}
+
+/**
+ * Check whether a task is overdue: still open after its due date
+ * @param task - Task
+ * @param now - Current time
+ * @returns True if the task is overdue
+ */
+export const isTaskOverdue = (task: FollowUpTask, now: Date = new Date()): boolean =>
+  task.status === FollowUpTaskStatus.OPEN && task.dueDate.getTime() < now.getTime();
+
+/**
+ * Store for per-school follow-up policies, keyed by school ID
+ */
+class FollowUpPolicyStore extends FirestoreService<FollowUpPolicy> {
+  protected collectionName = Collections.FOLLOW_UP_POLICIES;
+
+  public get(schoolId: string): Promise<FollowUpPolicy | null> {
+    return this.getDocument(schoolId);
+  }
+
+  public async put(policy: FollowUpPolicy): Promise<FollowUpPolicy> {
+    const saved = await this.createDocument(policy, policy.schoolId);
+    this.clearCacheForKey(`doc:${policy.schoolId}`);
+    return saved;
+  }
+
+  protected mapFirestoreToModel(id: string, data: any): FollowUpPolicy {
+    return {
+      schoolId: data.schoolId || id,
+      escalationGraceHours: typeof data.escalationGraceHours === 'number'
+        ? data.escalationGraceHours
+        : DEFAULT_ESCALATION_GRACE_HOURS,
+      updatedAt: this.timestampToDate(data.updatedAt),
+      updatedBy: data.updatedBy || undefined,
+    };
+  }
+
+  protected mapModelToFirestore(model: FollowUpPolicy): any {
+    const { updatedAt, ...rest } = model;
+    return rest;
+  }
+}
+
+/**
+ * Follow-up task service class providing incident follow-up tasks
+ */
+export class FollowUpTaskService extends FirestoreService<FollowUpTask> {
+  private static instance: FollowUpTaskService;
+  protected collectionName = Collections.FOLLOW_UP_TASKS;
+  private readonly policies = new FollowUpPolicyStore();
+
+  /**
+   * Singleton pattern implementation
+   * @returns FollowUpTaskService instance
+   */
+  public static getInstance(): FollowUpTaskService {
+    if (!FollowUpTaskService.instance) {
+      FollowUpTaskService.instance = new FollowUpTaskService();
+      // Register with service registry
+      serviceRegistry.registerInstance('followUpTaskService', FollowUpTaskService.instance);
+    }
+    return FollowUpTaskService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'FollowUpTaskService');
+  }
+
+  /**
+   * Create a follow-up task on an incident
+   * The assignee must be able to view the incident, and is notified; a failed
+   * notification does not fail the task.
+   * @param incidentId - Incident ID
+   * @param input - Title, assignee, due date and checklist
+   * @param createdBy - User ID of the creator
+   * @returns Promise resolving to the saved task
+   * @throws FollowUpTaskServiceError for permission, validation or save failures
+   */
+  public async createTask(incidentId: string, input: FollowUpTaskInput, createdBy: string): Promise<FollowUpTask> {
+    try {
+      const incident = await this.requireIncident(incidentId);
+      await this.assertCanManage(createdBy, incident);
+
+      const title = input.title?.trim();
+      const description = input.description?.trim() || undefined;
+      const checklistTexts = (input.checklist || []).map(text => text?.trim());
+      validationService.validateOrThrow('followUpTask', {
+        title,
+        description,
+        assigneeId: input.assigneeId,
+        dueDate: input.dueDate,
+        checklist: checklistTexts,
+      });
+
+      const assigneeName = await this.assertCanAssign(input.assigneeId, incident);
+      const now = new Date();
+      const task: FollowUpTask = {
+        incidentId,
+        schoolId: incident.schoolId,
+        studentId: incident.studentId,
+        studentName: incident.studentName,
+        title,
+        description,
+        assigneeId: input.assigneeId,
+        assigneeName,
+        dueDate: input.dueDate,
+        checklist: checklistTexts.map((text, index) => ({ id: String(index + 1), text, done: false })),
+        status: FollowUpTaskStatus.OPEN,
+        createdAt: now,
+        updatedAt: now,
+        createdBy,
+        updatedBy: createdBy,
+      };
+
+      const taskRef = doc(collection(db, this.collectionName));
+      const saved = { ...task, id: taskRef.id };
+      const batch = this.createBatch();
+      batch.set(taskRef, {
+        ...this.mapModelToFirestore(task),
+        // Stored as null so tasks not yet escalated can be queried
+        escalatedAt: null,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      await this.syncIncidentFollowUp(batch, incident, saved, createdBy);
+      await withRetry(() => batch.commit());
+      this.clearCache();
+      cacheService.delete(`incident:${incidentId}`);
+
+      await this.notifyAssignee(saved, incident, createdBy);
+
+      telemetryService.trackUsage('follow_up_task_created', 'FollowUpTaskService', {
+        incidentId,
+        checklistItems: task.checklist.length,
+      });
+      return saved;
+    } catch (error) {
+      throw FollowUpTaskServiceError.wrap(error, 'create-task-failed', 'Failed to create follow-up task', { incidentId });
+    }
+  }
+
+  /**
+   * Change an open task's title, description, assignee or due date
+   * Moving the due date clears the task's escalation; a new assignee is notified.
+   * @param taskId - Task ID
+   * @param updates - Fields to change
+   * @param updatedBy - User ID of the updater (the task's creator, or a user with 'edit-incident')
+   * @returns Promise resolving to the updated task
+   * @throws FollowUpTaskServiceError for permission, validation or update failures
+   */
+  public async updateTask(taskId: string, updates: FollowUpTaskUpdate, updatedBy: string): Promise<FollowUpTask> {
+    try {
+      const task = await this.requireOpenTask(taskId);
+      const incident = await this.requireIncident(task.incidentId);
+      await this.assertCanChange(updatedBy, task, incident, false);
+
+      const title = updates.title !== undefined ? updates.title.trim() : task.title;
+      const description = updates.description !== undefined ? updates.description.trim() || undefined : task.description;
+      const assigneeId = updates.assigneeId ?? task.assigneeId;
+      const dueDate = updates.dueDate ?? task.dueDate;
+      validationService.validateOrThrow('followUpTask', { title, description, assigneeId, dueDate });
+
+      const reassigned = assigneeId !== task.assigneeId;
+      const rescheduled = dueDate.getTime() !== task.dueDate.getTime();
+      const assigneeName = reassigned ? await this.assertCanAssign(assigneeId, incident) : task.assigneeName;
+
+      const now = new Date();
+      const updated: FollowUpTask = {
+        ...task,
+        title,
+        description,
+        assigneeId,
+        assigneeName,
+        dueDate,
+        ...(rescheduled ? { escalatedAt: undefined, escalatedTo: undefined } : {}),
+        updatedAt: now,
+        updatedBy,
+      };
+
+      const batch = this.createBatch();
+      batch.update(doc(db, this.collectionName, taskId), {
+        title,
+        description: description ?? deleteField(),
+        assigneeId,
+        assigneeName,
+        dueDate: Timestamp.fromDate(dueDate),
+        ...(rescheduled ? { escalatedAt: null, escalatedTo: deleteField() } : {}),
+        updatedAt: serverTimestamp(),
+        updatedBy,
+      });
+      await this.syncIncidentFollowUp(batch, incident, updated, updatedBy);
+      await withRetry(() => batch.commit());
+      this.clearCache();
+      cacheService.delete(`incident:${task.incidentId}`);
+
+      if (reassigned) {
+        await this.notifyAssignee(updated, incident, updatedBy);
+      }
+
+      telemetryService.trackUsage('follow_up_task_updated', 'FollowUpTaskService', { taskId, reassigned, rescheduled });
+      return updated;
+    } catch (error) {
+      throw FollowUpTaskServiceError.wrap(error, 'update-task-failed', 'Failed to update follow-up task', { taskId });
+    }
+  }
+
+  /**
+   * Tick or untick a checklist item of an open task
+   * @param taskId - Task ID
+   * @param itemId - Checklist item ID
+   * @param done - Whether the item is done
+   * @param updatedBy - User ID of the updater (the assignee, the creator, or a user with 'edit-incident')
+   * @returns Promise resolving to the updated task
+   * @throws FollowUpTaskServiceError for permission or update failures
+   */
+  public async updateChecklistItem(
+    taskId: string,
+    itemId: string,
+    done: boolean,
+    updatedBy: string
+  ): Promise<FollowUpTask> {
+    try {
+      const task = await this.requireOpenTask(taskId);
+      const incident = await this.requireIncident(task.incidentId);
+      await this.assertCanChange(updatedBy, task, incident, true);
+
+      if (!task.checklist.some(item => item.id === itemId)) {
+        throw new FollowUpTaskServiceError('Checklist item not found', 'checklist-item-not-found', { taskId, itemId });
+      }
+
+      const now = new Date();
+      const checklist = task.checklist.map(item => {
+        if (item.id !== itemId || item.done === done) {
+          return item;
+        }
+        return done
+          ? { ...item, done, completedAt: now, completedBy: updatedBy }
+          : { id: item.id, text: item.text, done };
+      });
+
+      // The checklist is written whole, as array items cannot be updated in place
+      const updated = await withRetry(() => this.updateDocument(taskId, { checklist, updatedBy }));
+      this.clearCache();
+
+      telemetryService.trackUsage('follow_up_checklist_updated', 'FollowUpTaskService', { taskId, done });
+      return updated;
+    } catch (error) {
+      throw FollowUpTaskServiceError.wrap(error, 'update-checklist-failed', 'Failed to update checklist', {
+        taskId,
+        itemId,
+      });
+    }
+  }
+
+  /**
+   * Complete an open task
+   * Every checklist item must be done first.
+   * @param taskId - Task ID
+   * @param completionNotes - What was done
+   * @param completedBy - User ID of the person completing it (the assignee, the creator, or a user with 'edit-incident')
+   * @returns Promise resolving to the completed task
+   * @throws FollowUpTaskServiceError for permission, validation or update failures
+   */
+  public async completeTask(taskId: string, completionNotes: string, completedBy: string): Promise<FollowUpTask> {
+    try {
+      const task = await this.requireOpenTask(taskId);
+      const incident = await this.requireIncident(task.incidentId);
+      await this.assertCanChange(completedBy, task, incident, true);
+
+      const notes = completionNotes?.trim();
+      if (!notes || notes.length > 2000) {
+        throw new FollowUpTaskServiceError(
+          'Completion notes are required, up to 2000 characters',
+          'validation-error',
+          { taskId }
+        );
+      }
+      const remaining = task.checklist.filter(item => !item.done).length;
+      if (remaining > 0) {
+        throw new FollowUpTaskServiceError(
+          'Every checklist item must be done before the task is completed',
+          'checklist-incomplete',
+          { taskId, remaining }
+        );
+      }
+
+      const now = new Date();
+      const completed: FollowUpTask = {
+        ...task,
+        status: FollowUpTaskStatus.COMPLETED,
+        completionNotes: notes,
+        completedAt: now,
+        completedBy,
+        updatedAt: now,
+        updatedBy: completedBy,
+      };
+
+      const batch = this.createBatch();
+      batch.update(doc(db, this.collectionName, taskId), {
+        status: FollowUpTaskStatus.COMPLETED,
+        completionNotes: notes,
+        completedAt: serverTimestamp(),
+        completedBy,
+        updatedAt: serverTimestamp(),
+        updatedBy: completedBy,
+      });
+      await this.syncIncidentFollowUp(batch, incident, completed, completedBy);
+      await withRetry(() => batch.commit());
+      this.clearCache();
+      cacheService.delete(`incident:${task.incidentId}`);
+
+      telemetryService.trackUsage('follow_up_task_completed', 'FollowUpTaskService', {
+        taskId,
+        overdue: isTaskOverdue(task, now),
+      });
+      return completed;
+    } catch (error) {
+      throw FollowUpTaskServiceError.wrap(error, 'complete-task-failed', 'Failed to complete follow-up task', { taskId });
+    }
+  }
+
+  /**
+   * Cancel an open task that is no longer needed
+   * @param taskId - Task ID
+   * @param reason - Why the task is cancelled
+   * @param cancelledBy - User ID of the person cancelling it (the task's creator, or a user with 'edit-incident')
+   * @returns Promise resolving to the cancelled task
+   * @throws FollowUpTaskServiceError for permission, validation or update failures
+   */
+  public async cancelTask(taskId: string, reason: string, cancelledBy: string): Promise<FollowUpTask> {
+    try {
+      const task = await this.requireOpenTask(taskId);
+      const incident = await this.requireIncident(task.incidentId);
+      await this.assertCanChange(cancelledBy, task, incident, false);
+
+      const cancellationReason = reason?.trim();
+      if (!cancellationReason) {
+        throw new FollowUpTaskServiceError('A reason is required to cancel a task', 'validation-error', { taskId });
+      }
+
+      const now = new Date();
+      const cancelled: FollowUpTask = {
+        ...task,
+        status: FollowUpTaskStatus.CANCELLED,
+        cancellationReason,
+        cancelledAt: now,
+        cancelledBy,
+        updatedAt: now,
+        updatedBy: cancelledBy,
+      };
+
+      const batch = this.createBatch();
+      batch.update(doc(db, this.collectionName, taskId), {
+        status: FollowUpTaskStatus.CANCELLED,
+        cancellationReason,
+        cancelledAt: serverTimestamp(),
+        cancelledBy,
+        updatedAt: serverTimestamp(),
+        updatedBy: cancelledBy,
+      });
+      await this.syncIncidentFollowUp(batch, incident, cancelled, cancelledBy);
+      await withRetry(() => batch.commit());
+      this.clearCache();
+      cacheService.delete(`incident:${task.incidentId}`);
+
+      telemetryService.trackUsage('follow_up_task_cancelled', 'FollowUpTaskService', { taskId });
+      return cancelled;
+    } catch (error) {
+      throw FollowUpTaskServiceError.wrap(error, 'cancel-task-failed', 'Failed to cancel follow-up task', { taskId });
+    }
+  }
+
+  /**
+   * Get the follow-up tasks on an incident, by due date
+   * @param incidentId - Incident ID
+   * @param requestedBy - User ID of the requester
+   * @returns Promise resolving to the incident's tasks, open and closed
+   * @throws FollowUpTaskServiceError if the user cannot view the incident
+   */
+  public async getTasksForIncident(incidentId: string, requestedBy: string): Promise<FollowUpTask[]> {
+    try {
+      const incident = await this.requireIncident(incidentId);
+      const deleted = incident.recordState === IncidentRecordState.DELETED;
+      const allowed = await userService.hasPermission(
+        requestedBy,
+        deleted ? 'manage-deleted-incidents' : 'view-incidents',
+        getIncidentPermissionContext(incident)
+      );
+      if (!allowed) {
+        throw new FollowUpTaskServiceError("Insufficient permissions to view this incident's tasks", 'access-denied', {
+          incidentId,
+        });
+      }
+
+      const tasks: FollowUpTask[] = [];
+      let lastDoc: DocumentSnapshot | undefined;
+      do {
+        const page = await withRetry(() =>
+          this.queryDocuments([
+            where('schoolId', '==', incident.schoolId),
+            where('incidentId', '==', incidentId),
+            orderBy('dueDate', 'asc'),
+          ], ESCALATION_BATCH_SIZE, lastDoc)
+        );
+        tasks.push(...page.items);
+        lastDoc = page.hasMore ? page.lastDoc : undefined;
+      } while (lastDoc);
+      return tasks;
+    } catch (error) {
+      throw FollowUpTaskServiceError.wrap(error, 'get-tasks-failed', 'Failed to get follow-up tasks', { incidentId });
+    }
+  }
+
+  /**
+   * Get a user's open tasks, soonest due first (overdue tasks lead)
+   * @param userId - User ID of the assignee
+   * @param pageSize - Number of tasks per page
+   * @param lastDoc - Last document of the previous page
+   * @returns Promise resolving to a page of the user's open tasks
+   * @throws FollowUpTaskServiceError for fetch failures
+   */
+  public async getMyOpenTasks(
+    userId: string,
+    pageSize: number = 20,
+    lastDoc?: DocumentSnapshot
+  ): Promise<PaginatedFollowUpTasks> {
+    try {
+      const result = await withRetry(() =>
+        this.queryDocuments([
+          where('assigneeId', '==', userId),
+          where('status', '==', FollowUpTaskStatus.OPEN),
+          orderBy('dueDate', 'asc'),
+        ], pageSize, lastDoc)
+      );
+      return { tasks: result.items, hasMore: result.hasMore, lastDoc: result.lastDoc };
+    } catch (error) {
+      throw FollowUpTaskServiceError.wrap(error, 'get-my-tasks-failed', 'Failed to get open tasks', { userId });
+    }
+  }
+
+  /**
+   * Get a school's overdue tasks, most overdue first
+   * @param schoolId - School ID
+   * @param requestedBy - User ID of the requester
+   * @param pageSize - Number of tasks per page
+   * @param lastDoc - Last document of the previous page
+   * @returns Promise resolving to a page of overdue tasks
+   * @throws FollowUpTaskServiceError for permission or fetch failures
+   */
+  public async getOverdueTasks(
+    schoolId: string,
+    requestedBy: string,
+    pageSize: number = 20,
+    lastDoc?: DocumentSnapshot
+  ): Promise<PaginatedFollowUpTasks> {
+    try {
+      const allowed = await userService.hasPermission(requestedBy, 'view-incidents', { schoolId });
+      if (!allowed) {
+        throw new FollowUpTaskServiceError("Insufficient permissions to view the school's tasks", 'access-denied', {
+          schoolId,
+        });
+      }
+
+      const result = await withRetry(() =>
+        this.queryDocuments([
+          where('schoolId', '==', schoolId),
+          where('status', '==', FollowUpTaskStatus.OPEN),
+          where('dueDate', '<', Timestamp.now()),
+          orderBy('dueDate', 'asc'),
+        ], pageSize, lastDoc)
+      );
+      return { tasks: result.items, hasMore: result.hasMore, lastDoc: result.lastDoc };
+    } catch (error) {
+      throw FollowUpTaskServiceError.wrap(error, 'get-overdue-tasks-failed', 'Failed to get overdue tasks', { schoolId });
+    }
+  }
+
+  /**
+   * Escalate a school's tasks that are still open once the grace period after their due date has passed
+   * Each task is escalated once, to every principal of the school; moving its
+   * due date lets it be escalated again. Tasks on deleted incidents are not
+   * escalated. Meant to be run by a scheduler, so there is no permission check.
+   * @param schoolId - School ID
+   * @param now - Current time
+   * @returns Promise resolving to the escalated tasks
+   * @throws FollowUpTaskServiceError for fetch or update failures
+   */
+  public async escalateOverdueTasks(schoolId: string, now: Date = new Date()): Promise<FollowUpTask[]> {
+    try {
+      const { escalationGraceHours } = await this.getFollowUpPolicy(schoolId);
+      const cutoff = new Date(now.getTime() - escalationGraceHours * HOUR_MS);
+
+      const principals = (await userService.getUsersBySchool(schoolId, 'principal')).map(user => user.uid);
+      if (principals.length === 0) {
+        telemetryService.trackUsage('follow_up_escalation_skipped', 'FollowUpTaskService', { schoolId });
+        return [];
+      }
+
+      const escalated: FollowUpTask[] = [];
+      let lastDoc: DocumentSnapshot | undefined;
+      do {
+        const page = await withRetry(() =>
+          this.queryDocuments([
+            where('schoolId', '==', schoolId),
+            where('status', '==', FollowUpTaskStatus.OPEN),
+            where('escalatedAt', '==', null),
+            where('dueDate', '<=', Timestamp.fromDate(cutoff)),
+            orderBy('dueDate', 'asc'),
+          ], ESCALATION_BATCH_SIZE, lastDoc)
+        );
+
+        const batch = this.createBatch();
+        const pageEscalated: FollowUpTask[] = [];
+        for (const task of page.items) {
+          const incident = await disciplineService.getIncident(task.incidentId);
+          if (!incident || incident.recordState === IncidentRecordState.DELETED) {
+            continue;
+          }
+          batch.update(doc(db, this.collectionName, task.id!), {
+            escalatedAt: Timestamp.fromDate(now),
+            escalatedTo: principals,
+            updatedAt: serverTimestamp(),
+          });
+          pageEscalated.push({ ...task, escalatedAt: now, escalatedTo: principals });
+        }
+
+        if (pageEscalated.length > 0) {
+          await withRetry(() => batch.commit());
+          this.clearCache();
+          for (const task of pageEscalated) {
+            await this.notifyPrincipals(task, principals, now);
+          }
+          escalated.push(...pageEscalated);
+        }
+
+        lastDoc = page.hasMore ? page.lastDoc : undefined;
+      } while (lastDoc);
+
+      telemetryService.trackUsage('follow_up_tasks_escalated', 'FollowUpTaskService', {
+        schoolId,
+        escalated: escalated.length,
+        escalationGraceHours,
+      });
+      return escalated;
+    } catch (error) {
+      throw FollowUpTaskServiceError.wrap(error, 'escalate-tasks-failed', 'Failed to escalate overdue tasks', {
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Get a school's follow-up escalation settings
+   * @param schoolId - School ID
+   * @returns Promise resolving to the school's policy (the default grace period when it has none)
+   * @throws FollowUpTaskServiceError for fetch failures
+   */
+  public async getFollowUpPolicy(schoolId: string): Promise<FollowUpPolicy> {
+    try {
+      const policy = await withRetry(() => this.policies.get(schoolId));
+      return policy || { schoolId, escalationGraceHours: DEFAULT_ESCALATION_GRACE_HOURS };
+    } catch (error) {
+      throw FollowUpTaskServiceError.wrap(error, 'fetch-policy-failed', 'Failed to fetch follow-up policy', { schoolId });
+    }
+  }
+
+  /**
+   * Set how long open tasks may be overdue before a school escalates them
+   * @param schoolId - School ID
+   * @param escalationGraceHours - Hours after the due date
+   * @param updatedBy - User ID of the updater
+   * @returns Promise resolving to the updated policy
+   * @throws FollowUpTaskServiceError for permission, validation or update failures
+   */
+  public async updateFollowUpPolicy(
+    schoolId: string,
+    escalationGraceHours: number,
+    updatedBy: string
+  ): Promise<FollowUpPolicy> {
+    try {
+      const hasPermission = await userService.hasPermission(updatedBy, 'manage-school', { schoolId });
+      if (!hasPermission) {
+        throw new FollowUpTaskServiceError('Insufficient permissions to update follow-up policy', 'insufficient-permissions');
+      }
+      if (!Number.isInteger(escalationGraceHours) || escalationGraceHours < 0 || escalationGraceHours > 24 * 30) {
+        throw new FollowUpTaskServiceError(
+          'The escalation grace period must be a whole number of hours, up to 30 days',
+          'validation-error',
+          { schoolId, escalationGraceHours }
+        );
+      }
+
+      // Policies are keyed by school ID
+      return await withRetry(() =>
+        this.policies.put({ schoolId, escalationGraceHours, updatedAt: new Date(), updatedBy })
+      );
+    } catch (error) {
+      throw FollowUpTaskServiceError.wrap(error, 'update-policy-failed', 'Failed to update follow-up policy', {
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Add the incident's follow-up fields to the batch changing a task
+   * followUpRequired is set while the incident has open tasks, and
+   * followUpDate is the earliest due date among them.
+   * @param batch - Batch writing the task change
+   * @param incident - Incident the task is on
+   * @param changed - Task as it is after the change
+   * @param userId - User ID making the change
+   */
+  private async syncIncidentFollowUp(
+    batch: WriteBatch,
+    incident: DisciplineIncident,
+    changed: FollowUpTask,
+    userId: string
+  ): Promise<void> {
+    const page = await withRetry(() =>
+      this.queryDocuments([
+        where('schoolId', '==', incident.schoolId),
+        where('incidentId', '==', incident.id),
+        where('status', '==', FollowUpTaskStatus.OPEN),
+        orderBy('dueDate', 'asc'),
+      ], ESCALATION_BATCH_SIZE)
+    );
+    const openTasks = [
+      ...page.items.filter(task => task.id !== changed.id),
+      ...(changed.status === FollowUpTaskStatus.OPEN ? [changed] : []),
+    ];
+    const followUpRequired = openTasks.length > 0;
+    const followUpDate = followUpRequired
+      ? new Date(Math.min(...openTasks.map(task => task.dueDate.getTime())))
+      : null;
+
+    const changes = diffIncidentFields(incident, { followUpRequired, followUpDate });
+    if (changes.length === 0) {
+      return;
+    }
+    batch.update(doc(db, Collections.INCIDENTS, incident.id!), {
+      followUpRequired,
+      followUpDate: followUpDate ? Timestamp.fromDate(followUpDate) : null,
+      updatedAt: serverTimestamp(),
+      updatedBy: userId,
+    });
+    incidentAuditService.recordInBatch(batch, {
+      incidentId: incident.id!,
+      schoolId: incident.schoolId,
+      operation: IncidentAuditOperation.UPDATE,
+      actorId: userId,
+      changes,
+    });
+  }
+
+  /**
+   * Notify a task's assignee that the task is theirs
+   * Failures are tracked but never fail the task change.
+   * @param task - Saved task
+   * @param incident - Incident the task is on
+   * @param assignedBy - User ID of the person assigning it
+   */
+  private async notifyAssignee(task: FollowUpTask, incident: DisciplineIncident, assignedBy: string): Promise<void> {
+    if (task.assigneeId === assignedBy) {
+      return;
+    }
+    try {
+      await notificationService.notifyUser(
+        task.assigneeId,
+        {
+          subject: `Follow-up task for ${incident.studentName}: ${task.title}`,
+          body: `Due ${task.dueDate.toLocaleDateString()}.${task.description ? ` ${task.description}` : ''}`,
+          severity: incident.severity,
+          data: { incidentId: incident.id, taskId: task.id },
+        },
+        { createdBy: assignedBy, incidentId: incident.id, schoolId: incident.schoolId }
+      );
+    } catch (error) {
+      telemetryService.trackException(error as Error, { method: 'notifyAssignee', taskId: task.id });
+    }
+  }
+
+  /**
+   * Notify a school's principals of an escalated task
+   * Failures are tracked but never undo the escalation.
+   * @param task - Escalated task
+   * @param principals - Principal user IDs
+   * @param now - Time of the escalation
+   */
+  private async notifyPrincipals(task: FollowUpTask, principals: string[], now: Date): Promise<void> {
+    const daysOverdue = Math.floor((now.getTime() - task.dueDate.getTime()) / (24 * HOUR_MS));
+    for (const userId of principals) {
+      try {
+        await notificationService.notifyUser(
+          userId,
+          {
+            subject: `Overdue follow-up for ${task.studentName}: ${task.title}`,
+            body: `Assigned to ${task.assigneeName}, due ${task.dueDate.toLocaleDateString()}` +
+              (daysOverdue > 0 ? ` (${daysOverdue} day${daysOverdue === 1 ? '' : 's'} overdue).` : '.'),
+            data: { incidentId: task.incidentId, taskId: task.id },
+          },
+          { createdBy: 'system', incidentId: task.incidentId, schoolId: task.schoolId }
+        );
+      } catch (error) {
+        telemetryService.trackException(error as Error, { method: 'notifyPrincipals', taskId: task.id, userId });
+      }
+    }
+  }
+
+  /**
+   * Check that a user may create tasks on an incident
+   * @param userId - User ID
+   * @param incident - Incident
+   * @throws FollowUpTaskServiceError if the incident is deleted or the user may not
+   */
+  private async assertCanManage(userId: string, incident: DisciplineIncident): Promise<void> {
+    if (incident.recordState === IncidentRecordState.DELETED) {
+      throw new FollowUpTaskServiceError(
+        'Deleted incidents must be restored before their follow-up tasks change',
+        'incident-deleted',
+        { incidentId: incident.id }
+      );
+    }
+    const allowed = await userService.hasPermission(userId, 'manage-follow-up-tasks', getIncidentPermissionContext(incident));
+    if (!allowed) {
+      throw new FollowUpTaskServiceError('Insufficient permissions to manage follow-up tasks', 'insufficient-permissions', {
+        incidentId: incident.id,
+      });
+    }
+  }
+
+  /**
+   * Check that a user may change a task
+   * The task's creator, and users with 'edit-incident', may change any task
+   * they can manage; its assignee may also work through it.
+   * @param userId - User ID
+   * @param task - Task
+   * @param incident - Incident the task is on
+   * @param assigneeAllowed - Whether the assignee may make the change
+   * @throws FollowUpTaskServiceError if the user may not
+   */
+  private async assertCanChange(
+    userId: string,
+    task: FollowUpTask,
+    incident: DisciplineIncident,
+    assigneeAllowed: boolean
+  ): Promise<void> {
+    await this.assertCanManage(userId, incident);
+    const own = task.createdBy === userId || (assigneeAllowed && task.assigneeId === userId);
+    if (!own && !(await userService.hasPermission(userId, 'edit-incident', getIncidentPermissionContext(incident)))) {
+      throw new FollowUpTaskServiceError('Insufficient permissions to change this task', 'insufficient-permissions', {
+        taskId: task.id,
+      });
+    }
+  }
+
+  /**
+   * Check that a user can be assigned a task on an incident: they must be able to view it
+   * @param userId - User ID of the assignee
+   * @param incident - Incident
+   * @returns Promise resolving to the assignee's display name
+   * @throws FollowUpTaskServiceError if the user cannot be assigned
+   */
+  private async assertCanAssign(userId: string, incident: DisciplineIncident): Promise<string> {
+    const profile = await userService.getUserProfile(userId);
+    const canView = profile &&
+      (await userService.hasPermission(userId, 'view-incidents', getIncidentPermissionContext(incident)));
+    if (!canView) {
+      throw new FollowUpTaskServiceError('Tasks can only be assigned to staff who can view the incident', 'invalid-assignee', {
+        userId,
+        incidentId: incident.id,
+      });
+    }
+    return profile.displayName || profile.email || 'Staff member';
+  }
+
+  /**
+   * Get an incident
+   * @param incidentId - Incident ID
+   * @returns Promise resolving to the incident
+   * @throws FollowUpTaskServiceError if it does not exist
+   */
+  private async requireIncident(incidentId: string): Promise<DisciplineIncident> {
+    const incident = await disciplineService.getIncident(incidentId);
+    if (!incident) {
+      throw new FollowUpTaskServiceError('Incident not found', 'incident-not-found', { incidentId });
+    }
+    return incident;
+  }
+
+  /**
+   * Get a task that is still open
+   * @param taskId - Task ID
+   * @returns Promise resolving to the task
+   * @throws FollowUpTaskServiceError if it does not exist or is completed or cancelled
+   */
+  private async requireOpenTask(taskId: string): Promise<FollowUpTask> {
+    const task = await withRetry(() => this.getDocument(taskId));
+    if (!task) {
+      throw new FollowUpTaskServiceError('Follow-up task not found', 'task-not-found', { taskId });
+    }
+    if (task.status !== FollowUpTaskStatus.OPEN) {
+      throw new FollowUpTaskServiceError(`Follow-up task is already ${task.status}`, 'task-closed', {
+        taskId,
+        status: task.status,
+      });
+    }
+    return task;
+  }
+
+  /**
+   * Map Firestore data to FollowUpTask object
+   * @param id - Document ID
+   * @param data - Firestore document data
+   * @returns FollowUpTask object
+   */
+  protected mapFirestoreToModel(id: string, data: any): FollowUpTask {
+    return {
+      id,
+      incidentId: data.incidentId || '',
+      schoolId: data.schoolId || '',
+      studentId: data.studentId || '',
+      studentName: data.studentName || '',
+      title: data.title || '',
+      description: data.description || undefined,
+      assigneeId: data.assigneeId || '',
+      assigneeName: data.assigneeName || '',
+      dueDate: this.timestampToDate(data.dueDate) || new Date(0),
+      checklist: Array.isArray(data.checklist)
+        ? data.checklist.map((item: any) => ({
+            id: item.id || '',
+            text: item.text || '',
+            done: Boolean(item.done),
+            completedAt: this.timestampToDate(item.completedAt),
+            completedBy: item.completedBy || undefined,
+          }))
+        : [],
+      status: Object.values(FollowUpTaskStatus).includes(data.status) ? data.status : FollowUpTaskStatus.OPEN,
+      completionNotes: data.completionNotes || undefined,
+      completedAt: this.timestampToDate(data.completedAt),
+      completedBy: data.completedBy || undefined,
+      cancellationReason: data.cancellationReason || undefined,
+      cancelledAt: this.timestampToDate(data.cancelledAt),
+      cancelledBy: data.cancelledBy || undefined,
+      escalatedAt: this.timestampToDate(data.escalatedAt),
+      escalatedTo: Array.isArray(data.escalatedTo) ? data.escalatedTo : undefined,
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      createdBy: data.createdBy || '',
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  /**
+   * Map FollowUpTask object to Firestore data
+   * @param model - FollowUpTask object
+   * @returns Firestore data
+   */
+  protected mapModelToFirestore(model: FollowUpTask): any {
+    const { id, createdAt, updatedAt, dueDate, checklist, completedAt, cancelledAt, escalatedAt, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    if (dueDate) {
+      data.dueDate = this.dateToTimestamp(dueDate);
+    }
+    if (checklist) {
+      data.checklist = checklist.map(item => {
+        const stored: Record<string, any> = { id: item.id, text: item.text, done: item.done };
+        if (item.completedAt) {
+          stored.completedAt = this.dateToTimestamp(item.completedAt);
+        }
+        if (item.completedBy) {
+          stored.completedBy = item.completedBy;
+        }
+        return stored;
+      });
+    }
+    if (completedAt) {
+      data.completedAt = this.dateToTimestamp(completedAt);
+    }
+    if (cancelledAt) {
+      data.cancelledAt = this.dateToTimestamp(cancelledAt);
+    }
+    if (escalatedAt) {
+      data.escalatedAt = this.dateToTimestamp(escalatedAt);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Custom error class for follow-up task service errors
+ */
+export class FollowUpTaskServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new FollowUpTaskServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'FollowUpTaskServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in a FollowUpTaskServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns FollowUpTaskServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): FollowUpTaskServiceError {
+    if (error instanceof FollowUpTaskServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new FollowUpTaskServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    if ((error as Error)?.message?.startsWith('Validation failed')) {
+      return new FollowUpTaskServiceError((error as Error).message, 'validation-error', context);
+    }
+
+    return new FollowUpTaskServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const followUpTaskService = FollowUpTaskService.getInstance();
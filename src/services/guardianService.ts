@@ -0,0 +1,737 @@
+/**
+ * Guardian Service for MCC Discipline Tracker
+ *
+ * This service links parent accounts to the students they are guardians of.
+ * Links are many-to-many: a parent may have several children at the school
+ * and a student may have several guardians. Staff invite a guardian by email
+ * for a particular student; the invitation ID is the code sent to the parent,
+ * who accepts it from a parent account with the same (verified) email
+ * address. Accepting creates the guardian link, and parents can then read
+ * only the incidents of the students they are linked to. firestore.rules
+ * enforces the same scoping.
+ *
+ * @fileoverview Guardian invitations and parent-student links
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import {
+  doc,
+  where,
+  writeBatch,
+  serverTimestamp,
+  DocumentSnapshot,
+  FirestoreError,
+  QueryConstraint,
+} from 'firebase/firestore';
+import { db, Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+import { studentService, formatStudentName } from './studentService';
+import { disciplineService, DisciplineIncident, PaginatedIncidents, getStudentIncident } from './disciplineService';
+import { notificationService, DeliveryStatus } from './notificationService';
+import { NotificationChannel } from './notificationProviders';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { validationService } from './base/validationService';
+import { serviceRegistry } from './base/serviceRegistry';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+
+/**
+ * Number of days an invitation can be accepted for
+ */
+export const INVITATION_VALID_DAYS = 14;
+
+/**
+ * Enum for guardian invitation status
+ */
+export enum GuardianInvitationStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  REVOKED = 'revoked',
+}
+
+/**
+ * Enum for guardian link status
+ */
+export enum GuardianLinkStatus {
+  ACTIVE = 'active',
+  REVOKED = 'revoked',
+}
+
+/**
+ * Interface for an invitation for a parent to link their account to a student
+ */
+export interface GuardianInvitation {
+  /** Also the invitation code given to the parent */
+  id?: string;
+  schoolId: string;
+  studentId: string;
+  studentName: string;
+  /** Email address the invitation was sent to, in lowercase */
+  email: string;
+  guardianName: string;
+  /** Relationship to the student (e.g. mother, grandparent) */
+  relationship: string;
+  status: GuardianInvitationStatus;
+  expiresAt: Date;
+  acceptedBy?: string;
+  acceptedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+/**
+ * Input data for inviting a guardian
+ */
+export interface GuardianInvitationInput {
+  email: string;
+  guardianName: string;
+  relationship: string;
+}
+
+/**
+ * Result of inviting a guardian
+ */
+export interface GuardianInvitationResult {
+  invitation: GuardianInvitation;
+  /** Code the parent enters to accept; also included in the invitation email */
+  code: string;
+  /** Whether the invitation email was sent; if not, give the parent the code another way */
+  emailed: boolean;
+}
+
+/**
+ * Interface for a link between a parent account and a student
+ * The document ID is `${guardianUserId}_${studentId}`, so access rules can check it directly.
+ */
+export interface GuardianLink {
+  id?: string;
+  schoolId: string;
+  studentId: string;
+  studentName: string;
+  guardianUserId: string;
+  relationship: string;
+  /** Invitation accepted to create (or restore) the link */
+  invitationId: string;
+  status: GuardianLinkStatus;
+  /** When the parent verified the link by accepting the invitation */
+  verifiedAt: Date;
+  revokedAt?: Date;
+  revokedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+/**
+ * Get the document ID of the link between a parent and a student
+ * @param guardianUserId - Parent's user ID
+ * @param studentId - Student ID
+ * @returns Link document ID
+ */
+export const guardianLinkId = (guardianUserId: string, studentId: string): string =>
+  `${guardianUserId}_${studentId}`;
+
+/**
+ * Persistence for guardian links
+ */
+class GuardianLinkStore extends FirestoreService<GuardianLink> {
+  protected collectionName = Collections.GUARDIAN_LINKS;
+
+  public get(linkId: string): Promise<GuardianLink | null> {
+    return this.getDocument(linkId);
+  }
+
+  public update(linkId: string, updates: Partial<GuardianLink>): Promise<GuardianLink> {
+    return this.updateDocument(linkId, updates).finally(() => this.clearCache());
+  }
+
+  public async findAll(constraints: QueryConstraint[]): Promise<GuardianLink[]> {
+    const links: GuardianLink[] = [];
+    let hasMore = true;
+    let lastDoc: DocumentSnapshot | undefined;
+
+    while (hasMore) {
+      const result = await this.queryDocuments(constraints, 100, lastDoc);
+      links.push(...result.items);
+      hasMore = result.hasMore;
+      lastDoc = result.lastDoc;
+    }
+
+    return links;
+  }
+
+  /**
+   * Convert a link to Firestore data, for writes outside the store
+   * @param link - Link
+   * @returns Firestore data
+   */
+  public toFirestore(link: Omit<GuardianLink, 'id'>): any {
+    return this.mapModelToFirestore(link as GuardianLink);
+  }
+
+  /**
+   * Forget cached links after they are changed outside the store
+   */
+  public invalidate(): void {
+    this.clearCache();
+  }
+
+  protected mapFirestoreToModel(id: string, data: any): GuardianLink {
+    return {
+      id,
+      schoolId: data.schoolId || '',
+      studentId: data.studentId || '',
+      studentName: data.studentName || '',
+      guardianUserId: data.guardianUserId || '',
+      relationship: data.relationship || '',
+      invitationId: data.invitationId || '',
+      status: data.status || GuardianLinkStatus.ACTIVE,
+      verifiedAt: this.timestampToDate(data.verifiedAt) || data.verifiedAt || new Date(),
+      revokedAt: this.timestampToDate(data.revokedAt),
+      revokedBy: data.revokedBy || undefined,
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      createdBy: data.createdBy || '',
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  protected mapModelToFirestore(model: GuardianLink): any {
+    const { id, createdAt, updatedAt, verifiedAt, revokedAt, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    if (verifiedAt) {
+      data.verifiedAt = this.dateToTimestamp(verifiedAt);
+    }
+    if (revokedAt) {
+      data.revokedAt = this.dateToTimestamp(revokedAt);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Guardian service class providing invitations, parent-student links and parent access checks
+ */
+export class GuardianService extends FirestoreService<GuardianInvitation> {
+  private static instance: GuardianService;
+  protected collectionName = Collections.GUARDIAN_INVITATIONS;
+  private readonly links = new GuardianLinkStore();
+
+  /**
+   * Singleton pattern implementation
+   * @returns GuardianService instance
+   */
+  public static getInstance(): GuardianService {
+    if (!GuardianService.instance) {
+      GuardianService.instance = new GuardianService();
+      // Register with service registry
+      serviceRegistry.registerInstance('guardianService', GuardianService.instance);
+    }
+    return GuardianService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'GuardianService');
+  }
+
+  /**
+   * Invite a parent to link their account to a student
+   * The invitation is emailed to the parent when an email provider is
+   * registered; the returned code can also be given to them directly.
+   * @param studentId - Student ID
+   * @param input - Guardian's email, name and relationship to the student
+   * @param invitedBy - User ID of the staff member sending the invitation
+   * @param now - Current time (defaults to now)
+   * @returns Promise resolving to the invitation, its code and whether it was emailed
+   * @throws GuardianServiceError for permission, validation or creation failures
+   */
+  public async inviteGuardian(
+    studentId: string,
+    input: GuardianInvitationInput,
+    invitedBy: string,
+    now: Date = new Date()
+  ): Promise<GuardianInvitationResult> {
+    try {
+      await this.assertPermission(invitedBy, 'manage-guardians');
+
+      const student = await studentService.getStudent(studentId);
+      if (!student) {
+        throw new GuardianServiceError('Student not found', 'student-not-found', { studentId });
+      }
+
+      const invitationData: Omit<GuardianInvitation, 'id'> = {
+        schoolId: student.schoolId,
+        studentId,
+        studentName: formatStudentName(student),
+        email: input.email.trim().toLowerCase(),
+        guardianName: input.guardianName.trim(),
+        relationship: input.relationship.trim(),
+        status: GuardianInvitationStatus.PENDING,
+        expiresAt: new Date(now.getTime() + INVITATION_VALID_DAYS * 24 * 60 * 60 * 1000),
+        createdAt: now,
+        updatedAt: now,
+        createdBy: invitedBy,
+        updatedBy: invitedBy,
+      };
+      validationService.validateOrThrow('guardianInvitation', invitationData);
+
+      const invitation = await withRetry(() => this.createDocument(invitationData));
+      this.clearCache();
+
+      const code = invitation.id!;
+      let emailed = false;
+      try {
+        const delivery = await notificationService.sendNotification(
+          {
+            channel: NotificationChannel.EMAIL,
+            recipient: invitation.email,
+            subject: `Link your account to ${invitation.studentName}`,
+            body:
+              `Dear ${invitation.guardianName},\n\n` +
+              `You have been invited to follow ${invitation.studentName}'s discipline record in the MCC Discipline Tracker app. ` +
+              `Sign in to the app as a parent with this email address and enter the code below.\n\n` +
+              `Invitation code: ${code}\n\n` +
+              `This code expires on ${invitation.expiresAt.toDateString()}.`,
+          },
+          { createdBy: invitedBy, schoolId: invitation.schoolId }
+        );
+        emailed = delivery.status === DeliveryStatus.SENT;
+      } catch (error) {
+        console.error('Error emailing guardian invitation:', error);
+      }
+
+      telemetryService.trackUsage('guardian_invited', 'GuardianService', {
+        invitationId: code,
+        studentId,
+        emailed,
+      });
+
+      return { invitation, code, emailed };
+    } catch (error) {
+      throw GuardianServiceError.wrap(error, 'invite-guardian-failed', 'Failed to invite guardian', { studentId });
+    }
+  }
+
+  /**
+   * Accept an invitation, linking the parent's account to the student
+   * The parent's account email must match the invited address; Firestore
+   * rules also require it to be verified.
+   * @param code - Invitation code
+   * @param userId - User ID of the parent accepting
+   * @param now - Current time (defaults to now)
+   * @returns Promise resolving to the guardian link
+   * @throws GuardianServiceError if the invitation cannot be accepted by this user
+   */
+  public async acceptInvitation(code: string, userId: string, now: Date = new Date()): Promise<GuardianLink> {
+    try {
+      const invitation = await withRetry(() => this.getDocument(code.trim()));
+      if (!invitation) {
+        throw new GuardianServiceError('Invitation not found', 'invitation-not-found');
+      }
+      if (invitation.status !== GuardianInvitationStatus.PENDING) {
+        throw new GuardianServiceError(`Invitation has been ${invitation.status}`, 'invitation-not-pending', {
+          invitationId: invitation.id,
+        });
+      }
+      if (invitation.expiresAt.getTime() < now.getTime()) {
+        throw new GuardianServiceError('Invitation has expired', 'invitation-expired', { invitationId: invitation.id });
+      }
+
+      const user = await userService.getUserProfile(userId);
+      if (!user || user.role !== 'parent') {
+        throw new GuardianServiceError('Only parent accounts can accept guardian invitations', 'not-a-parent', {
+          userId,
+        });
+      }
+      if ((user.email || '').toLowerCase() !== invitation.email) {
+        throw new GuardianServiceError(
+          'This invitation was sent to a different email address',
+          'invitation-email-mismatch',
+          { invitationId: invitation.id }
+        );
+      }
+
+      const linkId = guardianLinkId(userId, invitation.studentId);
+      const existing = await withRetry(() => this.links.get(linkId));
+      const link: Omit<GuardianLink, 'id'> = {
+        schoolId: invitation.schoolId,
+        studentId: invitation.studentId,
+        studentName: invitation.studentName,
+        guardianUserId: userId,
+        relationship: invitation.relationship,
+        invitationId: invitation.id!,
+        status: GuardianLinkStatus.ACTIVE,
+        verifiedAt: now,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        createdBy: existing?.createdBy || userId,
+        updatedBy: userId,
+      };
+
+      // The link and the accepted invitation are written together; the rules check one against the other
+      const batch = writeBatch(db);
+      batch.set(doc(db, Collections.GUARDIAN_LINKS, linkId), {
+        ...this.links.toFirestore(link),
+        verifiedAt: serverTimestamp(),
+        createdAt: existing ? this.dateToTimestamp(existing.createdAt) : serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      batch.update(doc(db, Collections.GUARDIAN_INVITATIONS, invitation.id!), {
+        status: GuardianInvitationStatus.ACCEPTED,
+        acceptedBy: userId,
+        acceptedAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+        updatedBy: userId,
+      });
+      await withRetry(() => batch.commit());
+      this.clearCache();
+      this.links.invalidate();
+
+      telemetryService.trackUsage('guardian_invitation_accepted', 'GuardianService', {
+        invitationId: invitation.id,
+        studentId: invitation.studentId,
+      });
+
+      return { ...link, id: linkId };
+    } catch (error) {
+      throw GuardianServiceError.wrap(error, 'accept-invitation-failed', 'Failed to accept invitation');
+    }
+  }
+
+  /**
+   * Revoke an invitation that has not been accepted
+   * @param invitationId - Invitation ID
+   * @param revokedBy - User ID of the staff member revoking it
+   * @returns Promise resolving to the revoked invitation
+   * @throws GuardianServiceError for permission or update failures
+   */
+  public async revokeInvitation(invitationId: string, revokedBy: string): Promise<GuardianInvitation> {
+    try {
+      await this.assertPermission(revokedBy, 'manage-guardians');
+
+      const invitation = await withRetry(() => this.getDocument(invitationId));
+      if (!invitation) {
+        throw new GuardianServiceError('Invitation not found', 'invitation-not-found', { invitationId });
+      }
+      if (invitation.status !== GuardianInvitationStatus.PENDING) {
+        throw new GuardianServiceError(`Invitation has been ${invitation.status}`, 'invitation-not-pending', {
+          invitationId,
+        });
+      }
+
+      const revoked = await withRetry(() =>
+        this.updateDocument(invitationId, { status: GuardianInvitationStatus.REVOKED, updatedBy: revokedBy })
+      );
+      this.clearCache();
+      return revoked;
+    } catch (error) {
+      throw GuardianServiceError.wrap(error, 'revoke-invitation-failed', 'Failed to revoke invitation', {
+        invitationId,
+      });
+    }
+  }
+
+  /**
+   * Remove a parent's access to a student
+   * @param guardianUserId - Parent's user ID
+   * @param studentId - Student ID
+   * @param revokedBy - User ID of the staff member revoking access
+   * @returns Promise resolving to the revoked link
+   * @throws GuardianServiceError for permission or update failures
+   */
+  public async revokeGuardianLink(guardianUserId: string, studentId: string, revokedBy: string): Promise<GuardianLink> {
+    const linkId = guardianLinkId(guardianUserId, studentId);
+    try {
+      await this.assertPermission(revokedBy, 'manage-guardians');
+
+      const link = await withRetry(() => this.links.get(linkId));
+      if (!link || link.status !== GuardianLinkStatus.ACTIVE) {
+        throw new GuardianServiceError('Guardian link not found', 'guardian-link-not-found', { linkId });
+      }
+
+      const revoked = await withRetry(() =>
+        this.links.update(linkId, {
+          status: GuardianLinkStatus.REVOKED,
+          revokedAt: new Date(),
+          revokedBy,
+          updatedBy: revokedBy,
+        })
+      );
+
+      telemetryService.trackUsage('guardian_link_revoked', 'GuardianService', { studentId });
+      return revoked;
+    } catch (error) {
+      throw GuardianServiceError.wrap(error, 'revoke-guardian-link-failed', 'Failed to revoke guardian link', {
+        linkId,
+      });
+    }
+  }
+
+  /**
+   * Get the pending and past invitations for a student
+   * @param studentId - Student ID
+   * @returns Promise resolving to the student's invitations
+   * @throws GuardianServiceError for fetch failures
+   */
+  public async getInvitationsForStudent(studentId: string): Promise<GuardianInvitation[]> {
+    try {
+      const result = await withRetry(() => this.queryDocuments([where('studentId', '==', studentId)], 100));
+      return result.items;
+    } catch (error) {
+      throw GuardianServiceError.wrap(error, 'get-invitations-failed', 'Failed to get invitations', { studentId });
+    }
+  }
+
+  /**
+   * Get the active guardian links of a student
+   * @param studentId - Student ID
+   * @returns Promise resolving to the student's guardians
+   * @throws GuardianServiceError for fetch failures
+   */
+  public async getGuardiansOfStudent(studentId: string): Promise<GuardianLink[]> {
+    try {
+      return await withRetry(() =>
+        this.links.findAll([where('studentId', '==', studentId), where('status', '==', GuardianLinkStatus.ACTIVE)])
+      );
+    } catch (error) {
+      throw GuardianServiceError.wrap(error, 'get-guardians-failed', 'Failed to get guardians', { studentId });
+    }
+  }
+
+  /**
+   * Get the active guardian links of a parent, one per child
+   * @param guardianUserId - Parent's user ID
+   * @returns Promise resolving to the parent's links
+   * @throws GuardianServiceError for fetch failures
+   */
+  public async getChildrenOfGuardian(guardianUserId: string): Promise<GuardianLink[]> {
+    try {
+      return await withRetry(() =>
+        this.links.findAll([
+          where('guardianUserId', '==', guardianUserId),
+          where('status', '==', GuardianLinkStatus.ACTIVE),
+        ])
+      );
+    } catch (error) {
+      throw GuardianServiceError.wrap(error, 'get-children-failed', 'Failed to get linked students', {
+        guardianUserId,
+      });
+    }
+  }
+
+  /**
+   * Check whether a parent has an active link to a student
+   * @param guardianUserId - Parent's user ID
+   * @param studentId - Student ID
+   * @returns Promise resolving to true if the parent may see the student's records
+   */
+  public async isGuardianOf(guardianUserId: string, studentId: string): Promise<boolean> {
+    try {
+      const link = await withRetry(() => this.links.get(guardianLinkId(guardianUserId, studentId)));
+      return link?.status === GuardianLinkStatus.ACTIVE;
+    } catch (error) {
+      console.error('Error checking guardian link:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a parent has an active link to any student on an incident
+   * @param guardianUserId - Parent's user ID
+   * @param incident - Incident
+   * @returns Promise resolving to true if the parent may see the incident
+   */
+  public async isGuardianOfParticipant(
+    guardianUserId: string,
+    incident: Pick<DisciplineIncident, 'studentId' | 'participantIds'>
+  ): Promise<boolean> {
+    const studentIds = Array.from(new Set([incident.studentId, ...(incident.participantIds || [])]));
+    const linked = await Promise.all(studentIds.map(studentId => this.isGuardianOf(guardianUserId, studentId)));
+    return linked.some(Boolean);
+  }
+
+  /**
+   * Get a child's incidents for their parent
+   * @param guardianUserId - Parent's user ID
+   * @param studentId - Student ID
+   * @param pageSize - Number of incidents per page
+   * @param lastDoc - Last document of the previous page
+   * @returns Promise resolving to a page of the student's incidents
+   * @throws GuardianServiceError if the parent is not linked to the student
+   */
+  public async getChildIncidents(
+    guardianUserId: string,
+    studentId: string,
+    pageSize: number = 20,
+    lastDoc?: DocumentSnapshot
+  ): Promise<PaginatedIncidents> {
+    try {
+      const link = await withRetry(() => this.links.get(guardianLinkId(guardianUserId, studentId)));
+      if (link?.status !== GuardianLinkStatus.ACTIVE) {
+        throw new GuardianServiceError("You can only view your own children's incidents", 'access-denied', {
+          studentId,
+        });
+      }
+
+      // Parents see every incident their child was involved in, as in firestore.rules
+      const page = await disciplineService.searchIncidents(
+        { schoolId: link.schoolId, studentId },
+        pageSize,
+        lastDoc
+      );
+      // Parents see their own child's part in each incident, not the other students' consequences.
+      // Staff-only comments are for staff only; internal notes are never loaded with incidents
+      return {
+        ...page,
+        incidents: page.incidents.flatMap(incident => {
+          const childIncident = getStudentIncident(incident, studentId);
+          return childIncident
+            ? [{ ...childIncident, commentCount: incident.parentCommentCount, lastCommentAt: incident.lastParentCommentAt }]
+            : [];
+        }),
+      };
+    } catch (error) {
+      throw GuardianServiceError.wrap(error, 'get-child-incidents-failed', 'Failed to get incidents', { studentId });
+    }
+  }
+
+  /**
+   * Check that a user may perform an action
+   * @param userId - User ID
+   * @param action - Permission to check
+   * @throws GuardianServiceError if the user lacks the permission
+   */
+  private async assertPermission(userId: string, action: string): Promise<void> {
+    const hasPermission = await userService.hasPermission(userId, action);
+    if (!hasPermission) {
+      throw new GuardianServiceError(`Insufficient permissions to ${action.replace(/-/g, ' ')}`, 'insufficient-permissions');
+    }
+  }
+
+  /**
+   * Map Firestore data to GuardianInvitation object
+   * @param id - Document ID
+   * @param data - Firestore document data
+   * @returns GuardianInvitation object
+   */
+  protected mapFirestoreToModel(id: string, data: any): GuardianInvitation {
+    return {
+      id,
+      schoolId: data.schoolId || '',
+      studentId: data.studentId || '',
+      studentName: data.studentName || '',
+      email: data.email || '',
+      guardianName: data.guardianName || '',
+      relationship: data.relationship || '',
+      status: data.status || GuardianInvitationStatus.PENDING,
+      expiresAt: this.timestampToDate(data.expiresAt) || data.expiresAt || new Date(0),
+      acceptedBy: data.acceptedBy || undefined,
+      acceptedAt: this.timestampToDate(data.acceptedAt),
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      createdBy: data.createdBy || '',
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  /**
+   * Map GuardianInvitation object to Firestore data
+   * @param model - GuardianInvitation object
+   * @returns Firestore data
+   */
+  protected mapModelToFirestore(model: GuardianInvitation): any {
+    const { id, createdAt, updatedAt, expiresAt, acceptedAt, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    if (expiresAt) {
+      data.expiresAt = this.dateToTimestamp(expiresAt);
+    }
+    if (acceptedAt) {
+      data.acceptedAt = this.dateToTimestamp(acceptedAt);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Custom error class for guardian service errors
+ */
+export class GuardianServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new GuardianServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'GuardianServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in a GuardianServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns GuardianServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): GuardianServiceError {
+    if (error instanceof GuardianServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new GuardianServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    if ((error as Error)?.message?.startsWith('Validation failed')) {
+      return new GuardianServiceError((error as Error).message, 'validation-error', context);
+    }
+
+    return new GuardianServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const guardianService = GuardianService.getInstance();
@@ -0,0 +1,256 @@
+// Test file for incidentAttachmentService.ts
+// Uploads, downloads and visibility checks run against the local storage
+// adapter and an in-memory Firestore, so no cloud bucket or project is needed
+
+import {
+  incidentAttachmentService,
+  AttachmentVisibility,
+  AttachmentStatus,
+  MAX_ATTACHMENT_SIZE,
+  IncidentAttachmentServiceError,
+} from './incidentAttachmentService';
+import { LocalAttachmentStorage } from './attachmentStorage';
+import { DisciplineIncident, IncidentRecordState } from './disciplineService';
+import { withServiceTest, expectServiceError, ServiceTestContext } from './test-utils/serviceTestHarness';
+import { encodePng } from './base/pngImage';
+import { Collections } from '../config/firebaseConfig';
+
+// Teacher T1 reported the incident about S1; P1 is S1's parent and X1 is someone else's
+const setup = {
+  services: [incidentAttachmentService],
+  incidents: [{
+    id: 'INC1',
+    schoolId: 'MCC',
+    studentId: 'S1',
+    participantIds: ['S1'],
+    teacherId: 'T1',
+    incidentType: 'disruption',
+    severity: 'low',
+    attachments: [],
+    recordState: IncidentRecordState.ACTIVE,
+  } as unknown as DisciplineIncident],
+  users: {
+    T1: { role: 'teacher' as const, permissions: ['view-incidents', 'update-incident'] },
+    T2: { role: 'teacher' as const, permissions: ['view-incidents'] },
+    P1: { role: 'parent' as const, permissions: [] },
+    X1: { role: 'parent' as const, permissions: [] },
+  },
+  guardians: { P1: ['S1'] },
+};
+
+const png = encodePng({ width: 4, height: 4, pixels: new Uint8Array(4 * 4 * 4).fill(200) });
+const text = (contents: string) => new TextEncoder().encode(contents);
+
+const expectFailure = (promise: Promise<unknown>, code: string) =>
+  expectServiceError(promise, IncidentAttachmentServiceError, code);
+
+/**
+ * Run a test with attachments kept in local storage
+ * @param test - Test body, given the local storage and the test context
+ * @returns Result of the test
+ */
+async function withLocalAttachments<R>(test: (storage: LocalAttachmentStorage, context: ServiceTestContext) => Promise<R>) {
+  return withServiceTest(setup, context => {
+    const originalStorage = incidentAttachmentService.getStorage();
+    const storage = new LocalAttachmentStorage();
+    incidentAttachmentService.setStorage(storage);
+    context.onCleanup(() => incidentAttachmentService.setStorage(originalStorage));
+    return test(storage, context);
+  });
+}
+
+/**
+ * Test that files over the size limit, or whose contents don't match their type, are refused
+ */
+async function testUploadLimits() {
+  try {
+    return await withLocalAttachments(async storage => {
+      await expectFailure(
+        incidentAttachmentService.uploadAttachment('INC1', { fileName: 'empty.txt', mimeType: 'text/plain', data: new Uint8Array(0) }, 'T1'),
+        'file-too-large'
+      );
+      await expectFailure(
+        incidentAttachmentService.uploadAttachment(
+          'INC1',
+          { fileName: 'huge.txt', mimeType: 'text/plain', data: new Uint8Array(MAX_ATTACHMENT_SIZE + 1).fill(0x41) },
+          'T1'
+        ),
+        'file-too-large'
+      );
+      await expectFailure(
+        incidentAttachmentService.uploadAttachment('INC1', { fileName: 'photo.png', mimeType: 'image/png', data: text('not an image') }, 'T1'),
+        'file-type-mismatch'
+      );
+      await expectFailure(
+        incidentAttachmentService.uploadAttachment('INC1', { fileName: 'notes.zip', mimeType: 'application/zip', data: text('PK') }, 'T1'),
+        'validation-error'
+      );
+      // T2 can view the incident but did not report it
+      await expectFailure(
+        incidentAttachmentService.uploadAttachment('INC1', { fileName: 'notes.txt', mimeType: 'text/plain', data: text('notes') }, 'T2'),
+        'insufficient-permissions'
+      );
+
+      if (storage.files.size !== 0) {
+        throw new Error('Refused uploads should not store any files');
+      }
+      console.log('Empty, oversized, mismatched and unpermitted uploads were refused');
+    });
+  } catch (error) {
+    console.error('Upload limits test failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Test that an upload stores the file and its thumbnail and updates the incident
+ */
+async function testUploadToLocalStorage() {
+  try {
+    return await withLocalAttachments(async (storage, { firestore }) => {
+      // A transient storage failure is retried
+      storage.failNext(1, 'unavailable');
+      const attachment = await incidentAttachmentService.uploadAttachment(
+        'INC1',
+        { fileName: ' photo.PNG ', mimeType: 'IMAGE/PNG', data: png },
+        'T1'
+      );
+
+      if (attachment.fileName !== 'photo.PNG' || attachment.mimeType !== 'image/png' || attachment.size !== png.length) {
+        throw new Error(`Upload should record the file details: ${JSON.stringify(attachment)}`);
+      }
+      if (attachment.visibility !== AttachmentVisibility.STAFF || attachment.width !== 4 || !attachment.thumbnailPath) {
+        throw new Error('Image uploads should be staff-only by default and get a thumbnail');
+      }
+      const stored = storage.files.get(attachment.storagePath);
+      if (!stored || stored.contentType !== 'image/png' || stored.data.length !== png.length || !storage.files.has(attachment.thumbnailPath)) {
+        throw new Error('The file and its thumbnail should be in local storage');
+      }
+      if (firestore.get(Collections.INCIDENT_ATTACHMENTS, attachment.id!)?.status !== AttachmentStatus.ACTIVE) {
+        throw new Error('The attachment record should be saved');
+      }
+      if (firestore.get(Collections.INCIDENTS, 'INC1')?.attachments.join() !== attachment.id) {
+        throw new Error("The attachment should be added to the incident's list");
+      }
+      const audit = firestore.list(Collections.INCIDENT_AUDIT_LOG);
+      if (audit.length !== 1 || audit[0].actorId !== 'T1') {
+        throw new Error('The upload should be recorded in the audit log');
+      }
+
+      // The same file cannot be attached twice
+      await expectFailure(
+        incidentAttachmentService.uploadAttachment('INC1', { fileName: 'copy.png', mimeType: 'image/png', data: png }, 'T1'),
+        'duplicate-attachment'
+      );
+      console.log('Uploaded', attachment.fileName, 'to', storage.name, 'storage at', attachment.storagePath);
+
+      return attachment;
+    });
+  } catch (error) {
+    console.error('Local storage upload test failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Test that files are removed when the attachment record cannot be saved
+ */
+async function testUploadCleanup() {
+  try {
+    return await withLocalAttachments(async (storage, { firestore }) => {
+      firestore.failNextCommit(new Error('Simulated write failure'));
+      await expectFailure(
+        incidentAttachmentService.uploadAttachment('INC1', { fileName: 'photo.png', mimeType: 'image/png', data: png }, 'T1'),
+        'upload-attachment-failed'
+      );
+
+      if (storage.files.size !== 0 || firestore.list(Collections.INCIDENT_ATTACHMENTS).length !== 0) {
+        throw new Error(`Files of an unsaved attachment should be removed: ${Array.from(storage.files.keys())}`);
+      }
+      console.log('Files were removed after the attachment failed to save');
+    });
+  } catch (error) {
+    console.error('Upload cleanup test failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Test that parents only see attachments made visible to them
+ */
+async function testAttachmentVisibility() {
+  try {
+    return await withLocalAttachments(async () => {
+      const statement = await incidentAttachmentService.uploadAttachment(
+        'INC1',
+        { fileName: 'statement.txt', mimeType: 'text/plain', data: text('Witness statement') },
+        'T1'
+      );
+      const letter = await incidentAttachmentService.uploadAttachment(
+        'INC1',
+        { fileName: 'letter.pdf', mimeType: 'application/pdf', data: text('%PDF-1.4 letter'), visibility: AttachmentVisibility.PARENT },
+        'T1'
+      );
+
+      const staffView = await incidentAttachmentService.getAttachments('INC1', 'T2');
+      const parentView = await incidentAttachmentService.getAttachments('INC1', 'P1');
+      if (staffView.length !== 2 || parentView.map(attachment => attachment.id).join() !== letter.id) {
+        throw new Error(`Staff should see every attachment and parents only the shared one: ${parentView.length}`);
+      }
+      await expectFailure(incidentAttachmentService.getAttachments('INC1', 'X1'), 'access-denied');
+
+      // Downloads are checked the same way
+      const content = await incidentAttachmentService.getAttachmentContent(letter.id!, 'P1');
+      if (new TextDecoder().decode(content.data) !== '%PDF-1.4 letter' || content.contentType !== 'application/pdf') {
+        throw new Error('Parents should be able to download shared attachments');
+      }
+      await expectFailure(incidentAttachmentService.getAttachmentContent(statement.id!, 'P1'), 'access-denied');
+
+      // Sharing an attachment makes it visible to parents
+      await incidentAttachmentService.setVisibility(statement.id!, AttachmentVisibility.PARENT, 'T1');
+      const shared = await incidentAttachmentService.getAttachments('INC1', 'P1');
+      if (shared.length !== 2) {
+        throw new Error('Shared attachments should become visible to parents');
+      }
+      console.log('Staff see', staffView.length, 'attachments; parents see', parentView.length, 'then', shared.length);
+
+      return shared;
+    });
+  } catch (error) {
+    console.error('Attachment visibility test failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run all tests
+ */
+async function runAllTests() {
+  console.log('===== INCIDENT ATTACHMENT SERVICE TESTS =====');
+
+  console.log('\n----- Upload Limits Test -----');
+  await testUploadLimits();
+
+  console.log('\n----- Local Storage Upload Test -----');
+  await testUploadToLocalStorage();
+
+  console.log('\n----- Upload Cleanup Test -----');
+  await testUploadCleanup();
+
+  console.log('\n----- Attachment Visibility Test -----');
+  await testAttachmentVisibility();
+
+  console.log('\n===== ALL TESTS COMPLETED =====');
+}
+
+// Uncomment to run all tests
+// runAllTests().catch(error => console.error('Test suite failed:', error));
+
+// Export test functions for individual use
+export {
+  testUploadLimits,
+  testUploadToLocalStorage,
+  testUploadCleanup,
+  testAttachmentVisibility,
+  runAllTests
+};
@@ -0,0 +1,980 @@
+/**
+ * Incident Attachment Service for MCC Discipline Tracker
+ *
+ * This service stores evidence attached to discipline incidents: photos,
+ * scanned documents and written statements. Each upload is checked against
+ * the allowed file types (by its content, not just its name) and the size
+ * limit, fingerprinted with SHA-256 so the same file is not attached twice,
+ * and given a thumbnail when it is an image. Attachments are staff-only
+ * unless made visible to parents, who can then see them on their child's
+ * incidents.
+ *
+ * Files live in an AttachmentStorage adapter (Firebase Cloud Storage in the
+ * app, LocalAttachmentStorage in tests). Attachments follow their incident:
+ * they are hidden while it is in the recycle bin and come back when it is
+ * restored. A deleted attachment can be restored for
+ * DELETED_ATTACHMENT_RETENTION_DAYS, after which purgeExpiredAttachments
+ * removes its files and keeps only the record of what was attached.
+ *
+ * @fileoverview Evidence attachments for discipline incidents
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import {
+  doc,
+  collection,
+  where,
+  orderBy,
+  serverTimestamp,
+  arrayUnion,
+  arrayRemove,
+  DocumentSnapshot,
+  FirestoreError,
+  WriteBatch,
+} from 'firebase/firestore';
+import { db, Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+import { disciplineService, DisciplineIncident, IncidentRecordState } from './disciplineService';
+import { guardianService } from './guardianService';
+import { getIncidentPermissionContext } from './permissionPolicyService';
+import { incidentAuditService, IncidentAuditOperation, diffIncidentFields } from './incidentAuditService';
+import { AttachmentStorage, FirebaseAttachmentStorage } from './attachmentStorage';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { validationService } from './base/validationService';
+import { serviceRegistry } from './base/serviceRegistry';
+import { cacheService } from './base/cacheService';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+import { sha256 } from './base/sha256';
+import { isPng, decodePng, resizeToFit, encodePng } from './base/pngImage';
+
+/**
+ * Largest file that can be attached, in bytes
+ */
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * File types that can be attached
+ */
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/heic',
+  'application/pdf',
+  'text/plain',
+] as const;
+
+/**
+ * Largest width or height of a thumbnail, in pixels
+ */
+export const THUMBNAIL_SIZE = 256;
+
+/**
+ * Days a deleted attachment can be restored before its files are removed
+ */
+export const DELETED_ATTACHMENT_RETENTION_DAYS = 30;
+
+/**
+ * Attachments purged per batch
+ */
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * Who can see an attachment
+ */
+export enum AttachmentVisibility {
+  /** Staff who can view the incident */
+  STAFF = 'staff',
+  /** Staff, and guardians of the students involved */
+  PARENT = 'parent',
+}
+
+/**
+ * Enum for attachment status
+ */
+export enum AttachmentStatus {
+  ACTIVE = 'active',
+  /** Deleted and restorable until the retention period ends */
+  DELETED = 'deleted',
+  /** Files removed; only the record remains */
+  PURGED = 'purged',
+}
+
+/**
+ * Interface for a file attached to an incident
+ */
+export interface IncidentAttachment {
+  id?: string;
+  incidentId: string;
+  schoolId: string;
+  fileName: string;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+  /** SHA-256 of the file contents, as lowercase hex */
+  sha256: string;
+  visibility: AttachmentVisibility;
+  status: AttachmentStatus;
+  storagePath: string;
+  thumbnailPath?: string;
+  thumbnailMimeType?: string;
+  /** Image dimensions, when known */
+  width?: number;
+  height?: number;
+  uploadedBy: string;
+  uploadedAt: Date;
+  deletedAt?: Date;
+  deletedBy?: string;
+  purgedAt?: Date;
+  updatedAt: Date;
+  updatedBy: string;
+}
+
+/**
+ * A file to attach
+ */
+export interface AttachmentUpload {
+  fileName: string;
+  mimeType: string;
+  data: Uint8Array;
+  /** Defaults to staff-only */
+  visibility?: AttachmentVisibility;
+}
+
+/**
+ * An attachment with its file contents
+ */
+export interface AttachmentContent {
+  attachment: IncidentAttachment;
+  data: Uint8Array;
+  contentType: string;
+}
+
+/**
+ * A thumbnail made from an image
+ */
+export interface GeneratedThumbnail {
+  data: Uint8Array;
+  contentType: string;
+  /** Size of the original image */
+  width: number;
+  height: number;
+}
+
+/**
+ * Interface implemented by thumbnail generators
+ * A PNG generator is built in; generators for other image formats (for
+ * example one backed by expo-image-manipulator) can be registered.
+ */
+export interface ThumbnailGenerator {
+  /** Image types the generator reads */
+  readonly mimeTypes: string[];
+  /**
+   * Make a thumbnail
+   * @param data - Image file contents
+   * @param maxSize - Largest width or height of the thumbnail
+   * @returns Promise resolving to the thumbnail
+   */
+  generate(data: Uint8Array, maxSize: number): Promise<GeneratedThumbnail>;
+}
+
+/**
+ * Built-in generator for PNG images
+ */
+export const pngThumbnailGenerator: ThumbnailGenerator = {
+  mimeTypes: ['image/png'],
+  generate: async (data, maxSize) => {
+    const image = decodePng(data);
+    return {
+      data: encodePng(resizeToFit(image, maxSize)),
+      contentType: 'image/png',
+      width: image.width,
+      height: image.height,
+    };
+  },
+};
+
+/**
+ * Check that file contents match the declared type
+ * @param data - File contents
+ * @param mimeType - Declared MIME type
+ * @returns True if the contents look like the declared type
+ */
+export const matchesFileType = (data: Uint8Array, mimeType: string): boolean => {
+  const startsWith = (bytes: number[], offset: number = 0) =>
+    data.length >= offset + bytes.length && bytes.every((byte, index) => data[offset + index] === byte);
+  const ascii = (start: number, end: number) => String.fromCharCode(...data.subarray(start, end));
+
+  switch (mimeType) {
+    case 'image/jpeg':
+      return startsWith([0xff, 0xd8, 0xff]);
+    case 'image/png':
+      return isPng(data);
+    case 'image/gif':
+      return ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a';
+    case 'image/webp':
+      return ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP';
+    case 'image/heic':
+      return ascii(4, 8) === 'ftyp' && ['heic', 'heix', 'mif1', 'msf1'].includes(ascii(8, 12));
+    case 'application/pdf':
+      return ascii(0, 5) === '%PDF-';
+    case 'text/plain':
+      // Text files have no signature; reject anything with NUL bytes near the start
+      return !data.subarray(0, 4096).includes(0);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Incident attachment service class providing evidence uploads and access
+ */
+export class IncidentAttachmentService extends FirestoreService<IncidentAttachment> {
+  private static instance: IncidentAttachmentService;
+  protected collectionName = Collections.INCIDENT_ATTACHMENTS;
+  private storage?: AttachmentStorage;
+  private readonly thumbnailGenerators = new Map<string, ThumbnailGenerator>();
+
+  /**
+   * Singleton pattern implementation
+   * @returns IncidentAttachmentService instance
+   */
+  public static getInstance(): IncidentAttachmentService {
+    if (!IncidentAttachmentService.instance) {
+      IncidentAttachmentService.instance = new IncidentAttachmentService();
+      // Register with service registry
+      serviceRegistry.registerInstance('incidentAttachmentService', IncidentAttachmentService.instance);
+    }
+    return IncidentAttachmentService.instance;
+  }
+
+  private constructor() {
+    super();
+    this.registerThumbnailGenerator(pngThumbnailGenerator);
+    telemetryService.trackUsage('service_initialized', 'IncidentAttachmentService');
+  }
+
+  /**
+   * Set where attachment files are stored, replacing the current storage
+   * Firebase Cloud Storage is used if no storage is set.
+   * @param storage - Storage adapter
+   */
+  public setStorage(storage: AttachmentStorage): void {
+    this.storage = storage;
+  }
+
+  /**
+   * Get the storage attachment files are kept in
+   * @returns Storage adapter
+   */
+  public getStorage(): AttachmentStorage {
+    return this.requireStorage();
+  }
+
+  /**
+   * Register a thumbnail generator for the image types it reads, replacing existing generators for them
+   * @param generator - Thumbnail generator
+   */
+  public registerThumbnailGenerator(generator: ThumbnailGenerator): void {
+    generator.mimeTypes.forEach(mimeType => this.thumbnailGenerators.set(mimeType, generator));
+  }
+
+  /**
+   * Attach a file to an incident
+   * Staff can attach files to the incidents they reported; roles with
+   * 'edit-incident' can attach them to any incident.
+   * @param incidentId - Incident ID
+   * @param upload - File name, type, contents and visibility
+   * @param uploadedBy - User ID of the uploader
+   * @returns Promise resolving to the saved attachment
+   * @throws IncidentAttachmentServiceError for permission, validation or upload failures
+   */
+  public async uploadAttachment(
+    incidentId: string,
+    upload: AttachmentUpload,
+    uploadedBy: string
+  ): Promise<IncidentAttachment> {
+    telemetryService.startMeasurement('uploadAttachment');
+
+    try {
+      const incident = await this.requireIncident(incidentId);
+      if (incident.recordState === IncidentRecordState.DELETED) {
+        throw new IncidentAttachmentServiceError(
+          'Deleted incidents must be restored before files are attached',
+          'incident-deleted',
+          { incidentId }
+        );
+      }
+      await this.assertCanEdit(uploadedBy, incident);
+
+      const mimeType = upload.mimeType?.trim().toLowerCase();
+      validationService.validateOrThrow('incidentAttachment', {
+        fileName: upload.fileName?.trim(),
+        mimeType,
+        visibility: upload.visibility || AttachmentVisibility.STAFF,
+      });
+      if (upload.data.length === 0 || upload.data.length > MAX_ATTACHMENT_SIZE) {
+        throw new IncidentAttachmentServiceError(
+          `Attachments must be between 1 byte and ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`,
+          'file-too-large',
+          { incidentId, size: upload.data.length }
+        );
+      }
+      if (!matchesFileType(upload.data, mimeType)) {
+        throw new IncidentAttachmentServiceError(
+          `File contents do not match the type ${mimeType}`,
+          'file-type-mismatch',
+          { incidentId, mimeType }
+        );
+      }
+
+      const hash = sha256(upload.data);
+      const duplicates = await withRetry(() =>
+        this.queryDocuments([
+          where('schoolId', '==', incident.schoolId),
+          where('incidentId', '==', incidentId),
+          where('sha256', '==', hash),
+          where('status', '==', AttachmentStatus.ACTIVE),
+        ], 1)
+      );
+      if (duplicates.items.length > 0) {
+        throw new IncidentAttachmentServiceError('This file is already attached to the incident', 'duplicate-attachment', {
+          incidentId,
+          attachmentId: duplicates.items[0].id,
+        });
+      }
+
+      const storage = this.requireStorage();
+      const attachmentRef = doc(collection(db, this.collectionName));
+      const storagePath = `incidentAttachments/${incident.schoolId}/${incidentId}/${attachmentRef.id}`;
+      await withRetry(() => storage.put(storagePath, upload.data, mimeType));
+
+      const thumbnail = await this.generateThumbnail(upload.data, mimeType, incidentId);
+      const thumbnailPath = thumbnail ? `${storagePath}.thumbnail` : undefined;
+      if (thumbnail && thumbnailPath) {
+        await withRetry(() => storage.put(thumbnailPath, thumbnail.data, thumbnail.contentType));
+      }
+
+      const now = new Date();
+      const attachment: IncidentAttachment = {
+        incidentId,
+        schoolId: incident.schoolId,
+        fileName: upload.fileName.trim(),
+        mimeType,
+        size: upload.data.length,
+        sha256: hash,
+        visibility: upload.visibility || AttachmentVisibility.STAFF,
+        status: AttachmentStatus.ACTIVE,
+        storagePath,
+        thumbnailPath,
+        thumbnailMimeType: thumbnail?.contentType,
+        width: thumbnail?.width,
+        height: thumbnail?.height,
+        uploadedBy,
+        uploadedAt: now,
+        updatedAt: now,
+        updatedBy: uploadedBy,
+      };
+
+      // The attachment, the incident's list of attachments and the audit entry are written together
+      const batch = this.createBatch();
+      batch.set(attachmentRef, {
+        ...this.mapModelToFirestore(attachment),
+        uploadedAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      this.addIncidentAttachmentChange(batch, incident, [...(incident.attachments || []), attachmentRef.id], uploadedBy);
+      try {
+        await withRetry(() => batch.commit());
+      } catch (error) {
+        // Don't leave files behind for an attachment that was never saved
+        await Promise.all([storagePath, thumbnailPath].filter(Boolean).map(path =>
+          storage.remove(path!).catch(removeError => console.error('Error removing unsaved attachment:', removeError))
+        ));
+        throw error;
+      }
+      this.clearCache();
+      cacheService.delete(`incident:${incidentId}`);
+
+      telemetryService.trackUsage('attachment_uploaded', 'IncidentAttachmentService', {
+        incidentId,
+        mimeType,
+        size: attachment.size,
+        visibility: attachment.visibility,
+      });
+      telemetryService.stopMeasurement('uploadAttachment', 'upload_attachment');
+      return { ...attachment, id: attachmentRef.id };
+    } catch (error) {
+      telemetryService.stopMeasurement('uploadAttachment', 'upload_attachment_failed');
+      throw IncidentAttachmentServiceError.wrap(error, 'upload-attachment-failed', 'Failed to upload attachment', {
+        incidentId,
+      });
+    }
+  }
+
+  /**
+   * Get the attachments of an incident that a user can see, oldest first
+   * Staff who can view the incident see every attachment; guardians of the
+   * students involved see the parent-visible ones.
+   * @param incidentId - Incident ID
+   * @param requestedBy - User ID of the requester
+   * @returns Promise resolving to the attachments
+   * @throws IncidentAttachmentServiceError if the user cannot view the incident
+   */
+  public async getAttachments(incidentId: string, requestedBy: string): Promise<IncidentAttachment[]> {
+    try {
+      const incident = await this.requireIncident(incidentId);
+      const staff = await this.assertCanView(requestedBy, incident);
+
+      const constraints = [
+        where('schoolId', '==', incident.schoolId),
+        where('incidentId', '==', incidentId),
+        where('status', '==', AttachmentStatus.ACTIVE),
+        ...(staff ? [] : [where('visibility', '==', AttachmentVisibility.PARENT)]),
+        orderBy('uploadedAt', 'asc'),
+      ];
+      const attachments: IncidentAttachment[] = [];
+      let lastDoc: DocumentSnapshot | undefined;
+      let hasMore = true;
+      while (hasMore) {
+        const page = await withRetry(() => this.queryDocuments(constraints, 100, lastDoc));
+        attachments.push(...page.items);
+        hasMore = page.hasMore;
+        lastDoc = page.lastDoc;
+      }
+      return attachments;
+    } catch (error) {
+      throw IncidentAttachmentServiceError.wrap(error, 'get-attachments-failed', 'Failed to get attachments', {
+        incidentId,
+      });
+    }
+  }
+
+  /**
+   * Download an attachment, or its thumbnail
+   * @param attachmentId - Attachment ID
+   * @param requestedBy - User ID of the requester
+   * @param thumbnail - Whether to download the thumbnail instead of the file
+   * @returns Promise resolving to the attachment and its contents
+   * @throws IncidentAttachmentServiceError if the user cannot see the attachment or it has no such file
+   */
+  public async getAttachmentContent(
+    attachmentId: string,
+    requestedBy: string,
+    thumbnail: boolean = false
+  ): Promise<AttachmentContent> {
+    try {
+      const attachment = await this.requireAttachment(attachmentId);
+      if (attachment.status !== AttachmentStatus.ACTIVE) {
+        throw new IncidentAttachmentServiceError('Attachment has been deleted', 'attachment-deleted', { attachmentId });
+      }
+      const incident = await this.requireIncident(attachment.incidentId);
+      const staff = await this.assertCanView(requestedBy, incident);
+      if (!staff && attachment.visibility !== AttachmentVisibility.PARENT) {
+        throw new IncidentAttachmentServiceError('Attachment is only visible to staff', 'access-denied', { attachmentId });
+      }
+
+      const path = thumbnail ? attachment.thumbnailPath : attachment.storagePath;
+      if (!path) {
+        throw new IncidentAttachmentServiceError('Attachment has no thumbnail', 'thumbnail-not-found', { attachmentId });
+      }
+      const storage = this.requireStorage();
+      const data = await withRetry(() => storage.get(path));
+      if (!data) {
+        throw new IncidentAttachmentServiceError('Attachment file is missing', 'file-not-found', { attachmentId, path });
+      }
+
+      return { attachment, data, contentType: (thumbnail && attachment.thumbnailMimeType) || attachment.mimeType };
+    } catch (error) {
+      throw IncidentAttachmentServiceError.wrap(error, 'get-attachment-content-failed', 'Failed to download attachment', {
+        attachmentId,
+      });
+    }
+  }
+
+  /**
+   * Make an attachment staff-only or visible to parents
+   * @param attachmentId - Attachment ID
+   * @param visibility - New visibility
+   * @param updatedBy - User ID of the person making the change
+   * @returns Promise resolving to the updated attachment
+   * @throws IncidentAttachmentServiceError for permission or update failures
+   */
+  public async setVisibility(
+    attachmentId: string,
+    visibility: AttachmentVisibility,
+    updatedBy: string
+  ): Promise<IncidentAttachment> {
+    try {
+      if (!Object.values(AttachmentVisibility).includes(visibility)) {
+        throw new IncidentAttachmentServiceError(`Unknown visibility ${visibility}`, 'validation-error', { attachmentId });
+      }
+
+      const attachment = await this.requireAttachment(attachmentId);
+      if (attachment.status !== AttachmentStatus.ACTIVE) {
+        throw new IncidentAttachmentServiceError('Attachment has been deleted', 'attachment-deleted', { attachmentId });
+      }
+      await this.assertCanEdit(updatedBy, await this.requireIncident(attachment.incidentId));
+
+      const updated = await withRetry(() => this.updateDocument(attachmentId, { visibility, updatedBy }));
+      this.clearCache();
+
+      telemetryService.trackUsage('attachment_visibility_changed', 'IncidentAttachmentService', {
+        attachmentId,
+        visibility,
+      });
+      return updated;
+    } catch (error) {
+      throw IncidentAttachmentServiceError.wrap(error, 'set-visibility-failed', 'Failed to change attachment visibility', {
+        attachmentId,
+      });
+    }
+  }
+
+  /**
+   * Delete an attachment
+   * The files are kept for DELETED_ATTACHMENT_RETENTION_DAYS so the
+   * attachment can be restored, and then removed by purgeExpiredAttachments.
+   * @param attachmentId - Attachment ID
+   * @param deletedBy - User ID of the person deleting
+   * @returns Promise resolving to the deleted attachment
+   * @throws IncidentAttachmentServiceError for permission or deletion failures
+   */
+  public async deleteAttachment(attachmentId: string, deletedBy: string): Promise<IncidentAttachment> {
+    try {
+      const attachment = await this.requireAttachment(attachmentId);
+      if (attachment.status !== AttachmentStatus.ACTIVE) {
+        throw new IncidentAttachmentServiceError('Attachment is already deleted', 'attachment-deleted', { attachmentId });
+      }
+      const incident = await this.requireIncident(attachment.incidentId);
+      await this.assertCanEdit(deletedBy, incident);
+
+      const now = new Date();
+      const batch = this.createBatch();
+      batch.update(doc(db, this.collectionName, attachmentId), {
+        status: AttachmentStatus.DELETED,
+        deletedAt: serverTimestamp(),
+        deletedBy,
+        updatedAt: serverTimestamp(),
+        updatedBy: deletedBy,
+      });
+      this.addIncidentAttachmentChange(
+        batch,
+        incident,
+        (incident.attachments || []).filter(id => id !== attachmentId),
+        deletedBy
+      );
+      await withRetry(() => batch.commit());
+      this.clearCache();
+      cacheService.delete(`incident:${attachment.incidentId}`);
+
+      telemetryService.trackUsage('attachment_deleted', 'IncidentAttachmentService', { attachmentId });
+      return { ...attachment, status: AttachmentStatus.DELETED, deletedAt: now, deletedBy, updatedAt: now, updatedBy: deletedBy };
+    } catch (error) {
+      throw IncidentAttachmentServiceError.wrap(error, 'delete-attachment-failed', 'Failed to delete attachment', {
+        attachmentId,
+      });
+    }
+  }
+
+  /**
+   * Restore a deleted attachment whose files have not been removed yet
+   * @param attachmentId - Attachment ID
+   * @param restoredBy - User ID of the person restoring it
+   * @returns Promise resolving to the restored attachment
+   * @throws IncidentAttachmentServiceError for permission or restore failures
+   */
+  public async restoreAttachment(attachmentId: string, restoredBy: string): Promise<IncidentAttachment> {
+    try {
+      const attachment = await this.requireAttachment(attachmentId);
+      if (attachment.status !== AttachmentStatus.DELETED) {
+        throw new IncidentAttachmentServiceError(
+          attachment.status === AttachmentStatus.PURGED
+            ? 'Attachment files have been removed and cannot be restored'
+            : 'Attachment is not deleted',
+          'attachment-not-restorable',
+          { attachmentId, status: attachment.status }
+        );
+      }
+      const incident = await this.requireIncident(attachment.incidentId);
+      await this.assertCanEdit(restoredBy, incident);
+
+      const now = new Date();
+      const batch = this.createBatch();
+      batch.update(doc(db, this.collectionName, attachmentId), {
+        status: AttachmentStatus.ACTIVE,
+        deletedAt: null,
+        deletedBy: null,
+        updatedAt: serverTimestamp(),
+        updatedBy: restoredBy,
+      });
+      this.addIncidentAttachmentChange(batch, incident, [...(incident.attachments || []), attachmentId], restoredBy);
+      await withRetry(() => batch.commit());
+      this.clearCache();
+      cacheService.delete(`incident:${attachment.incidentId}`);
+
+      telemetryService.trackUsage('attachment_restored', 'IncidentAttachmentService', { attachmentId });
+      return {
+        ...attachment,
+        status: AttachmentStatus.ACTIVE,
+        deletedAt: undefined,
+        deletedBy: undefined,
+        updatedAt: now,
+        updatedBy: restoredBy,
+      };
+    } catch (error) {
+      throw IncidentAttachmentServiceError.wrap(error, 'restore-attachment-failed', 'Failed to restore attachment', {
+        attachmentId,
+      });
+    }
+  }
+
+  /**
+   * Remove the files of attachments deleted more than DELETED_ATTACHMENT_RETENTION_DAYS ago
+   * The attachment records are kept, marked as purged, as a record of what was attached.
+   * @param schoolId - School ID
+   * @param purgedBy - User ID of the person running the purge
+   * @param now - Current time (defaults to now)
+   * @returns Promise resolving to the number of attachments purged
+   * @throws IncidentAttachmentServiceError for permission or purge failures
+   */
+  public async purgeExpiredAttachments(schoolId: string, purgedBy: string, now: Date = new Date()): Promise<number> {
+    try {
+      const hasPermission = await userService.hasPermission(purgedBy, 'manage-deleted-incidents', { schoolId });
+      if (!hasPermission) {
+        throw new IncidentAttachmentServiceError(
+          'Insufficient permissions to purge deleted attachments',
+          'insufficient-permissions'
+        );
+      }
+
+      const storage = this.requireStorage();
+      const cutoff = new Date(now.getTime() - DELETED_ATTACHMENT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      let purged = 0;
+      let hasMore = true;
+
+      // Purged attachments leave the query, so each batch reads the first page again
+      while (hasMore) {
+        const page = await withRetry(() =>
+          this.queryDocuments([
+            where('schoolId', '==', schoolId),
+            where('status', '==', AttachmentStatus.DELETED),
+            where('deletedAt', '<=', cutoff),
+            orderBy('deletedAt', 'asc'),
+          ], PURGE_BATCH_SIZE)
+        );
+        this.clearCache();
+        if (page.items.length === 0) {
+          break;
+        }
+
+        for (const attachment of page.items) {
+          await Promise.all([attachment.storagePath, attachment.thumbnailPath]
+            .filter(Boolean)
+            .map(path => withRetry(() => storage.remove(path!))));
+        }
+
+        const batch = this.createBatch();
+        page.items.forEach(attachment => {
+          batch.update(doc(db, this.collectionName, attachment.id!), {
+            status: AttachmentStatus.PURGED,
+            purgedAt: serverTimestamp(),
+            updatedAt: serverTimestamp(),
+            updatedBy: purgedBy,
+          });
+        });
+        await withRetry(() => batch.commit());
+        this.clearCache();
+
+        purged += page.items.length;
+        hasMore = page.hasMore;
+      }
+
+      telemetryService.trackUsage('attachments_purged', 'IncidentAttachmentService', { schoolId, purged });
+      return purged;
+    } catch (error) {
+      throw IncidentAttachmentServiceError.wrap(error, 'purge-attachments-failed', 'Failed to purge deleted attachments', {
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Get the storage adapter, using Firebase Cloud Storage if none is set
+   * @returns Storage adapter
+   * @throws IncidentAttachmentServiceError if Firebase Cloud Storage is not available
+   */
+  private requireStorage(): AttachmentStorage {
+    if (!this.storage) {
+      try {
+        this.storage = new FirebaseAttachmentStorage();
+      } catch (error) {
+        throw new IncidentAttachmentServiceError(
+          `Attachment storage is not configured: ${(error as Error)?.message}`,
+          'storage-not-configured'
+        );
+      }
+    }
+    return this.storage;
+  }
+
+  /**
+   * Make a thumbnail for an image, if a generator reads its type
+   * A thumbnail that cannot be made is left out rather than failing the upload.
+   * @param data - File contents
+   * @param mimeType - File type
+   * @param incidentId - Incident ID, for telemetry
+   * @returns Promise resolving to the thumbnail, or null
+   */
+  private async generateThumbnail(
+    data: Uint8Array,
+    mimeType: string,
+    incidentId: string
+  ): Promise<GeneratedThumbnail | null> {
+    const generator = this.thumbnailGenerators.get(mimeType);
+    if (!generator) {
+      return null;
+    }
+
+    try {
+      return await generator.generate(data, THUMBNAIL_SIZE);
+    } catch (error) {
+      telemetryService.trackException(error as Error, { method: 'generateThumbnail', incidentId, mimeType });
+      return null;
+    }
+  }
+
+  /**
+   * Update the incident's list of attachments and log the change, in a batch
+   * @param batch - Batch making the change
+   * @param incident - Incident before the change
+   * @param attachments - Attachment IDs after the change
+   * @param userId - User ID of the person making the change
+   */
+  private addIncidentAttachmentChange(
+    batch: WriteBatch,
+    incident: DisciplineIncident,
+    attachments: string[],
+    userId: string
+  ): void {
+    const previous = incident.attachments || [];
+    const added = attachments.filter(id => !previous.includes(id));
+    const removed = previous.filter(id => !attachments.includes(id));
+
+    batch.update(doc(db, Collections.INCIDENTS, incident.id!), {
+      ...(added.length > 0 ? { attachments: arrayUnion(...added) } : {}),
+      ...(removed.length > 0 ? { attachments: arrayRemove(...removed) } : {}),
+      updatedAt: serverTimestamp(),
+      updatedBy: userId,
+    });
+    incidentAuditService.recordInBatch(batch, {
+      incidentId: incident.id!,
+      schoolId: incident.schoolId,
+      operation: IncidentAuditOperation.UPDATE,
+      actorId: userId,
+      changes: diffIncidentFields({ attachments: previous }, { attachments }),
+    });
+  }
+
+  /**
+   * Check that a user may change an incident's attachments
+   * Staff change attachments on the incidents they reported; roles with
+   * 'edit-incident' can change anyone's (as in firestore.rules).
+   * @param userId - User ID
+   * @param incident - Incident
+   * @throws IncidentAttachmentServiceError if the user may not
+   */
+  private async assertCanEdit(userId: string, incident: DisciplineIncident): Promise<void> {
+    const context = getIncidentPermissionContext(incident);
+    const allowed = incident.teacherId === userId
+      ? await userService.hasPermission(userId, 'update-incident', context)
+      : await userService.hasPermission(userId, 'edit-incident', context);
+    if (!allowed) {
+      throw new IncidentAttachmentServiceError(
+        "Insufficient permissions to change this incident's attachments",
+        'insufficient-permissions',
+        { incidentId: incident.id }
+      );
+    }
+  }
+
+  /**
+   * Check that a user may see an incident's attachments
+   * Deleted incidents are only visible to users with 'manage-deleted-incidents'.
+   * @param userId - User ID
+   * @param incident - Incident
+   * @returns Promise resolving to true for staff, false for a guardian of a student involved
+   * @throws IncidentAttachmentServiceError if the user may not see the incident
+   */
+  private async assertCanView(userId: string, incident: DisciplineIncident): Promise<boolean> {
+    const deleted = incident.recordState === IncidentRecordState.DELETED;
+    const staff = await userService.hasPermission(
+      userId,
+      deleted ? 'manage-deleted-incidents' : 'view-incidents',
+      getIncidentPermissionContext(incident)
+    );
+    if (staff) {
+      return true;
+    }
+    if (!deleted && (await guardianService.isGuardianOfParticipant(userId, incident))) {
+      return false;
+    }
+    throw new IncidentAttachmentServiceError("Insufficient permissions to view this incident's attachments", 'access-denied', {
+      incidentId: incident.id,
+    });
+  }
+
+  /**
+   * Get an incident
+   * @param incidentId - Incident ID
+   * @returns Promise resolving to the incident
+   * @throws IncidentAttachmentServiceError if it does not exist
+   */
+  private async requireIncident(incidentId: string): Promise<DisciplineIncident> {
+    const incident = await disciplineService.getIncident(incidentId);
+    if (!incident) {
+      throw new IncidentAttachmentServiceError('Incident not found', 'incident-not-found', { incidentId });
+    }
+    return incident;
+  }
+
+  /**
+   * Get an attachment
+   * @param attachmentId - Attachment ID
+   * @returns Promise resolving to the attachment
+   * @throws IncidentAttachmentServiceError if it does not exist
+   */
+  private async requireAttachment(attachmentId: string): Promise<IncidentAttachment> {
+    const attachment = await withRetry(() => this.getDocument(attachmentId));
+    if (!attachment) {
+      throw new IncidentAttachmentServiceError('Attachment not found', 'attachment-not-found', { attachmentId });
+    }
+    return attachment;
+  }
+
+  /**
+   * Map Firestore data to IncidentAttachment object
+   * @param id - Document ID
+   * @param data - Firestore document data
+   * @returns IncidentAttachment object
+   */
+  protected mapFirestoreToModel(id: string, data: any): IncidentAttachment {
+    return {
+      id,
+      incidentId: data.incidentId || '',
+      schoolId: data.schoolId || '',
+      fileName: data.fileName || '',
+      mimeType: data.mimeType || '',
+      size: typeof data.size === 'number' ? data.size : 0,
+      sha256: data.sha256 || '',
+      visibility: data.visibility === AttachmentVisibility.PARENT ? AttachmentVisibility.PARENT : AttachmentVisibility.STAFF,
+      status: data.status || AttachmentStatus.ACTIVE,
+      storagePath: data.storagePath || '',
+      thumbnailPath: data.thumbnailPath || undefined,
+      thumbnailMimeType: data.thumbnailMimeType || undefined,
+      width: typeof data.width === 'number' ? data.width : undefined,
+      height: typeof data.height === 'number' ? data.height : undefined,
+      uploadedBy: data.uploadedBy || '',
+      uploadedAt: this.timestampToDate(data.uploadedAt) || data.uploadedAt || new Date(),
+      deletedAt: this.timestampToDate(data.deletedAt),
+      deletedBy: data.deletedBy || undefined,
+      purgedAt: this.timestampToDate(data.purgedAt),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  /**
+   * Map IncidentAttachment object to Firestore data
+   * @param model - IncidentAttachment object
+   * @returns Firestore data
+   */
+  protected mapModelToFirestore(model: IncidentAttachment): any {
+    const { id, uploadedAt, updatedAt, deletedAt, purgedAt, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    if (uploadedAt) {
+      data.uploadedAt = this.dateToTimestamp(uploadedAt);
+    }
+    if (deletedAt) {
+      data.deletedAt = this.dateToTimestamp(deletedAt);
+    }
+    if (purgedAt) {
+      data.purgedAt = this.dateToTimestamp(purgedAt);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Custom error class for incident attachment service errors
+ */
+export class IncidentAttachmentServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new IncidentAttachmentServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'IncidentAttachmentServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in an IncidentAttachmentServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns IncidentAttachmentServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): IncidentAttachmentServiceError {
+    if (error instanceof IncidentAttachmentServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new IncidentAttachmentServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    if ((error as Error)?.message?.startsWith('Validation failed')) {
+      return new IncidentAttachmentServiceError((error as Error).message, 'validation-error', context);
+    }
+
+    return new IncidentAttachmentServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const incidentAttachmentService = IncidentAttachmentService.getInstance();
@@ -0,0 +1,431 @@
+/**
+ * Incident Audit Service for MCC Discipline Tracker
+ *
+ * This service keeps an append-only history of changes to discipline
+ * incidents: who created, changed or deleted each incident and when, with the
+ * before and after value of every changed field and a snapshot of the record
+ * when it is created or deleted. Entries are written in the same batch as the
+ * incident change, so an incident cannot change without its entry; the
+ * Firestore rules forbid editing or deleting entries.
+ *
+ * Incidents written by a CSV import are not logged row by row; they carry the
+ * ID of the import job that records who imported them.
+ *
+ * @fileoverview Field-level change history for discipline incidents
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  serverTimestamp,
+  DocumentSnapshot,
+  FirestoreError,
+  QueryConstraint,
+  WriteBatch,
+} from 'firebase/firestore';
+import { db, Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+import { disciplineService } from './disciplineService';
+import { getIncidentPermissionContext } from './permissionPolicyService';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { serviceRegistry } from './base/serviceRegistry';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+
+/**
+ * What happened to the incident
+ */
+export enum IncidentAuditOperation {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+}
+
+/**
+ * One changed field; a field that was not set is recorded as null
+ */
+export interface IncidentFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Interface for an audit log entry
+ */
+export interface IncidentAuditEntry {
+  id?: string;
+  incidentId: string;
+  schoolId: string;
+  operation: IncidentAuditOperation;
+  /** User ID of the person who made the change */
+  actorId: string;
+  timestamp: Date;
+  /** Changed fields of an update */
+  changes: IncidentFieldChange[];
+  /** The incident as created, or as it was when deleted */
+  snapshot?: Record<string, unknown>;
+}
+
+/**
+ * Audit log entry before it is written
+ */
+export type IncidentAuditEntryInput = Omit<IncidentAuditEntry, 'id' | 'timestamp'>;
+
+/**
+ * Interface for paginated audit log entries
+ */
+export interface PaginatedIncidentAuditEntries {
+  entries: IncidentAuditEntry[];
+  hasMore: boolean;
+  lastDoc?: DocumentSnapshot;
+}
+
+/**
+ * Fields that are not logged: bookkeeping that changes on every write, and
+ * comment counts, which follow the comments (their own record)
+ */
+const UNAUDITED_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'createdBy',
+  'updatedBy',
+  'commentCount',
+  'parentCommentCount',
+  'lastCommentAt',
+  'lastParentCommentAt',
+];
+
+/**
+ * Convert a value for storage: undefined becomes null (Firestore rejects
+ * undefined) and dates are kept so Firestore stores them as timestamps
+ * @param value - Field value
+ * @returns Storable value
+ */
+const toAuditValue = (value: unknown): unknown => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value instanceof Date || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toAuditValue);
+  }
+  const result: Record<string, unknown> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+    if (item !== undefined) {
+      result[key] = toAuditValue(item);
+    }
+  });
+  return result;
+};
+
+/**
+ * Convert a stored value back, turning timestamps into dates
+ * @param value - Stored value
+ * @returns Value with dates
+ */
+const fromAuditValue = (value: unknown): unknown => {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  if (Array.isArray(value)) {
+    return value.map(fromAuditValue);
+  }
+  const result: Record<string, unknown> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+    result[key] = fromAuditValue(item);
+  });
+  return result;
+};
+
+/**
+ * Compare two values, treating dates as equal when they hold the same time
+ * @param a - First value
+ * @param b - Second value
+ * @returns True if the values are the same
+ */
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(toAuditValue(a)) === JSON.stringify(toAuditValue(b));
+
+/**
+ * Work out which fields an update changes
+ * @param before - Record before the update
+ * @param updates - Fields being written
+ * @returns Changed fields with their old and new values
+ */
+export const diffIncidentFields = (
+  before: Record<string, any>,
+  updates: Record<string, any>
+): IncidentFieldChange[] => {
+  return Object.keys(updates)
+    .filter(field => !UNAUDITED_FIELDS.includes(field) && updates[field] !== undefined)
+    .filter(field => !isSameValue(before[field], updates[field]))
+    .sort()
+    .map(field => ({
+      field,
+      before: toAuditValue(before[field]),
+      after: toAuditValue(updates[field]),
+    }));
+};
+
+/**
+ * Incident audit service class providing the incident change log
+ */
+export class IncidentAuditService extends FirestoreService<IncidentAuditEntry> {
+  private static instance: IncidentAuditService;
+  protected collectionName = Collections.INCIDENT_AUDIT_LOG;
+
+  /**
+   * Singleton pattern implementation
+   * @returns IncidentAuditService instance
+   */
+  public static getInstance(): IncidentAuditService {
+    if (!IncidentAuditService.instance) {
+      IncidentAuditService.instance = new IncidentAuditService();
+      // Register with service registry
+      serviceRegistry.registerInstance('incidentAuditService', IncidentAuditService.instance);
+    }
+    return IncidentAuditService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'IncidentAuditService');
+  }
+
+  /**
+   * Add an audit log entry to the batch that makes the change
+   * Entries with no changed fields and no snapshot are not written.
+   * @param batch - Batch writing the incident change
+   * @param entry - Entry to write
+   * @returns True if an entry was added
+   */
+  public recordInBatch(batch: WriteBatch, entry: IncidentAuditEntryInput): boolean {
+    if (entry.changes.length === 0 && !entry.snapshot) {
+      return false;
+    }
+
+    batch.set(doc(collection(db, this.collectionName)), {
+      ...this.mapModelToFirestore(entry as IncidentAuditEntry),
+      timestamp: serverTimestamp(),
+    });
+    return true;
+  }
+
+  /**
+   * Get the change history of an incident, newest first
+   * The history of a deleted incident is only shown to users who can view the audit log.
+   * @param incidentId - Incident ID
+   * @param requestedBy - User ID of the requester
+   * @param pageSize - Number of entries per page
+   * @param lastDoc - Last document for pagination
+   * @returns Promise resolving to the incident's entries
+   * @throws IncidentAuditServiceError for permission or fetch failures
+   */
+  public async getIncidentHistory(
+    incidentId: string,
+    requestedBy: string,
+    pageSize: number = 50,
+    lastDoc?: DocumentSnapshot
+  ): Promise<PaginatedIncidentAuditEntries> {
+    try {
+      const incident = await disciplineService.getIncident(incidentId);
+      const hasPermission = incident
+        ? await userService.hasPermission(requestedBy, 'view-incidents', getIncidentPermissionContext(incident))
+        : await userService.hasPermission(requestedBy, 'view-audit-log');
+      if (!hasPermission) {
+        throw new IncidentAuditServiceError(
+          'Insufficient permissions to view incident history',
+          'insufficient-permissions',
+          { incidentId }
+        );
+      }
+
+      return await this.findEntries([where('incidentId', '==', incidentId)], pageSize, lastDoc);
+    } catch (error) {
+      throw IncidentAuditServiceError.wrap(error, 'get-history-failed', 'Failed to get incident history', {
+        incidentId,
+      });
+    }
+  }
+
+  /**
+   * Get the incident changes made by a user, newest first
+   * Users can see their own changes; anyone else's need 'view-audit-log'.
+   * @param userId - User ID of the person who made the changes
+   * @param requestedBy - User ID of the requester
+   * @param pageSize - Number of entries per page
+   * @param lastDoc - Last document for pagination
+   * @returns Promise resolving to the user's entries
+   * @throws IncidentAuditServiceError for permission or fetch failures
+   */
+  public async getUserActivity(
+    userId: string,
+    requestedBy: string,
+    pageSize: number = 50,
+    lastDoc?: DocumentSnapshot
+  ): Promise<PaginatedIncidentAuditEntries> {
+    try {
+      if (userId !== requestedBy) {
+        const requester = await userService.getUserProfile(requestedBy);
+        const hasPermission = await userService.hasPermission(requestedBy, 'view-audit-log');
+        if (!requester || !hasPermission) {
+          throw new IncidentAuditServiceError(
+            'Insufficient permissions to view audit log',
+            'insufficient-permissions',
+            { userId }
+          );
+        }
+
+        // Principals see changes made at their own school
+        if (requester.role !== 'admin') {
+          return await this.findEntries(
+            [where('actorId', '==', userId), where('schoolId', '==', requester.schoolId || '')],
+            pageSize,
+            lastDoc
+          );
+        }
+      }
+
+      return await this.findEntries([where('actorId', '==', userId)], pageSize, lastDoc);
+    } catch (error) {
+      throw IncidentAuditServiceError.wrap(error, 'get-activity-failed', 'Failed to get user activity', { userId });
+    }
+  }
+
+  /**
+   * Query entries newest first
+   * Entries are read straight from Firestore so a new change shows at once.
+   * @param constraints - Query filters
+   * @param pageSize - Number of entries per page
+   * @param lastDoc - Last document for pagination
+   * @returns Promise resolving to a page of entries
+   */
+  private async findEntries(
+    constraints: QueryConstraint[],
+    pageSize: number,
+    lastDoc?: DocumentSnapshot
+  ): Promise<PaginatedIncidentAuditEntries> {
+    const pageConstraints: QueryConstraint[] = [...constraints, orderBy('timestamp', 'desc'), limit(pageSize + 1)];
+    if (lastDoc) {
+      pageConstraints.push(startAfter(lastDoc));
+    }
+
+    const snapshot = await withRetry(() =>
+      getDocs(query(collection(db, this.collectionName), ...pageConstraints))
+    );
+    const hasMore = snapshot.docs.length > pageSize;
+    const docs = hasMore ? snapshot.docs.slice(0, pageSize) : snapshot.docs;
+
+    return {
+      entries: docs.map(entryDoc => this.mapFirestoreToModel(entryDoc.id, entryDoc.data())),
+      hasMore,
+      lastDoc: hasMore ? docs[docs.length - 1] : undefined,
+    };
+  }
+
+  /**
+   * Map Firestore data to IncidentAuditEntry object
+   * @param id - Document ID
+   * @param data - Firestore document data
+   * @returns IncidentAuditEntry object
+   */
+  protected mapFirestoreToModel(id: string, data: any): IncidentAuditEntry {
+    return {
+      id,
+      incidentId: data.incidentId || '',
+      schoolId: data.schoolId || '',
+      operation: data.operation || IncidentAuditOperation.UPDATE,
+      actorId: data.actorId || '',
+      timestamp: this.timestampToDate(data.timestamp) || new Date(),
+      changes: Array.isArray(data.changes)
+        ? data.changes.map((change: any) => ({
+            field: change.field,
+            before: fromAuditValue(change.before),
+            after: fromAuditValue(change.after),
+          }))
+        : [],
+      snapshot: data.snapshot ? (fromAuditValue(data.snapshot) as Record<string, unknown>) : undefined,
+    };
+  }
+
+  /**
+   * Map IncidentAuditEntry object to Firestore data
+   * @param model - IncidentAuditEntry object
+   * @returns Firestore data
+   */
+  protected mapModelToFirestore(model: IncidentAuditEntry): any {
+    const { id, timestamp, snapshot, ...rest } = model;
+    return {
+      ...rest,
+      ...(snapshot ? { snapshot: toAuditValue(snapshot) } : {}),
+    };
+  }
+}
+
+/**
+ * Custom error class for incident audit service errors
+ */
+export class IncidentAuditServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new IncidentAuditServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'IncidentAuditServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in an IncidentAuditServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns IncidentAuditServiceError
+   */
+  static wrap(error: unknown, code: string, message: string, context?: Record<string, any>): IncidentAuditServiceError {
+    if (error instanceof IncidentAuditServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new IncidentAuditServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    return new IncidentAuditServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const incidentAuditService = IncidentAuditService.getInstance();
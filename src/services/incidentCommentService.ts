@@ -0,0 +1,690 @@
+/**
+ * Incident Comment Service for MCC Discipline Tracker
+ *
+ * This service keeps the discussion about each incident: threads of comments
+ * and replies, either staff-only or visible to the parents of the students
+ * involved. Comments can be edited by their author, and each edit keeps
+ * the earlier text. Users are mentioned with `@[Name](userId)` tokens in the
+ * comment text; mentioned users are notified, and must be able to see the
+ * comment.
+ *
+ * Each incident carries its comment counts and the time of its latest comment
+ * activity, updated in the same batch as the comment, so incident lists show
+ * them without reading any comments.
+ *
+ * @fileoverview Comment threads on discipline incidents
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import {
+  doc,
+  collection,
+  where,
+  orderBy,
+  serverTimestamp,
+  increment,
+  arrayUnion,
+  Timestamp,
+  DocumentSnapshot,
+  FirestoreError,
+  QueryConstraint,
+} from 'firebase/firestore';
+import { db, Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+import { disciplineService, DisciplineIncident, IncidentRecordState } from './disciplineService';
+import { guardianService } from './guardianService';
+import { notificationService } from './notificationService';
+import { getIncidentPermissionContext } from './permissionPolicyService';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { validationService } from './base/validationService';
+import { serviceRegistry } from './base/serviceRegistry';
+import { cacheService } from './base/cacheService';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+
+/**
+ * Most users that can be mentioned in one comment
+ */
+export const MAX_MENTIONS_PER_COMMENT = 10;
+
+/**
+ * Who can see a comment
+ */
+export enum CommentVisibility {
+  /** Staff who can view the incident */
+  STAFF = 'staff',
+  /** Staff, and guardians of the students involved */
+  PARENT = 'parent',
+}
+
+/**
+ * An earlier version of a comment
+ */
+export interface CommentRevision {
+  body: string;
+  /** When this version was replaced */
+  revisedAt: Date;
+}
+
+/**
+ * Interface for a comment on an incident
+ */
+export interface IncidentComment {
+  id?: string;
+  incidentId: string;
+  schoolId: string;
+  /** Comment that starts the thread, for replies; replies are never nested further */
+  parentCommentId?: string;
+  authorId: string;
+  authorName: string;
+  /** Text with mentions as `@[Name](userId)` tokens */
+  body: string;
+  visibility: CommentVisibility;
+  mentionedUserIds: string[];
+  /** Replies to a thread's first comment */
+  replyCount: number;
+  /** Parent-visible replies to a thread's first comment */
+  parentReplyCount: number;
+  lastReplyAt?: Date;
+  /** Earlier versions, oldest first */
+  editHistory: CommentRevision[];
+  editedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A comment to post
+ */
+export interface IncidentCommentInput {
+  body: string;
+  /** Defaults to staff-only; replies to staff-only comments must be staff-only */
+  visibility?: CommentVisibility;
+  /** Comment to reply to */
+  parentCommentId?: string;
+}
+
+/**
+ * Interface for paginated comments
+ */
+export interface PaginatedIncidentComments {
+  comments: IncidentComment[];
+  hasMore: boolean;
+  lastDoc?: DocumentSnapshot;
+}
+
+const MENTION_PATTERN = /@\[([^\]\n]+)\]\(([A-Za-z0-9_-]+)\)/g;
+
+/**
+ * Get the users mentioned in a comment
+ * @param body - Comment text
+ * @returns User IDs mentioned, each once, in order of first mention
+ */
+export const parseMentions = (body: string): string[] =>
+  Array.from(new Set(Array.from(body.matchAll(MENTION_PATTERN), match => match[2])));
+
+/**
+ * Turn mention tokens into plain `@Name` text, for notifications and display
+ * @param body - Comment text
+ * @returns Text with mentions as `@Name`
+ */
+export const formatCommentBody = (body: string): string => body.replace(MENTION_PATTERN, '@$1');
+
+/**
+ * Incident comment service class providing incident discussion threads
+ */
+export class IncidentCommentService extends FirestoreService<IncidentComment> {
+  private static instance: IncidentCommentService;
+  protected collectionName = Collections.INCIDENT_COMMENTS;
+
+  /**
+   * Singleton pattern implementation
+   * @returns IncidentCommentService instance
+   */
+  public static getInstance(): IncidentCommentService {
+    if (!IncidentCommentService.instance) {
+      IncidentCommentService.instance = new IncidentCommentService();
+      // Register with service registry
+      serviceRegistry.registerInstance('incidentCommentService', IncidentCommentService.instance);
+    }
+    return IncidentCommentService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'IncidentCommentService');
+  }
+
+  /**
+   * Comment on an incident, or reply to a comment
+   * Mentioned users are notified; a failed notification does not fail the comment.
+   * @param incidentId - Incident ID
+   * @param input - Comment text, visibility and the comment replied to
+   * @param authorId - User ID of the author
+   * @returns Promise resolving to the saved comment
+   * @throws IncidentCommentServiceError for permission, validation or save failures
+   */
+  public async addComment(
+    incidentId: string,
+    input: IncidentCommentInput,
+    authorId: string
+  ): Promise<IncidentComment> {
+    try {
+      const incident = await this.requireIncident(incidentId);
+      await this.assertCanComment(authorId, incident);
+
+      const body = input.body?.trim();
+      const visibility = input.visibility || CommentVisibility.STAFF;
+      validationService.validateOrThrow('incidentComment', { body, visibility });
+
+      // Replies join the thread of the comment they answer
+      let thread: IncidentComment | undefined;
+      if (input.parentCommentId) {
+        const repliedTo = await this.requireComment(input.parentCommentId);
+        thread = repliedTo.parentCommentId ? await this.requireComment(repliedTo.parentCommentId) : repliedTo;
+        if (thread.incidentId !== incidentId) {
+          throw new IncidentCommentServiceError('Replies must be on the same incident', 'validation-error', {
+            incidentId,
+            parentCommentId: input.parentCommentId,
+          });
+        }
+        if (visibility === CommentVisibility.PARENT && thread.visibility !== CommentVisibility.PARENT) {
+          throw new IncidentCommentServiceError(
+            'Replies to staff-only comments must be staff-only',
+            'validation-error',
+            { parentCommentId: thread.id }
+          );
+        }
+      }
+
+      const mentionedUserIds = parseMentions(body);
+      await this.assertCanMention(mentionedUserIds, incident, visibility);
+
+      const author = await userService.getUserProfile(authorId);
+      const now = new Date();
+      const comment: IncidentComment = {
+        incidentId,
+        schoolId: incident.schoolId,
+        parentCommentId: thread?.id,
+        authorId,
+        authorName: author?.displayName || author?.email || 'Staff member',
+        body,
+        visibility,
+        mentionedUserIds,
+        replyCount: 0,
+        parentReplyCount: 0,
+        editHistory: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      // The comment, the thread's reply count and the incident's comment counts are written together
+      const commentRef = doc(collection(db, this.collectionName));
+      const parentVisible = visibility === CommentVisibility.PARENT;
+      const batch = this.createBatch();
+      batch.set(commentRef, {
+        ...this.mapModelToFirestore(comment),
+        // Stored as null so the first comments of threads can be queried
+        parentCommentId: thread?.id ?? null,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      if (thread) {
+        batch.update(doc(db, this.collectionName, thread.id!), {
+          replyCount: increment(1),
+          ...(parentVisible ? { parentReplyCount: increment(1) } : {}),
+          lastReplyAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+      }
+      batch.update(doc(db, Collections.INCIDENTS, incidentId), {
+        commentCount: increment(1),
+        lastCommentAt: serverTimestamp(),
+        ...(parentVisible ? { parentCommentCount: increment(1), lastParentCommentAt: serverTimestamp() } : {}),
+      });
+      await withRetry(() => batch.commit());
+      this.clearCache();
+      cacheService.delete(`incident:${incidentId}`);
+
+      const saved = { ...comment, id: commentRef.id };
+      await this.notifyMentionedUsers(saved, mentionedUserIds, incident);
+
+      telemetryService.trackUsage('incident_comment_added', 'IncidentCommentService', {
+        incidentId,
+        visibility,
+        reply: Boolean(thread),
+        mentions: mentionedUserIds.length,
+      });
+      return saved;
+    } catch (error) {
+      throw IncidentCommentServiceError.wrap(error, 'add-comment-failed', 'Failed to add comment', { incidentId });
+    }
+  }
+
+  /**
+   * Edit a comment's text, keeping the earlier version
+   * Only the author can edit a comment. Users newly mentioned are notified.
+   * @param commentId - Comment ID
+   * @param body - New text
+   * @param editedBy - User ID of the person editing
+   * @returns Promise resolving to the edited comment
+   * @throws IncidentCommentServiceError for permission, validation or save failures
+   */
+  public async editComment(commentId: string, body: string, editedBy: string): Promise<IncidentComment> {
+    try {
+      const comment = await this.requireComment(commentId);
+      if (comment.authorId !== editedBy) {
+        throw new IncidentCommentServiceError('Only the author can edit a comment', 'insufficient-permissions', {
+          commentId,
+        });
+      }
+      const incident = await this.requireIncident(comment.incidentId);
+      await this.assertCanComment(editedBy, incident);
+
+      const newBody = body?.trim();
+      validationService.validateOrThrow('incidentComment', { body: newBody, visibility: comment.visibility });
+      if (newBody === comment.body) {
+        return comment;
+      }
+
+      const mentionedUserIds = parseMentions(newBody);
+      const newMentions = mentionedUserIds.filter(userId => !comment.mentionedUserIds.includes(userId));
+      await this.assertCanMention(newMentions, incident, comment.visibility);
+
+      const now = new Date();
+      const revision: CommentRevision = { body: comment.body, revisedAt: now };
+      const batch = this.createBatch();
+      batch.update(doc(db, this.collectionName, commentId), {
+        body: newBody,
+        mentionedUserIds,
+        editHistory: arrayUnion({ body: revision.body, revisedAt: Timestamp.fromDate(now) }),
+        editedAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      batch.update(doc(db, Collections.INCIDENTS, comment.incidentId), {
+        lastCommentAt: serverTimestamp(),
+        ...(comment.visibility === CommentVisibility.PARENT ? { lastParentCommentAt: serverTimestamp() } : {}),
+      });
+      await withRetry(() => batch.commit());
+      this.clearCache();
+      cacheService.delete(`incident:${comment.incidentId}`);
+
+      const edited: IncidentComment = {
+        ...comment,
+        body: newBody,
+        mentionedUserIds,
+        editHistory: [...comment.editHistory, revision],
+        editedAt: now,
+        updatedAt: now,
+      };
+      await this.notifyMentionedUsers(edited, newMentions, incident);
+
+      telemetryService.trackUsage('incident_comment_edited', 'IncidentCommentService', { commentId });
+      return edited;
+    } catch (error) {
+      throw IncidentCommentServiceError.wrap(error, 'edit-comment-failed', 'Failed to edit comment', { commentId });
+    }
+  }
+
+  /**
+   * Get the threads on an incident, oldest first
+   * Each thread is its first comment, with its reply counts; use getReplies
+   * for the replies. Guardians of the students involved see only parent-visible
+   * comments, and reply counts of parent-visible replies.
+   * @param incidentId - Incident ID
+   * @param requestedBy - User ID of the requester
+   * @param pageSize - Number of threads per page
+   * @param lastDoc - Last document of the previous page
+   * @returns Promise resolving to a page of threads
+   * @throws IncidentCommentServiceError if the user cannot view the incident
+   */
+  public async getComments(
+    incidentId: string,
+    requestedBy: string,
+    pageSize: number = 20,
+    lastDoc?: DocumentSnapshot
+  ): Promise<PaginatedIncidentComments> {
+    try {
+      const incident = await this.requireIncident(incidentId);
+      const staff = await this.assertCanView(requestedBy, incident);
+      return await this.getPage(incident, staff, [where('parentCommentId', '==', null)], pageSize, lastDoc);
+    } catch (error) {
+      throw IncidentCommentServiceError.wrap(error, 'get-comments-failed', 'Failed to get comments', { incidentId });
+    }
+  }
+
+  /**
+   * Get the replies in a thread, oldest first
+   * @param commentId - ID of the thread's first comment
+   * @param requestedBy - User ID of the requester
+   * @param pageSize - Number of replies per page
+   * @param lastDoc - Last document of the previous page
+   * @returns Promise resolving to a page of replies
+   * @throws IncidentCommentServiceError if the user cannot see the thread
+   */
+  public async getReplies(
+    commentId: string,
+    requestedBy: string,
+    pageSize: number = 20,
+    lastDoc?: DocumentSnapshot
+  ): Promise<PaginatedIncidentComments> {
+    try {
+      const thread = await this.requireComment(commentId);
+      const incident = await this.requireIncident(thread.incidentId);
+      const staff = await this.assertCanView(requestedBy, incident);
+      if (!staff && thread.visibility !== CommentVisibility.PARENT) {
+        throw new IncidentCommentServiceError('Comment is only visible to staff', 'access-denied', { commentId });
+      }
+      return await this.getPage(incident, staff, [where('parentCommentId', '==', thread.id)], pageSize, lastDoc);
+    } catch (error) {
+      throw IncidentCommentServiceError.wrap(error, 'get-replies-failed', 'Failed to get replies', { commentId });
+    }
+  }
+
+  /**
+   * Read a page of an incident's comments
+   * @param incident - Incident
+   * @param staff - Whether the reader is staff (or a guardian)
+   * @param constraints - Constraints selecting threads or replies
+   * @param pageSize - Number of comments per page
+   * @param lastDoc - Last document of the previous page
+   * @returns Promise resolving to a page of comments
+   */
+  private async getPage(
+    incident: DisciplineIncident,
+    staff: boolean,
+    constraints: QueryConstraint[],
+    pageSize: number,
+    lastDoc?: DocumentSnapshot
+  ): Promise<PaginatedIncidentComments> {
+    const result = await withRetry(() =>
+      this.queryDocuments([
+        where('schoolId', '==', incident.schoolId),
+        where('incidentId', '==', incident.id),
+        ...constraints,
+        ...(staff ? [] : [where('visibility', '==', CommentVisibility.PARENT)]),
+        orderBy('createdAt', 'asc'),
+      ], pageSize, lastDoc)
+    );
+
+    // Parents see only the replies they can read
+    const comments = staff
+      ? result.items
+      : result.items.map(comment => ({ ...comment, replyCount: comment.parentReplyCount }));
+    return { comments, hasMore: result.hasMore, lastDoc: result.lastDoc };
+  }
+
+  /**
+   * Notify mentioned users of a comment
+   * Failures are tracked but never fail the comment itself.
+   * @param comment - Saved comment
+   * @param userIds - Users to notify
+   * @param incident - Incident the comment is on
+   */
+  private async notifyMentionedUsers(
+    comment: IncidentComment,
+    userIds: string[],
+    incident: DisciplineIncident
+  ): Promise<void> {
+    const text = formatCommentBody(comment.body);
+    const excerpt = text.length > 200 ? `${text.slice(0, 197)}...` : text;
+
+    for (const userId of userIds.filter(id => id !== comment.authorId)) {
+      try {
+        await notificationService.notifyUser(
+          userId,
+          {
+            subject: `${comment.authorName} mentioned you on an incident about ${incident.studentName}`,
+            body: excerpt,
+            severity: incident.severity,
+            data: { incidentId: incident.id, commentId: comment.id },
+          },
+          { createdBy: comment.authorId, incidentId: incident.id, schoolId: incident.schoolId }
+        );
+      } catch (error) {
+        telemetryService.trackException(error as Error, {
+          method: 'notifyMentionedUsers',
+          commentId: comment.id,
+          userId,
+        });
+      }
+    }
+  }
+
+  /**
+   * Check that users can be mentioned in a comment: each must be able to see it
+   * @param userIds - Mentioned user IDs
+   * @param incident - Incident the comment is on
+   * @param visibility - Comment visibility
+   * @throws IncidentCommentServiceError if a user cannot see the comment
+   */
+  private async assertCanMention(
+    userIds: string[],
+    incident: DisciplineIncident,
+    visibility: CommentVisibility
+  ): Promise<void> {
+    if (userIds.length > MAX_MENTIONS_PER_COMMENT) {
+      throw new IncidentCommentServiceError(
+        `A comment can mention at most ${MAX_MENTIONS_PER_COMMENT} people`,
+        'validation-error',
+        { mentions: userIds.length }
+      );
+    }
+
+    for (const userId of userIds) {
+      const canView = await userService.hasPermission(userId, 'view-incidents', getIncidentPermissionContext(incident));
+      const canSee = canView ||
+        (visibility === CommentVisibility.PARENT && (await guardianService.isGuardianOfParticipant(userId, incident)));
+      if (!canSee) {
+        throw new IncidentCommentServiceError(
+          'Mentioned users must be able to see the comment',
+          'invalid-mention',
+          { userId, visibility }
+        );
+      }
+    }
+  }
+
+  /**
+   * Check that a user may comment on an incident
+   * @param userId - User ID
+   * @param incident - Incident
+   * @throws IncidentCommentServiceError if the incident is deleted or the user may not comment
+   */
+  private async assertCanComment(userId: string, incident: DisciplineIncident): Promise<void> {
+    if (incident.recordState === IncidentRecordState.DELETED) {
+      throw new IncidentCommentServiceError(
+        'Deleted incidents must be restored before they are commented on',
+        'incident-deleted',
+        { incidentId: incident.id }
+      );
+    }
+    const allowed = await userService.hasPermission(userId, 'comment-on-incident', getIncidentPermissionContext(incident));
+    if (!allowed) {
+      throw new IncidentCommentServiceError('Insufficient permissions to comment on this incident', 'insufficient-permissions', {
+        incidentId: incident.id,
+      });
+    }
+  }
+
+  /**
+   * Check that a user may read an incident's comments
+   * Deleted incidents are only visible to users with 'manage-deleted-incidents'.
+   * @param userId - User ID
+   * @param incident - Incident
+   * @returns Promise resolving to true for staff, false for a guardian of a student involved
+   * @throws IncidentCommentServiceError if the user may not see the incident
+   */
+  private async assertCanView(userId: string, incident: DisciplineIncident): Promise<boolean> {
+    const deleted = incident.recordState === IncidentRecordState.DELETED;
+    const staff = await userService.hasPermission(
+      userId,
+      deleted ? 'manage-deleted-incidents' : 'view-incidents',
+      getIncidentPermissionContext(incident)
+    );
+    if (staff) {
+      return true;
+    }
+    if (!deleted && (await guardianService.isGuardianOfParticipant(userId, incident))) {
+      return false;
+    }
+    throw new IncidentCommentServiceError("Insufficient permissions to view this incident's comments", 'access-denied', {
+      incidentId: incident.id,
+    });
+  }
+
+  /**
+   * Get an incident
+   * @param incidentId - Incident ID
+   * @returns Promise resolving to the incident
+   * @throws IncidentCommentServiceError if it does not exist
+   */
+  private async requireIncident(incidentId: string): Promise<DisciplineIncident> {
+    const incident = await disciplineService.getIncident(incidentId);
+    if (!incident) {
+      throw new IncidentCommentServiceError('Incident not found', 'incident-not-found', { incidentId });
+    }
+    return incident;
+  }
+
+  /**
+   * Get a comment
+   * @param commentId - Comment ID
+   * @returns Promise resolving to the comment
+   * @throws IncidentCommentServiceError if it does not exist
+   */
+  private async requireComment(commentId: string): Promise<IncidentComment> {
+    const comment = await withRetry(() => this.getDocument(commentId));
+    if (!comment) {
+      throw new IncidentCommentServiceError('Comment not found', 'comment-not-found', { commentId });
+    }
+    return comment;
+  }
+
+  /**
+   * Map Firestore data to IncidentComment object
+   * @param id - Document ID
+   * @param data - Firestore document data
+   * @returns IncidentComment object
+   */
+  protected mapFirestoreToModel(id: string, data: any): IncidentComment {
+    return {
+      id,
+      incidentId: data.incidentId || '',
+      schoolId: data.schoolId || '',
+      parentCommentId: data.parentCommentId || undefined,
+      authorId: data.authorId || '',
+      authorName: data.authorName || '',
+      body: data.body || '',
+      visibility: data.visibility === CommentVisibility.PARENT ? CommentVisibility.PARENT : CommentVisibility.STAFF,
+      mentionedUserIds: Array.isArray(data.mentionedUserIds) ? data.mentionedUserIds : [],
+      replyCount: typeof data.replyCount === 'number' ? data.replyCount : 0,
+      parentReplyCount: typeof data.parentReplyCount === 'number' ? data.parentReplyCount : 0,
+      lastReplyAt: this.timestampToDate(data.lastReplyAt),
+      editHistory: Array.isArray(data.editHistory)
+        ? data.editHistory.map((revision: any) => ({
+            body: revision.body || '',
+            revisedAt: this.timestampToDate(revision.revisedAt) || new Date(0),
+          }))
+        : [],
+      editedAt: this.timestampToDate(data.editedAt),
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+    };
+  }
+
+  /**
+   * Map IncidentComment object to Firestore data
+   * @param model - IncidentComment object
+   * @returns Firestore data
+   */
+  protected mapModelToFirestore(model: IncidentComment): any {
+    const { id, createdAt, updatedAt, lastReplyAt, editedAt, editHistory, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    if (editHistory) {
+      data.editHistory = editHistory.map(revision => ({
+        body: revision.body,
+        revisedAt: this.dateToTimestamp(revision.revisedAt),
+      }));
+    }
+    if (lastReplyAt) {
+      data.lastReplyAt = this.dateToTimestamp(lastReplyAt);
+    }
+    if (editedAt) {
+      data.editedAt = this.dateToTimestamp(editedAt);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Custom error class for incident comment service errors
+ */
+export class IncidentCommentServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new IncidentCommentServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'IncidentCommentServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in an IncidentCommentServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns IncidentCommentServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): IncidentCommentServiceError {
+    if (error instanceof IncidentCommentServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new IncidentCommentServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    if ((error as Error)?.message?.startsWith('Validation failed')) {
+      return new IncidentCommentServiceError((error as Error).message, 'validation-error', context);
+    }
+
+    return new IncidentCommentServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const incidentCommentService = IncidentCommentService.getInstance();
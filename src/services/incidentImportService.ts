@@ -0,0 +1,1014 @@
+/**
+ * Incident Import Service for MCC Discipline Tracker
+ *
+ * This service loads historic discipline records from CSV files, such as
+ * spreadsheets kept before the school moved to the app. Columns are mapped
+ * to DisciplineIncident fields (detected from the headers or given
+ * explicitly), incident types, severities and statuses are normalised from
+ * the many ways they were written by hand, and students and teachers are
+ * resolved by ID or by name. Every problem is reported against its
+ * spreadsheet row.
+ *
+ * A dry run validates the whole file without writing anything. A real run
+ * writes incidents in batches; each batch commits together with the import
+ * job's progress, so an interrupted import can be resumed from its job ID
+ * without duplicating rows. Imported incidents are historic records and do
+ * not trigger consequence rules or notifications.
+ *
+ * @fileoverview Bulk CSV import of historic incidents
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import {
+  doc,
+  writeBatch,
+  serverTimestamp,
+  FirestoreError,
+  Timestamp,
+} from 'firebase/firestore';
+import { db, Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+import { studentService, formatStudentName } from './studentService';
+import {
+  disciplineService,
+  DisciplineIncident,
+  IncidentRecordState,
+  IncidentRecordStateField,
+  IncidentWorkflowField,
+  IncidentCommentField,
+  ParticipantRole,
+  IncidentSeverity,
+  IncidentStatus,
+  IncidentType,
+} from './disciplineService';
+import { incidentAuditService, IncidentAuditOperation } from './incidentAuditService';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { serviceRegistry } from './base/serviceRegistry';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+import { parseCsvRecords, CsvRecord } from './base/csvReader';
+import { crc32, encodeUtf8 } from './base/zipArchive';
+
+/**
+ * Rows written per batch by default
+ */
+export const DEFAULT_IMPORT_BATCH_SIZE = 150;
+
+/**
+ * Largest batch allowed; Firestore batches hold 500 writes, each row writes up
+ * to three documents (the incident, its audit log entry and its internal
+ * notes), and each batch also updates the import job
+ */
+export const MAX_IMPORT_BATCH_SIZE = 166;
+
+/**
+ * Incident fields that can be read from an import file
+ */
+export type IncidentImportField = keyof Omit<
+  DisciplineIncident,
+  | 'id'
+  | 'schoolId'
+  | 'attachments'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'createdBy'
+  | 'updatedBy'
+  | 'participants'
+  | 'participantIds'
+  | IncidentRecordStateField
+  | IncidentWorkflowField
+  | IncidentCommentField
+>;
+
+/**
+ * Mapping from incident fields to the CSV column headers they are read from
+ */
+export type IncidentColumnMapping = Partial<Record<IncidentImportField, string>>;
+
+/**
+ * Order of day and month in dates such as 03/04/2021
+ */
+export type ImportDateFormat = 'dmy' | 'mdy';
+
+/**
+ * Enum for import job status
+ */
+export enum IncidentImportStatus {
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * Interface for a persisted import job, used to resume interrupted imports
+ */
+export interface IncidentImportJob {
+  id?: string;
+  schoolId: string;
+  status: IncidentImportStatus;
+  /** Checksum of the imported rows; a resumed import must use the same file */
+  fingerprint: string;
+  totalRows: number;
+  validRows: number;
+  /** Spreadsheet row number of the next row to write */
+  nextRow: number;
+  importedRows: number;
+  lastError?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+/**
+ * Options for an import
+ */
+export interface IncidentImportOptions {
+  schoolId: string;
+  /** Column for each field; fields not given are detected from the headers */
+  mapping?: IncidentColumnMapping;
+  /** Validate and report without writing anything */
+  dryRun?: boolean;
+  /** Rows written per batch */
+  batchSize?: number;
+  /** Job ID of an interrupted import to resume */
+  jobId?: string;
+  /** Order of day and month in dates written with slashes (default day first) */
+  dateFormat?: ImportDateFormat;
+  /** Status for rows without one (default closed, as historic incidents have been dealt with) */
+  defaultStatus?: IncidentStatus;
+  /** Teacher recorded for rows without one */
+  defaultTeacherId?: string;
+}
+
+/**
+ * Problem found in an import row
+ */
+export interface ImportRowError {
+  /** Spreadsheet row number; the header is row 1 */
+  row: number;
+  field?: IncidentImportField;
+  column?: string;
+  value?: string;
+  message: string;
+}
+
+/**
+ * Outcome of an import or dry run
+ */
+export interface IncidentImportReport {
+  dryRun: boolean;
+  /** Job ID for resuming; not set for dry runs */
+  jobId?: string;
+  mapping: IncidentColumnMapping;
+  /** Columns in the file that are not mapped to any field */
+  unmappedColumns: string[];
+  totalRows: number;
+  validRows: number;
+  /** Rows written by this run */
+  importedRows: number;
+  /** Valid rows already written by an earlier run of the same job */
+  skippedRows: number;
+  errors: ImportRowError[];
+}
+
+/**
+ * Person that rows can be resolved to
+ */
+interface DirectoryEntry {
+  id: string;
+  /** Name recorded on the incident */
+  name: string;
+  /** Other names the person may be written as */
+  aliases?: string[];
+}
+
+/**
+ * Valid row ready to be written
+ */
+interface PreparedIncident {
+  row: number;
+  incident: Omit<
+    DisciplineIncident,
+    'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy' | 'participants' | 'participantIds' | IncidentRecordStateField | IncidentWorkflowField | IncidentCommentField
+  >;
+}
+
+// Header spellings recognised for each field, compared after normalisation
+const COLUMN_ALIASES: Record<IncidentImportField, string[]> = {
+  studentId: ['studentid', 'learnerid', 'studentnumber', 'learnernumber', 'admissionnumber'],
+  studentName: ['student', 'studentname', 'learner', 'learnername', 'pupil', 'name'],
+  teacherId: ['teacherid', 'staffid', 'reportedbyid'],
+  teacherName: ['teacher', 'teachername', 'staff', 'staffmember', 'educator', 'reportedby', 'loggedby'],
+  incidentType: ['incidenttype', 'type', 'category', 'offence', 'offense', 'infringement'],
+  severity: ['severity', 'level', 'seriousness'],
+  description: ['description', 'details', 'incident', 'notes', 'comments'],
+  location: ['location', 'place', 'venue', 'where'],
+  dateTime: ['datetime', 'date', 'incidentdate', 'dateofincident', 'when'],
+  actionTaken: ['actiontaken', 'action', 'sanction', 'consequence', 'outcome'],
+  internalNotes: ['internalnotes', 'staffnotes', 'confidentialnotes', 'staffonlynotes'],
+  resolutionNotes: ['resolutionnotes', 'resolution', 'howresolved'],
+  followUpRequired: ['followuprequired', 'followup', 'needsfollowup'],
+  followUpDate: ['followupdate', 'followupby'],
+  parentNotified: ['parentnotified', 'parentsnotified', 'parentcontacted', 'parentscontacted'],
+  parentNotificationDate: ['parentnotificationdate', 'datenotified', 'datecontacted'],
+  status: ['status', 'state'],
+};
+
+// Hand-written values recognised for each enum, compared after normalisation
+const INCIDENT_TYPE_ALIASES: Record<IncidentType, string[]> = {
+  [IncidentType.TARDINESS]: ['late', 'latecoming', 'lateness', 'tardy'],
+  [IncidentType.ABSENCE]: ['absent', 'truancy', 'bunking', 'skipping', 'unexplainedabsence'],
+  [IncidentType.DISRUPTION]: ['disruptive', 'disruptivebehaviour', 'disruptivebehavior', 'disturbance'],
+  [IncidentType.DISRESPECT]: ['disrespectful', 'rude', 'rudeness', 'insolence', 'defiance'],
+  [IncidentType.FIGHTING]: ['fight', 'assault', 'physicalaltercation'],
+  [IncidentType.BULLYING]: ['bully', 'harassment', 'intimidation'],
+  [IncidentType.VANDALISM]: ['damage', 'propertydamage', 'damagetoproperty', 'graffiti'],
+  [IncidentType.CHEATING]: ['dishonesty', 'plagiarism', 'copying'],
+  [IncidentType.DRESS_CODE]: ['uniform', 'uniformviolation', 'incorrectuniform'],
+  [IncidentType.TECHNOLOGY_MISUSE]: ['phone', 'cellphone', 'phoneusage', 'mobilephone', 'technology', 'devicemisuse'],
+  [IncidentType.OTHER]: ['misc', 'miscellaneous'],
+};
+
+const SEVERITY_ALIASES: Record<IncidentSeverity, string[]> = {
+  [IncidentSeverity.LOW]: ['minor', 'mild', '1', 'level1'],
+  [IncidentSeverity.MEDIUM]: ['med', 'moderate', '2', 'level2'],
+  [IncidentSeverity.HIGH]: ['major', 'serious', 'severe', '3', 'level3'],
+  [IncidentSeverity.CRITICAL]: ['extreme', 'verysevere', '4', 'level4'],
+};
+
+const STATUS_ALIASES: Record<IncidentStatus, string[]> = {
+  [IncidentStatus.OPEN]: ['new', 'outstanding'],
+  [IncidentStatus.IN_PROGRESS]: ['pending', 'ongoing'],
+  [IncidentStatus.RESOLVED]: ['done', 'dealtwith', 'handled'],
+  [IncidentStatus.CLOSED]: ['complete', 'completed', 'finalised', 'finalized'],
+};
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'x'];
+const FALSE_VALUES = ['no', 'n', 'false', '0', ''];
+
+/**
+ * Normalise text for matching headers and enum values (lowercase letters and digits only)
+ * @param value - Text to normalise
+ * @returns Normalised text
+ */
+const normaliseKey = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Normalise a person's name for matching, accepting "Surname, First" order
+ * @param value - Name as written
+ * @returns Lowercase name in "first surname" order
+ */
+const normaliseName = (value: string): string => {
+  const [surname, firstNames] = value.split(',').map(part => part.trim());
+  const ordered = firstNames ? `${firstNames} ${surname}` : value;
+  return ordered.toLowerCase().replace(/[^\p{L}\p{N}' -]/gu, '').replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Build an alias lookup for an enum
+ * @param aliases - Extra spellings for each enum value
+ * @returns Map from normalised spelling to enum value
+ */
+const buildEnumLookup = <T extends string>(aliases: Record<T, string[]>): Map<string, T> => {
+  const lookup = new Map<string, T>();
+  (Object.keys(aliases) as T[]).forEach(value => {
+    lookup.set(normaliseKey(value), value);
+    aliases[value].forEach(alias => lookup.set(normaliseKey(alias), value));
+  });
+  return lookup;
+};
+
+const INCIDENT_TYPE_LOOKUP = buildEnumLookup(INCIDENT_TYPE_ALIASES);
+const SEVERITY_LOOKUP = buildEnumLookup(SEVERITY_ALIASES);
+const STATUS_LOOKUP = buildEnumLookup(STATUS_ALIASES);
+
+/**
+ * Parse a date as written in a spreadsheet, in local time
+ * Accepts YYYY-MM-DD and DD/MM/YYYY (or MM/DD/YYYY) with an optional HH:mm[:ss] time.
+ * @param value - Date text
+ * @param dateFormat - Order of day and month in dates written with slashes, dots or dashes
+ * @returns Date, or null if the text is not a valid date
+ */
+const parseImportDate = (value: string, dateFormat: ImportDateFormat): Date | null => {
+  const text = value.trim();
+  const isoMatch = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  const localMatch = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?: (\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+
+  let parts: number[];
+  if (isoMatch) {
+    parts = isoMatch.slice(1).map(part => Number(part ?? 0));
+  } else if (localMatch) {
+    const [first, second, year, ...time] = localMatch.slice(1).map(part => Number(part ?? 0));
+    parts = dateFormat === 'dmy' ? [year, second, first, ...time] : [year, first, second, ...time];
+  } else {
+    return null;
+  }
+
+  const [year, month, day, hours, minutes, seconds] = parts;
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  // Reject dates that rolled over, such as 31/02
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day || hours > 23) {
+    return null;
+  }
+  return date;
+};
+
+/**
+ * Detect the column for each field from the file's headers
+ * @param headers - Column headers
+ * @returns Mapping for every field whose column was recognised
+ */
+const detectColumnMapping = (headers: string[]): IncidentColumnMapping => {
+  const mapping: IncidentColumnMapping = {};
+  const used = new Set<string>();
+
+  (Object.keys(COLUMN_ALIASES) as IncidentImportField[]).forEach(field => {
+    for (const alias of COLUMN_ALIASES[field]) {
+      const header = headers.find(candidate => !used.has(candidate) && normaliseKey(candidate) === alias);
+      if (header) {
+        mapping[field] = header;
+        used.add(header);
+        break;
+      }
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Persistence for import jobs
+ */
+class IncidentImportJobStore extends FirestoreService<IncidentImportJob> {
+  protected collectionName = Collections.INCIDENT_IMPORTS;
+
+  public create(job: Omit<IncidentImportJob, 'id'>): Promise<IncidentImportJob> {
+    return this.createDocument(job).finally(() => this.clearCache());
+  }
+
+  public get(jobId: string): Promise<IncidentImportJob | null> {
+    return this.getDocument(jobId);
+  }
+
+  public update(jobId: string, updates: Partial<IncidentImportJob>): Promise<IncidentImportJob> {
+    return this.updateDocument(jobId, updates).finally(() => this.clearCache());
+  }
+
+  /**
+   * Forget cached copies of a job after it is changed outside the store
+   * @param jobId - Job ID
+   */
+  public invalidate(jobId: string): void {
+    this.clearCacheForKey(`doc:${jobId}`);
+  }
+
+  protected mapFirestoreToModel(id: string, data: any): IncidentImportJob {
+    return {
+      id,
+      schoolId: data.schoolId || '',
+      status: data.status || IncidentImportStatus.IN_PROGRESS,
+      fingerprint: data.fingerprint || '',
+      totalRows: data.totalRows || 0,
+      validRows: data.validRows || 0,
+      nextRow: data.nextRow || 2,
+      importedRows: data.importedRows || 0,
+      lastError: data.lastError || undefined,
+      completedAt: this.timestampToDate(data.completedAt),
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      createdBy: data.createdBy || '',
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  protected mapModelToFirestore(model: IncidentImportJob): any {
+    const { id, createdAt, updatedAt, completedAt, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    if (completedAt) {
+      data.completedAt = this.dateToTimestamp(completedAt);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Incident import service class providing validation and batched, resumable import of CSV files
+ */
+export class IncidentImportService {
+  private static instance: IncidentImportService;
+  private readonly jobs = new IncidentImportJobStore();
+
+  /**
+   * Singleton pattern implementation
+   * @returns IncidentImportService instance
+   */
+  public static getInstance(): IncidentImportService {
+    if (!IncidentImportService.instance) {
+      IncidentImportService.instance = new IncidentImportService();
+      // Register with service registry
+      serviceRegistry.registerInstance('incidentImportService', IncidentImportService.instance);
+    }
+    return IncidentImportService.instance;
+  }
+
+  private constructor() {
+    telemetryService.trackUsage('service_initialized', 'IncidentImportService');
+  }
+
+  /**
+   * Validate a CSV file of incidents without writing anything
+   * @param csv - CSV text with a header row, or records already read from one
+   * @param options - Import options (dryRun is implied)
+   * @param importedBy - User ID of the person running the import
+   * @returns Promise resolving to the validation report
+   * @throws IncidentImportServiceError if the file cannot be imported at all
+   */
+  public async validateImport(
+    csv: string | CsvRecord[],
+    options: IncidentImportOptions,
+    importedBy: string
+  ): Promise<IncidentImportReport> {
+    return this.importIncidents(csv, { ...options, dryRun: true }, importedBy);
+  }
+
+  /**
+   * Import a CSV file of historic incidents
+   * Invalid rows are reported and skipped; valid rows are written in batches.
+   * If a batch fails, the error's context holds the job ID to resume with.
+   * @param csv - CSV text with a header row, or records already read from one
+   * @param options - Import options
+   * @param importedBy - User ID of the person running the import
+   * @returns Promise resolving to the import report
+   * @throws IncidentImportServiceError for permission, mapping or write failures
+   */
+  public async importIncidents(
+    csv: string | CsvRecord[],
+    options: IncidentImportOptions,
+    importedBy: string
+  ): Promise<IncidentImportReport> {
+    telemetryService.startMeasurement('importIncidents');
+
+    try {
+      const hasPermission = await userService.hasPermission(importedBy, 'import-incidents');
+      if (!hasPermission) {
+        throw new IncidentImportServiceError('Insufficient permissions to import incidents', 'insufficient-permissions');
+      }
+
+      const batchSize = options.batchSize ?? DEFAULT_IMPORT_BATCH_SIZE;
+      if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_IMPORT_BATCH_SIZE) {
+        throw new IncidentImportServiceError(
+          `Batch size must be a whole number from 1 to ${MAX_IMPORT_BATCH_SIZE}`,
+          'invalid-batch-size',
+          { batchSize }
+        );
+      }
+
+      const { headers, records } = typeof csv === 'string' ? parseCsvRecords(csv) : {
+        headers: Array.from(new Set(csv.flatMap(record => Object.keys(record)))),
+        records: csv,
+      };
+      if (records.length === 0) {
+        throw new IncidentImportServiceError('The import file has no data rows', 'empty-import');
+      }
+
+      const mapping = this.resolveMapping(headers, options);
+      const mappedColumns = new Set(Object.values(mapping));
+      const unmappedColumns = headers.filter(header => !mappedColumns.has(header));
+
+      const [students, teachers] = await Promise.all([
+        this.loadStudents(options.schoolId),
+        this.loadTeachers(options.schoolId),
+      ]);
+
+      const errors: ImportRowError[] = [];
+      const prepared: PreparedIncident[] = [];
+      records.forEach((record, index) => {
+        const result = this.prepareRow(record, index + 2, mapping, options, students, teachers);
+        if ('errors' in result) {
+          errors.push(...result.errors);
+        } else {
+          prepared.push(result);
+        }
+      });
+
+      const report: IncidentImportReport = {
+        dryRun: Boolean(options.dryRun),
+        mapping,
+        unmappedColumns,
+        totalRows: records.length,
+        validRows: prepared.length,
+        importedRows: 0,
+        skippedRows: 0,
+        errors,
+      };
+
+      if (!options.dryRun && prepared.length > 0) {
+        await this.writeIncidents(prepared, records, report, options, batchSize, importedBy);
+      }
+
+      telemetryService.trackUsage(options.dryRun ? 'incident_import_validated' : 'incidents_imported', 'IncidentImportService', {
+        schoolId: options.schoolId,
+        totalRows: report.totalRows,
+        validRows: report.validRows,
+        importedRows: report.importedRows,
+        errorCount: errors.length,
+      });
+      telemetryService.stopMeasurement('importIncidents', options.dryRun ? 'validate_incident_import' : 'import_incidents');
+
+      return report;
+    } catch (error) {
+      telemetryService.stopMeasurement('importIncidents', 'import_incidents_failed');
+      throw IncidentImportServiceError.wrap(error, 'import-incidents-failed', 'Failed to import incidents', {
+        schoolId: options.schoolId,
+        jobId: options.jobId,
+      });
+    }
+  }
+
+  /**
+   * Get an import job
+   * @param jobId - Job ID
+   * @returns Promise resolving to the job or null if not found
+   * @throws IncidentImportServiceError for fetch failures
+   */
+  public async getImportJob(jobId: string): Promise<IncidentImportJob | null> {
+    try {
+      return await withRetry(() => this.jobs.get(jobId));
+    } catch (error) {
+      throw IncidentImportServiceError.wrap(error, 'get-import-job-failed', 'Failed to get import job', { jobId });
+    }
+  }
+
+  /**
+   * Combine the explicit column mapping with columns detected from the headers
+   * @param headers - Column headers in the file
+   * @param options - Import options
+   * @returns Column mapping
+   * @throws IncidentImportServiceError if a mapped column is missing or a required field has no column
+   */
+  private resolveMapping(headers: string[], options: IncidentImportOptions): IncidentColumnMapping {
+    const explicit = options.mapping || {};
+    const missingColumns = Object.values(explicit).filter(column => column && !headers.includes(column));
+    if (missingColumns.length > 0) {
+      throw new IncidentImportServiceError(
+        `Mapped columns not found in the file: ${missingColumns.join(', ')}`,
+        'invalid-mapping',
+        { missingColumns, headers }
+      );
+    }
+
+    const explicitColumns = new Set(Object.values(explicit));
+    const detected = detectColumnMapping(headers.filter(header => !explicitColumns.has(header)));
+    const mapping: IncidentColumnMapping = { ...detected, ...explicit };
+
+    const missingFields: string[] = [];
+    if (!mapping.studentId && !mapping.studentName) {
+      missingFields.push('studentId or studentName');
+    }
+    if (!mapping.teacherId && !mapping.teacherName && !options.defaultTeacherId) {
+      missingFields.push('teacherId or teacherName');
+    }
+    (['incidentType', 'severity', 'description', 'dateTime'] as IncidentImportField[]).forEach(field => {
+      if (!mapping[field]) {
+        missingFields.push(field);
+      }
+    });
+    if (missingFields.length > 0) {
+      throw new IncidentImportServiceError(
+        `No column found for: ${missingFields.join(', ')}`,
+        'invalid-mapping',
+        { missingFields, headers }
+      );
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Validate and convert one row
+   * @param record - Row values keyed by header
+   * @param row - Spreadsheet row number
+   * @param mapping - Column mapping
+   * @param options - Import options
+   * @param students - Students in the school
+   * @param teachers - Staff in the school
+   * @returns Prepared incident, or the row's errors
+   */
+  private prepareRow(
+    record: CsvRecord,
+    row: number,
+    mapping: IncidentColumnMapping,
+    options: IncidentImportOptions,
+    students: DirectoryEntry[],
+    teachers: DirectoryEntry[]
+  ): PreparedIncident | { errors: ImportRowError[] } {
+    const errors: ImportRowError[] = [];
+    const value = (field: IncidentImportField): string => {
+      const column = mapping[field];
+      return column ? (record[column] ?? '').trim() : '';
+    };
+    const fail = (field: IncidentImportField, message: string) => {
+      errors.push({ row, field, column: mapping[field], value: value(field) || undefined, message });
+    };
+
+    const resolvePerson = (
+      entries: DirectoryEntry[],
+      idField: IncidentImportField,
+      nameField: IncidentImportField,
+      label: string,
+      fallbackId?: string
+    ): DirectoryEntry | undefined => {
+      const id = value(idField) || (value(nameField) ? '' : fallbackId || '');
+      if (id) {
+        const entry = entries.find(candidate => candidate.id === id);
+        if (!entry) {
+          fail(idField, `No ${label} with ID "${id}" in this school`);
+        }
+        return entry;
+      }
+      const name = value(nameField);
+      if (!name) {
+        fail(mapping[nameField] ? nameField : idField, `${label.charAt(0).toUpperCase()}${label.slice(1)} is required`);
+        return undefined;
+      }
+      const byName = entries.filter(candidate =>
+        [candidate.name, ...(candidate.aliases || [])].some(candidateName => normaliseName(candidateName) === normaliseName(name))
+      );
+      // Name columns in older spreadsheets sometimes hold IDs instead
+      const matches = byName.length > 0 ? byName : entries.filter(candidate => candidate.id === name);
+      if (matches.length !== 1) {
+        fail(
+          nameField,
+          matches.length === 0
+            ? `No ${label} named "${name}" in this school`
+            : `"${name}" matches ${matches.length} ${label}s; use an ID column instead`
+        );
+        return undefined;
+      }
+      return matches[0];
+    };
+
+    const student = resolvePerson(students, 'studentId', 'studentName', 'student');
+    const teacher = resolvePerson(teachers, 'teacherId', 'teacherName', 'teacher', options.defaultTeacherId);
+
+    const enumValue = <T extends string>(field: IncidentImportField, lookup: Map<string, T>, fallback?: T): T | undefined => {
+      const text = value(field);
+      if (!text) {
+        if (!fallback) {
+          fail(field, `${field} is required`);
+        }
+        return fallback;
+      }
+      const match = lookup.get(normaliseKey(text));
+      if (!match) {
+        fail(field, `"${text}" is not a recognised ${field}; expected one of ${Array.from(new Set(lookup.values())).join(', ')}`);
+      }
+      return match;
+    };
+
+    const incidentType = enumValue('incidentType', INCIDENT_TYPE_LOOKUP);
+    const severity = enumValue('severity', SEVERITY_LOOKUP);
+    const status = enumValue('status', STATUS_LOOKUP, options.defaultStatus || IncidentStatus.CLOSED);
+
+    const dateValue = (field: IncidentImportField, required: boolean): Date | undefined => {
+      const text = value(field);
+      if (!text) {
+        if (required) {
+          fail(field, `${field} is required`);
+        }
+        return undefined;
+      }
+      const date = parseImportDate(text, options.dateFormat || 'dmy');
+      if (!date) {
+        fail(field, `"${text}" is not a valid date`);
+        return undefined;
+      }
+      return date;
+    };
+
+    const dateTime = dateValue('dateTime', true);
+    if (dateTime && dateTime.getTime() > Date.now()) {
+      fail('dateTime', 'Incident date is in the future');
+    }
+    const followUpDate = dateValue('followUpDate', false);
+    const parentNotificationDate = dateValue('parentNotificationDate', false);
+
+    const booleanValue = (field: IncidentImportField, fallback: boolean): boolean => {
+      const text = value(field).toLowerCase();
+      if (!mapping[field]) {
+        return fallback;
+      }
+      if (TRUE_VALUES.includes(text)) {
+        return true;
+      }
+      if (!FALSE_VALUES.includes(text)) {
+        fail(field, `"${value(field)}" is not yes or no`);
+      }
+      return false;
+    };
+
+    const followUpRequired = booleanValue('followUpRequired', Boolean(followUpDate));
+    const parentNotified = booleanValue('parentNotified', Boolean(parentNotificationDate));
+
+    const description = value('description');
+    if (!description) {
+      fail('description', 'description is required');
+    } else if (description.length > 2000) {
+      fail('description', 'description must be at most 2000 characters');
+    }
+
+    const internalNotes = value('internalNotes');
+    if (internalNotes.length > 2000) {
+      fail('internalNotes', 'internal notes must be at most 2000 characters');
+    }
+
+    const resolutionNotes = value('resolutionNotes');
+    if (resolutionNotes.length > 2000) {
+      fail('resolutionNotes', 'resolution notes must be at most 2000 characters');
+    }
+
+    if (errors.length > 0 || !student || !teacher || !incidentType || !severity || !status || !dateTime) {
+      return { errors };
+    }
+
+    return {
+      row,
+      incident: {
+        schoolId: options.schoolId,
+        studentId: student.id,
+        studentName: student.name,
+        teacherId: teacher.id,
+        teacherName: teacher.name,
+        incidentType,
+        severity,
+        status,
+        description,
+        location: value('location'),
+        dateTime,
+        actionTaken: value('actionTaken'),
+        ...(internalNotes ? { internalNotes } : {}),
+        ...(resolutionNotes ? { resolutionNotes } : {}),
+        followUpRequired,
+        followUpDate,
+        parentNotified,
+        parentNotificationDate,
+      },
+    };
+  }
+
+  /**
+   * Write valid rows in batches, creating or resuming the import job
+   * @param prepared - Valid rows
+   * @param records - All rows in the file, used to fingerprint it
+   * @param report - Report to update with progress
+   * @param options - Import options
+   * @param batchSize - Rows per batch
+   * @param importedBy - User ID of the person running the import
+   */
+  private async writeIncidents(
+    prepared: PreparedIncident[],
+    records: CsvRecord[],
+    report: IncidentImportReport,
+    options: IncidentImportOptions,
+    batchSize: number,
+    importedBy: string
+  ): Promise<void> {
+    const fingerprint = crc32(encodeUtf8(JSON.stringify(records))).toString(16);
+    const job = options.jobId
+      ? await this.resumeJob(options.jobId, options.schoolId, fingerprint)
+      : await withRetry(() =>
+          this.jobs.create({
+            schoolId: options.schoolId,
+            status: IncidentImportStatus.IN_PROGRESS,
+            fingerprint,
+            totalRows: records.length,
+            validRows: prepared.length,
+            nextRow: 2,
+            importedRows: 0,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            createdBy: importedBy,
+            updatedBy: importedBy,
+          })
+        );
+    const jobId = job.id!;
+    report.jobId = jobId;
+
+    const pending = prepared.filter(item => item.row >= job.nextRow);
+    report.skippedRows = prepared.length - pending.length;
+    let importedRows = job.importedRows;
+
+    for (let start = 0; start < pending.length; start += batchSize) {
+      const chunk = pending.slice(start, start + batchSize);
+      const isLast = start + batchSize >= pending.length;
+      const nextRow = isLast ? records.length + 2 : pending[start + batchSize].row;
+
+      const batch = writeBatch(db);
+      chunk.forEach(({ row, incident }) => {
+        const { followUpDate, parentNotificationDate, internalNotes, ...rest } = incident;
+        const incidentId = `${jobId}-${row}`;
+        // Each row records one student, who took part
+        const participant = {
+          studentId: incident.studentId,
+          studentName: incident.studentName,
+          role: ParticipantRole.PARTICIPANT,
+          parentNotified: incident.parentNotified,
+        };
+        const imported = {
+          participantIds: [incident.studentId],
+          commentCount: 0,
+          parentCommentCount: 0,
+          importJobId: jobId,
+          recordState: IncidentRecordState.ACTIVE,
+          createdBy: importedBy,
+          updatedBy: importedBy,
+        };
+        batch.set(doc(db, Collections.INCIDENTS, incidentId), {
+          ...rest,
+          ...imported,
+          dateTime: Timestamp.fromDate(incident.dateTime),
+          followUpDate: followUpDate ? Timestamp.fromDate(followUpDate) : null,
+          parentNotificationDate: parentNotificationDate ? Timestamp.fromDate(parentNotificationDate) : null,
+          participants: [{
+            ...participant,
+            ...(parentNotificationDate ? { parentNotificationDate: Timestamp.fromDate(parentNotificationDate) } : {}),
+          }],
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+        if (internalNotes) {
+          disciplineService.setInternalNotesInBatch(batch, incidentId, options.schoolId, internalNotes, importedBy);
+        }
+        // Imported incidents are logged as created, like incidents reported in the app
+        incidentAuditService.recordInBatch(batch, {
+          incidentId,
+          schoolId: options.schoolId,
+          operation: IncidentAuditOperation.CREATE,
+          actorId: importedBy,
+          changes: [],
+          snapshot: {
+            ...incident,
+            ...imported,
+            participants: [{ ...participant, ...(parentNotificationDate ? { parentNotificationDate } : {}) }],
+          },
+        });
+      });
+      // Progress is committed with the rows, so a resumed import starts exactly after this batch
+      batch.update(doc(db, Collections.INCIDENT_IMPORTS, jobId), {
+        nextRow,
+        importedRows: importedRows + chunk.length,
+        status: isLast ? IncidentImportStatus.COMPLETED : IncidentImportStatus.IN_PROGRESS,
+        lastError: null,
+        ...(isLast ? { completedAt: serverTimestamp() } : {}),
+        updatedAt: serverTimestamp(),
+        updatedBy: importedBy,
+      });
+
+      try {
+        await withRetry(() => batch.commit());
+      } catch (error) {
+        await this.jobs
+          .update(jobId, { status: IncidentImportStatus.FAILED, lastError: (error as Error).message, updatedBy: importedBy })
+          .catch(updateError => console.error('Error recording import failure:', updateError));
+        throw IncidentImportServiceError.wrap(error, 'import-interrupted', 'Import stopped before it finished', {
+          jobId,
+          nextRow: chunk[0].row,
+          importedRows,
+        });
+      } finally {
+        this.jobs.invalidate(jobId);
+      }
+
+      importedRows += chunk.length;
+      report.importedRows += chunk.length;
+    }
+
+    if (pending.length === 0 && job.status !== IncidentImportStatus.COMPLETED) {
+      await withRetry(() =>
+        this.jobs.update(jobId, {
+          status: IncidentImportStatus.COMPLETED,
+          completedAt: new Date(),
+          updatedBy: importedBy,
+        })
+      );
+    }
+  }
+
+  /**
+   * Load an interrupted job and check it belongs to the same school and file
+   * @param jobId - Job ID
+   * @param schoolId - School being imported into
+   * @param fingerprint - Checksum of the rows being imported
+   * @returns Promise resolving to the job
+   * @throws IncidentImportServiceError if the job cannot be resumed with this file
+   */
+  private async resumeJob(jobId: string, schoolId: string, fingerprint: string): Promise<IncidentImportJob> {
+    const job = await withRetry(() => this.jobs.get(jobId));
+    if (!job) {
+      throw new IncidentImportServiceError('Import job not found', 'import-job-not-found', { jobId });
+    }
+    if (job.schoolId !== schoolId || job.fingerprint !== fingerprint) {
+      throw new IncidentImportServiceError(
+        'An import can only be resumed with the same school and file',
+        'import-job-mismatch',
+        { jobId }
+      );
+    }
+    return job;
+  }
+
+  /**
+   * Load the students in a school for resolving rows
+   * Former students are included, as historic incidents may be theirs.
+   * @param schoolId - School identifier
+   * @returns Promise resolving to students
+   */
+  private async loadStudents(schoolId: string): Promise<DirectoryEntry[]> {
+    const students = await studentService.getStudentsBySchool(schoolId);
+    return students.map(student => ({
+      id: student.id!,
+      name: formatStudentName(student),
+      aliases: [`${student.firstName} ${student.lastName}`],
+    }));
+  }
+
+  /**
+   * Load the staff in a school for resolving rows
+   * @param schoolId - School identifier
+   * @returns Promise resolving to staff
+   */
+  private async loadTeachers(schoolId: string): Promise<DirectoryEntry[]> {
+    const users = await userService.getUsersBySchool(schoolId);
+    return users.map(user => ({ id: user.uid, name: user.displayName || '' }));
+  }
+}
+
+/**
+ * Custom error class for incident import errors
+ */
+export class IncidentImportServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new IncidentImportServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'IncidentImportServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in an IncidentImportServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns IncidentImportServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): IncidentImportServiceError {
+    if (error instanceof IncidentImportServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new IncidentImportServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    return new IncidentImportServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const incidentImportService = IncidentImportService.getInstance();
@@ -37,14 +37,388 @@ export {
   IncidentType,
   IncidentSeverity,
   IncidentStatus,
+  IncidentRecordState,
+  DEFAULT_ARCHIVE_AFTER_DAYS,
+  INCIDENT_STATUS_TRANSITIONS,
+  getStatusTransition,
+  getNextStatuses,
+  ParticipantRole,
+  OFFENDER_ROLES,
+  isOffenderRole,
+  getIncidentParticipant,
+  getStudentIncident,
 } from './disciplineService';
 export type {
   DisciplineIncident,
   IncidentSearchFilters,
   PaginatedIncidents,
   IncidentStatistics,
+  IncidentArchivePolicy,
+  IncidentRecordStateField,
+  IncidentStatusChange,
+  IncidentStatusTransition,
+  IncidentWorkflowField,
+  IncidentCommentField,
+  IncidentParticipant,
+  IncidentParticipantInput,
+  IncidentParticipantField,
+  IncidentCreateInput,
+  IncidentUpdateInput,
 } from './disciplineService';
 
+// Merit Service
+export {
+  MeritService,
+  MeritServiceError,
+  meritService,
+  MeritCategory,
+  MERIT_CATEGORY_POINTS,
+} from './meritService';
+export type {
+  Merit,
+  MeritInput,
+  MeritSearchFilters,
+  PaginatedMerits,
+  MeritStatistics,
+} from './meritService';
+
+// Behavior Score Service
+export {
+  BehaviorScoreService,
+  BehaviorScoreServiceError,
+  behaviorScoreService,
+  DEFAULT_HEAT_SCORE_CONFIG,
+} from './behaviorScoreService';
+export type {
+  HeatScoreConfig,
+  HeatScoreConfigUpdate,
+  HeatScoreRiskLevel,
+  StudentHeatScore,
+  HeatScorePoint,
+} from './behaviorScoreService';
+
+// Consequence Rule Service
+export {
+  ConsequenceRuleService,
+  ConsequenceRuleServiceError,
+  consequenceRuleService,
+  ConsequenceType,
+} from './consequenceRuleService';
+export type {
+  ConsequenceRule,
+  ConsequenceRuleInput,
+  ConsequenceRuleUpdate,
+} from './consequenceRuleService';
+
+// Consequence Service
+export {
+  ConsequenceService,
+  ConsequenceServiceError,
+  consequenceService,
+  ConsequenceStatus,
+} from './consequenceService';
+export type {
+  Consequence,
+  ConsequenceOverride,
+  ManualConsequenceInput,
+} from './consequenceService';
+
+// Detention Service
+export {
+  DetentionService,
+  DetentionServiceError,
+  detentionService,
+  DetentionAttendanceStatus,
+  MAX_DETENTION_RESCHEDULES,
+} from './detentionService';
+export type {
+  DetentionSession,
+  DetentionSessionInput,
+  DetentionAssignment,
+  DetentionEscalation,
+  DetentionAttendanceResult,
+} from './detentionService';
+
+// Notification Service
+export {
+  NotificationService,
+  NotificationServiceError,
+  notificationService,
+  DeliveryStatus,
+} from './notificationService';
+export type {
+  NotificationDelivery,
+  DeliveryContext,
+  ParentContact,
+  ParentNotice,
+  ParentNoticeResult,
+  UserNotification,
+  DigestContent,
+} from './notificationService';
+export {
+  NotificationChannel,
+  NotificationProviderError,
+  ExpoPushProvider,
+  SmtpEmailProvider,
+  SmsGatewayProvider,
+  LoopbackProvider,
+} from './notificationProviders';
+export type {
+  NotificationMessage,
+  NotificationProvider,
+  ProviderSendResult,
+  FetchFunction,
+  ExpoPushConfig,
+  SmtpTransport,
+  SmtpMailOptions,
+  SmsGatewayConfig,
+} from './notificationProviders';
+
+// Notification Preferences Service
+export {
+  NotificationPreferencesService,
+  NotificationPreferencesServiceError,
+  notificationPreferencesService,
+  DeliveryMode,
+  DispatchAction,
+  createDefaultPreferences,
+} from './notificationPreferencesService';
+export type {
+  NotificationPreferences,
+  NotificationPreferencesUpdate,
+  QuietHours,
+  DispatchDecision,
+} from './notificationPreferencesService';
+
+// Letter Template Service
+export {
+  LetterTemplateService,
+  LetterTemplateServiceError,
+  letterTemplateService,
+  LETTER_PLACEHOLDERS,
+  REQUIRED_PLACEHOLDERS,
+  MAX_SMS_LENGTH,
+} from './letterTemplateService';
+export type {
+  LetterTemplate,
+  LetterTemplateInput,
+  LetterTemplateUpdate,
+  LetterContext,
+  LetterTemplateIssue,
+  RenderedLetter,
+} from './letterTemplateService';
+
+// Report Schedule Service
+export {
+  ReportScheduleService,
+  ReportScheduleServiceError,
+  reportScheduleService,
+  systemClock,
+  DEFAULT_REPORT_TIME,
+} from './reportScheduleService';
+export type {
+  ReportSchedule,
+  ReportScheduleInput,
+  ReportFrequency,
+  ReportRun,
+  ReportHandler,
+  ScheduleCadence,
+  ScheduleRunResult,
+  Clock,
+} from './reportScheduleService';
+
+// Digest Service
+export {
+  DigestService,
+  DigestServiceError,
+  digestService,
+  DIGEST_REPORT_TYPE,
+  MAX_DIGEST_ITEMS,
+} from './digestService';
+export type {
+  Digest,
+  DigestPeriod,
+  DigestResult,
+} from './digestService';
+
+// Report PDF Renderer
+export { renderStudentReportPdf, renderSchoolReportPdf } from './reportPdfRenderer';
+export type { ReportPdfOptions } from './reportPdfRenderer';
+
+// Report Workbook Renderer
+export { renderSchoolReportWorkbook, SCHOOL_REPORT_SHEETS } from './reportWorkbookRenderer';
+
+// Student Service
+export {
+  StudentService,
+  StudentServiceError,
+  studentService,
+  EnrolmentStatus,
+  ACTIVE_ENROLMENT_STATUSES,
+  formatStudentName,
+  isActivelyEnrolled,
+} from './studentService';
+export type {
+  Student,
+  StudentInput,
+  StudentUpdate,
+  StudentGuardian,
+  StudentSearchFilters,
+} from './studentService';
+
+// Incident CSV Exporter
+export { exportIncidentsCsv, DEFAULT_INCIDENT_CSV_COLUMNS, DEFAULT_EXPORT_PAGE_SIZE } from './incidentCsvExporter';
+export type { IncidentCsvExportOptions } from './incidentCsvExporter';
+
+// Incident Import Service
+export {
+  IncidentImportService,
+  IncidentImportServiceError,
+  incidentImportService,
+  IncidentImportStatus,
+  DEFAULT_IMPORT_BATCH_SIZE,
+  MAX_IMPORT_BATCH_SIZE,
+} from './incidentImportService';
+export type {
+  IncidentImportJob,
+  IncidentImportOptions,
+  IncidentImportReport,
+  IncidentImportField,
+  IncidentColumnMapping,
+  ImportRowError,
+  ImportDateFormat,
+} from './incidentImportService';
+
+// Guardian Service
+export {
+  GuardianService,
+  GuardianServiceError,
+  guardianService,
+  GuardianInvitationStatus,
+  GuardianLinkStatus,
+  INVITATION_VALID_DAYS,
+  guardianLinkId,
+} from './guardianService';
+export type {
+  GuardianInvitation,
+  GuardianInvitationInput,
+  GuardianInvitationResult,
+  GuardianLink,
+} from './guardianService';
+
+// Student View Service
+export {
+  StudentViewService,
+  StudentViewServiceError,
+  studentViewService,
+  REDACTED_STUDENT_NAME,
+  getDefaultVisibleStatuses,
+  getStudentIncidentViewId,
+  redactStudentNames,
+} from './studentViewService';
+export type {
+  StudentViewPolicy,
+  StudentIncidentView,
+  PaginatedStudentIncidentViews,
+} from './studentViewService';
+
+// Permission Policy Service
+export {
+  PermissionPolicyService,
+  PermissionPolicyServiceError,
+  permissionPolicyService,
+  getIncidentPermissionContext,
+} from './permissionPolicyService';
+export type {
+  CustomRole,
+  CustomRoleInput,
+  CustomRoleUpdate,
+  CustomRoleScope,
+  CustomRoleConditions,
+  SchoolPermissionPolicy,
+  PermissionContext,
+  UserPermissionPolicy,
+} from './permissionPolicyService';
+
+// Incident Audit Service
+export {
+  IncidentAuditService,
+  IncidentAuditServiceError,
+  incidentAuditService,
+  IncidentAuditOperation,
+  diffIncidentFields,
+} from './incidentAuditService';
+export type {
+  IncidentAuditEntry,
+  IncidentAuditEntryInput,
+  IncidentFieldChange,
+  PaginatedIncidentAuditEntries,
+} from './incidentAuditService';
+
+// Incident Attachment Service
+export {
+  IncidentAttachmentService,
+  IncidentAttachmentServiceError,
+  incidentAttachmentService,
+  AttachmentVisibility,
+  AttachmentStatus,
+  MAX_ATTACHMENT_SIZE,
+  ALLOWED_ATTACHMENT_TYPES,
+  THUMBNAIL_SIZE,
+  DELETED_ATTACHMENT_RETENTION_DAYS,
+  pngThumbnailGenerator,
+  matchesFileType,
+} from './incidentAttachmentService';
+export type {
+  IncidentAttachment,
+  AttachmentUpload,
+  AttachmentContent,
+  GeneratedThumbnail,
+  ThumbnailGenerator,
+} from './incidentAttachmentService';
+export {
+  FirebaseAttachmentStorage,
+  LocalAttachmentStorage,
+  AttachmentStorageError,
+} from './attachmentStorage';
+export type { AttachmentStorage } from './attachmentStorage';
+
+// Incident Comment Service
+export {
+  IncidentCommentService,
+  IncidentCommentServiceError,
+  incidentCommentService,
+  CommentVisibility,
+  MAX_MENTIONS_PER_COMMENT,
+  parseMentions,
+  formatCommentBody,
+} from './incidentCommentService';
+export type {
+  IncidentComment,
+  IncidentCommentInput,
+  CommentRevision,
+  PaginatedIncidentComments,
+} from './incidentCommentService';
+
+// Follow-Up Task Service
+export {
+  FollowUpTaskService,
+  FollowUpTaskServiceError,
+  followUpTaskService,
+  FollowUpTaskStatus,
+  DEFAULT_ESCALATION_GRACE_HOURS,
+  MAX_CHECKLIST_ITEMS,
+  isTaskOverdue,
+} from './followUpTaskService';
+export type {
+  FollowUpTask,
+  FollowUpTaskInput,
+  FollowUpTaskUpdate,
+  FollowUpChecklistItem,
+  FollowUpPolicy,
+  PaginatedFollowUpTasks,
+} from './followUpTaskService';
+
 // Reporting Service
 export {
   ReportingService,
@@ -60,6 +434,31 @@ export type {
   ExportOptions,
 } from './reportingService';
 
+// Singleton instances used by the health check below
+import { authService } from './authService';
+import { userService } from './userService';
+import { disciplineService } from './disciplineService';
+import { studentService } from './studentService';
+import { meritService } from './meritService';
+import { behaviorScoreService } from './behaviorScoreService';
+import { consequenceRuleService } from './consequenceRuleService';
+import { consequenceService } from './consequenceService';
+import { detentionService } from './detentionService';
+import { notificationService } from './notificationService';
+import { notificationPreferencesService } from './notificationPreferencesService';
+import { letterTemplateService } from './letterTemplateService';
+import { reportScheduleService } from './reportScheduleService';
+import { digestService } from './digestService';
+import { incidentImportService } from './incidentImportService';
+import { guardianService } from './guardianService';
+import { studentViewService } from './studentViewService';
+import { permissionPolicyService } from './permissionPolicyService';
+import { incidentAuditService } from './incidentAuditService';
+import { incidentAttachmentService } from './incidentAttachmentService';
+import { incidentCommentService } from './incidentCommentService';
+import { followUpTaskService } from './followUpTaskService';
+import { reportingService } from './reportingService';
+
 /**
  * Service layer initialization
  * Call this function to initialize all services
@@ -81,7 +480,26 @@ export const checkServiceHealth = () => {
   const services = {
     auth: !!authService,
     user: !!userService,
+    permissionPolicies: !!permissionPolicyService,
     discipline: !!disciplineService,
+    incidentAudit: !!incidentAuditService,
+    incidentAttachments: !!incidentAttachmentService,
+    incidentComments: !!incidentCommentService,
+    followUpTasks: !!followUpTaskService,
+    students: !!studentService,
+    guardians: !!guardianService,
+    studentViews: !!studentViewService,
+    merit: !!meritService,
+    behaviorScore: !!behaviorScoreService,
+    consequenceRules: !!consequenceRuleService,
+    consequences: !!consequenceService,
+    detention: !!detentionService,
+    notification: !!notificationService,
+    notificationPreferences: !!notificationPreferencesService,
+    letterTemplates: !!letterTemplateService,
+    reportSchedules: !!reportScheduleService,
+    digests: !!digestService,
+    incidentImports: !!incidentImportService,
     reporting: !!reportingService,
   };
   
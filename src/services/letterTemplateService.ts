@@ -0,0 +1,671 @@
+/**
+ * Letter Template Service for MCC Discipline Tracker
+ *
+ * This service manages the parent letter templates each school defines for
+ * its incident types and severities. Templates contain {{placeholder}}
+ * tokens bound to incident fields and are checked when they are saved, so a
+ * mistyped or missing placeholder never reaches a parent. Templates render
+ * to an email (plain text and HTML), an SMS and a PDF letter.
+ *
+ * @fileoverview Parent letter template management and rendering service
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import { where, FirestoreError } from 'firebase/firestore';
+import { Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+import {
+  DisciplineIncident,
+  IncidentSeverity,
+  IncidentType,
+  ParticipantRole,
+  getIncidentParticipant,
+} from './disciplineService';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { validationService } from './base/validationService';
+import { serviceRegistry } from './base/serviceRegistry';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+import { PdfDocument } from './base/pdfDocument';
+
+/**
+ * Maximum rendered SMS length (three concatenated SMS segments)
+ */
+export const MAX_SMS_LENGTH = 459;
+
+/**
+ * Interface for a parent letter template
+ */
+export interface LetterTemplate {
+  id?: string;
+  schoolId: string;
+  name: string;
+  /** Incident type the template is for (any type if omitted) */
+  incidentType?: IncidentType;
+  /** Incident severity the template is for (any severity if omitted) */
+  severity?: IncidentSeverity;
+  /** Language code, matched against the parent's notification language */
+  language: string;
+  subject: string;
+  /** Letter text used for email and PDF; blank lines separate paragraphs */
+  body: string;
+  smsText: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+/**
+ * Input data for creating a letter template
+ */
+export type LetterTemplateInput = Omit<
+  LetterTemplate,
+  'id' | 'active' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'
+> & { active?: boolean };
+
+/**
+ * Updatable letter template fields
+ */
+export type LetterTemplateUpdate = Partial<
+  Omit<LetterTemplate, 'id' | 'schoolId' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>
+>;
+
+/**
+ * Values that are not incident fields but may appear in letters
+ */
+export interface LetterContext {
+  parentName?: string;
+  schoolName?: string;
+}
+
+/**
+ * Interface for a problem found when checking a template
+ */
+export interface LetterTemplateIssue {
+  field: 'subject' | 'body' | 'smsText';
+  message: string;
+}
+
+/**
+ * Interface for a rendered letter
+ */
+export interface RenderedLetter {
+  subject: string;
+  emailText: string;
+  emailHtml: string;
+  smsText: string;
+}
+
+/**
+ * Format an enum value for display (e.g. dress_code -> Dress code)
+ * @param value - Enum value
+ * @returns Human-readable label
+ */
+const formatLabel = (value: string): string => {
+  const words = value.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Placeholders available in templates, with how each is resolved
+ */
+export const LETTER_PLACEHOLDERS: Record<
+  string,
+  { description: string; resolve: (incident: DisciplineIncident, context: LetterContext) => string }
+> = {
+  studentName: { description: "Student's name", resolve: incident => incident.studentName },
+  incidentType: { description: 'Type of incident', resolve: incident => formatLabel(incident.incidentType) },
+  severity: { description: 'Severity of the incident', resolve: incident => formatLabel(incident.severity) },
+  dateTime: {
+    description: 'Date and time of the incident',
+    resolve: incident =>
+      `${incident.dateTime.toLocaleDateString()} ${incident.dateTime.toLocaleTimeString([], {
+        hour: '2-digit',
+        minute: '2-digit',
+      })}`,
+  },
+  date: { description: 'Date of the incident', resolve: incident => incident.dateTime.toLocaleDateString() },
+  location: { description: 'Where the incident happened', resolve: incident => incident.location },
+  actionTaken: { description: 'Action taken by the school', resolve: incident => incident.actionTaken },
+  role: {
+    description: "Student's part in the incident",
+    resolve: incident => formatLabel(getIncidentParticipant(incident, incident.studentId)?.role || ParticipantRole.PARTICIPANT),
+  },
+  consequence: {
+    description: 'Consequence given to the student',
+    resolve: incident => getIncidentParticipant(incident, incident.studentId)?.consequence || 'None',
+  },
+  description: { description: 'Description of the incident', resolve: incident => incident.description },
+  teacherName: { description: 'Reporting teacher', resolve: incident => incident.teacherName },
+  parentName: {
+    description: "Parent's name",
+    resolve: (_incident, context) => context.parentName || 'Parent/Guardian',
+  },
+  schoolName: { description: 'School name', resolve: (_incident, context) => context.schoolName || '' },
+};
+
+/**
+ * Placeholders every letter and SMS must contain
+ */
+export const REQUIRED_PLACEHOLDERS = ['studentName', 'dateTime'];
+
+// Matches {{ placeholder }} tokens
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z]+)\s*\}\}/g;
+
+/**
+ * Incident with typical field lengths, used to check rendered SMS length at save time
+ */
+const SAMPLE_INCIDENT: DisciplineIncident = {
+  studentName: 'Alexandra Johnson-Smith',
+  teacherName: 'Mr Christopher Williams',
+  studentId: 'sample',
+  participants: [{
+    studentId: 'sample',
+    studentName: 'Alexandra Johnson-Smith',
+    role: ParticipantRole.PARTICIPANT,
+    consequence: 'Lunchtime detention on Friday',
+    parentNotified: false,
+  }],
+  participantIds: ['sample'],
+  teacherId: 'sample',
+  schoolId: 'sample',
+  incidentType: 'technology_misuse' as IncidentType,
+  severity: 'medium' as IncidentSeverity,
+  description: 'Used a mobile phone during a class test after being asked to put it away.',
+  location: 'Science laboratory 2',
+  dateTime: new Date(2024, 8, 30, 10, 45),
+  actionTaken: 'Phone confiscated until the end of the day',
+  followUpRequired: false,
+  parentNotified: false,
+  status: 'open' as DisciplineIncident['status'],
+  statusHistory: [],
+  commentCount: 0,
+  parentCommentCount: 0,
+  recordState: 'active' as DisciplineIncident['recordState'],
+  createdAt: new Date(2024, 8, 30),
+  updatedAt: new Date(2024, 8, 30),
+  createdBy: 'sample',
+  updatedBy: 'sample',
+};
+
+/**
+ * Letter template service class providing template management and rendering
+ */
+export class LetterTemplateService extends FirestoreService<LetterTemplate> {
+  private static instance: LetterTemplateService;
+  protected collectionName = Collections.LETTER_TEMPLATES;
+
+  /**
+   * Singleton pattern implementation
+   * @returns LetterTemplateService instance
+   */
+  public static getInstance(): LetterTemplateService {
+    if (!LetterTemplateService.instance) {
+      LetterTemplateService.instance = new LetterTemplateService();
+      // Register with service registry
+      serviceRegistry.registerInstance('letterTemplateService', LetterTemplateService.instance);
+    }
+    return LetterTemplateService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'LetterTemplateService');
+  }
+
+  /**
+   * Create a letter template
+   * @param templateData - Template data to create
+   * @param createdBy - User ID of the creator
+   * @returns Promise resolving to created template with ID
+   * @throws LetterTemplateServiceError for validation or creation failures
+   */
+  public async createTemplate(templateData: LetterTemplateInput, createdBy: string): Promise<LetterTemplate> {
+    try {
+      await this.assertCanManageTemplates(createdBy);
+      this.assertValidTemplate(templateData);
+
+      const template: Omit<LetterTemplate, 'id'> = {
+        ...templateData,
+        active: templateData.active ?? true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        createdBy,
+        updatedBy: createdBy,
+      };
+
+      const created = await withRetry(() => this.createDocument(template));
+      this.clearCache();
+
+      telemetryService.trackUsage('letter_template_created', 'LetterTemplateService', {
+        templateId: created.id,
+        schoolId: template.schoolId,
+      });
+
+      return created;
+    } catch (error) {
+      throw LetterTemplateServiceError.wrap(error, 'create-template-failed', 'Failed to create letter template', {
+        schoolId: templateData.schoolId,
+      });
+    }
+  }
+
+  /**
+   * Update a letter template
+   * @param templateId - ID of the template to update
+   * @param updates - Template fields to change
+   * @param updatedBy - User ID of the updater
+   * @returns Promise resolving to updated template
+   * @throws LetterTemplateServiceError for validation or update failures
+   */
+  public async updateTemplate(
+    templateId: string,
+    updates: LetterTemplateUpdate,
+    updatedBy: string
+  ): Promise<LetterTemplate> {
+    try {
+      await this.assertCanManageTemplates(updatedBy);
+
+      const existing = await this.getDocument(templateId);
+      if (!existing) {
+        throw new LetterTemplateServiceError('Letter template not found', 'template-not-found', { templateId });
+      }
+
+      this.assertValidTemplate({ ...existing, ...updates });
+
+      const updated = await withRetry(() => this.updateDocument(templateId, { ...updates, updatedBy }));
+      this.clearCache();
+
+      return updated;
+    } catch (error) {
+      throw LetterTemplateServiceError.wrap(error, 'update-template-failed', 'Failed to update letter template', {
+        templateId,
+      });
+    }
+  }
+
+  /**
+   * Deactivate a letter template
+   * @param templateId - ID of the template to deactivate
+   * @param updatedBy - User ID of the updater
+   * @returns Promise resolving to deactivated template
+   */
+  public async deactivateTemplate(templateId: string, updatedBy: string): Promise<LetterTemplate> {
+    return this.updateTemplate(templateId, { active: false }, updatedBy);
+  }
+
+  /**
+   * Get a letter template by ID
+   * @param templateId - Template ID to fetch
+   * @returns Promise resolving to template or null if not found
+   */
+  public async getTemplate(templateId: string): Promise<LetterTemplate | null> {
+    try {
+      return await withRetry(() => this.getDocument(templateId));
+    } catch (error) {
+      throw LetterTemplateServiceError.wrap(error, 'fetch-template-failed', 'Failed to fetch letter template', {
+        templateId,
+      });
+    }
+  }
+
+  /**
+   * Get the letter templates for a school
+   * @param schoolId - School identifier
+   * @param activeOnly - Only return active templates (defaults to true)
+   * @returns Promise resolving to array of templates
+   */
+  public async getTemplatesForSchool(schoolId: string, activeOnly: boolean = true): Promise<LetterTemplate[]> {
+    try {
+      const constraints = [where('schoolId', '==', schoolId)];
+      if (activeOnly) {
+        constraints.push(where('active', '==', true));
+      }
+
+      const result = await withRetry(() => this.queryDocuments(constraints, 100));
+      return result.items;
+    } catch (error) {
+      throw LetterTemplateServiceError.wrap(error, 'fetch-templates-failed', 'Failed to fetch letter templates', {
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Find the most specific active template for an incident
+   * A template for the incident's type and severity is preferred over one for
+   * the type only, then the severity only, then a general template. Templates
+   * in the requested language are preferred over English ones.
+   * @param incident - Discipline incident
+   * @param language - Preferred language code (defaults to 'en')
+   * @returns Promise resolving to the template, or null if the school has none that fit
+   */
+  public async findTemplateForIncident(
+    incident: DisciplineIncident,
+    language: string = 'en'
+  ): Promise<LetterTemplate | null> {
+    const templates = await this.getTemplatesForSchool(incident.schoolId);
+
+    const score = (template: LetterTemplate): number => {
+      if (template.incidentType && template.incidentType !== incident.incidentType) {
+        return -1;
+      }
+      if (template.severity && template.severity !== incident.severity) {
+        return -1;
+      }
+      if (template.language !== language && template.language !== 'en') {
+        return -1;
+      }
+
+      return (
+        (template.incidentType ? 4 : 0) +
+        (template.severity ? 2 : 0) +
+        (template.language === language ? 1 : 0)
+      );
+    };
+
+    const best = templates
+      .map(template => ({ template, score: score(template) }))
+      .filter(candidate => candidate.score >= 0)
+      .sort((a, b) => b.score - a.score)[0];
+
+    return best ? best.template : null;
+  }
+
+  /**
+   * Render a template for an incident
+   * @param template - Letter template
+   * @param incident - Discipline incident
+   * @param context - Values that are not incident fields
+   * @returns Rendered subject, email text and HTML, and SMS text
+   */
+  public static renderLetter(
+    template: Pick<LetterTemplate, 'subject' | 'body' | 'smsText'>,
+    incident: DisciplineIncident,
+    context: LetterContext = {}
+  ): RenderedLetter {
+    const emailText = LetterTemplateService.renderText(template.body, incident, context);
+    const emailHtml = LetterTemplateService.renderText(template.body, incident, context, true)
+      .split(/\n{2,}/)
+      .map(paragraph => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`)
+      .join('\n');
+
+    return {
+      subject: LetterTemplateService.renderText(template.subject, incident, context),
+      emailText,
+      emailHtml,
+      smsText: LetterTemplateService.renderText(template.smsText, incident, context),
+    };
+  }
+
+  /**
+   * Render a template as a PDF letter
+   * @param template - Letter template
+   * @param incident - Discipline incident
+   * @param context - Values that are not incident fields
+   * @returns PDF file contents
+   */
+  public static renderLetterPdf(
+    template: Pick<LetterTemplate, 'subject' | 'body' | 'smsText'>,
+    incident: DisciplineIncident,
+    context: LetterContext = {}
+  ): Uint8Array {
+    const letter = LetterTemplateService.renderLetter(template, incident, context);
+    const pdf = new PdfDocument({ title: letter.subject, author: context.schoolName });
+    const margin = 56;
+    const lineHeight = 16;
+    const contentWidth = pdf.width - margin * 2;
+    let y = margin + 20;
+
+    if (context.schoolName) {
+      pdf.text(margin, y, context.schoolName, { size: 16, font: 'bold', color: [0.12, 0.36, 0.74] });
+      y += 28;
+    }
+
+    pdf.text(margin, y, new Date().toLocaleDateString(), { size: 10, color: [0.3, 0.3, 0.3] });
+    y += 28;
+
+    for (const line of pdf.wrapText(letter.subject, contentWidth, 13, 'bold')) {
+      pdf.text(margin, y, line, { size: 13, font: 'bold' });
+      y += 18;
+    }
+    y += 10;
+
+    for (const line of pdf.wrapText(letter.emailText, contentWidth, 11)) {
+      if (y > pdf.height - margin) {
+        pdf.addPage();
+        y = margin + 20;
+      }
+      if (line) {
+        pdf.text(margin, y, line, { size: 11 });
+      }
+      y += lineHeight;
+    }
+
+    return pdf.toBytes();
+  }
+
+  /**
+   * Check a template's subject, body and SMS text
+   * @param template - Template text to check
+   * @returns Problems found (empty if the template is valid)
+   */
+  public static checkTemplate(
+    template: Pick<LetterTemplate, 'subject' | 'body' | 'smsText'>
+  ): LetterTemplateIssue[] {
+    const issues: LetterTemplateIssue[] = [];
+    const fields: LetterTemplateIssue['field'][] = ['subject', 'body', 'smsText'];
+
+    for (const field of fields) {
+      const text = template[field] || '';
+
+      // Braces left over once valid tokens are removed are malformed placeholders
+      if (/[{}]/.test(text.replace(PLACEHOLDER_PATTERN, ''))) {
+        issues.push({ field, message: 'contains a malformed placeholder (use {{name}})' });
+      }
+
+      const used = new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1]));
+      used.forEach(name => {
+        if (!LETTER_PLACEHOLDERS[name]) {
+          issues.push({ field, message: `uses unknown placeholder {{${name}}}` });
+        }
+      });
+
+      if (field !== 'subject') {
+        REQUIRED_PLACEHOLDERS.filter(name => !used.has(name)).forEach(name => {
+          issues.push({ field, message: `must include {{${name}}}` });
+        });
+      }
+    }
+
+    if (issues.length === 0) {
+      const sms = LetterTemplateService.renderText(template.smsText, SAMPLE_INCIDENT, {
+        parentName: 'Parent/Guardian',
+        schoolName: 'Midlands Christian College',
+      });
+      if (sms.length > MAX_SMS_LENGTH) {
+        issues.push({
+          field: 'smsText',
+          message: `renders to about ${sms.length} characters; keep it under ${MAX_SMS_LENGTH}`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Replace placeholders in text
+   * @param text - Template text
+   * @param incident - Discipline incident
+   * @param context - Values that are not incident fields
+   * @param escapeHtml - Escape substituted and literal text for HTML
+   * @returns Rendered text
+   */
+  private static renderText(
+    text: string,
+    incident: DisciplineIncident,
+    context: LetterContext,
+    escapeHtml: boolean = false
+  ): string {
+    const escape = (value: string) =>
+      escapeHtml
+        ? value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+        : value;
+
+    let rendered = '';
+    let lastIndex = 0;
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      const placeholder = LETTER_PLACEHOLDERS[match[1]];
+      rendered += escape(text.slice(lastIndex, match.index));
+      rendered += placeholder ? escape(placeholder.resolve(incident, context) || '') : escape(match[0]);
+      lastIndex = match.index! + match[0].length;
+    }
+    rendered += escape(text.slice(lastIndex));
+
+    return rendered;
+  }
+
+  /**
+   * Validate template fields and placeholders
+   * @param template - Template data
+   * @throws LetterTemplateServiceError listing every problem found
+   */
+  private assertValidTemplate(template: LetterTemplateInput | LetterTemplate): void {
+    validationService.validateOrThrow('letterTemplate', template);
+
+    const issues = LetterTemplateService.checkTemplate(template);
+    if (issues.length > 0) {
+      throw new LetterTemplateServiceError(
+        `Invalid letter template: ${issues.map(issue => `${issue.field} ${issue.message}`).join('; ')}`,
+        'invalid-template',
+        { issues }
+      );
+    }
+  }
+
+  /**
+   * Ensure a user may manage letter templates
+   * @param userId - User ID to check
+   * @throws LetterTemplateServiceError if the user lacks permission
+   */
+  private async assertCanManageTemplates(userId: string): Promise<void> {
+    const hasPermission = await userService.hasPermission(userId, 'manage-letter-templates');
+    if (!hasPermission) {
+      throw new LetterTemplateServiceError(
+        'Insufficient permissions to manage letter templates',
+        'insufficient-permissions'
+      );
+    }
+  }
+
+  /**
+   * Map Firestore data to LetterTemplate object
+   * @param id - Document ID
+   * @param data - Firestore document data
+   * @returns LetterTemplate object
+   */
+  protected mapFirestoreToModel(id: string, data: any): LetterTemplate {
+    return {
+      id,
+      schoolId: data.schoolId || '',
+      name: data.name || '',
+      incidentType: data.incidentType || undefined,
+      severity: data.severity || undefined,
+      language: data.language || 'en',
+      subject: data.subject || '',
+      body: data.body || '',
+      smsText: data.smsText || '',
+      active: data.active !== false,
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      createdBy: data.createdBy || '',
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  /**
+   * Map LetterTemplate object to Firestore data
+   * Only defined fields are written so partial updates are supported
+   * @param model - LetterTemplate object (or partial)
+   * @returns Firestore document data
+   */
+  protected mapModelToFirestore(model: LetterTemplate): any {
+    const { id, createdAt, updatedAt, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    return data;
+  }
+}
+
+/**
+ * Custom error class for letter template service-related errors
+ */
+export class LetterTemplateServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new LetterTemplateServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'LetterTemplateServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in a LetterTemplateServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns LetterTemplateServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): LetterTemplateServiceError {
+    if (error instanceof LetterTemplateServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new LetterTemplateServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    if ((error as Error)?.message?.startsWith('Validation failed')) {
+      return new LetterTemplateServiceError((error as Error).message, 'validation-error', context);
+    }
+
+    return new LetterTemplateServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const letterTemplateService = LetterTemplateService.getInstance();
@@ -0,0 +1,506 @@
+/**
+ * Merit Service for MCC Discipline Tracker
+ *
+ * This service handles positive behaviour tracking. Teachers record merits
+ * (praise, achievements, effort) alongside discipline incidents so that
+ * reports can present a balanced picture of a student's behaviour.
+ *
+ * @fileoverview Merit and positive-behaviour management service
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import {
+  where,
+  orderBy,
+  DocumentSnapshot,
+  QueryConstraint,
+  Timestamp,
+  FirestoreError,
+} from 'firebase/firestore';
+import { Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { validationService } from './base/validationService';
+import { serviceRegistry } from './base/serviceRegistry';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+
+/**
+ * Enum for merit categories
+ */
+export enum MeritCategory {
+  ACADEMIC_EXCELLENCE = 'academic_excellence',
+  EFFORT = 'effort',
+  LEADERSHIP = 'leadership',
+  KINDNESS = 'kindness',
+  PARTICIPATION = 'participation',
+  IMPROVEMENT = 'improvement',
+  COMMUNITY_SERVICE = 'community_service',
+  ATTENDANCE = 'attendance',
+  OTHER = 'other',
+}
+
+/**
+ * Default point values awarded per merit category
+ * Used when a merit is created without an explicit point value
+ */
+export const MERIT_CATEGORY_POINTS: Record<MeritCategory, number> = {
+  [MeritCategory.ACADEMIC_EXCELLENCE]: 3,
+  [MeritCategory.EFFORT]: 1,
+  [MeritCategory.LEADERSHIP]: 3,
+  [MeritCategory.KINDNESS]: 2,
+  [MeritCategory.PARTICIPATION]: 1,
+  [MeritCategory.IMPROVEMENT]: 2,
+  [MeritCategory.COMMUNITY_SERVICE]: 3,
+  [MeritCategory.ATTENDANCE]: 1,
+  [MeritCategory.OTHER]: 1,
+};
+
+/**
+ * Interface for merit data
+ */
+export interface Merit {
+  id?: string;
+  studentId: string;
+  studentName: string;
+  teacherId: string;
+  teacherName: string;
+  schoolId: string;
+  category: MeritCategory;
+  points: number;
+  description: string;
+  dateTime: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+/**
+ * Input data for creating a merit
+ * Points are optional and default to the category value
+ */
+export type MeritInput = Omit<
+  Merit,
+  'id' | 'points' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'
+> & { points?: number };
+
+/**
+ * Interface for merit search filters
+ */
+export interface MeritSearchFilters {
+  schoolId?: string;
+  studentId?: string;
+  teacherId?: string;
+  category?: MeritCategory;
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+/**
+ * Interface for paginated merit results
+ */
+export interface PaginatedMerits {
+  merits: Merit[];
+  hasMore: boolean;
+  lastDoc?: DocumentSnapshot;
+}
+
+/**
+ * Interface for merit statistics
+ */
+export interface MeritStatistics {
+  totalMerits: number;
+  totalPoints: number;
+  meritsByCategory: Record<MeritCategory, number>;
+  pointsByCategory: Record<MeritCategory, number>;
+  lastMeritDate?: Date;
+}
+
+/**
+ * Merit service class providing positive behaviour tracking functionality
+ * Mirrors DisciplineService so merits and incidents can be reported side by side.
+ */
+export class MeritService extends FirestoreService<Merit> {
+  private static instance: MeritService;
+  protected collectionName = Collections.MERITS;
+
+  /**
+   * Singleton pattern implementation
+   * @returns MeritService instance
+   */
+  public static getInstance(): MeritService {
+    if (!MeritService.instance) {
+      MeritService.instance = new MeritService();
+      // Register with service registry
+      serviceRegistry.registerInstance('meritService', MeritService.instance);
+    }
+    return MeritService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'MeritService');
+  }
+
+  /**
+   * Create a new merit
+   * @param meritData - Merit data to create
+   * @param createdBy - User ID of the creator
+   * @returns Promise resolving to created merit with ID
+   * @throws MeritServiceError for creation failures
+   */
+  public async createMerit(meritData: MeritInput, createdBy: string): Promise<Merit> {
+    telemetryService.startMeasurement('createMerit');
+
+    try {
+      // Validate user permissions
+      const hasPermission = await userService.hasPermission(createdBy, 'create-merit');
+      if (!hasPermission) {
+        throw new MeritServiceError('Insufficient permissions to create merit', 'insufficient-permissions');
+      }
+
+      const points = meritData.points ?? MERIT_CATEGORY_POINTS[meritData.category];
+
+      // Validate merit data
+      validationService.validateOrThrow('merit', { ...meritData, points });
+
+      const merit: Omit<Merit, 'id'> = {
+        ...meritData,
+        points,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        createdBy,
+        updatedBy: createdBy,
+      };
+
+      const createdMerit = await withRetry(() => this.createDocument(merit));
+
+      telemetryService.trackUsage('merit_created', 'MeritService', {
+        meritId: createdMerit.id,
+        category: merit.category,
+        points,
+      });
+
+      telemetryService.stopMeasurement('createMerit', 'create_merit');
+      return createdMerit;
+    } catch (error) {
+      telemetryService.trackException(error as Error, {
+        method: 'createMerit',
+        category: meritData.category,
+      });
+      telemetryService.stopMeasurement('createMerit', 'create_merit_failed');
+
+      throw MeritServiceError.wrap(error, 'create-merit-failed', 'Failed to create merit', {
+        category: meritData.category,
+        schoolId: meritData.schoolId,
+      });
+    }
+  }
+
+  /**
+   * Get merit by ID
+   * @param meritId - Merit ID to fetch
+   * @returns Promise resolving to Merit or null if not found
+   * @throws MeritServiceError for fetch failures
+   */
+  public async getMerit(meritId: string): Promise<Merit | null> {
+    try {
+      return await withRetry(() => this.getDocument(meritId));
+    } catch (error) {
+      throw MeritServiceError.wrap(error, 'fetch-merit-failed', 'Failed to fetch merit', { meritId });
+    }
+  }
+
+  /**
+   * Search merits with filters and pagination
+   * @param filters - Search filters
+   * @param pageSize - Number of results per page
+   * @param lastDoc - Last document for pagination
+   * @returns Promise resolving to paginated merit results
+   * @throws MeritServiceError for search failures
+   */
+  public async searchMerits(
+    filters: MeritSearchFilters,
+    pageSize: number = 20,
+    lastDoc?: DocumentSnapshot
+  ): Promise<PaginatedMerits> {
+    telemetryService.startMeasurement('searchMerits');
+
+    try {
+      const constraints: QueryConstraint[] = [];
+
+      // Apply filters
+      if (filters.schoolId) {
+        constraints.push(where('schoolId', '==', filters.schoolId));
+      }
+      if (filters.studentId) {
+        constraints.push(where('studentId', '==', filters.studentId));
+      }
+      if (filters.teacherId) {
+        constraints.push(where('teacherId', '==', filters.teacherId));
+      }
+      if (filters.category) {
+        constraints.push(where('category', '==', filters.category));
+      }
+
+      // Add date range filters
+      if (filters.dateFrom) {
+        constraints.push(where('dateTime', '>=', Timestamp.fromDate(filters.dateFrom)));
+      }
+      if (filters.dateTo) {
+        constraints.push(where('dateTime', '<=', Timestamp.fromDate(filters.dateTo)));
+      }
+
+      constraints.push(orderBy('dateTime', 'desc'));
+
+      const result = await withRetry(() => this.queryDocuments(constraints, pageSize, lastDoc));
+
+      telemetryService.trackUsage('merits_searched', 'MeritService', {
+        filterCount: Object.keys(filters).length,
+        resultCount: result.items.length,
+        pageSize,
+      });
+
+      telemetryService.stopMeasurement('searchMerits', 'search_merits');
+
+      return {
+        merits: result.items,
+        hasMore: result.hasMore,
+        lastDoc: result.lastDoc,
+      };
+    } catch (error) {
+      telemetryService.trackException(error as Error, {
+        method: 'searchMerits',
+        filters: JSON.stringify(filters),
+      });
+      telemetryService.stopMeasurement('searchMerits', 'search_merits_failed');
+
+      throw MeritServiceError.wrap(error, 'search-merits-failed', 'Failed to search merits', {
+        filterCount: Object.keys(filters).length,
+      });
+    }
+  }
+
+  /**
+   * Get all merits matching the filters, following pagination to the end
+   * @param filters - Search filters
+   * @returns Promise resolving to array of merits
+   */
+  public async getAllMerits(filters: MeritSearchFilters): Promise<Merit[]> {
+    const allMerits: Merit[] = [];
+    let hasMore = true;
+    let lastDoc: DocumentSnapshot | undefined;
+
+    while (hasMore) {
+      const result = await this.searchMerits(filters, 100, lastDoc);
+      allMerits.push(...result.merits);
+      hasMore = result.hasMore;
+      lastDoc = result.lastDoc;
+    }
+
+    return allMerits;
+  }
+
+  /**
+   * Get merit statistics for a school (and optionally a single student) within a date range
+   * @param schoolId - School ID to get statistics for
+   * @param dateFrom - Start date for statistics period (optional)
+   * @param dateTo - End date for statistics period (optional)
+   * @param studentId - Restrict statistics to a single student (optional)
+   * @returns Promise resolving to merit statistics
+   * @throws MeritServiceError for statistics failures
+   */
+  public async getMeritStatistics(
+    schoolId: string,
+    dateFrom?: Date,
+    dateTo?: Date,
+    studentId?: string
+  ): Promise<MeritStatistics> {
+    const cacheKey = `merits:stats:${schoolId}:${studentId || 'all'}:${dateFrom?.toISOString() || 'all'}:${dateTo?.toISOString() || 'all'}`;
+
+    const cached = this.getCachedData<MeritStatistics>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const filters: MeritSearchFilters = { schoolId };
+      if (studentId) filters.studentId = studentId;
+      if (dateFrom) filters.dateFrom = dateFrom;
+      if (dateTo) filters.dateTo = dateTo;
+
+      const merits = await this.getAllMerits(filters);
+      const statistics = MeritService.summarizeMerits(merits);
+
+      telemetryService.trackUsage('merit_statistics_retrieved', 'MeritService', {
+        schoolId,
+        totalMerits: statistics.totalMerits,
+      });
+
+      this.setCachedData(cacheKey, statistics);
+      return statistics;
+    } catch (error) {
+      telemetryService.trackException(error as Error, {
+        method: 'getMeritStatistics',
+        schoolId,
+      });
+
+      throw MeritServiceError.wrap(error, 'fetch-statistics-failed', 'Failed to fetch merit statistics', {
+        schoolId,
+        studentId,
+      });
+    }
+  }
+
+  /**
+   * Summarize a list of merits into statistics
+   * @param merits - Merits to summarize
+   * @returns Merit statistics
+   */
+  public static summarizeMerits(merits: Merit[]): MeritStatistics {
+    const statistics: MeritStatistics = {
+      totalMerits: merits.length,
+      totalPoints: 0,
+      meritsByCategory: {} as Record<MeritCategory, number>,
+      pointsByCategory: {} as Record<MeritCategory, number>,
+    };
+
+    // Initialize category counters
+    Object.values(MeritCategory).forEach(category => {
+      statistics.meritsByCategory[category] = 0;
+      statistics.pointsByCategory[category] = 0;
+    });
+
+    merits.forEach(merit => {
+      statistics.totalPoints += merit.points;
+      statistics.meritsByCategory[merit.category]++;
+      statistics.pointsByCategory[merit.category] += merit.points;
+
+      if (!statistics.lastMeritDate || merit.dateTime > statistics.lastMeritDate) {
+        statistics.lastMeritDate = merit.dateTime;
+      }
+    });
+
+    return statistics;
+  }
+
+  /**
+   * Map Firestore data to Merit object
+   * @param id - Document ID
+   * @param data - Firestore document data
+   * @returns Merit object
+   */
+  protected mapFirestoreToModel(id: string, data: any): Merit {
+    return {
+      id,
+      studentId: data.studentId || '',
+      studentName: data.studentName || '',
+      teacherId: data.teacherId || '',
+      teacherName: data.teacherName || '',
+      schoolId: data.schoolId || '',
+      category: data.category || MeritCategory.OTHER,
+      points: typeof data.points === 'number' ? data.points : 0,
+      description: data.description || '',
+      dateTime: this.timestampToDate(data.dateTime) || data.dateTime || new Date(),
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      createdBy: data.createdBy || '',
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  /**
+   * Map Merit object to Firestore data
+   * Only defined fields are written so partial updates are supported
+   * @param model - Merit object (or partial)
+   * @returns Firestore document data
+   */
+  protected mapModelToFirestore(model: Merit): any {
+    const { id, createdAt, updatedAt, dateTime, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    if (dateTime) {
+      data.dateTime = this.dateToTimestamp(dateTime);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Custom error class for merit service-related errors
+ */
+export class MeritServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new MeritServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'MeritServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Creates an error from a FirestoreError
+   * @param error - Original Firestore error
+   * @param operation - The operation that was being performed
+   * @param context - Additional context
+   * @returns MeritServiceError
+   */
+  static fromFirestoreError(error: FirestoreError, operation: string, context?: Record<string, any>): MeritServiceError {
+    return new MeritServiceError(`Firestore error during ${operation}: ${error.message}`, `firestore-${error.code}`, {
+      operation,
+      firestoreCode: error.code,
+      ...context,
+    });
+  }
+
+  /**
+   * Wrap an unknown error in a MeritServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns MeritServiceError
+   */
+  static wrap(error: unknown, code: string, message: string, context?: Record<string, any>): MeritServiceError {
+    if (error instanceof MeritServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return MeritServiceError.fromFirestoreError(error, code, context);
+    }
+
+    if ((error as Error)?.message?.startsWith('Validation failed')) {
+      return new MeritServiceError((error as Error).message, 'validation-error', context);
+    }
+
+    return new MeritServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const meritService = MeritService.getInstance();
@@ -0,0 +1,412 @@
+/**
+ * Notification Preferences Service for MCC Discipline Tracker
+ *
+ * This service stores each user's notification preferences (enabled
+ * channels, minimum severity, immediate vs digest delivery, quiet hours and
+ * language) and decides how a notification should be dispatched under them.
+ * NotificationService consults these decisions before sending anything.
+ *
+ * @fileoverview Per-user notification preference management service
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import { FirestoreError } from 'firebase/firestore';
+import { Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+import { NotificationChannel } from './notificationProviders';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { validationService } from './base/validationService';
+import { serviceRegistry } from './base/serviceRegistry';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+
+/**
+ * Enum for how notifications are delivered
+ */
+export enum DeliveryMode {
+  IMMEDIATE = 'immediate',
+  DAILY_DIGEST = 'daily_digest',
+  WEEKLY_DIGEST = 'weekly_digest',
+}
+
+/**
+ * Enum for dispatch decisions
+ */
+export enum DispatchAction {
+  SEND = 'send',
+  /** Hold until quiet hours end */
+  DEFER = 'defer',
+  /** Hold for the recipient's next digest */
+  DIGEST = 'digest',
+  /** Do not send on this channel */
+  SUPPRESS = 'suppress',
+}
+
+/**
+ * Interface for a quiet-hours window
+ * Times are local to the given time zone; the window may span midnight.
+ */
+export interface QuietHours {
+  enabled: boolean;
+  /** Start time in 24-hour HH:mm format */
+  start: string;
+  /** End time in 24-hour HH:mm format */
+  end: string;
+  /** IANA time zone, e.g. Africa/Johannesburg */
+  timeZone: string;
+}
+
+/**
+ * Interface for a user's notification preferences
+ * Stored with the user ID as document ID.
+ */
+export interface NotificationPreferences {
+  id?: string;
+  userId: string;
+  channels: Record<NotificationChannel, boolean>;
+  /** Incident notifications below this severity are not sent */
+  minimumSeverity: 'low' | 'medium' | 'high' | 'critical';
+  deliveryMode: DeliveryMode;
+  quietHours: QuietHours;
+  /** Language code for notification content, e.g. 'en' or 'af' */
+  language: string;
+  updatedAt: Date;
+  updatedBy: string;
+}
+
+/**
+ * Updatable notification preference fields
+ */
+export type NotificationPreferencesUpdate = Partial<
+  Omit<NotificationPreferences, 'id' | 'userId' | 'updatedAt' | 'updatedBy'>
+>;
+
+/**
+ * Interface for a dispatch decision
+ */
+export interface DispatchDecision {
+  action: DispatchAction;
+  reason: string;
+  /** When a deferred notification may be sent */
+  deliverAfter?: Date;
+}
+
+/**
+ * Default preferences for users who have not saved any
+ * Quiet hours use the device time zone when the defaults are built.
+ * @param userId - User identifier
+ * @returns Default notification preferences
+ */
+export const createDefaultPreferences = (userId: string): NotificationPreferences => ({
+  userId,
+  channels: {
+    [NotificationChannel.PUSH]: true,
+    [NotificationChannel.EMAIL]: true,
+    [NotificationChannel.SMS]: false,
+  },
+  minimumSeverity: 'low',
+  deliveryMode: DeliveryMode.IMMEDIATE,
+  quietHours: {
+    enabled: false,
+    start: '21:00',
+    end: '07:00',
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  },
+  language: 'en',
+  updatedAt: new Date(),
+  updatedBy: userId,
+});
+
+/**
+ * Notification preferences service class
+ */
+export class NotificationPreferencesService extends FirestoreService<NotificationPreferences> {
+  private static instance: NotificationPreferencesService;
+  protected collectionName = Collections.NOTIFICATION_PREFERENCES;
+
+  /**
+   * Singleton pattern implementation
+   * @returns NotificationPreferencesService instance
+   */
+  public static getInstance(): NotificationPreferencesService {
+    if (!NotificationPreferencesService.instance) {
+      NotificationPreferencesService.instance = new NotificationPreferencesService();
+      // Register with service registry
+      serviceRegistry.registerInstance('notificationPreferencesService', NotificationPreferencesService.instance);
+    }
+    return NotificationPreferencesService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'NotificationPreferencesService');
+  }
+
+  /**
+   * Get a user's notification preferences
+   * @param userId - User identifier
+   * @returns Promise resolving to the saved preferences, or the defaults
+   */
+  public async getPreferences(userId: string): Promise<NotificationPreferences> {
+    try {
+      const saved = await withRetry(() => this.getDocument(userId));
+      return saved || createDefaultPreferences(userId);
+    } catch (error) {
+      throw NotificationPreferencesServiceError.wrap(
+        error,
+        'fetch-preferences-failed',
+        'Failed to fetch notification preferences',
+        { userId }
+      );
+    }
+  }
+
+  /**
+   * Update a user's notification preferences
+   * Users may edit their own preferences; user managers may edit anyone's.
+   * @param userId - User whose preferences are updated
+   * @param updates - Preference fields to change
+   * @param updatedBy - User ID of the updater
+   * @returns Promise resolving to the updated preferences
+   * @throws NotificationPreferencesServiceError for update failures
+   */
+  public async updatePreferences(
+    userId: string,
+    updates: NotificationPreferencesUpdate,
+    updatedBy: string
+  ): Promise<NotificationPreferences> {
+    try {
+      if (updatedBy !== userId && !(await userService.hasPermission(updatedBy, 'manage-users'))) {
+        throw new NotificationPreferencesServiceError(
+          'Insufficient permissions to update notification preferences',
+          'insufficient-permissions'
+        );
+      }
+
+      const existing = await this.getPreferences(userId);
+      const preferences: NotificationPreferences = {
+        ...existing,
+        ...updates,
+        quietHours: { ...existing.quietHours, ...updates.quietHours },
+        userId,
+        updatedAt: new Date(),
+        updatedBy,
+      };
+
+      validationService.validateOrThrow('notificationPreferences', {
+        ...preferences,
+        quietHoursStart: preferences.quietHours.start,
+        quietHoursEnd: preferences.quietHours.end,
+      });
+
+      const { id, ...data } = preferences;
+      const saved = await withRetry(() => this.createDocument(data, userId));
+      this.clearCache();
+
+      telemetryService.trackUsage('notification_preferences_updated', 'NotificationPreferencesService', {
+        userId,
+        updatedFields: Object.keys(updates).join(','),
+      });
+
+      return saved;
+    } catch (error) {
+      throw NotificationPreferencesServiceError.wrap(
+        error,
+        'update-preferences-failed',
+        'Failed to update notification preferences',
+        { userId }
+      );
+    }
+  }
+
+  /**
+   * Decide how a notification should be dispatched on a channel
+   * Critical notifications bypass digests and quiet hours.
+   * @param preferences - Recipient's preferences
+   * @param channel - Channel the notification would be sent on
+   * @param now - Current time
+   * @param severity - Incident severity, for incident-related notifications
+   * @returns Dispatch decision
+   */
+  public static decideDispatch(
+    preferences: NotificationPreferences,
+    channel: NotificationChannel,
+    now: Date,
+    severity?: string
+  ): DispatchDecision {
+    if (!preferences.channels[channel]) {
+      return { action: DispatchAction.SUPPRESS, reason: 'channel-disabled' };
+    }
+
+    const severityOrder = ['low', 'medium', 'high', 'critical'];
+    if (severity && severityOrder.indexOf(severity) < severityOrder.indexOf(preferences.minimumSeverity)) {
+      return { action: DispatchAction.SUPPRESS, reason: 'below-severity-threshold' };
+    }
+
+    if (severity === 'critical') {
+      return { action: DispatchAction.SEND, reason: 'critical' };
+    }
+
+    if (preferences.deliveryMode !== DeliveryMode.IMMEDIATE) {
+      return { action: DispatchAction.DIGEST, reason: preferences.deliveryMode };
+    }
+
+    const minutesUntilEnd = NotificationPreferencesService.minutesUntilQuietHoursEnd(preferences.quietHours, now);
+    if (minutesUntilEnd !== null) {
+      const startOfMinute = Math.floor(now.getTime() / 60000) * 60000;
+      return {
+        action: DispatchAction.DEFER,
+        reason: 'quiet-hours',
+        deliverAfter: new Date(startOfMinute + minutesUntilEnd * 60000),
+      };
+    }
+
+    return { action: DispatchAction.SEND, reason: 'immediate' };
+  }
+
+  /**
+   * Work out how long remains of the quiet-hours window
+   * @param quietHours - Quiet-hours window
+   * @param now - Current time
+   * @returns Minutes until the window ends, or null if now is outside it
+   */
+  public static minutesUntilQuietHoursEnd(quietHours: QuietHours, now: Date): number | null {
+    if (!quietHours.enabled) {
+      return null;
+    }
+
+    const start = NotificationPreferencesService.parseTime(quietHours.start);
+    const end = NotificationPreferencesService.parseTime(quietHours.end);
+    if (start === end) {
+      return null;
+    }
+
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: quietHours.timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+    const hour = Number(parts.find(part => part.type === 'hour')?.value);
+    const minute = Number(parts.find(part => part.type === 'minute')?.value);
+    const current = hour * 60 + minute;
+
+    const inWindow = start < end ? current >= start && current < end : current >= start || current < end;
+    return inWindow ? (end - current + 1440) % 1440 : null;
+  }
+
+  /**
+   * Convert an HH:mm time to minutes after midnight
+   * @param time - Time in HH:mm format
+   * @returns Minutes after midnight
+   */
+  private static parseTime(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * Map Firestore data to NotificationPreferences object
+   * Missing fields fall back to the defaults.
+   * @param id - Document ID (the user ID)
+   * @param data - Firestore document data
+   * @returns NotificationPreferences object
+   */
+  protected mapFirestoreToModel(id: string, data: any): NotificationPreferences {
+    const defaults = createDefaultPreferences(id);
+
+    return {
+      id,
+      userId: data.userId || id,
+      channels: { ...defaults.channels, ...data.channels },
+      minimumSeverity: data.minimumSeverity || defaults.minimumSeverity,
+      deliveryMode: data.deliveryMode || defaults.deliveryMode,
+      quietHours: { ...defaults.quietHours, ...data.quietHours },
+      language: data.language || defaults.language,
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  /**
+   * Map NotificationPreferences object to Firestore data
+   * @param model - NotificationPreferences object
+   * @returns Firestore document data
+   */
+  protected mapModelToFirestore(model: NotificationPreferences): any {
+    const { id, updatedAt, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    return data;
+  }
+}
+
+/**
+ * Custom error class for notification preferences service-related errors
+ */
+export class NotificationPreferencesServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new NotificationPreferencesServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'NotificationPreferencesServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in a NotificationPreferencesServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns NotificationPreferencesServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): NotificationPreferencesServiceError {
+    if (error instanceof NotificationPreferencesServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new NotificationPreferencesServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    if ((error as Error)?.message?.startsWith('Validation failed')) {
+      return new NotificationPreferencesServiceError((error as Error).message, 'validation-error', context);
+    }
+
+    return new NotificationPreferencesServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const notificationPreferencesService = NotificationPreferencesService.getInstance();
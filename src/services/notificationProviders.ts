@@ -0,0 +1,322 @@
+/**
+ * Notification Providers for MCC Discipline Tracker
+ *
+ * This module defines the provider interface used by NotificationService to
+ * deliver messages on each channel, together with the built-in providers:
+ * Expo push, SMTP email, an HTTP SMS gateway and an in-memory loopback
+ * provider for tests and local development.
+ *
+ * Provider errors use the retryable codes understood by withRetry
+ * ('unavailable', 'resource-exhausted', 'timeout') for transient failures so
+ * NotificationService can retry them; all other failures are permanent.
+ *
+ * @fileoverview Notification channel providers
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+/**
+ * Enum for notification channels
+ */
+export enum NotificationChannel {
+  PUSH = 'push',
+  EMAIL = 'email',
+  SMS = 'sms',
+}
+
+/**
+ * Interface for a message handed to a provider
+ */
+export interface NotificationMessage {
+  channel: NotificationChannel;
+  /** Expo push token, email address or phone number depending on the channel */
+  recipient: string;
+  /** Push title or email subject (ignored for SMS) */
+  subject?: string;
+  body: string;
+  /** Optional HTML body for email */
+  html?: string;
+  /** Optional payload delivered with push notifications */
+  data?: Record<string, any>;
+}
+
+/**
+ * Interface for the result of a successful provider send
+ */
+export interface ProviderSendResult {
+  /** Identifier assigned by the provider, if any */
+  providerMessageId?: string;
+}
+
+/**
+ * Interface implemented by every notification provider
+ */
+export interface NotificationProvider {
+  readonly channel: NotificationChannel;
+  /** Short provider name recorded on delivery records */
+  readonly name: string;
+  /**
+   * Deliver a message
+   * @param message - Message to deliver
+   * @returns Promise resolving once the provider has accepted the message
+   * @throws NotificationProviderError when the provider rejects the message
+   */
+  send(message: NotificationMessage): Promise<ProviderSendResult>;
+}
+
+/**
+ * Minimal fetch signature used by the HTTP providers, injectable for tests
+ */
+export type FetchFunction = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: string }
+) => Promise<{ ok: boolean; status: number; json(): Promise<any> }>;
+
+/**
+ * Map an HTTP status code to a provider error code
+ * @param status - HTTP status code
+ * @returns Error code (retryable for 429 and 5xx responses)
+ */
+const errorCodeForStatus = (status: number): string => {
+  if (status === 429) {
+    return 'resource-exhausted';
+  }
+  if (status >= 500) {
+    return 'unavailable';
+  }
+  return 'rejected';
+};
+
+/**
+ * Expo push provider configuration
+ */
+export interface ExpoPushConfig {
+  /** Expo access token, required when enhanced push security is enabled */
+  accessToken?: string;
+  endpoint?: string;
+}
+
+/**
+ * Push provider backed by the Expo push service
+ */
+export class ExpoPushProvider implements NotificationProvider {
+  public readonly channel = NotificationChannel.PUSH;
+  public readonly name = 'expo';
+  private readonly endpoint: string;
+
+  constructor(private readonly config: ExpoPushConfig = {}, private readonly fetchFn: FetchFunction = fetch) {
+    this.endpoint = config.endpoint || 'https://exp.host/--/api/v2/push/send';
+  }
+
+  public async send(message: NotificationMessage): Promise<ProviderSendResult> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+    };
+    if (this.config.accessToken) {
+      headers.Authorization = `Bearer ${this.config.accessToken}`;
+    }
+
+    const response = await this.fetchFn(this.endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        to: message.recipient,
+        title: message.subject,
+        body: message.body,
+        data: message.data,
+        sound: 'default',
+      }),
+    });
+
+    if (!response.ok) {
+      throw new NotificationProviderError(
+        `Expo push request failed with status ${response.status}`,
+        errorCodeForStatus(response.status),
+        { status: response.status }
+      );
+    }
+
+    // Expo returns a push ticket per message
+    const payload = await response.json();
+    const ticket = Array.isArray(payload?.data) ? payload.data[0] : payload?.data;
+
+    if (ticket?.status !== 'ok') {
+      const expoError = ticket?.details?.error;
+      throw new NotificationProviderError(
+        ticket?.message || 'Expo rejected the push notification',
+        expoError === 'MessageRateExceeded' ? 'resource-exhausted' : 'rejected',
+        { expoError }
+      );
+    }
+
+    return { providerMessageId: ticket.id };
+  }
+}
+
+/**
+ * Mail options accepted by an SMTP transport
+ */
+export interface SmtpMailOptions {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * SMTP transport abstraction
+ * Compatible with nodemailer transports, which are used where the provider
+ * runs server-side (e.g. in Cloud Functions); the app itself cannot open
+ * SMTP connections.
+ */
+export interface SmtpTransport {
+  sendMail(options: SmtpMailOptions): Promise<{ messageId?: string }>;
+}
+
+/**
+ * Email provider that sends through an SMTP transport
+ */
+export class SmtpEmailProvider implements NotificationProvider {
+  public readonly channel = NotificationChannel.EMAIL;
+  public readonly name = 'smtp';
+
+  constructor(private readonly transport: SmtpTransport, private readonly fromAddress: string) {}
+
+  public async send(message: NotificationMessage): Promise<ProviderSendResult> {
+    try {
+      const info = await this.transport.sendMail({
+        from: this.fromAddress,
+        to: message.recipient,
+        subject: message.subject || '',
+        text: message.body,
+        html: message.html,
+      });
+
+      return { providerMessageId: info.messageId };
+    } catch (error) {
+      // SMTP 4xx replies are temporary failures, 5xx replies are permanent
+      const responseCode: number | undefined = (error as any)?.responseCode;
+      const temporary = responseCode === undefined || (responseCode >= 400 && responseCode < 500);
+
+      throw new NotificationProviderError(
+        `SMTP delivery failed: ${(error as Error)?.message}`,
+        temporary ? 'unavailable' : 'rejected',
+        { responseCode }
+      );
+    }
+  }
+}
+
+/**
+ * SMS gateway provider configuration
+ */
+export interface SmsGatewayConfig {
+  /** Gateway endpoint accepting JSON { to, from, message } */
+  endpoint: string;
+  apiKey: string;
+  /** Sender ID or number shown to the recipient */
+  senderId: string;
+}
+
+/**
+ * SMS provider for HTTP SMS gateways
+ */
+export class SmsGatewayProvider implements NotificationProvider {
+  public readonly channel = NotificationChannel.SMS;
+  public readonly name = 'sms-gateway';
+
+  constructor(private readonly config: SmsGatewayConfig, private readonly fetchFn: FetchFunction = fetch) {}
+
+  public async send(message: NotificationMessage): Promise<ProviderSendResult> {
+    const response = await this.fetchFn(this.config.endpoint, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.config.apiKey}`,
+      },
+      body: JSON.stringify({
+        to: message.recipient,
+        from: this.config.senderId,
+        message: message.body,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new NotificationProviderError(
+        `SMS gateway request failed with status ${response.status}`,
+        errorCodeForStatus(response.status),
+        { status: response.status }
+      );
+    }
+
+    const payload = await response.json().catch(() => ({}));
+    return { providerMessageId: payload?.id || payload?.messageId };
+  }
+}
+
+/**
+ * In-memory provider that records messages instead of delivering them
+ * Used in tests and local development. Failures can be simulated with failNext.
+ */
+export class LoopbackProvider implements NotificationProvider {
+  public readonly name = 'loopback';
+  public readonly sent: NotificationMessage[] = [];
+  private pendingFailures: string[] = [];
+  private sequence = 0;
+
+  constructor(public readonly channel: NotificationChannel) {}
+
+  public async send(message: NotificationMessage): Promise<ProviderSendResult> {
+    const failureCode = this.pendingFailures.shift();
+    if (failureCode) {
+      throw new NotificationProviderError('Simulated loopback failure', failureCode);
+    }
+
+    this.sent.push(message);
+    this.sequence += 1;
+    return { providerMessageId: `loopback-${this.channel}-${this.sequence}` };
+  }
+
+  /**
+   * Make the next sends fail
+   * @param count - Number of sends to fail
+   * @param code - Error code to fail with ('unavailable' is retried, 'rejected' is not)
+   */
+  public failNext(count: number = 1, code: string = 'unavailable'): void {
+    for (let i = 0; i < count; i++) {
+      this.pendingFailures.push(code);
+    }
+  }
+
+  /**
+   * Clear recorded messages and pending failures
+   */
+  public reset(): void {
+    this.sent.length = 0;
+    this.pendingFailures = [];
+  }
+}
+
+/**
+ * Custom error class for notification provider errors
+ */
+export class NotificationProviderError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new NotificationProviderError
+   * @param message - Error message
+   * @param code - Error code; retryable codes are retried by NotificationService
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'rejected', context?: Record<string, any>) {
+    super(message);
+    this.name = 'NotificationProviderError';
+    this.code = code;
+    this.context = context;
+  }
+}
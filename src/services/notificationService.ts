@@ -0,0 +1,1004 @@
+/**
+ * Notification Service for MCC Discipline Tracker
+ *
+ * This service dispatches notifications through the provider registered for
+ * each channel (push, email, SMS), retries transient provider failures and
+ * records the outcome of every send as a delivery record. Recipients'
+ * notification preferences decide whether a message is sent now, held until
+ * quiet hours end, queued for a digest or not sent. Parent notices for
+ * incidents are sent through this service; an incident is only marked as
+ * parent-notified once at least one delivery has succeeded.
+ *
+ * @fileoverview Notification dispatch service with delivery tracking
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import { where, orderBy, FirestoreError, Timestamp } from 'firebase/firestore';
+import { Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+import { disciplineService, DisciplineIncident, getIncidentParticipant, getStudentIncident } from './disciplineService';
+import {
+  NotificationChannel,
+  NotificationMessage,
+  NotificationProvider,
+} from './notificationProviders';
+import {
+  notificationPreferencesService,
+  NotificationPreferencesService,
+  NotificationPreferences,
+  DispatchAction,
+} from './notificationPreferencesService';
+import { letterTemplateService, LetterTemplateService } from './letterTemplateService';
+import { getIncidentPermissionContext } from './permissionPolicyService';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { validationService } from './base/validationService';
+import { serviceRegistry } from './base/serviceRegistry';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+
+/**
+ * Enum for delivery status
+ */
+export enum DeliveryStatus {
+  PENDING = 'pending',
+  SENT = 'sent',
+  FAILED = 'failed',
+  /** Held until the recipient's quiet hours end */
+  DEFERRED = 'deferred',
+  /** Held for the recipient's next digest */
+  QUEUED_FOR_DIGEST = 'queued_for_digest',
+  /** Delivered as part of a digest */
+  INCLUDED_IN_DIGEST = 'included_in_digest',
+}
+
+/**
+ * Interface for a notification delivery record
+ */
+export interface NotificationDelivery {
+  id?: string;
+  channel: NotificationChannel;
+  /** Push token, email address or phone number the message was sent to */
+  recipient: string;
+  recipientUserId?: string;
+  subject?: string;
+  body: string;
+  data?: Record<string, any>;
+  provider: string;
+  status: DeliveryStatus;
+  /** Number of provider calls made, including retries */
+  attempts: number;
+  providerMessageId?: string;
+  lastError?: string;
+  incidentId?: string;
+  /** Student a parent notice is about */
+  studentId?: string;
+  schoolId?: string;
+  /** True for parent notices, whose delivery marks the student as parent-notified */
+  parentNotice?: boolean;
+  /** When a deferred message may be sent */
+  scheduledFor?: Date;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+/**
+ * Context recorded with a delivery
+ */
+export interface DeliveryContext {
+  /** User ID of the sender, or 'system' for automated notifications */
+  createdBy: string;
+  recipientUserId?: string;
+  incidentId?: string;
+  studentId?: string;
+  schoolId?: string;
+  parentNotice?: boolean;
+}
+
+/**
+ * Interface for a notification to a user
+ */
+export interface UserNotification {
+  subject: string;
+  body: string;
+  /** Incident severity, checked against the recipient's severity threshold */
+  severity?: string;
+  /** Optional payload delivered with push notifications */
+  data?: Record<string, any>;
+  /** Content in other languages, keyed by language code */
+  translations?: Record<string, { subject: string; body: string }>;
+}
+
+/**
+ * Interface for the content of a digest
+ */
+export interface DigestContent {
+  subject: string;
+  /** Plain-text digest for email */
+  body: string;
+  /** HTML digest for email */
+  html?: string;
+  /** One-line summary used for push notifications */
+  summary: string;
+}
+
+/**
+ * Interface for a parent's contact details
+ */
+export interface ParentContact {
+  /** User ID of the parent, if they use the app; their notification preferences then apply */
+  userId?: string;
+  name?: string;
+  email?: string;
+  /** International format, e.g. +27821234567 */
+  phoneNumber?: string;
+  /** Expo push token of the parent's device */
+  pushToken?: string;
+}
+
+/**
+ * Interface for the content of a parent notice
+ */
+export interface ParentNotice {
+  subject: string;
+  body: string;
+  /** HTML version of the body for email */
+  html?: string;
+  /** Shorter text for SMS and push (the body is used if omitted) */
+  smsText?: string;
+}
+
+/**
+ * Interface for the result of sending a parent notice
+ */
+export interface ParentNoticeResult {
+  /** The incident, updated when the notice was delivered */
+  incident: DisciplineIncident;
+  deliveries: NotificationDelivery[];
+  /** True if at least one channel delivered the notice */
+  delivered: boolean;
+  /** True if delivery on some channel is held for quiet hours or a digest */
+  held: boolean;
+}
+
+/**
+ * Notification service class providing channel dispatch and delivery tracking
+ */
+export class NotificationService extends FirestoreService<NotificationDelivery> {
+  private static instance: NotificationService;
+  protected collectionName = Collections.NOTIFICATION_DELIVERIES;
+  private providers: Map<NotificationChannel, NotificationProvider> = new Map();
+
+  /**
+   * Singleton pattern implementation
+   * @returns NotificationService instance
+   */
+  public static getInstance(): NotificationService {
+    if (!NotificationService.instance) {
+      NotificationService.instance = new NotificationService();
+      // Register with service registry
+      serviceRegistry.registerInstance('notificationService', NotificationService.instance);
+    }
+    return NotificationService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'NotificationService');
+  }
+
+  /**
+   * Register the provider used for a channel, replacing any existing provider
+   * @param provider - Provider to register
+   */
+  public registerProvider(provider: NotificationProvider): void {
+    this.providers.set(provider.channel, provider);
+  }
+
+  /**
+   * Get the provider registered for a channel
+   * @param channel - Notification channel
+   * @returns Provider, or undefined if none is registered
+   */
+  public getProvider(channel: NotificationChannel): NotificationProvider | undefined {
+    return this.providers.get(channel);
+  }
+
+  /**
+   * Send a message and record its delivery
+   * Provider failures do not throw; they are recorded on the returned delivery.
+   * @param message - Message to send
+   * @param context - Sender and related records
+   * @returns Promise resolving to the delivery record
+   * @throws NotificationServiceError if no provider is registered or the record cannot be saved
+   */
+  public async sendNotification(
+    message: NotificationMessage,
+    context: DeliveryContext
+  ): Promise<NotificationDelivery> {
+    telemetryService.startMeasurement('sendNotification');
+
+    try {
+      const provider = this.requireProvider(message.channel);
+      const created = await this.recordDelivery(message, context, provider, DeliveryStatus.PENDING);
+      const recorded = await this.deliver(created, message, provider);
+
+      telemetryService.stopMeasurement('sendNotification', 'send_notification');
+      return recorded;
+    } catch (error) {
+      telemetryService.stopMeasurement('sendNotification', 'send_notification_failed');
+      throw NotificationServiceError.wrap(error, 'send-notification-failed', 'Failed to send notification', {
+        channel: message.channel,
+      });
+    }
+  }
+
+  /**
+   * Notify a user on their enabled channels, following their preferences
+   * Messages may be sent now, deferred until quiet hours end, queued for the
+   * user's digest or suppressed.
+   * @param userId - Recipient user ID
+   * @param notification - Notification content
+   * @param context - Sender and related records
+   * @param now - Current time (defaults to now)
+   * @returns Promise resolving to the deliveries sent or held (suppressed channels have none)
+   */
+  public async notifyUser(
+    userId: string,
+    notification: UserNotification,
+    context: DeliveryContext,
+    now: Date = new Date()
+  ): Promise<NotificationDelivery[]> {
+    try {
+      const [profile, preferences] = await Promise.all([
+        userService.getUserProfile(userId),
+        notificationPreferencesService.getPreferences(userId),
+      ]);
+
+      if (!profile) {
+        throw new NotificationServiceError('Recipient not found', 'recipient-not-found', { userId });
+      }
+
+      const content = notification.translations?.[preferences.language] || notification;
+      const messages: NotificationMessage[] = [];
+
+      if (profile.email) {
+        messages.push({ channel: NotificationChannel.EMAIL, recipient: profile.email, ...content });
+      }
+      if (profile.phoneNumber) {
+        messages.push({ channel: NotificationChannel.SMS, recipient: profile.phoneNumber, body: content.body });
+      }
+      (profile.pushTokens || []).forEach(pushToken => {
+        messages.push({
+          channel: NotificationChannel.PUSH,
+          recipient: pushToken,
+          ...content,
+          data: notification.data,
+        });
+      });
+
+      const deliveries: NotificationDelivery[] = [];
+      for (const message of messages) {
+        const delivery = await this.dispatch(
+          message,
+          { ...context, recipientUserId: userId },
+          preferences,
+          notification.severity,
+          now
+        );
+        if (delivery) {
+          deliveries.push(delivery);
+        }
+      }
+
+      return deliveries;
+    } catch (error) {
+      throw NotificationServiceError.wrap(error, 'notify-user-failed', 'Failed to notify user', { userId });
+    }
+  }
+
+  /**
+   * Send a push notification to every device registered for a user
+   * @param userId - Recipient user ID
+   * @param title - Notification title
+   * @param body - Notification message
+   * @param context - Sender and related records
+   * @param data - Optional payload for the app
+   * @returns Promise resolving to one delivery per device
+   */
+  public async sendPushToUser(
+    userId: string,
+    title: string,
+    body: string,
+    context: DeliveryContext,
+    data?: Record<string, any>
+  ): Promise<NotificationDelivery[]> {
+    const profile = await userService.getUserProfile(userId);
+    const pushTokens = profile?.pushTokens || [];
+
+    if (pushTokens.length === 0) {
+      throw new NotificationServiceError('User has no registered devices', 'no-push-tokens', { userId });
+    }
+
+    const deliveries: NotificationDelivery[] = [];
+    for (const pushToken of pushTokens) {
+      deliveries.push(
+        await this.sendNotification(
+          { channel: NotificationChannel.PUSH, recipient: pushToken, subject: title, body, data },
+          { ...context, recipientUserId: userId }
+        )
+      );
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Send a notice about an incident to a student's parent
+   * Each student on the incident has their own notice, naming them and giving their
+   * own role and consequence (see getStudentIncident). The notice
+   * is sent on every channel the contact has. When the contact is an app user
+   * their notification preferences apply, so a notice may be held until quiet
+   * hours end. The student's parentNotified flag and date (the incident's, for
+   * the main student) are set as soon as the first delivery succeeds.
+   * @param incidentId - Incident the notice is about
+   * @param studentId - Student ID of the participant whose parent is notified
+   * @param contact - Parent contact details
+   * @param sentBy - User ID of the sender
+   * @param notice - Optional notice content (built from the school's letter template if omitted)
+   * @param now - Current time (defaults to now)
+   * @returns Promise resolving to the deliveries and the (possibly updated) incident
+   * @throws NotificationServiceError for permission, validation or lookup failures
+   */
+  public async sendParentNotice(
+    incidentId: string,
+    studentId: string,
+    contact: ParentContact,
+    sentBy: string,
+    notice?: ParentNotice,
+    now: Date = new Date()
+  ): Promise<ParentNoticeResult> {
+    try {
+      validationService.validateOrThrow('parentContact', contact);
+
+      const incident = await disciplineService.getIncident(incidentId);
+      if (!incident) {
+        throw new NotificationServiceError('Incident not found', 'incident-not-found', { incidentId });
+      }
+      // The notice is about this student alone: their part in the incident and their own consequence
+      const studentIncident = getStudentIncident(incident, studentId);
+      if (!studentIncident) {
+        throw new NotificationServiceError('Student is not a participant in this incident', 'participant-not-found', {
+          incidentId,
+          studentId,
+        });
+      }
+
+      // Staff can only notify parents about incidents at their own school
+      const hasPermission = await userService.hasPermission(
+        sentBy,
+        'notify-parent',
+        getIncidentPermissionContext(studentIncident)
+      );
+      if (!hasPermission) {
+        throw new NotificationServiceError('Insufficient permissions to notify parents', 'insufficient-permissions', {
+          incidentId,
+        });
+      }
+
+      const preferences = contact.userId
+        ? await notificationPreferencesService.getPreferences(contact.userId)
+        : undefined;
+      const content = notice || (await this.buildParentNotice(studentIncident, contact, preferences?.language));
+      const context: DeliveryContext = {
+        createdBy: sentBy,
+        recipientUserId: contact.userId,
+        incidentId,
+        studentId,
+        schoolId: incident.schoolId,
+        parentNotice: true,
+      };
+
+      const shortText = content.smsText || content.body;
+      const messages: NotificationMessage[] = [];
+      if (contact.email) {
+        messages.push({
+          channel: NotificationChannel.EMAIL,
+          recipient: contact.email,
+          subject: content.subject,
+          body: content.body,
+          html: content.html,
+        });
+      }
+      if (contact.phoneNumber) {
+        messages.push({ channel: NotificationChannel.SMS, recipient: contact.phoneNumber, body: shortText });
+      }
+      if (contact.pushToken) {
+        messages.push({
+          channel: NotificationChannel.PUSH,
+          recipient: contact.pushToken,
+          subject: content.subject,
+          body: shortText,
+          data: { incidentId },
+        });
+      }
+
+      if (messages.length === 0) {
+        throw new NotificationServiceError('Parent contact has no email, phone number or device', 'no-contact-channel', {
+          incidentId,
+        });
+      }
+
+      // The incident is marked as soon as one channel delivers, so that nothing
+      // after a delivery can fail the call and lead to the notice being sent again
+      const deliveries: NotificationDelivery[] = [];
+      let updatedIncident = incident;
+      for (const message of messages) {
+        const delivery = await this.dispatch(message, context, preferences, incident.severity, now);
+        if (!delivery) {
+          continue;
+        }
+        const firstSent =
+          delivery.status === DeliveryStatus.SENT && !deliveries.some(sent => sent.status === DeliveryStatus.SENT);
+        deliveries.push(delivery);
+        if (firstSent) {
+          updatedIncident = (await this.markParentNotified(delivery)) || updatedIncident;
+        }
+      }
+
+      const sent = deliveries.find(delivery => delivery.status === DeliveryStatus.SENT);
+      const held = deliveries.some(
+        delivery =>
+          delivery.status === DeliveryStatus.DEFERRED || delivery.status === DeliveryStatus.QUEUED_FOR_DIGEST
+      );
+
+      telemetryService.trackUsage('parent_notice_sent', 'NotificationService', {
+        incidentId,
+        channels: messages.map(message => message.channel).join(','),
+        delivered: !!sent,
+        held,
+      });
+
+      return { incident: updatedIncident, deliveries, delivered: !!sent, held };
+    } catch (error) {
+      throw NotificationServiceError.wrap(error, 'parent-notice-failed', 'Failed to send parent notice', {
+        incidentId,
+        studentId,
+      });
+    }
+  }
+
+  /**
+   * Send deferred deliveries whose quiet hours have ended
+   * Intended to be run periodically. Parent notices that are delivered here
+   * mark their incident as parent-notified.
+   * @param now - Current time (defaults to now)
+   * @returns Promise resolving to the deliveries attempted
+   */
+  public async dispatchDueDeliveries(now: Date = new Date()): Promise<NotificationDelivery[]> {
+    try {
+      const due = await withRetry(() =>
+        this.queryDocuments(
+          [
+            where('status', '==', DeliveryStatus.DEFERRED),
+            where('scheduledFor', '<=', Timestamp.fromDate(now)),
+            orderBy('scheduledFor', 'asc'),
+          ],
+          100
+        )
+      );
+
+      const attempted: NotificationDelivery[] = [];
+      for (const delivery of due.items) {
+        const provider = this.providers.get(delivery.channel);
+        if (!provider) {
+          continue;
+        }
+
+        const recorded = await this.deliver(
+          delivery,
+          {
+            channel: delivery.channel,
+            recipient: delivery.recipient,
+            subject: delivery.subject,
+            body: delivery.body,
+            data: delivery.data,
+          },
+          provider
+        );
+        attempted.push(recorded);
+
+        if (recorded.status === DeliveryStatus.SENT && recorded.parentNotice && recorded.incidentId) {
+          await this.markParentNotified(recorded);
+        }
+      }
+
+      return attempted;
+    } catch (error) {
+      throw NotificationServiceError.wrap(error, 'dispatch-due-failed', 'Failed to dispatch deferred notifications');
+    }
+  }
+
+  /**
+   * Get the deliveries held for a user's next digest
+   * @param userId - Recipient user ID
+   * @returns Promise resolving to queued deliveries, oldest first
+   */
+  public async getDigestQueue(userId: string): Promise<NotificationDelivery[]> {
+    try {
+      const result = await withRetry(() =>
+        this.queryDocuments(
+          [
+            where('recipientUserId', '==', userId),
+            where('status', '==', DeliveryStatus.QUEUED_FOR_DIGEST),
+            orderBy('createdAt', 'asc'),
+          ],
+          100
+        )
+      );
+      return result.items;
+    } catch (error) {
+      throw NotificationServiceError.wrap(error, 'fetch-digest-queue-failed', 'Failed to fetch digest queue', {
+        userId,
+      });
+    }
+  }
+
+  /**
+   * Send a digest to a user and mark the queued deliveries it covers
+   * Digests go out when they are scheduled, so only the user's channel
+   * choices apply: the full digest is emailed and push devices get the
+   * summary. Queued deliveries are marked once any channel delivers.
+   * @param userId - Recipient user ID
+   * @param digest - Digest content
+   * @param queued - Queued deliveries included in the digest
+   * @param context - Sender and related records
+   * @returns Promise resolving to the digest deliveries
+   * @throws NotificationServiceError if the user has no enabled channel to receive the digest
+   */
+  public async sendDigest(
+    userId: string,
+    digest: DigestContent,
+    queued: NotificationDelivery[],
+    context: DeliveryContext
+  ): Promise<NotificationDelivery[]> {
+    try {
+      const [profile, preferences] = await Promise.all([
+        userService.getUserProfile(userId),
+        notificationPreferencesService.getPreferences(userId),
+      ]);
+
+      if (!profile) {
+        throw new NotificationServiceError('Recipient not found', 'recipient-not-found', { userId });
+      }
+
+      const messages: NotificationMessage[] = [];
+      if (profile.email && preferences.channels[NotificationChannel.EMAIL]) {
+        messages.push({
+          channel: NotificationChannel.EMAIL,
+          recipient: profile.email,
+          subject: digest.subject,
+          body: digest.body,
+          html: digest.html,
+        });
+      }
+      if (preferences.channels[NotificationChannel.PUSH]) {
+        (profile.pushTokens || []).forEach(pushToken => {
+          messages.push({
+            channel: NotificationChannel.PUSH,
+            recipient: pushToken,
+            subject: digest.subject,
+            body: digest.summary,
+            data: { type: 'digest' },
+          });
+        });
+      }
+
+      if (messages.length === 0) {
+        throw new NotificationServiceError('Recipient has no channel enabled for digests', 'no-digest-channel', {
+          userId,
+        });
+      }
+
+      const deliveries: NotificationDelivery[] = [];
+      for (const message of messages) {
+        deliveries.push(await this.sendNotification(message, { ...context, recipientUserId: userId }));
+      }
+
+      if (deliveries.some(delivery => delivery.status === DeliveryStatus.SENT)) {
+        for (const delivery of queued) {
+          await withRetry(() =>
+            this.updateDocument(delivery.id!, { status: DeliveryStatus.INCLUDED_IN_DIGEST, updatedBy: context.createdBy })
+          );
+        }
+        this.clearCache();
+      }
+
+      return deliveries;
+    } catch (error) {
+      throw NotificationServiceError.wrap(error, 'send-digest-failed', 'Failed to send digest', { userId });
+    }
+  }
+
+  /**
+   * Dispatch a message according to the recipient's preferences
+   * @param message - Message to dispatch
+   * @param context - Sender and related records
+   * @param preferences - Recipient's preferences (sent immediately if omitted)
+   * @param severity - Incident severity, if the message is about an incident
+   * @param now - Current time
+   * @returns Promise resolving to the delivery, or null if the channel is suppressed
+   */
+  private async dispatch(
+    message: NotificationMessage,
+    context: DeliveryContext,
+    preferences: NotificationPreferences | undefined,
+    severity: string | undefined,
+    now: Date
+  ): Promise<NotificationDelivery | null> {
+    if (!preferences) {
+      return this.sendNotification(message, context);
+    }
+
+    const decision = NotificationPreferencesService.decideDispatch(preferences, message.channel, now, severity);
+
+    switch (decision.action) {
+      case DispatchAction.SEND:
+        return this.sendNotification(message, context);
+      case DispatchAction.DEFER:
+        return this.recordDelivery(
+          message,
+          context,
+          this.requireProvider(message.channel),
+          DeliveryStatus.DEFERRED,
+          decision.deliverAfter
+        );
+      case DispatchAction.DIGEST:
+        return this.recordDelivery(
+          message,
+          context,
+          this.requireProvider(message.channel),
+          DeliveryStatus.QUEUED_FOR_DIGEST
+        );
+      default:
+        telemetryService.trackUsage('notification_suppressed', 'NotificationService', {
+          channel: message.channel,
+          reason: decision.reason,
+        });
+        return null;
+    }
+  }
+
+  /**
+   * Create a delivery record
+   * @param message - Message the record is for
+   * @param context - Sender and related records
+   * @param provider - Provider that will deliver the message
+   * @param status - Initial status
+   * @param scheduledFor - When a deferred message may be sent
+   * @returns Promise resolving to the created record
+   */
+  private async recordDelivery(
+    message: NotificationMessage,
+    context: DeliveryContext,
+    provider: NotificationProvider,
+    status: DeliveryStatus,
+    scheduledFor?: Date
+  ): Promise<NotificationDelivery> {
+    const delivery: Omit<NotificationDelivery, 'id'> = {
+      channel: message.channel,
+      recipient: message.recipient,
+      recipientUserId: context.recipientUserId,
+      subject: message.subject,
+      body: message.body,
+      data: message.data,
+      provider: provider.name,
+      status,
+      attempts: 0,
+      incidentId: context.incidentId,
+      studentId: context.studentId,
+      schoolId: context.schoolId,
+      parentNotice: context.parentNotice,
+      scheduledFor,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      createdBy: context.createdBy,
+      updatedBy: context.createdBy,
+    };
+
+    const created = await withRetry(() => this.createDocument(delivery));
+    this.clearCache();
+    return created;
+  }
+
+  /**
+   * Hand a message to its provider and record the outcome
+   * @param delivery - Delivery record for the message
+   * @param message - Message to deliver
+   * @param provider - Provider to deliver through
+   * @returns Promise resolving to the updated record
+   */
+  private async deliver(
+    delivery: NotificationDelivery,
+    message: NotificationMessage,
+    provider: NotificationProvider
+  ): Promise<NotificationDelivery> {
+    let attempts = delivery.attempts;
+    let outcome: Partial<NotificationDelivery>;
+
+    try {
+      const result = await withRetry(() => {
+        attempts++;
+        return provider.send(message);
+      });
+
+      outcome = {
+        status: DeliveryStatus.SENT,
+        attempts,
+        providerMessageId: result.providerMessageId,
+        sentAt: new Date(),
+      };
+    } catch (error) {
+      outcome = {
+        status: DeliveryStatus.FAILED,
+        attempts,
+        lastError: (error as Error)?.message || String(error),
+      };
+
+      telemetryService.trackError(
+        'NotificationDeliveryFailed',
+        outcome.lastError!,
+        (error as Error)?.stack,
+        (error as any)?.code,
+        { deliveryId: delivery.id, channel: message.channel, provider: provider.name }
+      );
+    }
+
+    const recorded = await withRetry(() =>
+      this.updateDocument(delivery.id!, { ...outcome, updatedBy: delivery.createdBy })
+    );
+    this.clearCache();
+
+    telemetryService.trackUsage('notification_dispatched', 'NotificationService', {
+      deliveryId: recorded.id,
+      channel: message.channel,
+      provider: provider.name,
+      status: recorded.status,
+      attempts,
+    });
+
+    return recorded;
+  }
+
+  /**
+   * Mark the student of a delivered parent notice as parent-notified
+   * Notices recorded without a student are about the main student. The change
+   * is made under 'notify-parent', so it also applies to incidents the sender
+   * did not report. Failures are tracked but do not affect the delivery.
+   * @param delivery - Delivered parent notice
+   * @returns Promise resolving to the incident, or null if it could not be marked
+   */
+  private async markParentNotified(delivery: NotificationDelivery): Promise<DisciplineIncident | null> {
+    try {
+      const incident = await disciplineService.getIncident(delivery.incidentId!);
+      const studentId = delivery.studentId || incident?.studentId;
+      const participant = incident && studentId ? getIncidentParticipant(incident, studentId) : undefined;
+      if (!incident || !participant || participant.parentNotified) {
+        return incident;
+      }
+      return await disciplineService.updateParticipant(
+        delivery.incidentId!,
+        participant.studentId,
+        { parentNotified: true, parentNotificationDate: delivery.sentAt || new Date() },
+        delivery.createdBy,
+        'notify-parent'
+      );
+    } catch (error) {
+      telemetryService.trackException(error as Error, {
+        method: 'markParentNotified',
+        deliveryId: delivery.id,
+        incidentId: delivery.incidentId,
+        studentId: delivery.studentId,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Get the provider registered for a channel
+   * @param channel - Notification channel
+   * @returns Registered provider
+   * @throws NotificationServiceError if no provider is registered
+   */
+  private requireProvider(channel: NotificationChannel): NotificationProvider {
+    const provider = this.providers.get(channel);
+    if (!provider) {
+      throw new NotificationServiceError(
+        `No notification provider registered for ${channel}`,
+        'provider-not-configured',
+        { channel }
+      );
+    }
+    return provider;
+  }
+
+  /**
+   * Get the delivery records for an incident
+   * @param incidentId - Incident identifier
+   * @returns Promise resolving to deliveries, newest first
+   */
+  public async getDeliveriesForIncident(incidentId: string): Promise<NotificationDelivery[]> {
+    try {
+      const result = await withRetry(() =>
+        this.queryDocuments([where('incidentId', '==', incidentId), orderBy('createdAt', 'desc')], 100)
+      );
+      return result.items;
+    } catch (error) {
+      throw NotificationServiceError.wrap(error, 'fetch-deliveries-failed', 'Failed to fetch notification deliveries', {
+        incidentId,
+      });
+    }
+  }
+
+  /**
+   * Build the parent notice for an incident
+   * Uses the school's best-matching letter template, falling back to a
+   * built-in notice if the school has none.
+   * @param incident - Discipline incident
+   * @param contact - Parent contact details
+   * @param language - Parent's preferred language (defaults to 'en')
+   * @returns Promise resolving to parent notice content
+   */
+  private async buildParentNotice(
+    incident: DisciplineIncident,
+    contact: ParentContact,
+    language?: string
+  ): Promise<ParentNotice> {
+    const template = await letterTemplateService.findTemplateForIncident(incident, language);
+    if (template) {
+      const letter = LetterTemplateService.renderLetter(template, incident, { parentName: contact.name });
+      return { subject: letter.subject, body: letter.emailText, html: letter.emailHtml, smsText: letter.smsText };
+    }
+
+    const greeting = contact.name ? `Dear ${contact.name},` : 'Dear Parent/Guardian,';
+    const date = incident.dateTime.toLocaleDateString();
+    const role = getIncidentParticipant(incident, incident.studentId)?.role;
+    const part = role ? ` as ${/^[aeiou]/.test(role) ? 'an' : 'a'} ${role}` : '';
+
+    return {
+      subject: `Discipline notice for ${incident.studentName}`,
+      body:
+        `${greeting}\n\n` +
+        `${incident.studentName} was involved${part} in a ${incident.severity} ${incident.incidentType.replace(/_/g, ' ')} ` +
+        `incident on ${date} (${incident.location}).\n\n` +
+        `${incident.description}\n\n` +
+        (incident.actionTaken ? `Action taken: ${incident.actionTaken}\n\n` : '') +
+        `Please contact ${incident.teacherName} at the school if you have any questions.`,
+    };
+  }
+
+  /**
+   * Map Firestore data to NotificationDelivery object
+   * @param id - Document ID
+   * @param data - Firestore document data
+   * @returns NotificationDelivery object
+   */
+  protected mapFirestoreToModel(id: string, data: any): NotificationDelivery {
+    return {
+      id,
+      channel: data.channel,
+      recipient: data.recipient || '',
+      recipientUserId: data.recipientUserId || undefined,
+      subject: data.subject || undefined,
+      body: data.body || '',
+      data: data.data || undefined,
+      provider: data.provider || '',
+      status: data.status || DeliveryStatus.PENDING,
+      attempts: typeof data.attempts === 'number' ? data.attempts : 0,
+      providerMessageId: data.providerMessageId || undefined,
+      lastError: data.lastError || undefined,
+      incidentId: data.incidentId || undefined,
+      studentId: data.studentId || undefined,
+      schoolId: data.schoolId || undefined,
+      parentNotice: data.parentNotice || undefined,
+      scheduledFor: this.timestampToDate(data.scheduledFor),
+      sentAt: this.timestampToDate(data.sentAt),
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      createdBy: data.createdBy || '',
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  /**
+   * Map NotificationDelivery object to Firestore data
+   * Only defined fields are written so partial updates are supported
+   * @param model - NotificationDelivery object (or partial)
+   * @returns Firestore document data
+   */
+  protected mapModelToFirestore(model: NotificationDelivery): any {
+    const { id, createdAt, updatedAt, sentAt, scheduledFor, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    if (sentAt) {
+      data.sentAt = this.dateToTimestamp(sentAt);
+    }
+    if (scheduledFor) {
+      data.scheduledFor = this.dateToTimestamp(scheduledFor);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Custom error class for notification service-related errors
+ */
+export class NotificationServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new NotificationServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'NotificationServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in a NotificationServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns NotificationServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): NotificationServiceError {
+    if (error instanceof NotificationServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new NotificationServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    if ((error as Error)?.message?.startsWith('Validation failed')) {
+      return new NotificationServiceError((error as Error).message, 'validation-error', context);
+    }
+
+    return new NotificationServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const notificationService = NotificationService.getInstance();
@@ -0,0 +1,748 @@
+/**
+ * Permission Policy Service for MCC Discipline Tracker
+ *
+ * This service is the policy engine behind UserService.hasPermission. On top
+ * of the built-in role permissions declared in config/permissions, a school
+ * can define custom roles (e.g. "Head of Year" or "Counsellor") and assign
+ * them to staff. A custom role grants a set of permissions within a scope -
+ * the whole school, some grades, some classes or a list of students - and
+ * optionally only for some incident types or severities. Schools can also
+ * narrow which built-in roles hold a permission.
+ *
+ * For each action, a user's custom roles that list it replace their base
+ * role's grant: a teacher given a "Counsellor" role for bullying incidents
+ * can view bullying incidents only, while keeping their other teacher
+ * permissions. Firestore rules still grant access by base role, so a custom
+ * role that widens access (e.g. editing other teachers' incidents) also
+ * needs the user's base role to be allowed that write by firestore.rules.
+ * Likewise, narrowing is only enforced by the app: a teacher limited to
+ * bullying incidents can still read every incident at their school directly.
+ *
+ * Staff can only create roles with permissions they hold themselves, and
+ * only give them to other staff.
+ *
+ * @fileoverview Custom roles, scopes and per-school permission overrides
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import { where, FirestoreError } from 'firebase/firestore';
+import { Collections, UserData } from '../config/firebaseConfig';
+import { PERMISSIONS, Permission, PermissionDefinition, UserRole, isUserRole } from '../config/permissions';
+import { userService } from './userService';
+import type { IncidentType, IncidentSeverity } from './disciplineService';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { validationService } from './base/validationService';
+import { serviceRegistry } from './base/serviceRegistry';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+
+/**
+ * Roles that can hold custom roles
+ */
+const STAFF_ROLES: readonly UserRole[] = ['admin', 'principal', 'teacher'];
+
+/**
+ * Students a custom role applies to
+ */
+export type CustomRoleScope =
+  | { type: 'school' }
+  | { type: 'grade'; grades: string[] }
+  | { type: 'class'; homerooms: string[] }
+  | { type: 'students'; studentIds: string[] };
+
+/**
+ * Incident attributes a custom role is limited to
+ */
+export interface CustomRoleConditions {
+  incidentTypes?: IncidentType[];
+  severities?: IncidentSeverity[];
+}
+
+/**
+ * Interface for a school's custom role
+ */
+export interface CustomRole {
+  id?: string;
+  schoolId: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  scope: CustomRoleScope;
+  conditions?: CustomRoleConditions;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+/**
+ * Input data for creating a custom role
+ */
+export type CustomRoleInput = Omit<CustomRole, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>;
+
+/**
+ * Updatable custom role fields
+ */
+export type CustomRoleUpdate = Partial<Omit<CustomRoleInput, 'schoolId'>>;
+
+/**
+ * Interface for a school's overrides of the built-in role permissions
+ * The document ID is the school ID.
+ */
+export interface SchoolPermissionPolicy {
+  schoolId: string;
+  /** Built-in roles holding each overridden permission at the school */
+  roleOverrides: Partial<Record<Permission, UserRole[]>>;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+/**
+ * What a permission is being checked for
+ */
+export interface PermissionContext {
+  schoolId?: string;
+  studentId?: string;
+  /** Student's grade, looked up from studentId when not given */
+  grade?: string;
+  /** Student's class, looked up from studentId when not given */
+  homeroom?: string;
+  incidentType?: IncidentType;
+  severity?: IncidentSeverity;
+}
+
+/**
+ * A user's permissions, loaded once and checked against many contexts
+ */
+export interface UserPermissionPolicy {
+  allows(action: string, context?: PermissionContext): Promise<boolean>;
+}
+
+/**
+ * Build the permission context for an incident
+ * @param incident - Incident, or incident data being saved
+ * @returns Context with the incident's school, student, type and severity
+ */
+export const getIncidentPermissionContext = (incident: {
+  schoolId?: string;
+  studentId?: string;
+  incidentType?: IncidentType;
+  severity?: IncidentSeverity;
+}): PermissionContext => ({
+  schoolId: incident.schoolId,
+  studentId: incident.studentId,
+  incidentType: incident.incidentType,
+  severity: incident.severity,
+});
+
+/**
+ * Student fields used to check grade and class scopes
+ */
+interface StudentPlacement {
+  id?: string;
+  schoolId: string;
+  grade: string;
+  homeroom: string;
+}
+
+/**
+ * Read-only lookup of students' grades and classes
+ * Kept separate from StudentService, which itself checks permissions.
+ */
+class StudentPlacementStore extends FirestoreService<StudentPlacement> {
+  protected collectionName = Collections.STUDENTS;
+
+  public get(studentId: string): Promise<StudentPlacement | null> {
+    return this.getDocument(studentId);
+  }
+
+  protected mapFirestoreToModel(id: string, data: any): StudentPlacement {
+    return { id, schoolId: data.schoolId || '', grade: String(data.grade ?? ''), homeroom: data.homeroom || '' };
+  }
+
+  protected mapModelToFirestore(model: StudentPlacement): any {
+    const { id, ...data } = model;
+    return data;
+  }
+}
+
+/**
+ * Persistence for custom roles
+ */
+class CustomRoleStore extends FirestoreService<CustomRole> {
+  protected collectionName = Collections.CUSTOM_ROLES;
+
+  public get(roleId: string): Promise<CustomRole | null> {
+    return this.getDocument(roleId);
+  }
+
+  public async create(role: Omit<CustomRole, 'id'>): Promise<CustomRole> {
+    const created = await this.createDocument(role);
+    this.clearCache();
+    return created;
+  }
+
+  public async update(roleId: string, updates: Partial<CustomRole>): Promise<CustomRole> {
+    const updated = await this.updateDocument(roleId, updates);
+    this.clearCache();
+    return updated;
+  }
+
+  public async remove(roleId: string): Promise<void> {
+    await this.deleteDocument(roleId);
+    this.clearCache();
+  }
+
+  public async findBySchool(schoolId: string): Promise<CustomRole[]> {
+    const result = await this.queryDocuments([where('schoolId', '==', schoolId)], 100);
+    return result.items;
+  }
+
+  protected mapFirestoreToModel(id: string, data: any): CustomRole {
+    return {
+      id,
+      schoolId: data.schoolId || '',
+      name: data.name || '',
+      description: data.description || undefined,
+      permissions: Array.isArray(data.permissions) ? data.permissions : [],
+      scope: data.scope || { type: 'school' },
+      conditions: data.conditions || undefined,
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      createdBy: data.createdBy || '',
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  protected mapModelToFirestore(model: CustomRole): any {
+    const { id, createdAt, updatedAt, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    return data;
+  }
+}
+
+/**
+ * Permission policy service class providing custom roles, per-school overrides and permission checks
+ */
+export class PermissionPolicyService extends FirestoreService<SchoolPermissionPolicy> {
+  private static instance: PermissionPolicyService;
+  protected collectionName = Collections.PERMISSION_POLICIES;
+  private readonly roles = new CustomRoleStore();
+  private readonly students = new StudentPlacementStore();
+
+  /**
+   * Singleton pattern implementation
+   * @returns PermissionPolicyService instance
+   */
+  public static getInstance(): PermissionPolicyService {
+    if (!PermissionPolicyService.instance) {
+      PermissionPolicyService.instance = new PermissionPolicyService();
+      // Register with service registry
+      serviceRegistry.registerInstance('permissionPolicyService', PermissionPolicyService.instance);
+    }
+    return PermissionPolicyService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'PermissionPolicyService');
+  }
+
+  /**
+   * Load a user's permissions
+   * @param user - User profile
+   * @returns Promise resolving to the user's policy
+   */
+  public async getUserPolicy(user: UserData): Promise<UserPermissionPolicy> {
+    const schoolPolicy = user.schoolId ? await this.getSchoolPolicy(user.schoolId) : undefined;
+
+    const assigned = await Promise.all((user.customRoleIds || []).map(roleId => withRetry(() => this.roles.get(roleId))));
+    // Roles from another school are ignored, e.g. after the user moves school
+    const customRoles = assigned.filter((role): role is CustomRole => Boolean(role && role.schoolId === user.schoolId));
+
+    return {
+      allows: async (action: string, context: PermissionContext = {}): Promise<boolean> => {
+        const definition: PermissionDefinition | undefined = PERMISSIONS[action as Permission];
+        if (!definition) {
+          return false;
+        }
+        // Only admins act outside their own school
+        if (context.schoolId && context.schoolId !== user.schoolId && user.role !== 'admin') {
+          return false;
+        }
+
+        const granting = customRoles.filter(role => role.permissions.includes(action as Permission));
+        if (granting.length > 0) {
+          for (const role of granting) {
+            if (await this.roleApplies(role, context)) {
+              return true;
+            }
+          }
+          return false;
+        }
+
+        const roles = schoolPolicy?.roleOverrides[action as Permission] || definition.roles;
+        return isUserRole(user.role) && roles.includes(user.role);
+      },
+    };
+  }
+
+  /**
+   * Check whether a user may perform an action
+   * @param user - User profile
+   * @param action - Permission to check
+   * @param context - What the action is performed on
+   * @returns Promise resolving to true if the action is allowed
+   */
+  public async isAllowed(user: UserData, action: string, context?: PermissionContext): Promise<boolean> {
+    const policy = await this.getUserPolicy(user);
+    return policy.allows(action, context);
+  }
+
+  /**
+   * Get a school's overrides of the built-in role permissions
+   * @param schoolId - School ID
+   * @returns Promise resolving to the school's policy (no overrides when it has none)
+   * @throws PermissionPolicyServiceError for fetch failures
+   */
+  public async getSchoolPolicy(schoolId: string): Promise<SchoolPermissionPolicy> {
+    try {
+      const policy = await withRetry(() => this.getDocument(schoolId));
+      return policy || { schoolId, roleOverrides: {} };
+    } catch (error) {
+      throw PermissionPolicyServiceError.wrap(error, 'fetch-policy-failed', 'Failed to fetch permission policy', {
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Choose which built-in roles hold a permission at a school
+   * Schools can only narrow the built-in grants, which firestore.rules already enforce.
+   * @param schoolId - School ID
+   * @param permission - Permission to override
+   * @param roles - Roles holding the permission, or null to restore the default
+   * @param updatedBy - User ID of the updater
+   * @returns Promise resolving to the updated policy
+   * @throws PermissionPolicyServiceError for invalid overrides or update failures
+   */
+  public async setRoleOverride(
+    schoolId: string,
+    permission: Permission,
+    roles: UserRole[] | null,
+    updatedBy: string
+  ): Promise<SchoolPermissionPolicy> {
+    try {
+      await this.assertPermission(updatedBy, 'manage-roles', { schoolId });
+
+      const definition: PermissionDefinition | undefined = PERMISSIONS[permission];
+      if (!definition) {
+        throw new PermissionPolicyServiceError(`Unknown permission: ${permission}`, 'unknown-permission');
+      }
+      const widened = (roles || []).filter(role => !definition.roles.includes(role));
+      if (widened.length > 0) {
+        throw new PermissionPolicyServiceError(
+          `${permission} cannot be granted to ${widened.join(', ')}; use a custom role instead`,
+          'invalid-override',
+          { schoolId, permission }
+        );
+      }
+
+      const current = await this.getSchoolPolicy(schoolId);
+      const roleOverrides = { ...current.roleOverrides };
+      if (roles) {
+        roleOverrides[permission] = Array.from(new Set(roles));
+      } else {
+        delete roleOverrides[permission];
+      }
+
+      // Policies are keyed by school ID
+      const saved = await withRetry(() =>
+        this.createDocument({ schoolId, roleOverrides, updatedAt: new Date(), updatedBy }, schoolId)
+      );
+      this.clearCacheForKey(`doc:${schoolId}`);
+
+      telemetryService.trackUsage('permission_override_updated', 'PermissionPolicyService', {
+        schoolId,
+        permission,
+        roles: roles ? roles.join(',') : 'default',
+      });
+
+      return saved;
+    } catch (error) {
+      throw PermissionPolicyServiceError.wrap(error, 'update-policy-failed', 'Failed to update permission policy', {
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Create a custom role for a school
+   * @param input - Role name, permissions, scope and conditions
+   * @param createdBy - User ID of the creator
+   * @returns Promise resolving to the created role
+   * @throws PermissionPolicyServiceError for permission, validation or creation failures
+   */
+  public async createCustomRole(input: CustomRoleInput, createdBy: string): Promise<CustomRole> {
+    try {
+      await this.assertPermission(createdBy, 'manage-roles', { schoolId: input.schoolId });
+      await this.assertCanGrant(createdBy, input.permissions, input.schoolId);
+
+      const now = new Date();
+      const role: Omit<CustomRole, 'id'> = {
+        ...input,
+        name: input.name.trim(),
+        createdAt: now,
+        updatedAt: now,
+        createdBy,
+        updatedBy: createdBy,
+      };
+      validationService.validateOrThrow('customRole', role);
+
+      const created = await withRetry(() => this.roles.create(role));
+
+      telemetryService.trackUsage('custom_role_created', 'PermissionPolicyService', {
+        schoolId: input.schoolId,
+        scope: input.scope.type,
+        permissions: input.permissions.join(','),
+      });
+
+      return created;
+    } catch (error) {
+      throw PermissionPolicyServiceError.wrap(error, 'create-role-failed', 'Failed to create custom role', {
+        schoolId: input.schoolId,
+      });
+    }
+  }
+
+  /**
+   * Update a custom role
+   * @param roleId - Role ID
+   * @param updates - Fields to change
+   * @param updatedBy - User ID of the updater
+   * @returns Promise resolving to the updated role
+   * @throws PermissionPolicyServiceError for permission, validation or update failures
+   */
+  public async updateCustomRole(roleId: string, updates: CustomRoleUpdate, updatedBy: string): Promise<CustomRole> {
+    try {
+      const role = await this.requireCustomRole(roleId);
+      await this.assertPermission(updatedBy, 'manage-roles', { schoolId: role.schoolId });
+
+      validationService.validateOrThrow('customRole', { ...role, ...updates });
+      if (updates.permissions) {
+        await this.assertCanGrant(updatedBy, updates.permissions, role.schoolId);
+      }
+
+      return await withRetry(() =>
+        this.roles.update(roleId, {
+          ...updates,
+          ...(updates.name !== undefined ? { name: updates.name.trim() } : {}),
+          updatedBy,
+        })
+      );
+    } catch (error) {
+      throw PermissionPolicyServiceError.wrap(error, 'update-role-failed', 'Failed to update custom role', { roleId });
+    }
+  }
+
+  /**
+   * Delete a custom role
+   * Users who held the role lose it; their stale role IDs are ignored.
+   * @param roleId - Role ID
+   * @param deletedBy - User ID of the person deleting it
+   * @throws PermissionPolicyServiceError for permission or delete failures
+   */
+  public async deleteCustomRole(roleId: string, deletedBy: string): Promise<void> {
+    try {
+      const role = await this.requireCustomRole(roleId);
+      await this.assertPermission(deletedBy, 'manage-roles', { schoolId: role.schoolId });
+
+      await withRetry(() => this.roles.remove(roleId));
+
+      telemetryService.trackUsage('custom_role_deleted', 'PermissionPolicyService', { schoolId: role.schoolId });
+    } catch (error) {
+      throw PermissionPolicyServiceError.wrap(error, 'delete-role-failed', 'Failed to delete custom role', { roleId });
+    }
+  }
+
+  /**
+   * Get a school's custom roles
+   * @param schoolId - School ID
+   * @returns Promise resolving to the school's roles
+   * @throws PermissionPolicyServiceError for fetch failures
+   */
+  public async getCustomRoles(schoolId: string): Promise<CustomRole[]> {
+    try {
+      return await withRetry(() => this.roles.findBySchool(schoolId));
+    } catch (error) {
+      throw PermissionPolicyServiceError.wrap(error, 'get-roles-failed', 'Failed to get custom roles', { schoolId });
+    }
+  }
+
+  /**
+   * Give a user a custom role
+   * Only staff can hold custom roles.
+   * @param userId - User ID
+   * @param roleId - Role ID
+   * @param assignedBy - User ID of the person assigning it
+   * @throws PermissionPolicyServiceError for permission or update failures
+   */
+  public async assignCustomRole(userId: string, roleId: string, assignedBy: string): Promise<void> {
+    try {
+      const role = await this.requireCustomRole(roleId);
+      await this.assertPermission(assignedBy, 'manage-roles', { schoolId: role.schoolId });
+
+      const user = await userService.getUserProfile(userId);
+      if (!user || user.schoolId !== role.schoolId) {
+        throw new PermissionPolicyServiceError('User is not at the role\'s school', 'user-not-in-school', {
+          userId,
+          roleId,
+        });
+      }
+      if (!STAFF_ROLES.includes(user.role as UserRole)) {
+        throw new PermissionPolicyServiceError('Custom roles can only be given to staff', 'not-staff', {
+          userId,
+          roleId,
+        });
+      }
+
+      const customRoleIds = Array.from(new Set([...(user.customRoleIds || []), roleId]));
+      await userService.updateUserProfile(userId, { customRoleIds });
+
+      telemetryService.trackUsage('custom_role_assigned', 'PermissionPolicyService', { roleId });
+    } catch (error) {
+      throw PermissionPolicyServiceError.wrap(error, 'assign-role-failed', 'Failed to assign custom role', {
+        userId,
+        roleId,
+      });
+    }
+  }
+
+  /**
+   * Take a custom role away from a user
+   * @param userId - User ID
+   * @param roleId - Role ID
+   * @param removedBy - User ID of the person removing it
+   * @throws PermissionPolicyServiceError for permission or update failures
+   */
+  public async removeCustomRole(userId: string, roleId: string, removedBy: string): Promise<void> {
+    try {
+      const user = await userService.getUserProfile(userId);
+      if (!user) {
+        throw new PermissionPolicyServiceError('User not found', 'user-not-found', { userId });
+      }
+      await this.assertPermission(removedBy, 'manage-roles', { schoolId: user.schoolId });
+
+      const customRoleIds = (user.customRoleIds || []).filter(id => id !== roleId);
+      await userService.updateUserProfile(userId, { customRoleIds });
+    } catch (error) {
+      throw PermissionPolicyServiceError.wrap(error, 'remove-role-failed', 'Failed to remove custom role', {
+        userId,
+        roleId,
+      });
+    }
+  }
+
+  /**
+   * Check whether a custom role covers a context
+   * A role limited to some students or incidents does not apply when the
+   * context does not say which student or incident the action is on.
+   * @param role - Custom role
+   * @param context - What the action is performed on
+   * @returns Promise resolving to true if the role's scope and conditions match
+   */
+  private async roleApplies(role: CustomRole, context: PermissionContext): Promise<boolean> {
+    if (context.schoolId && context.schoolId !== role.schoolId) {
+      return false;
+    }
+
+    const { incidentTypes, severities } = role.conditions || {};
+    if (incidentTypes?.length && !(context.incidentType && incidentTypes.includes(context.incidentType))) {
+      return false;
+    }
+    if (severities?.length && !(context.severity && severities.includes(context.severity))) {
+      return false;
+    }
+
+    const scope = role.scope;
+    switch (scope.type) {
+      case 'school':
+        return true;
+      case 'students':
+        return Boolean(context.studentId && scope.studentIds.includes(context.studentId));
+      case 'grade':
+      case 'class': {
+        let { grade, homeroom } = context;
+        if ((grade === undefined || homeroom === undefined) && context.studentId) {
+          const student = await withRetry(() => this.students.get(context.studentId!));
+          if (!student || student.schoolId !== role.schoolId) {
+            return false;
+          }
+          grade = grade ?? student.grade;
+          homeroom = homeroom ?? student.homeroom;
+        }
+        return scope.type === 'grade'
+          ? Boolean(grade && scope.grades.includes(grade))
+          : Boolean(homeroom && scope.homerooms.includes(homeroom));
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Get a custom role that must exist
+   * @param roleId - Role ID
+   * @returns Promise resolving to the role
+   * @throws PermissionPolicyServiceError if the role does not exist
+   */
+  private async requireCustomRole(roleId: string): Promise<CustomRole> {
+    const role = await withRetry(() => this.roles.get(roleId));
+    if (!role) {
+      throw new PermissionPolicyServiceError('Custom role not found', 'role-not-found', { roleId });
+    }
+    return role;
+  }
+
+  /**
+   * Check that a user holds every permission they grant in a custom role
+   * @param userId - User ID of the creator or updater
+   * @param permissions - Permissions the role grants
+   * @param schoolId - School ID of the role
+   * @throws PermissionPolicyServiceError with code 'permission-not-held' if the user lacks any of them
+   */
+  private async assertCanGrant(userId: string, permissions: Permission[], schoolId: string): Promise<void> {
+    const held = await Promise.all(
+      permissions.map(permission => userService.hasPermission(userId, permission, { schoolId }))
+    );
+    const notHeld = permissions.filter((_, index) => !held[index]);
+    if (notHeld.length > 0) {
+      throw new PermissionPolicyServiceError(
+        `A custom role cannot grant permissions you do not hold: ${notHeld.join(', ')}`,
+        'permission-not-held',
+        { schoolId, permissions: notHeld }
+      );
+    }
+  }
+
+  /**
+   * Check that a user may perform an action
+   * @param userId - User ID
+   * @param action - Permission to check
+   * @param context - What the action is performed on
+   * @throws PermissionPolicyServiceError if the user lacks the permission
+   */
+  private async assertPermission(userId: string, action: string, context?: PermissionContext): Promise<void> {
+    const hasPermission = await userService.hasPermission(userId, action, context);
+    if (!hasPermission) {
+      throw new PermissionPolicyServiceError(
+        `Insufficient permissions to ${action.replace(/-/g, ' ')}`,
+        'insufficient-permissions'
+      );
+    }
+  }
+
+  /**
+   * Map Firestore data to SchoolPermissionPolicy object
+   * @param id - Document ID (the school ID)
+   * @param data - Firestore document data
+   * @returns SchoolPermissionPolicy object
+   */
+  protected mapFirestoreToModel(id: string, data: any): SchoolPermissionPolicy {
+    return {
+      schoolId: data.schoolId || id,
+      roleOverrides: data.roleOverrides || {},
+      updatedAt: this.timestampToDate(data.updatedAt),
+      updatedBy: data.updatedBy || undefined,
+    };
+  }
+
+  /**
+   * Map SchoolPermissionPolicy object to Firestore data
+   * @param model - SchoolPermissionPolicy object
+   * @returns Firestore data
+   */
+  protected mapModelToFirestore(model: SchoolPermissionPolicy): any {
+    const { updatedAt, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    return data;
+  }
+}
+
+/**
+ * Custom error class for permission policy service errors
+ */
+export class PermissionPolicyServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new PermissionPolicyServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'PermissionPolicyServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in a PermissionPolicyServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns PermissionPolicyServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): PermissionPolicyServiceError {
+    if (error instanceof PermissionPolicyServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new PermissionPolicyServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    if ((error as Error)?.message?.startsWith('Validation failed')) {
+      return new PermissionPolicyServiceError((error as Error).message, 'validation-error', context);
+    }
+
+    return new PermissionPolicyServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const permissionPolicyService = PermissionPolicyService.getInstance();
@@ -0,0 +1,586 @@
+/**
+ * Report PDF Renderer for MCC Discipline Tracker
+ *
+ * This module lays out student behaviour reports and school reports as PDF
+ * documents using the PdfDocument writer. Reports open with a school header
+ * and reporting period, and contain summary figures, tables, severity
+ * breakdowns and trend charts drawn as vector graphics. Long tables continue
+ * on new pages with their column headings repeated, and every page has a
+ * footer with the generation time and page number.
+ *
+ * @fileoverview PDF layout for student and school reports
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import { PdfDocument, PdfColor, PdfFont } from './base/pdfDocument';
+import type { StudentBehaviorReport, SchoolReport, TrendDataPoint } from './reportingService';
+
+/**
+ * Options for rendering a report
+ */
+export interface ReportPdfOptions {
+  /** School name for the header (the school ID is shown if omitted) */
+  schoolName?: string;
+  /** Period the report covers (school reports carry their own) */
+  period?: { from: Date; to: Date };
+  /** Draw charts alongside tables (defaults to true) */
+  includeCharts?: boolean;
+  /** Name of the person the report was generated for, shown in the footer */
+  generatedBy?: string;
+  /** Generation time shown in the footer (defaults to now) */
+  generatedAt?: Date;
+}
+
+/**
+ * Column of a report table
+ */
+interface TableColumn {
+  header: string;
+  /** Share of the content width */
+  width: number;
+  align?: 'left' | 'right';
+}
+
+/**
+ * Bar of a bar chart
+ */
+interface ChartBar {
+  label: string;
+  value: number;
+  color?: PdfColor;
+}
+
+// Colours taken from the app theme
+const BRAND_COLOR: PdfColor = [0.12, 0.36, 0.74];
+const TEXT_COLOR: PdfColor = [0.13, 0.13, 0.13];
+const MUTED_COLOR: PdfColor = [0.4, 0.4, 0.4];
+const RULE_COLOR: PdfColor = [0.8, 0.8, 0.8];
+const HEADER_FILL: PdfColor = [0.91, 0.93, 0.97];
+const STRIPE_FILL: PdfColor = [0.97, 0.97, 0.97];
+
+const SEVERITY_COLORS: Record<string, PdfColor> = {
+  low: [0.3, 0.69, 0.31],
+  medium: [1, 0.76, 0.03],
+  high: [1, 0.6, 0],
+  critical: [0.96, 0.26, 0.21],
+};
+
+const MARGIN = 48;
+const HEADER_HEIGHT = 36;
+const FOOTER_HEIGHT = 32;
+const ROW_HEIGHT = 18;
+
+/**
+ * Format an enum value for display (e.g. dress_code -> Dress code)
+ * @param value - Enum value
+ * @returns Human-readable label
+ */
+const formatLabel = (value: string): string => {
+  const words = value.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Format an optional date for a table cell
+ * @param date - Date to format
+ * @returns Formatted date, or a dash if there is none
+ */
+const formatDate = (date?: Date): string => (date ? new Date(date).toLocaleDateString() : '-');
+
+/**
+ * Format a number with at most one decimal place
+ * @param value - Number to format
+ * @returns Formatted number
+ */
+const formatNumber = (value: number): string => String(Math.round(value * 10) / 10);
+
+/**
+ * Page layout for a report: tracks the writing position and breaks pages
+ */
+class ReportLayout {
+  public readonly pdf: PdfDocument;
+  private y = 0;
+  private readonly contentWidth: number;
+
+  constructor(
+    private readonly title: string,
+    private readonly schoolLabel: string,
+    private readonly options: ReportPdfOptions
+  ) {
+    this.pdf = new PdfDocument({ title, author: schoolLabel, createdAt: options.generatedAt });
+    this.contentWidth = this.pdf.width - MARGIN * 2;
+    this.drawTitleBlock();
+  }
+
+  /**
+   * Bottom of the writable area of a page
+   */
+  private get bottom(): number {
+    return this.pdf.height - MARGIN - FOOTER_HEIGHT;
+  }
+
+  /**
+   * Start a new page if the next block does not fit on the current one
+   * @param height - Height of the next block
+   * @returns True if a new page was started
+   */
+  public ensureSpace(height: number): boolean {
+    if (this.y + height <= this.bottom) {
+      return false;
+    }
+    this.newPage();
+    return true;
+  }
+
+  /**
+   * Draw a section heading
+   * @param text - Heading text
+   */
+  public heading(text: string): void {
+    // Keep the heading with at least a few lines of its section
+    this.ensureSpace(28 + ROW_HEIGHT * 3);
+    this.y += 18;
+    this.pdf.text(MARGIN, this.y, text, { size: 13, font: 'bold', color: BRAND_COLOR });
+    this.y += 6;
+    this.pdf.line(MARGIN, this.y, MARGIN + this.contentWidth, this.y, { stroke: RULE_COLOR, lineWidth: 0.5 });
+    this.y += 12;
+  }
+
+  /**
+   * Draw label and value pairs in two columns
+   * @param pairs - Label and value pairs
+   */
+  public keyValues(pairs: Array<[string, string]>): void {
+    const columnWidth = this.contentWidth / 2;
+
+    for (let i = 0; i < pairs.length; i += 2) {
+      this.ensureSpace(ROW_HEIGHT);
+      pairs.slice(i, i + 2).forEach(([label, value], column) => {
+        const x = MARGIN + column * columnWidth;
+        this.pdf.text(x, this.y + 12, `${label}:`, { size: 10, color: MUTED_COLOR });
+        this.pdf.text(x + 130, this.y + 12, this.fit(value, columnWidth - 136, 10, 'bold'), {
+          size: 10,
+          font: 'bold',
+          color: TEXT_COLOR,
+        });
+      });
+      this.y += ROW_HEIGHT;
+    }
+  }
+
+  /**
+   * Draw a table, repeating the column headings on each page it spans
+   * @param columns - Column definitions
+   * @param rows - Cell text by row
+   * @param emptyText - Text shown when there are no rows
+   */
+  public table(columns: TableColumn[], rows: string[][], emptyText: string = 'No data for this period'): void {
+    const widths = columns.map(column => column.width * this.contentWidth);
+
+    const drawRow = (cells: string[], font: PdfFont, fill?: PdfColor) => {
+      if (fill) {
+        this.pdf.rect(MARGIN, this.y, this.contentWidth, ROW_HEIGHT, { fill });
+      }
+      let x = MARGIN;
+      cells.forEach((cell, index) => {
+        const width = widths[index];
+        const text = this.fit(cell, width - 8, 9, font);
+        if (columns[index].align === 'right') {
+          this.pdf.text(x + width - 4, this.y + 12.5, text, { size: 9, font, color: TEXT_COLOR, align: 'right' });
+        } else {
+          this.pdf.text(x + 4, this.y + 12.5, text, { size: 9, font, color: TEXT_COLOR });
+        }
+        x += width;
+      });
+      this.y += ROW_HEIGHT;
+    };
+
+    const drawHeader = () => drawRow(columns.map(column => column.header), 'bold', HEADER_FILL);
+
+    this.ensureSpace(ROW_HEIGHT * 2);
+    drawHeader();
+
+    if (rows.length === 0) {
+      this.pdf.text(MARGIN + 4, this.y + 12.5, emptyText, { size: 9, color: MUTED_COLOR });
+      this.y += ROW_HEIGHT;
+    }
+
+    rows.forEach((row, index) => {
+      if (this.ensureSpace(ROW_HEIGHT)) {
+        drawHeader();
+      }
+      drawRow(row, 'regular', index % 2 === 1 ? STRIPE_FILL : undefined);
+    });
+
+    this.pdf.line(MARGIN, this.y, MARGIN + this.contentWidth, this.y, { stroke: RULE_COLOR, lineWidth: 0.5 });
+    this.y += 8;
+  }
+
+  /**
+   * Draw a horizontal bar chart
+   * @param bars - Bars to draw
+   */
+  public barChart(bars: ChartBar[]): void {
+    if (this.options.includeCharts === false || bars.length === 0) {
+      return;
+    }
+
+    const labelWidth = 110;
+    const valueWidth = 40;
+    const barHeight = 12;
+    const maxBarWidth = this.contentWidth - labelWidth - valueWidth;
+    const max = Math.max(...bars.map(bar => bar.value), 1);
+
+    this.ensureSpace(bars.length * (barHeight + 6) + 8);
+    this.y += 4;
+
+    bars.forEach(bar => {
+      this.pdf.text(MARGIN, this.y + 10, this.fit(bar.label, labelWidth - 6, 9), { size: 9, color: TEXT_COLOR });
+      const barWidth = (bar.value / max) * maxBarWidth;
+      if (barWidth > 0) {
+        this.pdf.rect(MARGIN + labelWidth, this.y, barWidth, barHeight, { fill: bar.color || BRAND_COLOR });
+      }
+      this.pdf.text(MARGIN + labelWidth + barWidth + 4, this.y + 10, String(bar.value), { size: 9, color: MUTED_COLOR });
+      this.y += barHeight + 6;
+    });
+
+    this.y += 4;
+  }
+
+  /**
+   * Draw a line chart of incident counts over time
+   * @param caption - Chart caption
+   * @param points - Data points in date order
+   */
+  public lineChart(caption: string, points: TrendDataPoint[]): void {
+    if (this.options.includeCharts === false || points.length === 0) {
+      return;
+    }
+
+    const chartHeight = 120;
+    const axisWidth = 30;
+    this.ensureSpace(chartHeight + 48);
+
+    this.pdf.text(MARGIN, this.y + 10, caption, { size: 10, font: 'bold', color: TEXT_COLOR });
+    this.y += 20;
+
+    const left = MARGIN + axisWidth;
+    const top = this.y;
+    const width = this.contentWidth - axisWidth;
+    const max = Math.max(...points.map(point => point.count), 1);
+    const xAt = (index: number) => (points.length === 1 ? left + width / 2 : left + (index / (points.length - 1)) * width);
+    const yAt = (count: number) => top + chartHeight - (count / max) * chartHeight;
+
+    // Gridlines and y-axis labels at 0, half and the maximum
+    [0, Math.round(max / 2), max].forEach(value => {
+      this.pdf.line(left, yAt(value), left + width, yAt(value), { stroke: RULE_COLOR, lineWidth: 0.5 });
+      this.pdf.text(left - 6, yAt(value) + 3, String(value), { size: 8, color: MUTED_COLOR, align: 'right' });
+    });
+    this.pdf.line(left, top, left, top + chartHeight, { stroke: MUTED_COLOR, lineWidth: 0.75 });
+
+    this.pdf.polyline(
+      points.map((point, index) => [xAt(index), yAt(point.count)] as [number, number]),
+      { stroke: BRAND_COLOR, lineWidth: 1.5 }
+    );
+    points.forEach((point, index) => {
+      this.pdf.rect(xAt(index) - 1.5, yAt(point.count) - 1.5, 3, 3, { fill: BRAND_COLOR });
+    });
+
+    // Label the first, last and evenly spaced points in between
+    const labelEvery = Math.max(1, Math.ceil(points.length / 6));
+    points.forEach((point, index) => {
+      if (index % labelEvery === 0 || index === points.length - 1) {
+        this.pdf.text(xAt(index), top + chartHeight + 12, point.date, { size: 7, color: MUTED_COLOR, align: 'center' });
+      }
+    });
+
+    this.y = top + chartHeight + 24;
+  }
+
+  /**
+   * Draw a bulleted list, wrapping long items
+   * @param items - List items
+   */
+  public bullets(items: string[]): void {
+    items.forEach(item => {
+      const lines = this.pdf.wrapText(item, this.contentWidth - 14, 10);
+      this.ensureSpace(lines.length * 14);
+      lines.forEach((line, index) => {
+        if (index === 0) {
+          this.pdf.text(MARGIN, this.y + 10, '-', { size: 10, color: BRAND_COLOR });
+        }
+        this.pdf.text(MARGIN + 14, this.y + 10, line, { size: 10, color: TEXT_COLOR });
+        this.y += 14;
+      });
+      this.y += 2;
+    });
+  }
+
+  /**
+   * Add footers to every page and serialise the document
+   * @returns PDF file contents
+   */
+  public finish(): Uint8Array {
+    const generatedAt = this.options.generatedAt || new Date();
+    const generated =
+      `Generated ${generatedAt.toLocaleDateString()} ${generatedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` +
+      (this.options.generatedBy ? ` for ${this.options.generatedBy}` : '');
+    const footerY = this.pdf.height - MARGIN;
+
+    for (let page = 0; page < this.pdf.pageCount; page++) {
+      this.pdf.setPage(page);
+      this.pdf.line(MARGIN, footerY - 14, MARGIN + this.contentWidth, footerY - 14, { stroke: RULE_COLOR, lineWidth: 0.5 });
+      this.pdf.text(MARGIN, footerY, generated, { size: 8, color: MUTED_COLOR });
+      this.pdf.text(MARGIN + this.contentWidth, footerY, `Page ${page + 1} of ${this.pdf.pageCount}`, {
+        size: 8,
+        color: MUTED_COLOR,
+        align: 'right',
+      });
+    }
+
+    return this.pdf.toBytes();
+  }
+
+  /**
+   * Draw the school header, report title and period on the first page
+   */
+  private drawTitleBlock(): void {
+    this.y = MARGIN + 16;
+    this.pdf.text(MARGIN, this.y, this.schoolLabel, { size: 18, font: 'bold', color: BRAND_COLOR });
+    this.y += 24;
+    this.pdf.text(MARGIN, this.y, this.title, { size: 14, font: 'bold', color: TEXT_COLOR });
+
+    if (this.options.period) {
+      this.y += 18;
+      this.pdf.text(
+        MARGIN,
+        this.y,
+        `Period: ${formatDate(this.options.period.from)} to ${formatDate(this.options.period.to)}`,
+        { size: 10, color: MUTED_COLOR }
+      );
+    }
+
+    this.y += 12;
+    this.pdf.rect(MARGIN, this.y, this.contentWidth, 2, { fill: BRAND_COLOR });
+    this.y += 8;
+  }
+
+  /**
+   * Start a new page with a running header
+   */
+  private newPage(): void {
+    this.pdf.addPage();
+    this.y = MARGIN + 10;
+    this.pdf.text(MARGIN, this.y, this.schoolLabel, { size: 9, font: 'bold', color: BRAND_COLOR });
+    this.pdf.text(MARGIN + this.contentWidth, this.y, this.title, { size: 9, color: MUTED_COLOR, align: 'right' });
+    this.y += 8;
+    this.pdf.line(MARGIN, this.y, MARGIN + this.contentWidth, this.y, { stroke: RULE_COLOR, lineWidth: 0.5 });
+    this.y = MARGIN + HEADER_HEIGHT;
+  }
+
+  /**
+   * Shorten text with an ellipsis so it fits a width
+   * @param text - Text to fit
+   * @param maxWidth - Available width
+   * @param size - Font size
+   * @param font - Font style
+   * @returns Text that fits
+   */
+  private fit(text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string {
+    if (this.pdf.textWidth(text, size, font) <= maxWidth) {
+      return text;
+    }
+    let fitted = text;
+    while (fitted.length > 0 && this.pdf.textWidth(`${fitted}...`, size, font) > maxWidth) {
+      fitted = fitted.slice(0, -1);
+    }
+    return `${fitted}...`;
+  }
+}
+
+/**
+ * Bars for a severity breakdown, coloured by severity
+ * @param bySeverity - Incident counts by severity
+ * @returns Chart bars
+ */
+const severityBars = (bySeverity: Record<string, number>): ChartBar[] =>
+  Object.entries(bySeverity).map(([severity, count]) => ({
+    label: formatLabel(severity),
+    value: count,
+    color: SEVERITY_COLORS[severity],
+  }));
+
+/**
+ * Table rows of counts by category, largest first, omitting empty categories
+ * @param counts - Counts by category
+ * @returns Table rows
+ */
+const countRows = (counts: Record<string, number>): string[][] =>
+  Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .sort(([, a], [, b]) => b - a)
+    .map(([category, count]) => [formatLabel(category), String(count)]);
+
+/**
+ * Render a student behaviour report as a PDF
+ * @param report - Student behaviour report
+ * @param options - Header, period and footer options
+ * @returns PDF file contents
+ */
+export const renderStudentReportPdf = (report: StudentBehaviorReport, options: ReportPdfOptions = {}): Uint8Array => {
+  const layout = new ReportLayout(
+    `Student Behaviour Report: ${report.studentName}`,
+    options.schoolName || 'MCC Discipline Tracker',
+    options
+  );
+
+  layout.heading('Summary');
+  layout.keyValues([
+    ['Student', report.studentName],
+    ['Student ID', report.studentId],
+    ['Incidents', String(report.totalIncidents)],
+    ['Last incident', formatDate(report.lastIncidentDate)],
+    ['Merits', `${report.totalMerits} (${report.totalMeritPoints} points)`],
+    ['Last merit', formatDate(report.lastMeritDate)],
+    ['Heat score', formatNumber(report.heatScore)],
+    ['Risk level', formatLabel(report.riskLevel)],
+    ['Trend', formatLabel(report.improvementTrend)],
+    ...Object.entries(report.incidentsByRole).map(([role, count]): [string, string] => [
+      `As ${formatLabel(role).toLowerCase()}`,
+      String(count),
+    ]),
+  ]);
+
+  layout.heading('Incidents by Severity');
+  layout.barChart(severityBars(report.incidentsBySeverity));
+  layout.table(
+    [
+      { header: 'Severity', width: 0.7 },
+      { header: 'Incidents', width: 0.3, align: 'right' },
+    ],
+    Object.entries(report.incidentsBySeverity).map(([severity, count]) => [formatLabel(severity), String(count)])
+  );
+
+  layout.heading('Incidents by Type');
+  layout.table(
+    [
+      { header: 'Type', width: 0.7 },
+      { header: 'Incidents', width: 0.3, align: 'right' },
+    ],
+    countRows(report.incidentsByType),
+    'No incidents for this period'
+  );
+
+  layout.heading('Merits by Category');
+  layout.table(
+    [
+      { header: 'Category', width: 0.7 },
+      { header: 'Merits', width: 0.3, align: 'right' },
+    ],
+    countRows(report.meritsByCategory),
+    'No merits for this period'
+  );
+
+  return layout.finish();
+};
+
+/**
+ * Render a school report as a PDF
+ * @param report - School report
+ * @param options - Header and footer options (the report's own period is used)
+ * @returns PDF file contents
+ */
+export const renderSchoolReportPdf = (report: SchoolReport, options: ReportPdfOptions = {}): Uint8Array => {
+  const layout = new ReportLayout('School Discipline Report', options.schoolName || `School ${report.schoolId}`, {
+    ...options,
+    period: report.reportPeriod,
+  });
+  const { overview, trends } = report;
+
+  layout.heading('Overview');
+  layout.keyValues([
+    ['Total incidents', String(overview.totalIncidents)],
+    ['Open', String(overview.openIncidents)],
+    ['Resolved', String(overview.resolvedIncidents)],
+    ['Follow-up required', String(overview.followUpRequired)],
+    ['Parent notice pending', String(overview.parentNotificationPending)],
+  ]);
+
+  layout.heading('Incidents by Severity');
+  layout.barChart(severityBars(overview.incidentsBySeverity));
+  layout.table(
+    [
+      { header: 'Severity', width: 0.5 },
+      { header: 'Incidents', width: 0.25, align: 'right' },
+      { header: 'Share', width: 0.25, align: 'right' },
+    ],
+    Object.entries(overview.incidentsBySeverity).map(([severity, count]) => [
+      formatLabel(severity),
+      String(count),
+      overview.totalIncidents > 0 ? `${formatNumber((count / overview.totalIncidents) * 100)}%` : '-',
+    ])
+  );
+
+  layout.heading('Incidents by Type');
+  layout.table(
+    [
+      { header: 'Type', width: 0.7 },
+      { header: 'Incidents', width: 0.3, align: 'right' },
+    ],
+    countRows(overview.incidentsByType),
+    'No incidents for this period'
+  );
+
+  if (options.includeCharts !== false && (trends.daily.length || trends.weekly.length || trends.monthly.length)) {
+    layout.heading('Trends');
+    layout.lineChart('Incidents per day', trends.daily);
+    layout.lineChart('Incidents per week', trends.weekly);
+    layout.lineChart('Incidents per month', trends.monthly);
+  }
+
+  layout.heading('Students with the Most Incidents');
+  layout.table(
+    [
+      { header: 'Student', width: 0.3 },
+      { header: 'Incidents', width: 0.13, align: 'right' },
+      { header: 'Merits', width: 0.12, align: 'right' },
+      { header: 'Heat score', width: 0.15, align: 'right' },
+      { header: 'Risk', width: 0.13 },
+      { header: 'Trend', width: 0.17 },
+    ],
+    report.topStudents.map(student => [
+      student.studentName,
+      String(student.totalIncidents),
+      String(student.totalMerits),
+      formatNumber(student.heatScore),
+      formatLabel(student.riskLevel),
+      formatLabel(student.improvementTrend),
+    ])
+  );
+
+  layout.heading('Teacher Activity');
+  layout.table(
+    [
+      { header: 'Teacher', width: 0.32 },
+      { header: 'Reported', width: 0.14, align: 'right' },
+      { header: 'Avg. days to resolve', width: 0.2, align: 'right' },
+      { header: 'Follow-up done', width: 0.17, align: 'right' },
+      { header: 'Parents notified', width: 0.17, align: 'right' },
+    ],
+    report.teacherPerformance.map(teacher => [
+      teacher.teacherName,
+      String(teacher.incidentsReported),
+      formatNumber(teacher.averageResolutionTime),
+      `${formatNumber(teacher.followUpCompliance)}%`,
+      `${formatNumber(teacher.parentNotificationRate)}%`,
+    ])
+  );
+
+  if (report.recommendations.length > 0) {
+    layout.heading('Recommendations');
+    layout.bullets(report.recommendations);
+  }
+
+  return layout.finish();
+};
@@ -0,0 +1,818 @@
+/**
+ * Report Schedule Service for MCC Discipline Tracker
+ *
+ * This service stores report schedules in Firestore and fires them when they
+ * fall due. Each report type (e.g. 'digest') has a handler registered by the
+ * service that produces it; running a schedule calls the handler, records the
+ * run in the schedule's history and moves the schedule on to its next run.
+ *
+ * Run times are wall-clock times in the schedule's time zone, so a 06:00
+ * schedule stays at 06:00 across daylight saving changes. Time is read from
+ * an injectable clock, so schedules can be driven in tests without waiting.
+ *
+ * @fileoverview Persistent report scheduling service
+ * @author MCC Discipline Tracker Team
+ * @version 2.0.0
+ */
+
+import { where, orderBy, limit, FirestoreError, Timestamp } from 'firebase/firestore';
+import { Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { validationService } from './base/validationService';
+import { serviceRegistry } from './base/serviceRegistry';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+
+/**
+ * Time of day (in the schedule's time zone) at which reports run by default
+ */
+export const DEFAULT_REPORT_TIME = '06:00';
+
+/**
+ * How often a scheduled report runs
+ */
+export type ReportFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Source of the current time
+ */
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * Clock that reads the system time
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * When in the day, week or month a schedule runs
+ */
+export interface ScheduleCadence {
+  frequency: ReportFrequency;
+  /** IANA time zone, e.g. Africa/Johannesburg */
+  timeZone: string;
+  /** Local time of day in HH:mm format */
+  timeOfDay: string;
+  /** Day of the week for weekly schedules (0 = Sunday, defaults to Monday) */
+  dayOfWeek?: number;
+  /** Day of the month for monthly schedules (defaults to the 1st; later days fall back to the month's last day) */
+  dayOfMonth?: number;
+}
+
+/**
+ * Interface for a report schedule
+ */
+export interface ReportSchedule extends ScheduleCadence {
+  id?: string;
+  /** Report type, matched against the registered handlers */
+  reportType: string;
+  /** User IDs or email addresses, depending on the report type */
+  recipients: string[];
+  /** Report-specific options passed to the handler */
+  filters: Record<string, any>;
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  /** Error from the last run, if it failed */
+  lastError?: string;
+  /** False while the schedule is paused */
+  active: boolean;
+  pausedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+/**
+ * Input data for creating a report schedule
+ */
+export type ReportScheduleInput = Pick<ReportSchedule, 'reportType' | 'frequency' | 'recipients'> &
+  Partial<Pick<ReportSchedule, 'filters' | 'timeZone' | 'timeOfDay' | 'dayOfWeek' | 'dayOfMonth'>>;
+
+/**
+ * Interface for a recorded run of a schedule
+ */
+export interface ReportRun {
+  id?: string;
+  scheduleId: string;
+  reportType: string;
+  /** Creator of the schedule, who may read its history */
+  scheduleCreatedBy: string;
+  /** Run time the schedule was due at */
+  scheduledFor: Date;
+  startedAt: Date;
+  finishedAt: Date;
+  success: boolean;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+/**
+ * Function that produces and distributes one run of a scheduled report
+ * @param schedule - Schedule being run
+ * @param runAt - Time of the run
+ */
+export type ReportHandler = (schedule: ReportSchedule, runAt: Date) => Promise<void>;
+
+/**
+ * Interface for the outcome of running a schedule
+ */
+export interface ScheduleRunResult {
+  scheduleId: string;
+  reportType: string;
+  success: boolean;
+  error?: string;
+  nextRunAt: Date;
+}
+
+/**
+ * Local calendar date and time in a time zone
+ */
+interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Get the wall-clock date and time of an instant in a time zone
+ * @param date - Instant
+ * @param timeZone - IANA time zone
+ * @returns Local date and time
+ */
+const toZonedDateTime = (date: Date, timeZone: string): ZonedDateTime => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  };
+};
+
+/**
+ * Convert a wall-clock date and time in a time zone to an instant
+ * Times repeated by a daylight saving change resolve to their first
+ * occurrence; times skipped by one resolve to the equivalent time after it
+ * (e.g. 02:30 on a night clocks go from 02:00 to 03:00 becomes 03:30).
+ * @param local - Local date and time (day must be valid for the month)
+ * @param timeZone - IANA time zone
+ * @returns Instant
+ */
+const fromZonedDateTime = (local: ZonedDateTime, timeZone: string): Date => {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+
+  // Offset of the zone from UTC at a given instant, in milliseconds
+  const offsetAt = (instant: number): number => {
+    const zoned = toZonedDateTime(new Date(instant), timeZone);
+    return (
+      Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second) -
+      Math.floor(instant / 1000) * 1000
+    );
+  };
+
+  // Zone offsets either side of any daylight saving change near the time
+  const halfDay = 12 * 60 * 60 * 1000;
+  const offsetBefore = offsetAt(asUtc - halfDay);
+  const offsetAfter = offsetAt(asUtc + halfDay);
+
+  const matches = [asUtc - offsetBefore, asUtc - offsetAfter].filter(instant => {
+    const zoned = toZonedDateTime(new Date(instant), timeZone);
+    return zoned.day === local.day && zoned.hour === local.hour && zoned.minute === local.minute;
+  });
+
+  return new Date(matches.length > 0 ? Math.min(...matches) : asUtc - offsetBefore);
+};
+
+/**
+ * Report schedule run history store (module-private)
+ */
+class ReportRunStore extends FirestoreService<ReportRun> {
+  protected collectionName = Collections.REPORT_RUNS;
+
+  public create(run: Omit<ReportRun, 'id'>): Promise<ReportRun> {
+    return this.createDocument(run).finally(() => this.clearCache());
+  }
+
+  public async findForSchedule(scheduleId: string, maxRuns: number): Promise<ReportRun[]> {
+    const result = await this.queryDocuments(
+      [where('scheduleId', '==', scheduleId), orderBy('startedAt', 'desc'), limit(maxRuns)],
+      maxRuns
+    );
+    return result.items;
+  }
+
+  protected mapFirestoreToModel(id: string, data: any): ReportRun {
+    return {
+      id,
+      scheduleId: data.scheduleId || '',
+      reportType: data.reportType || '',
+      scheduleCreatedBy: data.scheduleCreatedBy || '',
+      scheduledFor: this.timestampToDate(data.scheduledFor) || data.scheduledFor,
+      startedAt: this.timestampToDate(data.startedAt) || data.startedAt,
+      finishedAt: this.timestampToDate(data.finishedAt) || data.finishedAt,
+      success: data.success === true,
+      error: data.error || undefined,
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      createdBy: data.createdBy || '',
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  protected mapModelToFirestore(model: ReportRun): any {
+    const { id, createdAt, updatedAt, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value instanceof Date) {
+        data[key] = this.dateToTimestamp(value);
+      } else if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    return data;
+  }
+}
+
+/**
+ * Report schedule service class providing schedule storage and execution
+ */
+export class ReportScheduleService extends FirestoreService<ReportSchedule> {
+  private static instance: ReportScheduleService;
+  protected collectionName = Collections.REPORT_SCHEDULES;
+  private readonly runs = new ReportRunStore();
+  private handlers: Map<string, ReportHandler> = new Map();
+  private clock: Clock = systemClock;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Singleton pattern implementation
+   * @returns ReportScheduleService instance
+   */
+  public static getInstance(): ReportScheduleService {
+    if (!ReportScheduleService.instance) {
+      ReportScheduleService.instance = new ReportScheduleService();
+      // Register with service registry
+      serviceRegistry.registerInstance('reportScheduleService', ReportScheduleService.instance);
+    }
+    return ReportScheduleService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'ReportScheduleService');
+  }
+
+  /**
+   * Replace the clock the scheduler reads the current time from
+   * @param clock - Clock to use (pass systemClock to restore the default)
+   */
+  public setClock(clock: Clock): void {
+    this.clock = clock;
+  }
+
+  /**
+   * Register the handler that runs a report type, replacing any existing handler
+   * @param reportType - Report type
+   * @param handler - Handler to run when a schedule of this type falls due
+   */
+  public registerHandler(reportType: string, handler: ReportHandler): void {
+    this.handlers.set(reportType, handler);
+  }
+
+  /**
+   * Create a report schedule
+   * The time zone defaults to the device's, and the time of day to DEFAULT_REPORT_TIME.
+   * @param scheduleData - Schedule to create
+   * @param createdBy - User ID of the creator, or 'system' for automated schedules
+   * @returns Promise resolving to created schedule with ID
+   * @throws ReportScheduleServiceError for validation or creation failures
+   */
+  public async createSchedule(scheduleData: ReportScheduleInput, createdBy: string): Promise<ReportSchedule> {
+    try {
+      if (createdBy !== 'system') {
+        const hasPermission = await userService.hasPermission(createdBy, 'schedule-reports');
+        if (!hasPermission) {
+          throw new ReportScheduleServiceError('Insufficient permissions to schedule reports', 'insufficient-permissions');
+        }
+      }
+
+      const cadence: ScheduleCadence = {
+        frequency: scheduleData.frequency,
+        timeZone: scheduleData.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+        timeOfDay: scheduleData.timeOfDay || DEFAULT_REPORT_TIME,
+        dayOfWeek: scheduleData.frequency === 'weekly' ? scheduleData.dayOfWeek ?? 1 : undefined,
+        dayOfMonth: scheduleData.frequency === 'monthly' ? scheduleData.dayOfMonth ?? 1 : undefined,
+      };
+
+      validationService.validateOrThrow('reportSchedule', { ...scheduleData, ...cadence });
+
+      const schedule: Omit<ReportSchedule, 'id'> = {
+        ...cadence,
+        reportType: scheduleData.reportType,
+        recipients: scheduleData.recipients,
+        filters: scheduleData.filters || {},
+        nextRunAt: ReportScheduleService.computeNextRun(cadence, this.clock.now()),
+        active: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        createdBy,
+        updatedBy: createdBy,
+      };
+
+      const created = await withRetry(() => this.createDocument(schedule));
+      this.clearCache();
+
+      telemetryService.trackUsage('report_scheduled', 'ReportScheduleService', {
+        scheduleId: created.id,
+        reportType: schedule.reportType,
+        frequency: schedule.frequency,
+      });
+
+      return created;
+    } catch (error) {
+      throw ReportScheduleServiceError.wrap(error, 'create-schedule-failed', 'Failed to schedule report', {
+        reportType: scheduleData.reportType,
+      });
+    }
+  }
+
+  /**
+   * Get a report schedule by ID
+   * @param scheduleId - Schedule ID to fetch
+   * @returns Promise resolving to schedule or null if not found
+   */
+  public async getSchedule(scheduleId: string): Promise<ReportSchedule | null> {
+    try {
+      return await withRetry(() => this.getDocument(scheduleId));
+    } catch (error) {
+      throw ReportScheduleServiceError.wrap(error, 'fetch-schedule-failed', 'Failed to fetch report schedule', {
+        scheduleId,
+      });
+    }
+  }
+
+  /**
+   * Get the schedules a user created
+   * @param createdBy - Creator's user ID
+   * @returns Promise resolving to schedules, soonest next run first
+   */
+  public async getSchedulesCreatedBy(createdBy: string): Promise<ReportSchedule[]> {
+    try {
+      const result = await withRetry(() =>
+        this.queryDocuments([where('createdBy', '==', createdBy), orderBy('nextRunAt', 'asc')], 100)
+      );
+      return result.items;
+    } catch (error) {
+      throw ReportScheduleServiceError.wrap(error, 'fetch-schedules-failed', 'Failed to fetch report schedules', {
+        createdBy,
+      });
+    }
+  }
+
+  /**
+   * Pause a schedule so it stops running until resumed
+   * @param scheduleId - Schedule ID
+   * @param updatedBy - User ID of the creator or a user who can manage all schedules
+   * @returns Promise resolving to the paused schedule
+   */
+  public async pauseSchedule(scheduleId: string, updatedBy: string): Promise<ReportSchedule> {
+    try {
+      const schedule = await this.requireManageableSchedule(scheduleId, updatedBy);
+      if (!schedule.active) {
+        return schedule;
+      }
+
+      const paused = await withRetry(() =>
+        this.updateDocument(scheduleId, { active: false, pausedAt: this.clock.now(), updatedBy })
+      );
+      this.clearCache();
+
+      telemetryService.trackUsage('report_schedule_paused', 'ReportScheduleService', { scheduleId });
+      return paused;
+    } catch (error) {
+      throw ReportScheduleServiceError.wrap(error, 'pause-schedule-failed', 'Failed to pause report schedule', {
+        scheduleId,
+      });
+    }
+  }
+
+  /**
+   * Resume a paused schedule
+   * Runs missed while paused are skipped; the schedule next runs at its
+   * first run time after now.
+   * @param scheduleId - Schedule ID
+   * @param updatedBy - User ID of the creator or a user who can manage all schedules
+   * @returns Promise resolving to the resumed schedule
+   */
+  public async resumeSchedule(scheduleId: string, updatedBy: string): Promise<ReportSchedule> {
+    try {
+      const schedule = await this.requireManageableSchedule(scheduleId, updatedBy);
+      if (schedule.active) {
+        return schedule;
+      }
+
+      const resumed = await withRetry(() =>
+        this.updateDocument(scheduleId, {
+          active: true,
+          pausedAt: null as any,
+          nextRunAt: ReportScheduleService.computeNextRun(schedule, this.clock.now()),
+          updatedBy,
+        })
+      );
+      this.clearCache();
+
+      telemetryService.trackUsage('report_schedule_resumed', 'ReportScheduleService', { scheduleId });
+      return resumed;
+    } catch (error) {
+      throw ReportScheduleServiceError.wrap(error, 'resume-schedule-failed', 'Failed to resume report schedule', {
+        scheduleId,
+      });
+    }
+  }
+
+  /**
+   * Delete a schedule
+   * The schedule's run history is kept.
+   * @param scheduleId - Schedule ID
+   * @param deletedBy - User ID of the creator or a user who can manage all schedules
+   */
+  public async deleteSchedule(scheduleId: string, deletedBy: string): Promise<void> {
+    try {
+      await this.requireManageableSchedule(scheduleId, deletedBy);
+      await withRetry(() => this.deleteDocument(scheduleId));
+      this.clearCache();
+
+      telemetryService.trackUsage('report_schedule_deleted', 'ReportScheduleService', { scheduleId, deletedBy });
+    } catch (error) {
+      throw ReportScheduleServiceError.wrap(error, 'delete-schedule-failed', 'Failed to delete report schedule', {
+        scheduleId,
+      });
+    }
+  }
+
+  /**
+   * Get the run history of a schedule
+   * @param scheduleId - Schedule ID
+   * @param maxRuns - Maximum number of runs to return (defaults to 20)
+   * @returns Promise resolving to runs, most recent first
+   */
+  public async getRunHistory(scheduleId: string, maxRuns: number = 20): Promise<ReportRun[]> {
+    try {
+      return await withRetry(() => this.runs.findForSchedule(scheduleId, maxRuns));
+    } catch (error) {
+      throw ReportScheduleServiceError.wrap(error, 'fetch-run-history-failed', 'Failed to fetch report run history', {
+        scheduleId,
+      });
+    }
+  }
+
+  /**
+   * Run every active schedule that has fallen due by the clock's current time
+   * A failing handler does not stop other schedules; its error is recorded on
+   * the schedule and in its run history, and the schedule still moves on to
+   * its next run. A schedule that missed several runs (e.g. while the
+   * scheduler was stopped) runs once.
+   * @returns Promise resolving to the outcome of each schedule run
+   */
+  public async runDueSchedules(): Promise<ScheduleRunResult[]> {
+    const now = this.clock.now();
+
+    try {
+      const due = await withRetry(() =>
+        this.queryDocuments(
+          [
+            where('active', '==', true),
+            where('nextRunAt', '<=', Timestamp.fromDate(now)),
+            orderBy('nextRunAt', 'asc'),
+          ],
+          100
+        )
+      );
+
+      const results: ScheduleRunResult[] = [];
+      for (const schedule of due.items) {
+        results.push(await this.runSchedule(schedule, now));
+      }
+
+      return results;
+    } catch (error) {
+      throw ReportScheduleServiceError.wrap(error, 'run-schedules-failed', 'Failed to run scheduled reports');
+    }
+  }
+
+  /**
+   * Start running due schedules periodically
+   * @param intervalMs - Polling interval in milliseconds (defaults to 5 minutes)
+   */
+  public start(intervalMs: number = 5 * 60 * 1000): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.runDueSchedules().catch(error => {
+        telemetryService.trackException(error as Error, { method: 'runDueSchedules' });
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop running schedules periodically
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Calculate when a schedule next runs
+   * Run times are wall-clock times in the schedule's time zone. Monthly
+   * schedules for a day the month does not have run on its last day.
+   * @param cadence - Schedule cadence
+   * @param after - Time after which the run must fall
+   * @returns Next run time
+   */
+  public static computeNextRun(cadence: ScheduleCadence, after: Date): Date {
+    const [hour, minute] = cadence.timeOfDay.split(':').map(Number);
+    const local = toZonedDateTime(after, cadence.timeZone);
+
+    // Instant of the run time on a local calendar day (the day may overflow the month)
+    const runOn = (year: number, month: number, day: number): Date => {
+      const normalised = new Date(Date.UTC(year, month - 1, day));
+      return fromZonedDateTime(
+        {
+          year: normalised.getUTCFullYear(),
+          month: normalised.getUTCMonth() + 1,
+          day: normalised.getUTCDate(),
+          hour,
+          minute,
+          second: 0,
+        },
+        cadence.timeZone
+      );
+    };
+
+    if (cadence.frequency === 'monthly') {
+      const dayOfMonth = cadence.dayOfMonth ?? 1;
+      // Day 0 of the following month is the last day of this one
+      const runInMonth = (year: number, month: number): Date =>
+        runOn(year, month, Math.min(dayOfMonth, new Date(Date.UTC(year, month, 0)).getUTCDate()));
+
+      const thisMonth = runInMonth(local.year, local.month);
+      return thisMonth > after
+        ? thisMonth
+        : runInMonth(local.month === 12 ? local.year + 1 : local.year, (local.month % 12) + 1);
+    }
+
+    if (cadence.frequency === 'weekly') {
+      const weekday = new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+      const daysAhead = ((cadence.dayOfWeek ?? 1) - weekday + 7) % 7;
+      const thisWeek = runOn(local.year, local.month, local.day + daysAhead);
+      return thisWeek > after ? thisWeek : runOn(local.year, local.month, local.day + daysAhead + 7);
+    }
+
+    const today = runOn(local.year, local.month, local.day);
+    return today > after ? today : runOn(local.year, local.month, local.day + 1);
+  }
+
+  /**
+   * Claim and run one schedule, then record the outcome
+   * The schedule is moved on to its next run before the handler is called so
+   * that a second scheduler polling at the same time does not run it again.
+   * @param schedule - Due schedule
+   * @param now - Time of the run
+   * @returns Promise resolving to the outcome
+   */
+  private async runSchedule(schedule: ReportSchedule, now: Date): Promise<ScheduleRunResult> {
+    const nextRunAt = ReportScheduleService.computeNextRun(schedule, now);
+    await withRetry(() => this.updateDocument(schedule.id!, { nextRunAt, lastRunAt: now, updatedBy: 'system' }));
+
+    let lastError: string | undefined;
+
+    try {
+      const handler = this.handlers.get(schedule.reportType);
+      if (!handler) {
+        throw new ReportScheduleServiceError(
+          `No report handler registered for ${schedule.reportType}`,
+          'handler-not-registered',
+          { reportType: schedule.reportType }
+        );
+      }
+
+      await handler(schedule, now);
+    } catch (error) {
+      lastError = (error as Error)?.message || String(error);
+      telemetryService.trackError(
+        'ScheduledReportFailed',
+        lastError,
+        (error as Error)?.stack,
+        (error as any)?.code,
+        { scheduleId: schedule.id, reportType: schedule.reportType }
+      );
+    }
+
+    // Firestore rejects undefined, so a cleared error is stored as null
+    await withRetry(() =>
+      this.updateDocument(schedule.id!, { lastError: (lastError ?? null) as any, updatedBy: 'system' })
+    );
+    this.clearCache();
+
+    try {
+      await withRetry(() =>
+        this.runs.create({
+          scheduleId: schedule.id!,
+          reportType: schedule.reportType,
+          scheduleCreatedBy: schedule.createdBy,
+          scheduledFor: schedule.nextRunAt,
+          startedAt: now,
+          finishedAt: this.clock.now(),
+          success: !lastError,
+          error: lastError,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          createdBy: 'system',
+          updatedBy: 'system',
+        })
+      );
+    } catch (error) {
+      // A lost history entry should not stop other schedules running
+      telemetryService.trackException(error as Error, { method: 'runSchedule', scheduleId: schedule.id });
+    }
+
+    telemetryService.trackUsage('scheduled_report_run', 'ReportScheduleService', {
+      scheduleId: schedule.id,
+      reportType: schedule.reportType,
+      success: !lastError,
+    });
+
+    return {
+      scheduleId: schedule.id!,
+      reportType: schedule.reportType,
+      success: !lastError,
+      error: lastError,
+      nextRunAt,
+    };
+  }
+
+  /**
+   * Get a schedule the user may pause, resume or delete
+   * @param scheduleId - Schedule ID
+   * @param userId - User ID of the creator or a user who can manage all schedules
+   * @returns Promise resolving to the schedule
+   * @throws ReportScheduleServiceError if the schedule does not exist or the user lacks permission
+   */
+  private async requireManageableSchedule(scheduleId: string, userId: string): Promise<ReportSchedule> {
+    const schedule = await withRetry(() => this.getDocument(scheduleId));
+    if (!schedule) {
+      throw new ReportScheduleServiceError('Report schedule not found', 'schedule-not-found', { scheduleId });
+    }
+
+    if (schedule.createdBy !== userId && !(await userService.hasPermission(userId, 'manage-report-schedules'))) {
+      throw new ReportScheduleServiceError(
+        'Insufficient permissions to manage this report schedule',
+        'insufficient-permissions',
+        { scheduleId }
+      );
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Map Firestore data to ReportSchedule object
+   * @param id - Document ID
+   * @param data - Firestore document data
+   * @returns ReportSchedule object
+   */
+  protected mapFirestoreToModel(id: string, data: any): ReportSchedule {
+    return {
+      id,
+      reportType: data.reportType || '',
+      frequency: data.frequency || 'daily',
+      timeZone: data.timeZone || 'UTC',
+      timeOfDay: data.timeOfDay || DEFAULT_REPORT_TIME,
+      dayOfWeek: typeof data.dayOfWeek === 'number' ? data.dayOfWeek : undefined,
+      dayOfMonth: typeof data.dayOfMonth === 'number' ? data.dayOfMonth : undefined,
+      recipients: data.recipients || [],
+      filters: data.filters || {},
+      nextRunAt: this.timestampToDate(data.nextRunAt) || data.nextRunAt,
+      lastRunAt: this.timestampToDate(data.lastRunAt) || undefined,
+      lastError: data.lastError || undefined,
+      active: data.active !== false,
+      pausedAt: this.timestampToDate(data.pausedAt) || undefined,
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      createdBy: data.createdBy || '',
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  /**
+   * Map ReportSchedule object to Firestore data
+   * Only defined fields are written so partial updates are supported
+   * @param model - ReportSchedule object (or partial)
+   * @returns Firestore document data
+   */
+  protected mapModelToFirestore(model: ReportSchedule): any {
+    const { id, createdAt, updatedAt, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value instanceof Date) {
+        data[key] = this.dateToTimestamp(value);
+      } else if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    return data;
+  }
+}
+
+/**
+ * Custom error class for report schedule service-related errors
+ */
+export class ReportScheduleServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new ReportScheduleServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'ReportScheduleServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in a ReportScheduleServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns ReportScheduleServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): ReportScheduleServiceError {
+    if (error instanceof ReportScheduleServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new ReportScheduleServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    if ((error as Error)?.message?.startsWith('Validation failed')) {
+      return new ReportScheduleServiceError((error as Error).message, 'validation-error', context);
+    }
+
+    return new ReportScheduleServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const reportScheduleService = ReportScheduleService.getInstance();
@@ -0,0 +1,137 @@
+/**
+ * Report Workbook Renderer for MCC Discipline Tracker
+ *
+ * This module lays out school reports as XLSX workbooks using the
+ * XlsxWorkbook writer, with one sheet per report section: overview, trends,
+ * top students and teacher performance. Counts, scores and rates are
+ * written as numbers and trend periods as dates so admins can sort, filter
+ * and chart them in Excel.
+ *
+ * @fileoverview XLSX layout for school reports
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import { XlsxWorkbook, XlsxCellValue } from './base/xlsxWorkbook';
+import type { SchoolReport, TrendDataPoint } from './reportingService';
+
+/**
+ * Sheet names used in school report workbooks
+ */
+export const SCHOOL_REPORT_SHEETS = {
+  overview: 'Overview',
+  trends: 'Trends',
+  topStudents: 'Top Students',
+  teacherPerformance: 'Teacher Performance',
+};
+
+/**
+ * Format an enum value for display (e.g. dress_code -> Dress code)
+ * @param value - Enum value
+ * @returns Human-readable label
+ */
+const formatLabel = (value: string): string => {
+  const words = value.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Convert a trend period key (YYYY-MM-DD, or YYYY-MM for months) to a local date
+ * @param key - Trend period key
+ * @returns Start of the period
+ */
+const trendDate = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day || 1);
+};
+
+/**
+ * Render a school report as an XLSX workbook
+ * @param report - School report
+ * @returns XLSX file contents
+ */
+export const renderSchoolReportWorkbook = (report: SchoolReport): Uint8Array => {
+  const workbook = new XlsxWorkbook();
+  const { overview, trends } = report;
+
+  const overviewRows: XlsxCellValue[][] = [
+    ['Period', 'From', report.reportPeriod.from],
+    ['Period', 'To', report.reportPeriod.to],
+    ['Incidents', 'Total', overview.totalIncidents],
+    ['Incidents', 'Open', overview.openIncidents],
+    ['Incidents', 'Resolved', overview.resolvedIncidents],
+    ['Incidents', 'Follow-up required', overview.followUpRequired],
+    ['Incidents', 'Parent notification pending', overview.parentNotificationPending],
+    ...Object.entries(overview.incidentsBySeverity).map(([severity, count]) => [
+      'Severity',
+      formatLabel(severity),
+      count,
+    ]),
+    ...Object.entries(overview.incidentsByType).map(([type, count]) => ['Type', formatLabel(type), count]),
+    ...Object.entries(overview.participantsByRole).map(([role, count]) => ['Students by role', formatLabel(role), count]),
+  ];
+  workbook.addSheet(
+    SCHOOL_REPORT_SHEETS.overview,
+    [{ header: 'Section' }, { header: 'Measure' }, { header: 'Value', format: 'integer' }],
+    overviewRows
+  );
+
+  const trendRows = (period: string, points: TrendDataPoint[]): XlsxCellValue[][] =>
+    points.map(point => [period, trendDate(point.date), point.count]);
+  workbook.addSheet(
+    SCHOOL_REPORT_SHEETS.trends,
+    [{ header: 'Period' }, { header: 'Starting', format: 'date' }, { header: 'Incidents', format: 'integer' }],
+    [...trendRows('Day', trends.daily), ...trendRows('Week', trends.weekly), ...trendRows('Month', trends.monthly)]
+  );
+
+  workbook.addSheet(
+    SCHOOL_REPORT_SHEETS.topStudents,
+    [
+      { header: 'Student ID' },
+      { header: 'Student' },
+      { header: 'Incidents', format: 'integer' },
+      { header: 'Last incident', format: 'date' },
+      { header: 'Merits', format: 'integer' },
+      { header: 'Merit points', format: 'integer' },
+      { header: 'Heat score', format: 'decimal' },
+      { header: 'Risk level' },
+      { header: 'Trend' },
+    ],
+    report.topStudents.map(student => [
+      student.studentId,
+      student.studentName,
+      student.totalIncidents,
+      student.lastIncidentDate,
+      student.totalMerits,
+      student.totalMeritPoints,
+      student.heatScore,
+      formatLabel(student.riskLevel),
+      formatLabel(student.improvementTrend),
+    ])
+  );
+
+  // Rates are stored as fractions so Excel's percent format shows them correctly
+  workbook.addSheet(
+    SCHOOL_REPORT_SHEETS.teacherPerformance,
+    [
+      { header: 'Teacher ID' },
+      { header: 'Teacher' },
+      { header: 'Incidents', format: 'integer' },
+      { header: 'Reported', format: 'integer' },
+      { header: 'Avg. days to resolve', format: 'decimal' },
+      { header: 'Follow-up compliance', format: 'percent' },
+      { header: 'Parents notified', format: 'percent' },
+    ],
+    report.teacherPerformance.map(teacher => [
+      teacher.teacherId,
+      teacher.teacherName,
+      teacher.totalIncidents,
+      teacher.incidentsReported,
+      teacher.averageResolutionTime,
+      teacher.followUpCompliance / 100,
+      teacher.parentNotificationRate / 100,
+    ])
+  );
+
+  return workbook.toBytes();
+};
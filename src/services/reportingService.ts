@@ -26,8 +26,13 @@ import {
   IncidentSeverity,
   IncidentStatus,
   IncidentStatistics,
+  ParticipantRole,
+  getIncidentParticipant,
+  isOffenderRole,
 } from './disciplineService';
 import { userService } from './userService';
+import { meritService, MeritCategory, MeritService } from './meritService';
+import { behaviorScoreService, HeatScoreConfig } from './behaviorScoreService';
 
 /**
  * Interface for report filters
@@ -59,10 +64,18 @@ export interface TrendDataPoint {
 export interface StudentBehaviorReport {
   studentId: string;
   studentName: string;
+  /** Incidents the student instigated or took part in; the counts, score and risk below use only these */
   totalIncidents: number;
+  /** Every incident the student was involved in, by their part in it */
+  incidentsByRole: Record<ParticipantRole, number>;
   incidentsByType: Record<IncidentType, number>;
   incidentsBySeverity: Record<IncidentSeverity, number>;
   lastIncidentDate?: Date;
+  totalMerits: number;
+  totalMeritPoints: number;
+  meritsByCategory: Record<MeritCategory, number>;
+  lastMeritDate?: Date;
+  heatScore: number;
   improvementTrend: 'improving' | 'stable' | 'declining';
   riskLevel: 'low' | 'medium' | 'high';
 }
@@ -191,11 +204,14 @@ export class ReportingService {
     dateTo: Date
   ): Promise<StudentBehaviorReport> {
     try {
-      const incidents = await this.getStudentIncidents(studentId, schoolId, dateFrom, dateTo);
+      const involvedIn = await this.getStudentIncidents(studentId, schoolId, dateFrom, dateTo);
+      const merits = await meritService.getAllMerits({ studentId, schoolId, dateFrom, dateTo });
+      const meritStatistics = MeritService.summarizeMerits(merits);
       
       // Calculate statistics
       const incidentsByType: Record<IncidentType, number> = {} as Record<IncidentType, number>;
       const incidentsBySeverity: Record<IncidentSeverity, number> = {} as Record<IncidentSeverity, number>;
+      const incidentsByRole: Record<ParticipantRole, number> = {} as Record<ParticipantRole, number>;
       
       // Initialize counters
       Object.values(IncidentType).forEach(type => {
@@ -204,6 +220,20 @@ export class ReportingService {
       Object.values(IncidentSeverity).forEach(severity => {
         incidentsBySeverity[severity] = 0;
       });
+      Object.values(ParticipantRole).forEach(role => {
+        incidentsByRole[role] = 0;
+      });
+
+      // Victims and witnesses are not scored as offenders
+      const participation = involvedIn
+        .map(incident => ({ incident, participant: getIncidentParticipant(incident, studentId) }))
+        .filter(entry => entry.participant !== undefined);
+      participation.forEach(({ participant }) => {
+        incidentsByRole[participant!.role]++;
+      });
+      const incidents = participation
+        .filter(({ participant }) => isOffenderRole(participant!.role))
+        .map(({ incident }) => incident);
 
       let lastIncidentDate: Date | undefined;
       
@@ -219,16 +249,26 @@ export class ReportingService {
       // Calculate improvement trend
       const improvementTrend = this.calculateImprovementTrend(incidents);
       
+      // Calculate heat score as of the end of the report period
+      const scoringConfig = await behaviorScoreService.getScoringConfig(schoolId);
+      const heatScore = behaviorScoreService.calculateScore(incidents, scoringConfig, dateTo);
+      
       // Calculate risk level
-      const riskLevel = this.calculateRiskLevel(incidents, incidentsBySeverity);
+      const riskLevel = this.calculateRiskLevel(incidents, incidentsBySeverity, heatScore, scoringConfig);
 
       const report: StudentBehaviorReport = {
         studentId,
-        studentName: incidents[0]?.studentName || 'Unknown Student',
+        studentName: participation[0]?.participant?.studentName || merits[0]?.studentName || 'Unknown Student',
         totalIncidents: incidents.length,
+        incidentsByRole,
         incidentsByType,
         incidentsBySeverity,
         lastIncidentDate,
+        totalMerits: meritStatistics.totalMerits,
+        totalMeritPoints: meritStatistics.totalPoints,
+        meritsByCategory: meritStatistics.meritsByCategory,
+        lastMeritDate: meritStatistics.lastMeritDate,
+        heatScore,
         improvementTrend,
         riskLevel,
       };
@@ -292,14 +332,18 @@ export class ReportingService {
     try {
       const incidents = await this.getAllIncidents(schoolId, dateFrom, dateTo);
       
-      // Group incidents by student
+      // Group incidents by each student who instigated or took part in them
       const studentIncidents: Record<string, DisciplineIncident[]> = {};
       
       incidents.forEach(incident => {
-        if (!studentIncidents[incident.studentId]) {
-          studentIncidents[incident.studentId] = [];
-        }
-        studentIncidents[incident.studentId].push(incident);
+        incident.participants
+          .filter(participant => isOffenderRole(participant.role))
+          .forEach(({ studentId }) => {
+            if (!studentIncidents[studentId]) {
+              studentIncidents[studentId] = [];
+            }
+            studentIncidents[studentId].push(incident);
+          });
       });
 
       // Generate reports for each student
@@ -421,7 +465,7 @@ export class ReportingService {
   }
 
   /**
-   * Get incidents for a specific student
+   * Get incidents a specific student was involved in, in any role
    * @param studentId - Student identifier
    * @param schoolId - School identifier
    * @param dateFrom - Start date
@@ -503,14 +547,24 @@ export class ReportingService {
 
   /**
    * Calculate risk level for a student
+   * Uses the heat score thresholds when a score is provided, otherwise
+   * falls back to the raw incident count heuristic
    * @param incidents - Student's incidents
    * @param incidentsBySeverity - Incidents grouped by severity
+   * @param heatScore - Student's heat score (optional)
+   * @param scoringConfig - School's heat score configuration (required with heatScore)
    * @returns Risk level
    */
   private calculateRiskLevel(
     incidents: DisciplineIncident[],
-    incidentsBySeverity: Record<IncidentSeverity, number>
+    incidentsBySeverity: Record<IncidentSeverity, number>,
+    heatScore?: number,
+    scoringConfig?: HeatScoreConfig
   ): 'low' | 'medium' | 'high' {
+    if (heatScore !== undefined && scoringConfig) {
+      return behaviorScoreService.getRiskLevel(heatScore, scoringConfig);
+    }
+    
     const totalIncidents = incidents.length;
     const highSeverityIncidents = incidentsBySeverity[IncidentSeverity.HIGH] + incidentsBySeverity[IncidentSeverity.CRITICAL];
     
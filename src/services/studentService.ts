@@ -0,0 +1,648 @@
+/**
+ * Student Service for MCC Discipline Tracker
+ *
+ * This service manages the school's student roster: each student's grade,
+ * class (homeroom), house, guardians, enrolment status and photo. Incidents
+ * are checked against the roster, so they can only be recorded for students
+ * who are currently enrolled, and a student's name is kept in step with the
+ * `studentName` copied onto their incidents when they are renamed.
+ *
+ * @fileoverview Student roster management service
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  limit,
+  startAfter,
+  writeBatch,
+  serverTimestamp,
+  DocumentSnapshot,
+  FirestoreError,
+  QueryConstraint,
+} from 'firebase/firestore';
+import { db, Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+import { incidentAuditService, IncidentAuditOperation, diffIncidentFields } from './incidentAuditService';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { validationService } from './base/validationService';
+import { serviceRegistry } from './base/serviceRegistry';
+import { cacheService } from './base/cacheService';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService, PaginatedResults } from './base/firestoreService';
+
+/**
+ * Incidents renamed per batch when a student's name changes; each rename
+ * also writes an audit log entry
+ */
+const RENAME_BATCH_SIZE = 200;
+
+/**
+ * Shortest name prefix that search matches
+ */
+const MIN_SEARCH_PREFIX = 2;
+
+/**
+ * Enum for enrolment status
+ */
+export enum EnrolmentStatus {
+  ENROLLED = 'enrolled',
+  /** Still enrolled, but temporarily excluded from school */
+  SUSPENDED = 'suspended',
+  WITHDRAWN = 'withdrawn',
+  TRANSFERRED = 'transferred',
+  GRADUATED = 'graduated',
+}
+
+/**
+ * Enrolment statuses of students who are still on the school's roll
+ */
+export const ACTIVE_ENROLMENT_STATUSES: EnrolmentStatus[] = [EnrolmentStatus.ENROLLED, EnrolmentStatus.SUSPENDED];
+
+/**
+ * Interface for a student's parent or guardian
+ */
+export interface StudentGuardian {
+  /** User ID of the guardian, if they use the app */
+  userId?: string;
+  name: string;
+  /** Relationship to the student (e.g. mother, grandparent) */
+  relationship: string;
+  email?: string;
+  /** International format, e.g. +27821234567 */
+  phoneNumber?: string;
+  /** Whether the school contacts this guardian first */
+  primaryContact: boolean;
+}
+
+/**
+ * Interface for a student on the school roster
+ */
+export interface Student {
+  id?: string;
+  schoolId: string;
+  /** School admission number */
+  studentNumber?: string;
+  firstName: string;
+  lastName: string;
+  /** Name the student goes by, used instead of the first name when set */
+  preferredName?: string;
+  /** Grade, e.g. "R" or "10" */
+  grade: string;
+  /** Class or homeroom, e.g. "10A" */
+  homeroom: string;
+  house?: string;
+  guardians: StudentGuardian[];
+  enrolmentStatus: EnrolmentStatus;
+  /** When the enrolment status last changed */
+  enrolmentStatusChangedAt?: Date;
+  photoUrl?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+}
+
+/**
+ * Input data for adding a student to the roster
+ */
+export type StudentInput = Omit<
+  Student,
+  'id' | 'enrolmentStatus' | 'enrolmentStatusChangedAt' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'
+> & { enrolmentStatus?: EnrolmentStatus };
+
+/**
+ * Updatable student fields
+ */
+export type StudentUpdate = Partial<Omit<Student, 'id' | 'schoolId' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>>;
+
+/**
+ * Interface for student search filters
+ */
+export interface StudentSearchFilters {
+  schoolId: string;
+  grade?: string;
+  homeroom?: string;
+  house?: string;
+  enrolmentStatus?: EnrolmentStatus;
+  /** Start of a first, preferred or last name, or a student number */
+  name?: string;
+}
+
+/**
+ * Get the name a student is shown by, as copied onto incidents
+ * @param student - Student
+ * @returns Preferred (or first) name followed by the last name
+ */
+export const formatStudentName = (student: Pick<Student, 'firstName' | 'lastName' | 'preferredName'>): string =>
+  `${(student.preferredName || student.firstName).trim()} ${student.lastName.trim()}`.trim();
+
+/**
+ * Check whether a student is still on the school's roll
+ * @param student - Student
+ * @returns True for enrolled and suspended students
+ */
+export const isActivelyEnrolled = (student: Pick<Student, 'enrolmentStatus'>): boolean =>
+  ACTIVE_ENROLMENT_STATUSES.includes(student.enrolmentStatus);
+
+/**
+ * Build the terms a student can be found by: every prefix of each name and
+ * the student number, in lowercase
+ * @param student - Student
+ * @returns Search terms
+ */
+const buildSearchTerms = (student: Pick<Student, 'firstName' | 'lastName' | 'preferredName' | 'studentNumber'>): string[] => {
+  const terms = new Set<string>();
+  [student.firstName, student.lastName, student.preferredName]
+    .filter((name): name is string => Boolean(name))
+    .flatMap(name => name.toLowerCase().split(/[\s'-]+/))
+    .forEach(word => {
+      for (let length = MIN_SEARCH_PREFIX; length <= word.length; length++) {
+        terms.add(word.slice(0, length));
+      }
+    });
+  if (student.studentNumber) {
+    terms.add(student.studentNumber.toLowerCase());
+  }
+  return Array.from(terms);
+};
+
+/**
+ * Student service class providing roster management, search and enrolment checks
+ */
+export class StudentService extends FirestoreService<Student> {
+  private static instance: StudentService;
+  protected collectionName = Collections.STUDENTS;
+
+  /**
+   * Singleton pattern implementation
+   * @returns StudentService instance
+   */
+  public static getInstance(): StudentService {
+    if (!StudentService.instance) {
+      StudentService.instance = new StudentService();
+      // Register with service registry
+      serviceRegistry.registerInstance('studentService', StudentService.instance);
+    }
+    return StudentService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'StudentService');
+  }
+
+  /**
+   * Add a student to the roster
+   * @param studentData - Student data
+   * @param createdBy - User ID of the creator
+   * @returns Promise resolving to created student with ID
+   * @throws StudentServiceError for creation failures
+   */
+  public async createStudent(studentData: StudentInput, createdBy: string): Promise<Student> {
+    try {
+      await this.assertPermission(createdBy, 'manage-students');
+
+      const student: Omit<Student, 'id'> = {
+        ...studentData,
+        guardians: studentData.guardians || [],
+        enrolmentStatus: studentData.enrolmentStatus || EnrolmentStatus.ENROLLED,
+        enrolmentStatusChangedAt: new Date(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        createdBy,
+        updatedBy: createdBy,
+      };
+      validationService.validateOrThrow('student', student);
+
+      const created = await withRetry(() => this.createDocument(student));
+      this.clearCache();
+
+      telemetryService.trackUsage('student_created', 'StudentService', {
+        studentId: created.id,
+        schoolId: student.schoolId,
+      });
+
+      return created;
+    } catch (error) {
+      throw StudentServiceError.wrap(error, 'create-student-failed', 'Failed to create student', {
+        schoolId: studentData.schoolId,
+      });
+    }
+  }
+
+  /**
+   * Get a student by ID
+   * @param studentId - Student ID
+   * @returns Promise resolving to the student or null if not found
+   * @throws StudentServiceError for fetch failures
+   */
+  public async getStudent(studentId: string): Promise<Student | null> {
+    try {
+      return await withRetry(() => this.getDocument(studentId));
+    } catch (error) {
+      throw StudentServiceError.wrap(error, 'get-student-failed', 'Failed to get student', { studentId });
+    }
+  }
+
+  /**
+   * Get a student who can have incidents recorded against them
+   * @param studentId - Student ID
+   * @param schoolId - School the incident is recorded in
+   * @returns Promise resolving to the student
+   * @throws StudentServiceError if the student is not on the school's roster or is no longer enrolled
+   */
+  public async requireEnrolledStudent(studentId: string, schoolId: string): Promise<Student> {
+    const student = await this.getStudent(studentId);
+    if (!student || student.schoolId !== schoolId) {
+      throw new StudentServiceError('Student not found in this school', 'student-not-found', { studentId, schoolId });
+    }
+    if (!isActivelyEnrolled(student)) {
+      throw new StudentServiceError(
+        `Student is no longer enrolled (${student.enrolmentStatus})`,
+        'student-not-enrolled',
+        { studentId, enrolmentStatus: student.enrolmentStatus }
+      );
+    }
+    return student;
+  }
+
+  /**
+   * Update a student
+   * Changing the student's name also updates `studentName` on their incidents.
+   * @param studentId - Student ID
+   * @param updates - Fields to update
+   * @param updatedBy - User ID of the updater
+   * @returns Promise resolving to the updated student
+   * @throws StudentServiceError for update failures
+   */
+  public async updateStudent(studentId: string, updates: StudentUpdate, updatedBy: string): Promise<Student> {
+    try {
+      await this.assertPermission(updatedBy, 'manage-students');
+
+      const existing = await this.getStudent(studentId);
+      if (!existing) {
+        throw new StudentServiceError('Student not found', 'student-not-found', { studentId });
+      }
+
+      const changes: Partial<Student> = { ...updates, updatedBy };
+      if (updates.enrolmentStatus && updates.enrolmentStatus !== existing.enrolmentStatus) {
+        changes.enrolmentStatusChangedAt = new Date();
+      }
+      const merged = { ...existing, ...changes };
+      validationService.validateOrThrow('student', merged);
+
+      // Search terms are built from all of the names, so write them together
+      if (['firstName', 'lastName', 'preferredName', 'studentNumber'].some(field => field in updates)) {
+        Object.assign(changes, {
+          firstName: merged.firstName,
+          lastName: merged.lastName,
+          preferredName: merged.preferredName,
+          studentNumber: merged.studentNumber,
+        });
+      }
+
+      const updated = await withRetry(() => this.updateDocument(studentId, changes));
+      this.clearCache();
+
+      const previousName = formatStudentName(existing);
+      const newName = formatStudentName(merged);
+      if (newName !== previousName) {
+        const renamed = await this.renameIncidents(studentId, newName, updatedBy);
+        telemetryService.trackUsage('student_renamed', 'StudentService', { studentId, incidentsRenamed: renamed });
+      }
+
+      telemetryService.trackUsage('student_updated', 'StudentService', {
+        studentId,
+        updatedFields: Object.keys(updates).join(','),
+      });
+
+      return updated;
+    } catch (error) {
+      throw StudentServiceError.wrap(error, 'update-student-failed', 'Failed to update student', { studentId });
+    }
+  }
+
+  /**
+   * Change a student's enrolment status (e.g. when they withdraw or graduate)
+   * @param studentId - Student ID
+   * @param enrolmentStatus - New enrolment status
+   * @param updatedBy - User ID of the updater
+   * @returns Promise resolving to the updated student
+   * @throws StudentServiceError for update failures
+   */
+  public async setEnrolmentStatus(
+    studentId: string,
+    enrolmentStatus: EnrolmentStatus,
+    updatedBy: string
+  ): Promise<Student> {
+    return this.updateStudent(studentId, { enrolmentStatus }, updatedBy);
+  }
+
+  /**
+   * Search the roster
+   * Name searches match the start of any first, preferred or last name (at
+   * least two letters), or a whole student number. Results are not ordered.
+   * @param filters - Search filters
+   * @param pageSize - Number of results per page
+   * @param lastDoc - Last document of the previous page
+   * @returns Promise resolving to a page of students
+   * @throws StudentServiceError for search failures
+   */
+  public async searchStudents(
+    filters: StudentSearchFilters,
+    pageSize: number = 20,
+    lastDoc?: DocumentSnapshot
+  ): Promise<PaginatedResults<Student>> {
+    try {
+      const constraints: QueryConstraint[] = [where('schoolId', '==', filters.schoolId)];
+      if (filters.grade) {
+        constraints.push(where('grade', '==', filters.grade));
+      }
+      if (filters.homeroom) {
+        constraints.push(where('homeroom', '==', filters.homeroom));
+      }
+      if (filters.house) {
+        constraints.push(where('house', '==', filters.house));
+      }
+      if (filters.enrolmentStatus) {
+        constraints.push(where('enrolmentStatus', '==', filters.enrolmentStatus));
+      }
+
+      // Firestore matches one search term; any further words are checked here
+      const words = (filters.name || '').toLowerCase().split(/[\s'-]+/).filter(Boolean);
+      if (words.length > 0) {
+        if (words[0].length < MIN_SEARCH_PREFIX) {
+          throw new StudentServiceError(
+            `Name searches need at least ${MIN_SEARCH_PREFIX} letters`,
+            'search-term-too-short',
+            { name: filters.name }
+          );
+        }
+        constraints.push(where('searchTerms', 'array-contains', words[0]));
+      }
+
+      const results = await withRetry(() => this.queryDocuments(constraints, pageSize, lastDoc));
+      const otherWords = words.slice(1);
+      if (otherWords.length === 0) {
+        return results;
+      }
+
+      return {
+        ...results,
+        items: results.items.filter(student => {
+          const terms = buildSearchTerms(student);
+          return otherWords.every(word => terms.includes(word) || word.length < MIN_SEARCH_PREFIX);
+        }),
+      };
+    } catch (error) {
+      throw StudentServiceError.wrap(error, 'search-students-failed', 'Failed to search students', {
+        schoolId: filters.schoolId,
+      });
+    }
+  }
+
+  /**
+   * Get every student in a school, whatever their enrolment status
+   * @param schoolId - School identifier
+   * @returns Promise resolving to the school's students
+   * @throws StudentServiceError for fetch failures
+   */
+  public async getStudentsBySchool(schoolId: string): Promise<Student[]> {
+    try {
+      const students: Student[] = [];
+      let hasMore = true;
+      let lastDoc: DocumentSnapshot | undefined;
+
+      while (hasMore) {
+        const result = await withRetry(() => this.queryDocuments([where('schoolId', '==', schoolId)], 200, lastDoc));
+        students.push(...result.items);
+        hasMore = result.hasMore;
+        lastDoc = result.lastDoc;
+      }
+
+      return students;
+    } catch (error) {
+      throw StudentServiceError.wrap(error, 'get-school-students-failed', 'Failed to get school students', {
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Copy a student's new name onto all of their incidents
+   * Incidents recorded before participants only list the student as their main student.
+   * @param studentId - Student ID
+   * @param studentName - New name
+   * @param updatedBy - User ID of the person renaming the student
+   * @returns Promise resolving to the number of incidents updated
+   */
+  private async renameIncidents(studentId: string, studentName: string, updatedBy: string): Promise<number> {
+    let renamed = 0;
+
+    for (const match of [where('participantIds', 'array-contains', studentId), where('studentId', '==', studentId)]) {
+      let lastDoc: DocumentSnapshot | undefined;
+      do {
+        const constraints: QueryConstraint[] = [match, limit(RENAME_BATCH_SIZE)];
+        if (lastDoc) {
+          constraints.push(startAfter(lastDoc));
+        }
+        const snapshot = await withRetry(() => getDocs(query(collection(db, Collections.INCIDENTS), ...constraints)));
+
+        const batch = writeBatch(db);
+        const renamedIds: string[] = [];
+        snapshot.docs.forEach(incidentDoc => {
+          const data = incidentDoc.data();
+          const changes: Record<string, unknown> = {};
+          if (data.studentId === studentId && data.studentName !== studentName) {
+            changes.studentName = studentName;
+          }
+          if (Array.isArray(data.participants) && data.participants.some((participant: any) =>
+            participant.studentId === studentId && participant.studentName !== studentName
+          )) {
+            changes.participants = data.participants.map((participant: any) =>
+              participant.studentId === studentId ? { ...participant, studentName } : participant
+            );
+          }
+          // Already renamed, e.g. found by both queries
+          if (Object.keys(changes).length === 0) {
+            return;
+          }
+
+          batch.update(doc(db, Collections.INCIDENTS, incidentDoc.id), {
+            ...changes,
+            updatedAt: serverTimestamp(),
+            updatedBy,
+          });
+          incidentAuditService.recordInBatch(batch, {
+            incidentId: incidentDoc.id,
+            schoolId: data.schoolId,
+            operation: IncidentAuditOperation.UPDATE,
+            actorId: updatedBy,
+            changes: diffIncidentFields(data, changes),
+          });
+          renamedIds.push(incidentDoc.id);
+        });
+        if (renamedIds.length > 0) {
+          await withRetry(() => batch.commit());
+        }
+
+        // DisciplineService caches incidents by ID
+        renamedIds.forEach(incidentId => cacheService.delete(`incident:${incidentId}`));
+        renamed += renamedIds.length;
+        lastDoc = snapshot.docs.length === RENAME_BATCH_SIZE ? snapshot.docs[snapshot.docs.length - 1] : undefined;
+      } while (lastDoc);
+    }
+
+    return renamed;
+  }
+
+  /**
+   * Check that a user may perform an action
+   * @param userId - User ID
+   * @param action - Permission to check
+   * @throws StudentServiceError if the user lacks the permission
+   */
+  private async assertPermission(userId: string, action: string): Promise<void> {
+    const hasPermission = await userService.hasPermission(userId, action);
+    if (!hasPermission) {
+      throw new StudentServiceError(`Insufficient permissions to ${action.replace(/-/g, ' ')}`, 'insufficient-permissions');
+    }
+  }
+
+  /**
+   * Map Firestore data to Student object
+   * @param id - Document ID
+   * @param data - Firestore document data
+   * @returns Student object
+   */
+  protected mapFirestoreToModel(id: string, data: any): Student {
+    return {
+      id,
+      schoolId: data.schoolId || '',
+      studentNumber: data.studentNumber || undefined,
+      firstName: data.firstName || '',
+      lastName: data.lastName || '',
+      preferredName: data.preferredName || undefined,
+      grade: data.grade !== undefined && data.grade !== null ? String(data.grade) : '',
+      homeroom: data.homeroom || '',
+      house: data.house || undefined,
+      guardians: Array.isArray(data.guardians)
+        ? data.guardians.map((guardian: any) => ({
+            userId: guardian.userId || undefined,
+            name: guardian.name || '',
+            relationship: guardian.relationship || '',
+            email: guardian.email || undefined,
+            phoneNumber: guardian.phoneNumber || undefined,
+            primaryContact: Boolean(guardian.primaryContact),
+          }))
+        : [],
+      enrolmentStatus: data.enrolmentStatus || EnrolmentStatus.ENROLLED,
+      enrolmentStatusChangedAt: this.timestampToDate(data.enrolmentStatusChangedAt),
+      photoUrl: data.photoUrl || undefined,
+      createdAt: this.timestampToDate(data.createdAt) || data.createdAt || new Date(),
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+      createdBy: data.createdBy || '',
+      updatedBy: data.updatedBy || '',
+    };
+  }
+
+  /**
+   * Map Student object to Firestore data
+   * Search terms are rebuilt whenever a name or the student number is written.
+   * @param model - Student object (or partial update)
+   * @returns Firestore data
+   */
+  protected mapModelToFirestore(model: Student): any {
+    const { id, createdAt, updatedAt, enrolmentStatusChangedAt, guardians, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    if (guardians) {
+      data.guardians = guardians.map(guardian =>
+        Object.fromEntries(Object.entries(guardian).filter(([, value]) => value !== undefined))
+      );
+    }
+    if (enrolmentStatusChangedAt) {
+      data.enrolmentStatusChangedAt = this.dateToTimestamp(enrolmentStatusChangedAt);
+    }
+    if (model.firstName !== undefined && model.lastName !== undefined) {
+      data.searchTerms = buildSearchTerms(model);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Custom error class for student service errors
+ */
+export class StudentServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new StudentServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'StudentServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in a StudentServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns StudentServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): StudentServiceError {
+    if (error instanceof StudentServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new StudentServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    if ((error as Error)?.message?.startsWith('Validation failed')) {
+      return new StudentServiceError((error as Error).message, 'validation-error', context);
+    }
+
+    return new StudentServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const studentService = StudentService.getInstance();
@@ -0,0 +1,634 @@
+/**
+ * Student View Service for MCC Discipline Tracker
+ *
+ * This service backs the student-facing app. Students never read the
+ * `incidents` collection: whenever an incident is saved, DisciplineService
+ * asks this service to write a redacted copy to `studentIncidentViews` for
+ * each student involved. The
+ * copy leaves out internal notes, who last edited the incident and attachments,
+ * and replaces the names of other students in the description and action
+ * taken with "another student". Each school's policy decides which incident
+ * statuses students can see (by default only resolved and closed incidents),
+ * and firestore.rules applies the same policy to the copies.
+ *
+ * @fileoverview Redacted, student-facing incident views
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import { where, orderBy, DocumentSnapshot, FirestoreError } from 'firebase/firestore';
+import { Collections } from '../config/firebaseConfig';
+import { userService } from './userService';
+import { studentService, Student } from './studentService';
+import {
+  DisciplineIncident,
+  IncidentStatus,
+  IncidentType,
+  IncidentSeverity,
+  getIncidentParticipant,
+} from './disciplineService';
+
+// Import base services and utilities
+import { withRetry } from './base/retryUtils';
+import { serviceRegistry } from './base/serviceRegistry';
+import { cacheService, CacheStrategy } from './base/cacheService';
+import { telemetryService } from './base/telemetryService';
+import { FirestoreService } from './base/firestoreService';
+
+/**
+ * Text that replaces another student's name in a student's view of an incident
+ */
+export const REDACTED_STUDENT_NAME = 'another student';
+
+/**
+ * Interface for a school's policy on what students can see
+ */
+export interface StudentViewPolicy {
+  schoolId: string;
+  /** Incident statuses students can see their incidents in */
+  visibleStatuses: IncidentStatus[];
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+/**
+ * Interface for a student's redacted copy of an incident
+ * The document ID comes from getStudentIncidentViewId; copies written before
+ * incidents had several students are keyed by the incident ID alone.
+ */
+export interface StudentIncidentView {
+  id?: string;
+  incidentId: string;
+  schoolId: string;
+  studentId: string;
+  teacherName: string;
+  incidentType: IncidentType;
+  severity: IncidentSeverity;
+  /** Description with other students' names redacted */
+  description: string;
+  location: string;
+  dateTime: Date;
+  /** Action taken with other students' names redacted */
+  actionTaken: string;
+  followUpRequired: boolean;
+  followUpDate?: Date;
+  /** Whether this student's parent was notified */
+  parentNotified: boolean;
+  status: IncidentStatus;
+  /** When the incident was last changed */
+  updatedAt: Date;
+}
+
+/**
+ * Interface for paginated student incident views
+ */
+export interface PaginatedStudentIncidentViews {
+  incidents: StudentIncidentView[];
+  hasMore: boolean;
+  lastDoc?: DocumentSnapshot;
+}
+
+/**
+ * Get the document ID of a student's copy of an incident
+ * @param incidentId - Incident ID
+ * @param studentId - Student ID
+ * @returns View document ID
+ */
+export const getStudentIncidentViewId = (incidentId: string, studentId: string): string => `${incidentId}_${studentId}`;
+
+/**
+ * Get the statuses students can see when their school has no policy
+ * @returns Resolved and closed
+ */
+export const getDefaultVisibleStatuses = (): IncidentStatus[] => [IncidentStatus.RESOLVED, IncidentStatus.CLOSED];
+
+/**
+ * Get the ways a student's name might be written in an incident
+ * @param student - Student
+ * @returns Full name variants, longest first
+ */
+const getNameVariants = (student: Student): string[] => {
+  const firstNames = [student.firstName, student.preferredName].filter((name): name is string => Boolean(name?.trim()));
+  const variants = firstNames.flatMap(firstName => [
+    `${firstName} ${student.lastName}`,
+    `${student.lastName}, ${firstName}`,
+    `${firstName} ${student.lastName.charAt(0)}.`,
+  ]);
+
+  return Array.from(new Set(variants.map(variant => variant.trim()))).sort((a, b) => b.length - a.length);
+};
+
+/**
+ * Replace other students' names in text
+ * @param text - Text written by staff
+ * @param names - Names to redact
+ * @returns Text with each name replaced by REDACTED_STUDENT_NAME
+ */
+export const redactStudentNames = (text: string, names: string[]): string => {
+  if (!text || names.length === 0) {
+    return text;
+  }
+
+  // Longer names first, so "Sam Smith" is not left as "another student Smith"
+  const pattern = [...names]
+    .sort((a, b) => b.length - a.length)
+    .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'))
+    .join('|');
+
+  const wordChar = 'A-Za-z0-9\\u00C0-\\u024F';
+  return text.replace(
+    new RegExp(`(^|[^${wordChar}])(?:${pattern})(?![${wordChar}])`, 'gi'),
+    (match, before: string) => `${before}${REDACTED_STUDENT_NAME}`
+  );
+};
+
+/**
+ * Persistence for student incident views
+ */
+class StudentIncidentViewStore extends FirestoreService<StudentIncidentView> {
+  protected collectionName = Collections.STUDENT_INCIDENT_VIEWS;
+
+  public get(viewId: string): Promise<StudentIncidentView | null> {
+    return this.getDocument(viewId);
+  }
+
+  public async put(view: StudentIncidentView): Promise<void> {
+    const { id, ...data } = view;
+    await this.createDocument(data, id);
+    this.clearCache();
+  }
+
+  public async remove(viewId: string): Promise<void> {
+    await this.deleteDocument(viewId);
+    this.clearCache();
+  }
+
+  /**
+   * Get the IDs of every copy of an incident, including a copy keyed by the incident ID alone
+   */
+  public async findIds(incidentId: string): Promise<string[]> {
+    const [result, legacy] = await Promise.all([
+      this.queryDocuments([where('incidentId', '==', incidentId)], 100),
+      this.getDocument(incidentId),
+    ]);
+    return [...result.items, ...(legacy ? [legacy] : [])].map(view => view.id!);
+  }
+
+  public find(
+    studentId: string,
+    statuses: IncidentStatus[],
+    pageSize: number,
+    lastDoc?: DocumentSnapshot
+  ) {
+    return this.queryDocuments(
+      [where('studentId', '==', studentId), where('status', 'in', statuses), orderBy('dateTime', 'desc')],
+      pageSize,
+      lastDoc
+    );
+  }
+
+  protected mapFirestoreToModel(id: string, data: any): StudentIncidentView {
+    return {
+      id,
+      incidentId: data.incidentId || id,
+      schoolId: data.schoolId || '',
+      studentId: data.studentId || '',
+      teacherName: data.teacherName || '',
+      incidentType: data.incidentType || IncidentType.OTHER,
+      severity: data.severity || IncidentSeverity.LOW,
+      description: data.description || '',
+      location: data.location || '',
+      dateTime: this.timestampToDate(data.dateTime) || data.dateTime || new Date(),
+      actionTaken: data.actionTaken || '',
+      followUpRequired: Boolean(data.followUpRequired),
+      followUpDate: this.timestampToDate(data.followUpDate),
+      parentNotified: Boolean(data.parentNotified),
+      status: data.status || IncidentStatus.OPEN,
+      updatedAt: this.timestampToDate(data.updatedAt) || data.updatedAt || new Date(),
+    };
+  }
+
+  protected mapModelToFirestore(model: StudentIncidentView): any {
+    const { id, updatedAt, dateTime, followUpDate, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    if (dateTime) {
+      data.dateTime = this.dateToTimestamp(dateTime);
+    }
+    if (followUpDate) {
+      data.followUpDate = this.dateToTimestamp(followUpDate);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Student view service class providing student accounts, visibility policies and redacted incidents
+ */
+export class StudentViewService extends FirestoreService<StudentViewPolicy> {
+  private static instance: StudentViewService;
+  protected collectionName = Collections.STUDENT_VIEW_POLICIES;
+  private readonly views = new StudentIncidentViewStore();
+
+  /**
+   * Singleton pattern implementation
+   * @returns StudentViewService instance
+   */
+  public static getInstance(): StudentViewService {
+    if (!StudentViewService.instance) {
+      StudentViewService.instance = new StudentViewService();
+      // Register with service registry
+      serviceRegistry.registerInstance('studentViewService', StudentViewService.instance);
+    }
+    return StudentViewService.instance;
+  }
+
+  private constructor() {
+    super();
+    telemetryService.trackUsage('service_initialized', 'StudentViewService');
+  }
+
+  /**
+   * Get a school's student visibility policy
+   * Falls back to the default policy when the school has none
+   * @param schoolId - School ID
+   * @returns Promise resolving to the school's policy
+   * @throws StudentViewServiceError for fetch failures
+   */
+  public async getPolicy(schoolId: string): Promise<StudentViewPolicy> {
+    try {
+      const policy = await withRetry(() => this.getDocument(schoolId));
+      return policy || { schoolId, visibleStatuses: getDefaultVisibleStatuses() };
+    } catch (error) {
+      throw StudentViewServiceError.wrap(error, 'fetch-policy-failed', 'Failed to fetch student view policy', {
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Choose which incident statuses a school's students can see
+   * @param schoolId - School ID
+   * @param visibleStatuses - Statuses students can see their incidents in
+   * @param updatedBy - User ID of the updater
+   * @returns Promise resolving to the updated policy
+   * @throws StudentViewServiceError for invalid statuses or update failures
+   */
+  public async updatePolicy(
+    schoolId: string,
+    visibleStatuses: IncidentStatus[],
+    updatedBy: string
+  ): Promise<StudentViewPolicy> {
+    try {
+      await this.assertPermission(updatedBy, 'manage-school');
+
+      const knownStatuses = Object.values(IncidentStatus) as string[];
+      const unknown = visibleStatuses.filter(status => !knownStatuses.includes(status));
+      if (unknown.length > 0) {
+        throw new StudentViewServiceError(`Unknown incident status: ${unknown.join(', ')}`, 'invalid-policy', {
+          schoolId,
+        });
+      }
+
+      // Policies are keyed by school ID
+      const policy: StudentViewPolicy = {
+        schoolId,
+        visibleStatuses: Array.from(new Set(visibleStatuses)),
+        updatedAt: new Date(),
+        updatedBy,
+      };
+      const saved = await withRetry(() => this.createDocument(policy, schoolId));
+      this.clearCacheForKey(`doc:${schoolId}`);
+
+      telemetryService.trackUsage('student_view_policy_updated', 'StudentViewService', {
+        schoolId,
+        visibleStatuses: policy.visibleStatuses.join(','),
+      });
+
+      return saved;
+    } catch (error) {
+      throw StudentViewServiceError.wrap(error, 'update-policy-failed', 'Failed to update student view policy', {
+        schoolId,
+      });
+    }
+  }
+
+  /**
+   * Make a user account the student account of a student
+   * @param userId - User ID of the account
+   * @param studentId - Student ID
+   * @param linkedBy - User ID of the staff member linking the account
+   * @returns Promise that resolves when the account is linked
+   * @throws StudentViewServiceError for permission or update failures
+   */
+  public async linkStudentAccount(userId: string, studentId: string, linkedBy: string): Promise<void> {
+    try {
+      await this.assertPermission(linkedBy, 'manage-students');
+
+      const student = await studentService.getStudent(studentId);
+      if (!student) {
+        throw new StudentViewServiceError('Student not found', 'student-not-found', { studentId });
+      }
+
+      const user = await userService.getUserProfile(userId);
+      if (!user) {
+        throw new StudentViewServiceError('User not found', 'user-not-found', { userId });
+      }
+      if (user.role && user.role !== 'student') {
+        throw new StudentViewServiceError('Only student accounts can be linked to a student', 'not-a-student', {
+          userId,
+        });
+      }
+
+      await userService.updateUserProfile(userId, { role: 'student', studentId, schoolId: student.schoolId });
+
+      telemetryService.trackUsage('student_account_linked', 'StudentViewService', { studentId });
+    } catch (error) {
+      throw StudentViewServiceError.wrap(error, 'link-student-account-failed', 'Failed to link student account', {
+        studentId,
+      });
+    }
+  }
+
+  /**
+   * Build a student's redacted copy of an incident
+   * @param incident - Incident
+   * @param otherStudents - Other students whose names should be redacted
+   * @param studentId - Student the copy is for (defaults to the main student)
+   * @returns Student incident view
+   */
+  public projectIncident(
+    incident: DisciplineIncident,
+    otherStudents: Student[],
+    studentId: string = incident.studentId
+  ): StudentIncidentView {
+    const names = otherStudents
+      .filter(student => student.id !== studentId)
+      .flatMap(student => getNameVariants(student));
+    const participant = getIncidentParticipant(incident, studentId);
+
+    return {
+      id: incident.id ? getStudentIncidentViewId(incident.id, studentId) : undefined,
+      incidentId: incident.id || '',
+      schoolId: incident.schoolId,
+      studentId,
+      teacherName: incident.teacherName,
+      incidentType: incident.incidentType,
+      severity: incident.severity,
+      description: redactStudentNames(incident.description, names),
+      location: incident.location,
+      dateTime: incident.dateTime,
+      actionTaken: redactStudentNames(incident.actionTaken, names),
+      followUpRequired: incident.followUpRequired,
+      followUpDate: incident.followUpDate || undefined,
+      parentNotified: participant ? participant.parentNotified : incident.parentNotified,
+      status: incident.status,
+      updatedAt: incident.updatedAt,
+    };
+  }
+
+  /**
+   * Write each student's copy of a saved incident
+   * Copies for students no longer on the incident are removed.
+   * @param incident - Incident that was created or updated
+   * @returns Promise resolving to the students' views
+   * @throws StudentViewServiceError for write failures
+   */
+  public async syncIncident(incident: DisciplineIncident): Promise<StudentIncidentView[]> {
+    try {
+      if (!incident.id) {
+        throw new StudentViewServiceError('Incident has no ID', 'incident-not-saved');
+      }
+
+      const roster = await cacheService.fetchWithCache(
+        CacheStrategy.CACHE_FIRST,
+        `studentView:roster:${incident.schoolId}`,
+        () => studentService.getStudentsBySchool(incident.schoolId),
+        undefined,
+        10 * 60 * 1000
+      );
+
+      const views = incident.participants.map(participant =>
+        this.projectIncident(incident, roster, participant.studentId)
+      );
+      for (const view of views) {
+        await withRetry(() => this.views.put(view));
+      }
+
+      const current = views.map(view => view.id);
+      const existing = await withRetry(() => this.views.findIds(incident.id!));
+      for (const viewId of existing.filter(id => !current.includes(id))) {
+        await withRetry(() => this.views.remove(viewId));
+      }
+
+      return views;
+    } catch (error) {
+      throw StudentViewServiceError.wrap(error, 'sync-incident-failed', 'Failed to update student view', {
+        incidentId: incident.id,
+      });
+    }
+  }
+
+  /**
+   * Remove the students' copies of a deleted incident
+   * @param incidentId - Incident ID
+   * @throws StudentViewServiceError for delete failures
+   */
+  public async removeIncident(incidentId: string): Promise<void> {
+    try {
+      const viewIds = await withRetry(() => this.views.findIds(incidentId));
+      for (const viewId of viewIds) {
+        await withRetry(() => this.views.remove(viewId));
+      }
+    } catch (error) {
+      throw StudentViewServiceError.wrap(error, 'remove-incident-failed', 'Failed to remove student view', {
+        incidentId,
+      });
+    }
+  }
+
+  /**
+   * Get the signed-in student's own incidents
+   * Only incidents in a status the school's policy shows to students are returned.
+   * @param userId - User ID of the student account
+   * @param pageSize - Number of incidents per page
+   * @param lastDoc - Last document of the previous page
+   * @returns Promise resolving to a page of redacted incidents, newest first
+   * @throws StudentViewServiceError if the user is not a linked student account
+   */
+  public async getMyIncidents(
+    userId: string,
+    pageSize: number = 20,
+    lastDoc?: DocumentSnapshot
+  ): Promise<PaginatedStudentIncidentViews> {
+    try {
+      const { studentId, schoolId } = await this.requireStudentAccount(userId);
+      const policy = await this.getPolicy(schoolId);
+
+      if (policy.visibleStatuses.length === 0) {
+        return { incidents: [], hasMore: false };
+      }
+
+      const result = await withRetry(() => this.views.find(studentId, policy.visibleStatuses, pageSize, lastDoc));
+      return { incidents: result.items, hasMore: result.hasMore, lastDoc: result.lastDoc };
+    } catch (error) {
+      throw StudentViewServiceError.wrap(error, 'get-my-incidents-failed', 'Failed to get incidents', { userId });
+    }
+  }
+
+  /**
+   * Get one of the signed-in student's own incidents
+   * @param userId - User ID of the student account
+   * @param incidentId - Incident ID
+   * @returns Promise resolving to the redacted incident, or null if the student cannot see it
+   * @throws StudentViewServiceError if the user is not a linked student account
+   */
+  public async getMyIncident(userId: string, incidentId: string): Promise<StudentIncidentView | null> {
+    try {
+      const { studentId, schoolId } = await this.requireStudentAccount(userId);
+      const policy = await this.getPolicy(schoolId);
+
+      const view =
+        (await withRetry(() => this.views.get(getStudentIncidentViewId(incidentId, studentId)))) ||
+        (await withRetry(() => this.views.get(incidentId)));
+      if (!view || view.studentId !== studentId || !policy.visibleStatuses.includes(view.status)) {
+        return null;
+      }
+      return view;
+    } catch (error) {
+      throw StudentViewServiceError.wrap(error, 'get-my-incident-failed', 'Failed to get incident', {
+        userId,
+        incidentId,
+      });
+    }
+  }
+
+  /**
+   * Get the student record of a student account
+   * @param userId - User ID
+   * @returns Student and school IDs of the account
+   * @throws StudentViewServiceError if the user is not a linked student account
+   */
+  private async requireStudentAccount(userId: string): Promise<{ studentId: string; schoolId: string }> {
+    const user = await userService.getUserProfile(userId);
+    if (!user || user.role !== 'student' || !user.studentId || !user.schoolId) {
+      throw new StudentViewServiceError('Only linked student accounts can view their incidents', 'not-a-student', {
+        userId,
+      });
+    }
+    return { studentId: user.studentId, schoolId: user.schoolId };
+  }
+
+  /**
+   * Check that a user may perform an action
+   * @param userId - User ID
+   * @param action - Permission to check
+   * @throws StudentViewServiceError if the user lacks the permission
+   */
+  private async assertPermission(userId: string, action: string): Promise<void> {
+    const hasPermission = await userService.hasPermission(userId, action);
+    if (!hasPermission) {
+      throw new StudentViewServiceError(
+        `Insufficient permissions to ${action.replace(/-/g, ' ')}`,
+        'insufficient-permissions'
+      );
+    }
+  }
+
+  /**
+   * Map Firestore data to StudentViewPolicy object
+   * @param id - Document ID (the school ID)
+   * @param data - Firestore document data
+   * @returns StudentViewPolicy object
+   */
+  protected mapFirestoreToModel(id: string, data: any): StudentViewPolicy {
+    return {
+      schoolId: data.schoolId || id,
+      visibleStatuses: Array.isArray(data.visibleStatuses) ? data.visibleStatuses : getDefaultVisibleStatuses(),
+      updatedAt: this.timestampToDate(data.updatedAt),
+      updatedBy: data.updatedBy || undefined,
+    };
+  }
+
+  /**
+   * Map StudentViewPolicy object to Firestore data
+   * @param model - StudentViewPolicy object
+   * @returns Firestore data
+   */
+  protected mapModelToFirestore(model: StudentViewPolicy): any {
+    const { updatedAt, ...rest } = model;
+    const data: Record<string, any> = {};
+
+    Object.entries(rest).forEach(([key, value]) => {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    });
+
+    return data;
+  }
+}
+
+/**
+ * Custom error class for student view service errors
+ */
+export class StudentViewServiceError extends Error {
+  public readonly code: string;
+  public readonly context?: Record<string, any>;
+
+  /**
+   * Creates a new StudentViewServiceError
+   * @param message - Error message
+   * @param code - Error code for categorization
+   * @param context - Additional context for debugging
+   */
+  constructor(message: string, code: string = 'unknown-error', context?: Record<string, any>) {
+    super(message);
+    this.name = 'StudentViewServiceError';
+    this.code = code;
+    this.context = context;
+  }
+
+  /**
+   * Wrap an unknown error in a StudentViewServiceError, preserving service errors as-is
+   * @param error - Original error
+   * @param code - Error code to use for unexpected errors
+   * @param message - Message prefix for unexpected errors
+   * @param context - Additional context
+   * @returns StudentViewServiceError
+   */
+  static wrap(
+    error: unknown,
+    code: string,
+    message: string,
+    context?: Record<string, any>
+  ): StudentViewServiceError {
+    if (error instanceof StudentViewServiceError) {
+      return error;
+    }
+
+    if (error instanceof FirestoreError) {
+      return new StudentViewServiceError(`${message}: ${error.message}`, `firestore-${error.code}`, {
+        firestoreCode: error.code,
+        ...context,
+      });
+    }
+
+    return new StudentViewServiceError(`${message}: ${(error as Error)?.message}`, code, {
+      errorType: (error as Error)?.name,
+      ...context,
+    });
+  }
+}
+
+/**
+ * Export singleton instance for easy access
+ */
+export const studentViewService = StudentViewService.getInstance();
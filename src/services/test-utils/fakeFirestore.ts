@@ -0,0 +1,475 @@
+/**
+ * In-Memory Firestore for MCC Discipline Tracker Tests
+ *
+ * This module holds documents in memory and serves the reads and writes of
+ * services built on FirestoreService from them, so services can be tested
+ * without a Firebase project. It supports what the services use: equality,
+ * range, 'in' and 'array-contains' filters, ordering, limits, paging, batched
+ * writes, and the serverTimestamp, arrayUnion, arrayRemove, increment and
+ * deleteField transforms.
+ *
+ * Test code only: nothing in the app imports this folder, so it is never
+ * bundled.
+ *
+ * @fileoverview In-memory Firestore for service tests
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import {
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  QueryConstraint,
+  Timestamp,
+  WriteBatch,
+} from 'firebase/firestore';
+import { FirestoreService, FirestoreServiceError, PaginatedResults } from '../base/firestoreService';
+
+/**
+ * The protected members of FirestoreService that the store stands in for
+ * Mirrors the signatures in base/firestoreService.ts.
+ */
+export interface FirestoreServiceInternals<T> {
+  readonly collectionName: string;
+  mapFirestoreToModel(id: string, data: DocumentData): T;
+  mapModelToFirestore(model: T): DocumentData;
+  getDocument(id: string): Promise<T | null>;
+  createDocument(data: Omit<T, 'id'>, id?: string): Promise<T>;
+  updateDocument(id: string, data: Partial<T>): Promise<T>;
+  deleteDocument(id: string): Promise<void>;
+  queryDocuments(constraints: QueryConstraint[], pageSize?: number, lastDoc?: DocumentSnapshot): Promise<PaginatedResults<T>>;
+  createBatch(): WriteBatch;
+}
+
+/**
+ * The document methods of a service that the store replaces
+ */
+export type FirestoreServiceMethods<T> = Omit<
+  FirestoreServiceInternals<T>,
+  'collectionName' | 'mapFirestoreToModel' | 'mapModelToFirestore'
+>;
+
+/**
+ * Get the protected members of a service
+ * @param service - Service built on FirestoreService
+ * @returns The service, typed with its protected members
+ */
+export const internalsOf = <T>(service: FirestoreService<T>): FirestoreServiceInternals<T> =>
+  service as unknown as FirestoreServiceInternals<T>;
+
+/**
+ * Fields of a where() constraint the SDK keeps internally
+ */
+interface WhereConstraintFields {
+  readonly type: 'where';
+  readonly _field: { canonicalString(): string };
+  readonly _op: string;
+  readonly _value: unknown;
+}
+
+/**
+ * Fields of an orderBy() constraint the SDK keeps internally
+ */
+interface OrderByConstraintFields {
+  readonly type: 'orderBy';
+  readonly _field: { canonicalString(): string };
+  readonly _direction: 'asc' | 'desc';
+}
+
+/**
+ * Fields of a limit() constraint the SDK keeps internally
+ */
+interface LimitConstraintFields {
+  readonly type: 'limit';
+  readonly _limit: number;
+}
+
+/**
+ * Fields of a FieldValue transform (serverTimestamp(), arrayUnion() and so on) the SDK keeps internally
+ */
+interface FieldTransformFields {
+  readonly _methodName: string;
+  readonly _elements?: unknown[];
+  readonly _operand?: number;
+}
+
+/**
+ * A write waiting in a batch
+ */
+interface PendingWrite {
+  type: 'set' | 'update' | 'delete';
+  collection: string;
+  id: string;
+  data?: DocumentData;
+}
+
+/**
+ * Convert a value to what Firestore would store: dates become timestamps
+ * @param value - Value to store
+ * @returns Stored value
+ */
+const toStored = (value: unknown): unknown => {
+  if (value instanceof Date) {
+    return Timestamp.fromDate(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(toStored);
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toStored(item)]));
+  }
+  return value;
+};
+
+/**
+ * Convert a stored value back to what a service works with: timestamps become dates
+ * @param value - Stored value
+ * @returns Value with dates
+ */
+export const fromStored = (value: unknown): unknown => {
+  if (value instanceof Timestamp) {
+    return value.toDate();
+  }
+  if (Array.isArray(value)) {
+    return value.map(fromStored);
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fromStored(item)]));
+  }
+  return value;
+};
+
+/**
+ * Get a comparable value: timestamps and dates compare by time
+ * @param value - Stored or queried value
+ * @returns Comparable value
+ */
+const comparable = (value: unknown): unknown => {
+  if (value instanceof Timestamp) {
+    return value.toMillis();
+  }
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  return value;
+};
+
+const equals = (a: unknown, b: unknown): boolean => JSON.stringify(comparable(a)) === JSON.stringify(comparable(b));
+
+const before = (a: unknown, b: unknown): boolean => (comparable(a) as number | string) < (comparable(b) as number | string);
+
+/**
+ * Apply a field value, resolving write transforms against the current value
+ * @param current - Value currently stored in the field
+ * @param value - Value written, possibly a transform such as arrayUnion
+ * @returns Value to store, or undefined to remove the field
+ */
+const resolveFieldValue = (current: unknown, value: unknown): unknown => {
+  const transform = value as FieldTransformFields | undefined;
+  switch (transform?._methodName) {
+    case 'serverTimestamp':
+      return Timestamp.now();
+    case 'deleteField':
+      return undefined;
+    case 'increment':
+      return (typeof current === 'number' ? current : 0) + (transform._operand || 0);
+    case 'arrayUnion': {
+      const items = Array.isArray(current) ? [...current] : [];
+      (transform._elements || []).forEach(item => {
+        if (!items.some(existing => equals(existing, item))) {
+          items.push(toStored(item));
+        }
+      });
+      return items;
+    }
+    case 'arrayRemove':
+      return (Array.isArray(current) ? current : []).filter(
+        existing => !(transform._elements || []).some(item => equals(existing, item))
+      );
+    default:
+      return toStored(value);
+  }
+};
+
+/**
+ * Write fields into a document; field names may be dotted paths into maps
+ * @param document - Document to change
+ * @param data - Fields to write
+ */
+const writeFields = (document: DocumentData, data: DocumentData): void => {
+  Object.entries(data).forEach(([fieldPath, value]) => {
+    const path = fieldPath.split('.');
+    let target = document;
+    path.slice(0, -1).forEach(segment => {
+      if (!target[segment] || typeof target[segment] !== 'object') {
+        target[segment] = {};
+      }
+      target = target[segment];
+    });
+    const field = path[path.length - 1];
+    const resolved = resolveFieldValue(target[field], value);
+    if (resolved === undefined) {
+      delete target[field];
+    } else {
+      target[field] = resolved;
+    }
+  });
+};
+
+/**
+ * Read a field, following dotted paths into maps
+ * @param document - Document data
+ * @param fieldPath - Field path
+ * @returns Field value
+ */
+const readField = (document: DocumentData, fieldPath: string): unknown =>
+  fieldPath.split('.').reduce<any>((value, segment) => value?.[segment], document);
+
+/**
+ * Check a document against a where() filter
+ * @param document - Document data
+ * @param filter - where() constraint
+ * @returns True if the document matches
+ */
+const matchesFilter = (document: DocumentData, filter: WhereConstraintFields): boolean => {
+  const value = readField(document, filter._field.canonicalString());
+  const expected = filter._value;
+  const options = (Array.isArray(expected) ? expected : []) as unknown[];
+  switch (filter._op) {
+    case '==':
+      return equals(value, expected);
+    case '!=':
+      return value !== undefined && !equals(value, expected);
+    case '<':
+      return value !== undefined && before(value, expected);
+    case '<=':
+      return value !== undefined && !before(expected, value);
+    case '>':
+      return value !== undefined && before(expected, value);
+    case '>=':
+      return value !== undefined && !before(value, expected);
+    case 'in':
+      return options.some(option => equals(value, option));
+    case 'not-in':
+      return value !== undefined && !options.some(option => equals(value, option));
+    case 'array-contains':
+      return Array.isArray(value) && value.some(item => equals(item, expected));
+    case 'array-contains-any':
+      return Array.isArray(value) && value.some(item => options.some(option => equals(item, option)));
+    default:
+      throw new Error(`Unsupported filter ${filter._op}`);
+  }
+};
+
+/**
+ * Batch of writes applied to the store when committed
+ */
+class FakeWriteBatch implements WriteBatch {
+  private readonly writes: PendingWrite[] = [];
+
+  constructor(private readonly store: FakeFirestore) {}
+
+  public set(documentRef: DocumentReference<any, any>, data: DocumentData): WriteBatch {
+    this.writes.push({ type: 'set', collection: documentRef.parent.path, id: documentRef.id, data });
+    return this;
+  }
+
+  public update(documentRef: DocumentReference<any, any>, data: DocumentData | string, ...moreFieldsAndValues: unknown[]): WriteBatch {
+    if (typeof data !== 'object' || moreFieldsAndValues.length > 0) {
+      throw new Error('Only update(ref, data) is supported');
+    }
+    this.writes.push({ type: 'update', collection: documentRef.parent.path, id: documentRef.id, data });
+    return this;
+  }
+
+  public delete(documentRef: DocumentReference<any, any>): WriteBatch {
+    this.writes.push({ type: 'delete', collection: documentRef.parent.path, id: documentRef.id });
+    return this;
+  }
+
+  public async commit(): Promise<void> {
+    this.store.apply(this.writes.splice(0));
+  }
+}
+
+/**
+ * Documents held in memory, by collection path and document ID
+ */
+export class FakeFirestore {
+  private readonly collections = new Map<string, Map<string, DocumentData>>();
+  private readonly commitFailures: Error[] = [];
+  private nextId = 0;
+
+  /**
+   * Get a stored document
+   * @param collection - Collection path
+   * @param id - Document ID
+   * @returns Document data, or undefined if there is no such document
+   */
+  public get(collection: string, id: string): DocumentData | undefined {
+    return this.documentsIn(collection).get(id);
+  }
+
+  /**
+   * Store a document, replacing any document with the same ID
+   * @param collection - Collection path
+   * @param id - Document ID
+   * @param data - Document data; dates are stored as timestamps
+   */
+  public set(collection: string, id: string, data: DocumentData): void {
+    const document = {};
+    writeFields(document, data);
+    this.documentsIn(collection).set(id, document);
+  }
+
+  /**
+   * Change fields of a stored document
+   * @param collection - Collection path
+   * @param id - Document ID
+   * @param data - Fields to write
+   */
+  public update(collection: string, id: string, data: DocumentData): void {
+    this.apply([{ type: 'update', collection, id, data }]);
+  }
+
+  /**
+   * Get the documents in a collection, in the order they were first stored
+   * @param collection - Collection path
+   * @returns Documents with their IDs
+   */
+  public list(collection: string): (DocumentData & { id: string })[] {
+    return Array.from(this.documentsIn(collection), ([id, data]) => ({ ...data, id }));
+  }
+
+  /**
+   * Make the next batch commit fail without writing anything
+   * @param error - Error to fail with
+   */
+  public failNextCommit(error: Error): void {
+    this.commitFailures.push(error);
+  }
+
+  /**
+   * Start a batch of writes to the store
+   * @returns Write batch
+   */
+  public createBatch(): WriteBatch {
+    return new FakeWriteBatch(this);
+  }
+
+  /**
+   * Apply writes together: none are applied if any update is for a missing document
+   * @param writes - Writes to apply
+   * @throws The error queued by failNextCommit, or FirestoreServiceError for a missing document
+   */
+  public apply(writes: PendingWrite[]): void {
+    const failure = this.commitFailures.shift();
+    if (failure) {
+      throw failure;
+    }
+    const missing = writes.find(write => write.type === 'update' && !this.documentsIn(write.collection).has(write.id));
+    if (missing) {
+      throw new FirestoreServiceError(`No document to update: ${missing.collection}/${missing.id}`, 'not-found');
+    }
+    writes.forEach(write => {
+      const documents = this.documentsIn(write.collection);
+      if (write.type === 'delete') {
+        documents.delete(write.id);
+        return;
+      }
+      const document = write.type === 'set' ? {} : documents.get(write.id)!;
+      writeFields(document, write.data!);
+      documents.set(write.id, document);
+    });
+  }
+
+  /**
+   * Get document methods for a service that read and write this store
+   * @param service - Service built on FirestoreService
+   * @returns Replacements for the service's document methods
+   */
+  public methodsFor<T>(service: FirestoreService<T>): FirestoreServiceMethods<T> {
+    const internals = internalsOf(service);
+    const documents = () => this.documentsIn(internals.collectionName);
+    const toModel = (id: string, data: DocumentData) => internals.mapFirestoreToModel(id, data);
+
+    return {
+      getDocument: async id => {
+        const data = documents().get(id);
+        return data ? toModel(id, data) : null;
+      },
+      createDocument: async (model, id = this.generateId()) => {
+        const document = {};
+        writeFields(document, { ...internals.mapModelToFirestore(model as T), createdAt: new Date(), updatedAt: new Date() });
+        documents().set(id, document);
+        return toModel(id, document);
+      },
+      updateDocument: async (id, model) => {
+        const document = documents().get(id);
+        if (!document) {
+          throw new FirestoreServiceError('Document not found after update', 'not-found');
+        }
+        writeFields(document, { ...internals.mapModelToFirestore(model as T), updatedAt: new Date() });
+        return toModel(id, document);
+      },
+      deleteDocument: async id => {
+        documents().delete(id);
+      },
+      queryDocuments: async (constraints, pageSize = 20, lastDoc) => {
+        const matches = this.query(internals.collectionName, constraints);
+        const start = lastDoc ? matches.findIndex(document => document.id === lastDoc.id) + 1 : 0;
+        const page = matches.slice(start, start + pageSize);
+        return {
+          items: page.map(({ id, ...data }) => toModel(id, data)),
+          hasMore: start + pageSize < matches.length,
+          lastDoc: page.length > 0 ? ({ id: page[page.length - 1].id } as DocumentSnapshot) : undefined,
+        };
+      },
+      createBatch: () => this.createBatch(),
+    };
+  }
+
+  /**
+   * Run a query against a collection
+   * @param collection - Collection path
+   * @param constraints - where(), orderBy() and limit() constraints
+   * @returns Matching documents, sorted
+   */
+  private query(collection: string, constraints: QueryConstraint[]): (DocumentData & { id: string })[] {
+    const fields = constraints as unknown as (WhereConstraintFields | OrderByConstraintFields | LimitConstraintFields)[];
+    const filters = fields.filter((constraint): constraint is WhereConstraintFields => constraint.type === 'where');
+    const orderings = fields.filter((constraint): constraint is OrderByConstraintFields => constraint.type === 'orderBy');
+    const limits = fields.filter((constraint): constraint is LimitConstraintFields => constraint.type === 'limit');
+    if (filters.length + orderings.length + limits.length !== constraints.length) {
+      throw new Error('Only where(), orderBy() and limit() constraints are supported');
+    }
+
+    return this.list(collection)
+      .filter(document => filters.every(filter => matchesFilter(document, filter)))
+      .filter(document => orderings.every(ordering => readField(document, ordering._field.canonicalString()) !== undefined))
+      .sort((a, b) => {
+        for (const ordering of orderings) {
+          const field = ordering._field.canonicalString();
+          const left = readField(a, field);
+          const right = readField(b, field);
+          if (!equals(left, right)) {
+            return (before(left, right) ? -1 : 1) * (ordering._direction === 'desc' ? -1 : 1);
+          }
+        }
+        return 0;
+      })
+      .slice(0, Math.min(Infinity, ...limits.map(constraint => constraint._limit)));
+  }
+
+  private documentsIn(collection: string): Map<string, DocumentData> {
+    if (!this.collections.has(collection)) {
+      this.collections.set(collection, new Map());
+    }
+    return this.collections.get(collection)!;
+  }
+
+  private generateId(): string {
+    return `fake${String(++this.nextId).padStart(4, '0')}`;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Service Test Harness for MCC Discipline Tracker
+ *
+ * Runs a test against an in-memory Firestore with the services it depends on
+ * answered from fixtures: incidents, users and their permissions, and
+ * guardian links. Notifications are captured instead of sent. Every
+ * replacement is undone when the test finishes, whether it passes or throws.
+ *
+ * @fileoverview Shared setup for service tests
+ * @author MCC Discipline Tracker Team
+ * @version 1.0.0
+ */
+
+import { FirestoreService } from '../base/firestoreService';
+import { disciplineService, DisciplineIncident } from '../disciplineService';
+import { userService } from '../userService';
+import { guardianService } from '../guardianService';
+import { notificationService, UserNotification } from '../notificationService';
+import { FakeFirestore, fromStored, internalsOf } from './fakeFirestore';
+import { Collections, UserData } from '../../config/firebaseConfig';
+import { UserRole } from '../../config/permissions';
+
+/**
+ * A user the test acts as or refers to
+ */
+export interface TestUser {
+  role: UserRole;
+  /** Actions hasPermission allows for the user */
+  permissions: string[];
+}
+
+/**
+ * Fixtures a test runs with
+ */
+export interface ServiceTestSetup {
+  /** Services whose documents are read from and written to the in-memory store */
+  services: FirestoreService<any>[];
+  /** Incidents in the store, returned by disciplineService.getIncident */
+  incidents?: DisciplineIncident[];
+  /** Users by ID; anyone else has no profile and no permissions */
+  users?: Record<string, TestUser>;
+  /** Parent user IDs with the student IDs they are linked to */
+  guardians?: Record<string, string[]>;
+}
+
+/**
+ * A notification passed to notificationService.notifyUser
+ */
+export interface SentNotification {
+  userId: string;
+  notification: UserNotification;
+}
+
+/**
+ * What a test is given to arrange and inspect its run
+ */
+export interface ServiceTestContext {
+  firestore: FakeFirestore;
+  /** Notifications sent so far, in order */
+  notifications: SentNotification[];
+  /**
+   * Replace a property for the rest of the test
+   * @param target - Object to change
+   * @param key - Property to replace
+   * @param value - Value to use until the test finishes
+   */
+  override<O extends object, K extends keyof O>(target: O, key: K, value: O[K]): void;
+  /**
+   * Run a function when the test finishes
+   * @param cleanup - Function to run
+   */
+  onCleanup(cleanup: () => void): void;
+}
+
+/**
+ * Run a test with its fixtures installed
+ * @param setup - Services and fixtures for the test
+ * @param test - Test body
+ * @returns Result of the test
+ */
+export async function withServiceTest<R>(
+  setup: ServiceTestSetup,
+  test: (context: ServiceTestContext) => Promise<R>
+): Promise<R> {
+  const cleanups: (() => void)[] = [];
+  const override = <O extends object, K extends keyof O>(target: O, key: K, value: O[K]) => {
+    const original = Object.getOwnPropertyDescriptor(target, key);
+    Object.defineProperty(target, key, { value, configurable: true, writable: true });
+    cleanups.push(() => {
+      if (original) {
+        Object.defineProperty(target, key, original);
+      } else {
+        Reflect.deleteProperty(target, key);
+      }
+    });
+  };
+
+  const firestore = new FakeFirestore();
+  const notifications: SentNotification[] = [];
+  const users = setup.users || {};
+  const guardians = setup.guardians || {};
+
+  try {
+    setup.services.forEach(service => {
+      const internals = internalsOf(service);
+      Object.entries(firestore.methodsFor(service)).forEach(([method, implementation]) =>
+        override(internals, method as keyof typeof internals, implementation)
+      );
+    });
+
+    (setup.incidents || []).forEach(({ id, ...incident }) => firestore.set(Collections.INCIDENTS, id!, incident));
+    override(disciplineService, 'getIncident', async incidentId => {
+      const stored = firestore.get(Collections.INCIDENTS, incidentId);
+      return stored ? ({ ...(fromStored(stored) as object), id: incidentId } as DisciplineIncident) : null;
+    });
+
+    const profileOf = (userId: string) =>
+      ({ uid: userId, email: null, displayName: `User ${userId}`, role: users[userId].role, schoolId: 'MCC' } as UserData);
+    override(userService, 'hasPermission', async (userId, action) => (users[userId]?.permissions || []).includes(action));
+    override(userService, 'getUserProfile', async userId => (users[userId] ? profileOf(userId) : null));
+    override(userService, 'getUsersBySchool', async (_schoolId, role) =>
+      Object.keys(users).filter(userId => !role || users[userId].role === role).map(profileOf)
+    );
+    override(guardianService, 'isGuardianOf', async (guardianUserId, studentId) =>
+      (guardians[guardianUserId] || []).includes(studentId)
+    );
+    override(notificationService, 'notifyUser', async (userId, notification) => {
+      notifications.push({ userId, notification });
+      return [];
+    });
+
+    return await test({ firestore, notifications, override, onCleanup: cleanup => cleanups.push(cleanup) });
+  } finally {
+    cleanups.reverse().forEach(cleanup => cleanup());
+  }
+}
+
+/**
+ * Expect a promise to fail with a service error of the given class and code
+ * @param promise - Operation expected to fail
+ * @param errorClass - Expected error class
+ * @param code - Expected error code
+ */
+export async function expectServiceError(
+  promise: Promise<unknown>,
+  errorClass: new (...args: any[]) => Error & { code: string },
+  code: string
+): Promise<void> {
+  try {
+    await promise;
+  } catch (error) {
+    if (!(error instanceof errorClass) || error.code !== code) {
+      throw new Error(`Expected ${code} but got ${(error as { code?: string })?.code}: ${(error as Error)?.message}`);
+    }
+    return;
+  }
+  throw new Error(`Expected ${code} but the operation succeeded`);
+}
@@ -24,12 +24,14 @@ import {
   limit,
   startAfter,
   serverTimestamp,
+  arrayUnion,
   DocumentSnapshot,
   QuerySnapshot,
 } from 'firebase/firestore';
 import { updateProfile, updateEmail, updatePassword } from 'firebase/auth';
-import { db, Collections, UserData } from '../config/firebaseConfig';
+import { db, Collections, UserData, UserRole } from '../config/firebaseConfig';
 import { authService } from './authService';
+import { permissionPolicyService, PermissionContext } from './permissionPolicyService';
 
 /**
  * Interface for user profile update data
@@ -37,15 +39,18 @@ import { authService } from './authService';
 export interface UserProfileUpdate {
   displayName?: string;
   email?: string;
-  role?: 'teacher' | 'admin' | 'principal';
+  phoneNumber?: string;
+  role?: UserRole;
   schoolId?: string;
+  studentId?: string;
+  customRoleIds?: string[];
 }
 
 /**
  * Interface for user search filters
  */
 export interface UserSearchFilters {
-  role?: 'teacher' | 'admin' | 'principal';
+  role?: UserRole;
   schoolId?: string;
   searchTerm?: string;
 }
@@ -96,6 +101,10 @@ export class UserService {
           displayName: data.displayName,
           role: data.role,
           schoolId: data.schoolId,
+          studentId: data.studentId,
+          customRoleIds: data.customRoleIds || [],
+          phoneNumber: data.phoneNumber,
+          pushTokens: data.pushTokens || [],
           createdAt: data.createdAt?.toDate(),
           lastLoginAt: data.lastLoginAt?.toDate(),
         };
@@ -151,6 +160,25 @@ export class UserService {
     }
   }
 
+  /**
+   * Register an Expo push token for one of the user's devices
+   * @param userId - User ID to register the token for
+   * @param pushToken - Expo push token
+   * @returns Promise that resolves when the token is stored
+   * @throws UserServiceError for update failures
+   */
+  public async registerPushToken(userId: string, pushToken: string): Promise<void> {
+    try {
+      await updateDoc(doc(db, Collections.USERS, userId), {
+        pushTokens: arrayUnion(pushToken),
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('Error registering push token:', error);
+      throw new UserServiceError('Failed to register push token', 'register-push-token-failed');
+    }
+  }
+
   /**
    * Change user password
    * @param newPassword - New password
@@ -359,29 +387,21 @@ export class UserService {
 
   /**
    * Check if user has permission for specific action
+   * Permissions are declared in config/permissions; schools can narrow them
+   * and grant more through custom roles (see PermissionPolicyService).
    * @param userId - User ID to check
    * @param action - Action to check permission for
+   * @param context - Incident or student the action is performed on
    * @returns Promise resolving to boolean indicating permission
    */
-  public async hasPermission(userId: string, action: string): Promise<boolean> {
+  public async hasPermission(userId: string, action: string, context?: PermissionContext): Promise<boolean> {
     try {
       const userProfile = await this.getUserProfile(userId);
       if (!userProfile) {
         return false;
       }
 
-      // Define permission matrix
-      const permissions: Record<string, string[]> = {
-        'create-incident': ['teacher', 'admin', 'principal'],
-        'edit-incident': ['admin', 'principal'],
-        'delete-incident': ['admin', 'principal'],
-        'manage-users': ['admin', 'principal'],
-        'view-reports': ['teacher', 'admin', 'principal'],
-        'manage-school': ['principal'],
-      };
-
-      const allowedRoles = permissions[action] || [];
-      return allowedRoles.includes(userProfile.role);
+      return await permissionPolicyService.isAllowed(userProfile, action, context);
     } catch (error) {
       console.error('Error checking user permission:', error);
       return false;